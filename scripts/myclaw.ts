@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+/**
+ * MyClaw command-line entry point.
+ *
+ * Usage:
+ *   node --import tsx scripts/myclaw.ts config validate
+ *   node --import tsx scripts/myclaw.ts config migrate
+ *   node --import tsx scripts/myclaw.ts config get provider.model
+ *   node --import tsx scripts/myclaw.ts config set gateway.port 9000
+ *   node --import tsx scripts/myclaw.ts config unset channels.telegram
+ *   node --import tsx scripts/myclaw.ts config print-effective
+ *   node --import tsx scripts/myclaw.ts profiles list
+ *   node --import tsx scripts/myclaw.ts profiles reset default/primary
+ *
+ * Honours MYCLAW_CONFIG_PATH / MYCLAW_STATE_DIR; `--config <file>` overrides both.
+ */
+
+// Load .env file if present (Node 22 built-in — no dotenv needed)
+try { process.loadEnvFile(); } catch { /* .env not found — rely on shell env */ }
+
+import {
+  runConfigCommand,
+  runProfilesCommand,
+  CONFIG_COMMAND_USAGE,
+  PROFILES_COMMAND_USAGE,
+} from "../src/cli/index.js";
+
+const USAGE = `Usage: myclaw <group> ...
+
+Groups:
+  config    Validate, inspect, and edit myclaw.json
+  profiles  Inspect and reset auth-profile health (cooldowns, disabled keys)
+
+${CONFIG_COMMAND_USAGE}
+
+${PROFILES_COMMAND_USAGE}`;
+
+const [group, ...args] = process.argv.slice(2);
+
+switch (group) {
+  case "config":
+    process.exitCode = runConfigCommand(args);
+    break;
+  case "profiles":
+    process.exitCode = runProfilesCommand(args);
+    break;
+  default:
+    console.error(USAGE);
+    process.exitCode = group === undefined || group === "--help" ? 0 : 1;
+}
@@ -7,10 +7,16 @@
  *   node --import tsx scripts/test-agent.ts                      # interactive mode
  *
  * Reads config from ~/.myclaw/myclaw.json, creates a CLI session,
- * and runs the agent with the given message.
+ * and runs the agent with the given message. With `provider.name: "mock"`
+ * the replies come from a scenario file instead (no API key needed).
+ * With `agent.cassette` the LLM calls are recorded to (or replayed from) a cassette.
  *
  * Set MYCLAW_DEBUG=1 for verbose output (thinking tokens, stack traces, usage per turn).
+ * Warnings and errors are also logged to stderr; the full log (at `logging.level`)
+ * goes to ~/.myclaw/logs/myclaw.log.
  * Set MYCLAW_NO_STREAM=1 to disable streaming (buffered mode).
+ *
+ * Tools listed in `agent.approval.tools` are approved at a y/s/a/N prompt.
  */
 
 // Load .env file if present (Node 22 built-in — no dotenv needed)
@@ -19,8 +25,9 @@ try { process.loadEnvFile(); } catch { /* .env not found — rely on shell env *
 import readline from "node:readline";
 
 import { loadConfig, scaffoldConfigIfMissing } from "../src/config/index.js";
+import { setupLogging } from "../src/logging/index.js";
 import { buildSessionKey } from "../src/sessions/index.js";
-import { runAgent, type AgentRunEvent } from "../src/agent/index.js";
+import { runAgent, type AgentRunEvent, type ToolApprover } from "../src/agent/index.js";
 
 // ── Env flags ──────────────────────────────────────────────────────
 
@@ -66,23 +73,65 @@ function createEventHandler(): (event: AgentRunEvent) => void {
       case "tool_start":
         debug(`[tool:${event.toolName}] started`);
         break;
+      case "tool_denied":
+        log(`  🚫 ${event.toolName} denied: ${event.reason}`);
+        break;
       case "tool_end":
         log(
-          `  ${event.isError ? "❌" : "✅"} ${event.toolName} (${event.durationMs}ms)`,
+          `  ${event.isError ? "❌" : "✅"} ${event.toolName} (${event.durationMs}ms${event.timedOut ? ", timed out" : ""})`,
         );
         break;
       case "retry":
         log(
-          `\n⟳ Retry #${event.attempt}: ${event.reason} → profile "${event.profileId}"`,
+          `\n⟳ Retry #${event.attempt}: ${event.reason} → profile "${event.profileId}"` +
+            (event.waitMs > 0 ? ` in ${Math.ceil(event.waitMs / 1000)}s` : ""),
+        );
+        break;
+      case "provider_fallback":
+        log(
+          `\n⇄ Fallback: ${event.fromProvider}/${event.fromModel} → ` +
+            `${event.toProvider}/${event.toModel} (${event.reason})`,
         );
         break;
       case "compaction":
-        log(`\n📦 Compaction: ${event.oldCount} → ${event.newCount} messages`);
+        log(
+          `\n📦 Compaction (${event.trigger}): ${event.oldCount} → ${event.newCount} messages` +
+            (event.estimatedTokens !== undefined ? ` (~${event.estimatedTokens} tokens estimated)` : ""),
+        );
         break;
     }
   };
 }
 
+// ── Tool approval ──────────────────────────────────────────────────
+
+/** Ask at the terminal. Uses `rl` when a REPL already owns stdin. */
+function createCliApprover(rl?: readline.Interface): ToolApprover {
+  return async (request) => {
+    const prompt = rl ?? readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      const answer = await new Promise<string>((resolve) =>
+        prompt.question(
+          `\n🔐 Allow ${request.toolName}: ${request.subject}\n   [y]es once / [s]ession / [a]lways / [N]o: `,
+          resolve,
+        ),
+      );
+      switch (answer.trim().toLowerCase()) {
+        case "y":
+          return { type: "allow_once" };
+        case "s":
+          return { type: "allow_session" };
+        case "a":
+          return { type: "allow_pattern" };
+        default:
+          return { type: "deny", reason: "denied at the CLI prompt" };
+      }
+    } finally {
+      if (!rl) prompt.close();
+    }
+  };
+}
+
 // ── Session key ────────────────────────────────────────────────────
 
 const sessionKey = buildSessionKey({
@@ -95,9 +144,15 @@ const sessionKey = buildSessionKey({
 
 async function runOnce(message: string): Promise<void> {
   scaffoldConfigIfMissing();
-  const { config, path: configPath } = loadConfig();
+  const { config, path: configPath, migration } = loadConfig();
+  setupLogging(config);
 
   log(`📋 Config: ${configPath}`);
+  if (migration?.pending) {
+    log(
+      `↑ Config is v${migration.fromVersion}, migrated to v${migration.toVersion} in memory — run \`myclaw config migrate\` to update the file`,
+    );
+  }
   log(`🤖 Model: ${config.provider.name}/${config.provider.model}`);
   log(
     `🔑 Profiles: ${config.provider.authProfiles.map((p) => p.id).join(", ")}`,
@@ -113,6 +168,7 @@ async function runOnce(message: string): Promise<void> {
       userMessage: message,
       config,
       onEvent: STREAM ? createEventHandler() : undefined,
+      approver: createCliApprover(),
     });
 
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -156,9 +212,15 @@ async function runOnce(message: string): Promise<void> {
 
 async function runInteractive(): Promise<void> {
   scaffoldConfigIfMissing();
-  const { config, path: configPath } = loadConfig();
+  const { config, path: configPath, migration } = loadConfig();
+  setupLogging(config);
 
   log(`📋 Config: ${configPath}`);
+  if (migration?.pending) {
+    log(
+      `↑ Config is v${migration.fromVersion}, migrated to v${migration.toVersion} in memory — run \`myclaw config migrate\` to update the file`,
+    );
+  }
   log(`🤖 Model: ${config.provider.name}/${config.provider.model}`);
   log(
     `🔑 Profiles: ${config.provider.authProfiles.map((p) => p.id).join(", ")}`,
@@ -195,6 +257,7 @@ async function runInteractive(): Promise<void> {
         userMessage: message,
         config,
         onEvent: STREAM ? createEventHandler() : undefined,
+        approver: createCliApprover(rl),
       });
 
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
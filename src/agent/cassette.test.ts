@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { MyClawConfig } from "../config/index.js";
+
+import type { AgentRunEvent } from "./types.js";
+import {
+  openCassette,
+  resetCassettes,
+  CassetteError,
+  CassetteDivergenceError,
+  type CassetteCall,
+} from "./cassette.js";
+import { resetMockScenarios } from "./mock-provider.js";
+import { runAgent } from "./run.js";
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+const sessionKey = "agent:main:channel:test:account:default:peer:direct:cassette_user";
+
+describe("cassettes", () => {
+  let tmpDir: string;
+  let cassettePath: string;
+  const originalStateDir = process.env.MYCLAW_STATE_DIR;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-cassette-test-"));
+    cassettePath = path.join(tmpDir, "cassettes", "run.jsonl");
+    // Keep sessions and profile health out of the real ~/.myclaw
+    process.env.MYCLAW_STATE_DIR = tmpDir;
+  });
+
+  afterEach(() => {
+    resetCassettes();
+    resetMockScenarios();
+    if (originalStateDir === undefined) delete process.env.MYCLAW_STATE_DIR;
+    else process.env.MYCLAW_STATE_DIR = originalStateDir;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  /** Config for the scripted mock provider, recording or replaying `cassettePath`. */
+  function makeConfig(
+    mode: "record" | "replay",
+    scenario: string,
+    options: { workspace?: string } = {},
+  ): MyClawConfig {
+    // Same file (so the same model ID) for recording and replay
+    const scenarioPath = path.join(tmpDir, "scenario.json5");
+    fs.writeFileSync(scenarioPath, scenario);
+    return {
+      provider: {
+        name: "mock",
+        model: scenarioPath,
+        authProfiles: [
+          { id: "primary", apiKey: "sk-secret-primary" },
+          { id: "secondary", apiKey: "sk-secret-secondary" },
+        ],
+      },
+      agent: {
+        workspaceDir: path.join(tmpDir, options.workspace ?? "workspace"),
+        cassette: { path: cassettePath, mode },
+      },
+    } as MyClawConfig;
+  }
+
+  function readCassette(): CassetteCall[] {
+    return fs
+      .readFileSync(cassettePath, "utf-8")
+      .trim()
+      .split("\n")
+      .slice(1)
+      .map((line) => JSON.parse(line) as CassetteCall);
+  }
+
+  /** Record a run, then forget positions so the cassette can be replayed. */
+  async function record(scenario: string, userMessage: string, options?: { workspace?: string }) {
+    const config = makeConfig("record", scenario, options);
+    const result = await runAgent({ sessionKey, userMessage, config });
+    resetCassettes();
+    resetMockScenarios();
+    fs.rmSync(path.join(tmpDir, "sessions"), { recursive: true, force: true });
+    return result;
+  }
+
+  // A replay must not reach the provider: this scenario would fail every call
+  const unreachable = `{ turns: [{ error: "auth" }] }`;
+
+  // ── Recording ──────────────────────────────────────────────────────
+
+  it("records each call's normalized request and reply", async () => {
+    await record(
+      `{
+        turns: [
+          { toolCalls: [{ name: "write", arguments: { path: "a.txt", content: "x" } }] },
+          { text: "Wrote a.txt." },
+        ],
+      }`,
+      "Write a.txt",
+    );
+
+    const calls = readCassette();
+    expect(calls.map((c) => c.index)).toEqual([0, 1]);
+    expect(calls[0].model.provider).toBe("mock");
+    expect(calls[0].request.messages).toEqual([{ role: "user", content: "Write a.txt" }]);
+    expect(calls[0].request.systemPrompt).toContain("Working directory: <workspace>");
+    expect(calls[0].request.systemPrompt).toContain("Current time: <time>");
+    expect(calls[0].request.tools?.map((t) => t.name)).toContain("write");
+    expect(calls[1].request.messages).toHaveLength(3);
+    expect(calls[1].response).toMatchObject({ content: [{ type: "text", text: "Wrote a.txt." }] });
+  });
+
+  it("redacts config secrets from requests and replies", async () => {
+    await record(
+      `{ turns: [{ text: "Your key is sk-secret-primary" }] }`,
+      "My key is sk-secret-secondary",
+    );
+
+    const raw = fs.readFileSync(cassettePath, "utf-8");
+    expect(raw).not.toContain("sk-secret");
+    expect(raw).toContain("My key is [redacted]");
+    expect(raw).toContain("Your key is [redacted]");
+  });
+
+  it("records provider errors", async () => {
+    await record(`{ turns: [{ error: { preset: "rate_limit", retryAfterMs: 0 } }, { text: "ok" }] }`, "Hi");
+
+    expect(readCassette()[0].error).toEqual({
+      message: "429 Rate limit exceeded",
+      status: 429,
+      retryAfterMs: 0,
+    });
+  });
+
+  // ── Replay ─────────────────────────────────────────────────────────
+
+  it("replays a run without calling the provider", async () => {
+    const recorded = await record(
+      `{
+        turns: [
+          { toolCalls: [{ name: "write", arguments: { path: "a.txt", content: "x" } }] },
+          { deltas: ["Wrote ", "a.txt."] },
+        ],
+      }`,
+      "Write a.txt",
+    );
+
+    // Another workspace (and another time) still matches the recording
+    const events: AgentRunEvent[] = [];
+    const replayed = await runAgent({
+      sessionKey,
+      userMessage: "Write a.txt",
+      config: makeConfig("replay", unreachable, { workspace: "other-workspace" }),
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(replayed.reply).toBe(recorded.reply);
+    expect(fs.readFileSync(path.join(tmpDir, "other-workspace", "a.txt"), "utf-8")).toBe("x");
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "llm_stream",
+        event: expect.objectContaining({ type: "text_end" }),
+      }),
+    );
+  });
+
+  it("replays recorded errors through failover", async () => {
+    await record(
+      `{ turns: [{ error: { preset: "rate_limit", retryAfterMs: 0 } }, { text: "Recovered." }] }`,
+      "Hi",
+    );
+
+    const events: AgentRunEvent[] = [];
+    const result = await runAgent({
+      sessionKey,
+      userMessage: "Hi",
+      config: makeConfig("replay", unreachable),
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(result.reply).toBe("Recovered.");
+    expect(events).toContainEqual(expect.objectContaining({ type: "retry", reason: "rate_limit" }));
+  });
+
+  it("fails loudly when the request diverges from the recording", async () => {
+    await record(`{ turns: [{ text: "Hello!" }] }`, "Say hello to Ada");
+
+    const run = runAgent({
+      sessionKey,
+      userMessage: "Say hello to Bob",
+      config: makeConfig("replay", unreachable),
+    });
+
+    await expect(run).rejects.toThrow(CassetteDivergenceError);
+    await expect(run).rejects.toMatchObject({
+      callIndex: 0,
+      divergencePath: "request.messages[0].content",
+    });
+    await expect(run).rejects.toThrow(/recorded: "Say hello to Ada"\n {2}actual: {3}"Say hello to Bob"/);
+  });
+
+  it("fails when the run makes more calls than were recorded", async () => {
+    await record(`{ turns: [{ text: "Hello!" }] }`, "Hi");
+
+    const config = makeConfig("replay", unreachable);
+    await runAgent({ sessionKey, userMessage: "Hi", config });
+    fs.rmSync(path.join(tmpDir, "sessions"), { recursive: true, force: true });
+
+    await expect(runAgent({ sessionKey, userMessage: "Hi", config })).rejects.toThrow(
+      /more LLM calls than were recorded \(1\)/,
+    );
+  });
+
+  it("rejects a missing or malformed cassette up front", () => {
+    expect(() => openCassette({ path: cassettePath, mode: "replay" })).toThrow(CassetteError);
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+    fs.writeFileSync(cassettePath, `{"type":"call","index":0}\n`);
+    expect(() => openCassette({ path: cassettePath, mode: "replay" })).toThrow(/missing cassette header/);
+  });
+});
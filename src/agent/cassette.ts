@@ -0,0 +1,353 @@
+/**
+ * Record / replay cassettes for LLM traffic.
+ *
+ * With `agent.cassette: { path, mode: "record" }` every `streamLLM()` /
+ * `callLLM()` call — compaction summaries included — is appended to a
+ * JSONL cassette: the request the model saw and the reply (or the error
+ * thrown). With `mode: "replay"` calls are answered from the cassette in
+ * order, without touching the provider, and each request must match its
+ * recording; the first difference fails the run with
+ * `CassetteDivergenceError`, naming where the requests part ways.
+ *
+ * Line 1 is a header, then one line per call:
+ *   {"type":"cassette","version":1,"createdAt":1708000000000}
+ *   {"type":"call","index":0,"model":{...},"request":{...},"response":{...}}
+ *   {"type":"call","index":1,"model":{...},"request":{...},"error":{"message":"...","status":429}}
+ *
+ * Requests are stored normalized so a recording replays on another day and
+ * another machine: message timestamps and tool-result details are dropped,
+ * ISO times become `<time>`, the workspace path `<workspace>`, and the
+ * platform `<platform>`. Config secrets are redacted in requests and
+ * replies.
+ *
+ * Recording starts the file over the first time a process records to it
+ * and appends after that; replay keeps its place per file the same way, so
+ * a multi-message session records and replays as one cassette.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { AssistantMessage, Context, Model } from "@mariozechner/pi-ai";
+
+import { ensureDir, resolveUserPath, redactSecrets, type CassetteConfig } from "../config/index.js";
+
+import type { Cassette } from "./types.js";
+import { CASSETTE_VERSION, TOOL_OUTPUT_DIRNAME } from "./types.js";
+import { classifyErrorDetails } from "./failover.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface CassetteHeader {
+  type: "cassette";
+  version: number;
+  createdAt: number;
+}
+
+/** The request as recorded: normalized and redacted. */
+export interface CassetteRequest {
+  systemPrompt?: string;
+  messages: unknown[];
+  tools?: { name: string; description: string; parameters: unknown }[];
+}
+
+export interface CassetteCall {
+  type: "call";
+  /** 0-based position among the cassette's calls. */
+  index: number;
+  model: { provider: string; id: string };
+  request: CassetteRequest;
+  /** The reply, redacted; the workspace path is stored as `<workspace>`. */
+  response?: AssistantMessage;
+  /** What the call threw instead. */
+  error?: { message: string; status?: number; retryAfterMs?: number };
+}
+
+export interface OpenCassetteOptions {
+  /** Replaced by `<workspace>` in recordings. */
+  workspaceDir?: string;
+  /** Raw secret values to redact (see `collectSecrets()`). */
+  secrets?: readonly string[];
+}
+
+// ── Errors ───────────────────────────────────────────────────────────
+
+/** The cassette is unreadable, or replay ran past its last call. */
+export class CassetteError extends Error {
+  constructor(
+    public readonly cassettePath: string,
+    message: string,
+  ) {
+    super(`Cassette ${cassettePath}: ${message}`);
+    this.name = "CassetteError";
+  }
+}
+
+/** A replayed request differs from its recording. */
+export class CassetteDivergenceError extends CassetteError {
+  constructor(
+    cassettePath: string,
+    public readonly callIndex: number,
+    /** Where the requests first differ, e.g. `request.messages[2].content`. */
+    public readonly divergencePath: string,
+    recorded: string,
+    actual: string,
+  ) {
+    super(
+      cassettePath,
+      `call ${callIndex} diverges from the recording at ${divergencePath}\n` +
+        `  recorded: ${recorded}\n` +
+        `  actual:   ${actual}`,
+    );
+    this.name = "CassetteDivergenceError";
+  }
+}
+
+/** A provider error from the recording, thrown again on replay. */
+export class ReplayedProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly headers?: Record<string, string>,
+  ) {
+    super(message);
+    this.name = "ReplayedProviderError";
+  }
+}
+
+// ── Position per file ────────────────────────────────────────────────
+
+/** Next call index per cassette file (started for recording, or replaying). */
+const positions = new Map<string, number>();
+
+/**
+ * Forget cassette positions, so the next run records each file from
+ * scratch or replays it from the first call.
+ */
+export function resetCassettes(): void {
+  positions.clear();
+}
+
+// ── Normalization ────────────────────────────────────────────────────
+
+const WORKSPACE_PLACEHOLDER = "<workspace>";
+const ISO_TIME = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g;
+const SPILL_TIME = new RegExp(`${TOOL_OUTPUT_DIRNAME.replace(".", "\\.")}/\\d+-`, "g");
+
+/** Apply `fn` to every string in a JSON-like value. */
+function mapStrings(value: unknown, fn: (s: string) => string): unknown {
+  if (typeof value === "string") return fn(value);
+  if (Array.isArray(value)) return value.map((v) => mapStrings(v, fn));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+  }
+  return value;
+}
+
+function replaceAll(text: string, search: string | undefined, replacement: string): string {
+  return search && text.includes(search) ? text.split(search).join(replacement) : text;
+}
+
+/** Secrets redacted, the workspace path replaced by its placeholder. */
+function redactForCassette(text: string, options: OpenCassetteOptions): string {
+  return replaceAll(redactSecrets(text, options.secrets ?? []), options.workspaceDir, WORKSPACE_PLACEHOLDER);
+}
+
+function normalizeRequest(context: Context, options: OpenCassetteOptions): CassetteRequest {
+  const platform = `${os.platform()} ${os.arch()}`;
+  const request: CassetteRequest = {
+    systemPrompt: context.systemPrompt,
+    messages: context.messages.map((message) => {
+      // Timestamps differ per run; details never reach the provider
+      const { timestamp: _timestamp, ...rest } = message;
+      if (rest.role === "toolResult") delete rest.details;
+      return rest;
+    }),
+    tools: context.tools?.map((t) => ({
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+    })),
+  };
+  // JSON round trip drops functions and undefined fields, as the file would
+  const plain = JSON.parse(JSON.stringify(request)) as CassetteRequest;
+  return mapStrings(plain, (s) =>
+    replaceAll(redactForCassette(s, options), platform, "<platform>")
+      .replace(ISO_TIME, "<time>")
+      .replace(SPILL_TIME, `${TOOL_OUTPUT_DIRNAME}/<time>-`),
+  ) as CassetteRequest;
+}
+
+// ── Divergence ───────────────────────────────────────────────────────
+
+interface Difference {
+  path: string;
+  recorded: unknown;
+  actual: unknown;
+}
+
+/** The first place `recorded` and `actual` differ, depth first. */
+function findDifference(recorded: unknown, actual: unknown, at: string): Difference | undefined {
+  if (Array.isArray(recorded) && Array.isArray(actual)) {
+    for (let i = 0; i < Math.max(recorded.length, actual.length); i++) {
+      const diff = findDifference(recorded[i], actual[i], `${at}[${i}]`);
+      if (diff) return diff;
+    }
+    return undefined;
+  }
+  const isRecord = (v: unknown): v is Record<string, unknown> =>
+    v !== null && typeof v === "object" && !Array.isArray(v);
+  if (isRecord(recorded) && isRecord(actual)) {
+    for (const key of new Set([...Object.keys(recorded), ...Object.keys(actual)])) {
+      const diff = findDifference(recorded[key], actual[key], `${at}.${key}`);
+      if (diff) return diff;
+    }
+    return undefined;
+  }
+  return recorded === actual ? undefined : { path: at, recorded, actual };
+}
+
+const SNIPPET_CHARS = 80;
+
+/** Short rendering of a differing value; strings are cut around `offset`. */
+function describeValue(value: unknown, offset: number): string {
+  if (value === undefined) return "(missing)";
+  if (typeof value !== "string") {
+    const json = JSON.stringify(value);
+    return json.length > SNIPPET_CHARS * 2 ? `${json.slice(0, SNIPPET_CHARS * 2)}…` : json;
+  }
+  const start = Math.max(0, offset - SNIPPET_CHARS / 2);
+  const end = start + SNIPPET_CHARS;
+  const snippet = JSON.stringify(value.slice(start, end));
+  return `${start > 0 ? "…" : ""}${snippet}${end < value.length ? "…" : ""}`;
+}
+
+function firstDifferentChar(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+// ── Cassette file ────────────────────────────────────────────────────
+
+function readCalls(cassettePath: string): CassetteCall[] {
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(cassettePath, "utf-8").split("\n").filter((l) => l.trim() !== "");
+  } catch (err) {
+    throw new CassetteError(cassettePath, err instanceof Error ? err.message : String(err));
+  }
+  const records = lines.map((line, i) => {
+    try {
+      return JSON.parse(line) as CassetteHeader | CassetteCall;
+    } catch {
+      throw new CassetteError(cassettePath, `line ${i + 1} is not valid JSON`);
+    }
+  });
+  const header = records[0];
+  if (header?.type !== "cassette") throw new CassetteError(cassettePath, "missing cassette header");
+  if (header.version !== CASSETTE_VERSION) {
+    throw new CassetteError(cassettePath, `unsupported version ${header.version}`);
+  }
+  return records.filter((r): r is CassetteCall => r.type === "call");
+}
+
+/**
+ * Open the cassette named by `agent.cassette` for one run. The file is read
+ * now for replay; recording creates it on the first call.
+ * @throws CassetteError if a replay cassette is missing or malformed.
+ */
+export function openCassette(config: CassetteConfig, options: OpenCassetteOptions = {}): Cassette {
+  const cassettePath = resolveUserPath(config.path);
+  const calls = config.mode === "replay" ? readCalls(cassettePath) : [];
+  const restoreWorkspace = (message: AssistantMessage): AssistantMessage => {
+    const { workspaceDir } = options;
+    if (!workspaceDir) return message;
+    return mapStrings(message, (s) => replaceAll(s, WORKSPACE_PLACEHOLDER, workspaceDir)) as AssistantMessage;
+  };
+
+  return {
+    path: cassettePath,
+    mode: config.mode,
+
+    async record(model, context, send) {
+      const request = normalizeRequest(context, options);
+      if (!positions.has(cassettePath)) {
+        ensureDir(path.dirname(cassettePath));
+        const header: CassetteHeader = {
+          type: "cassette",
+          version: CASSETTE_VERSION,
+          createdAt: Date.now(),
+        };
+        fs.writeFileSync(cassettePath, JSON.stringify(header) + "\n", "utf-8");
+        positions.set(cassettePath, 0);
+      }
+      const index = positions.get(cassettePath)!;
+      positions.set(cassettePath, index + 1);
+
+      const call: CassetteCall = {
+        type: "call",
+        index,
+        model: { provider: model.provider, id: model.id },
+        request,
+      };
+      const append = (): void => fs.appendFileSync(cassettePath, JSON.stringify(call) + "\n", "utf-8");
+
+      try {
+        const message = await send();
+        call.response = mapStrings(message, (s) => redactForCassette(s, options)) as AssistantMessage;
+        append();
+        return message;
+      } catch (err) {
+        const { status, retryAfterMs } = classifyErrorDetails(err);
+        const message = err instanceof Error ? err.message : String(err);
+        call.error = { message: redactForCassette(message, options), status, retryAfterMs };
+        append();
+        throw err;
+      }
+    },
+
+    replay(model, context) {
+      const index = positions.get(cassettePath) ?? 0;
+      const call = calls[index];
+      if (!call) {
+        throw new CassetteError(
+          cassettePath,
+          `the run made more LLM calls than were recorded (${calls.length})`,
+        );
+      }
+      positions.set(cassettePath, index + 1);
+
+      const diff = findDifference(
+        { model: call.model, request: call.request },
+        { model: { provider: model.provider, id: model.id }, request: normalizeRequest(context, options) },
+        "",
+      );
+      if (diff) {
+        const offset =
+          typeof diff.recorded === "string" && typeof diff.actual === "string"
+            ? firstDifferentChar(diff.recorded, diff.actual)
+            : 0;
+        throw new CassetteDivergenceError(
+          cassettePath,
+          index,
+          diff.path.slice(1),
+          describeValue(diff.recorded, offset),
+          describeValue(diff.actual, offset),
+        );
+      }
+
+      if (call.error) {
+        const { message, status, retryAfterMs } = call.error;
+        throw new ReplayedProviderError(
+          message,
+          status,
+          retryAfterMs !== undefined ? { "retry-after-ms": String(retryAfterMs) } : undefined,
+        );
+      }
+      if (!call.response) throw new CassetteError(cassettePath, `call ${index} has no response`);
+      return restoreWorkspace(call.response);
+    },
+  };
+}
@@ -14,6 +14,11 @@ import {
   buildCompactionPrompt,
   compactMessages,
   truncateOversizedToolResults,
+  createSummaryMessage,
+  getSummaryText,
+  buildStructuredCompactionPrompt,
+  findCompactionSplit,
+  STRUCTURED_SUMMARY_SECTIONS,
 } from "./context-guard.js";
 
 // ── Helpers ──────────────────────────────────────────────────────────
@@ -44,6 +49,17 @@ function mkAssistant(text: string): AssistantMessage {
   };
 }
 
+function mkToolCall(name: string, args: Record<string, unknown>, text = ""): AssistantMessage {
+  return {
+    ...mkAssistant(text),
+    content: [
+      ...(text ? [{ type: "text" as const, text }] : []),
+      { type: "toolCall", id: `call_${name}`, name, arguments: args },
+    ],
+    stopReason: "toolUse",
+  };
+}
+
 function mkToolResult(
   toolName: string,
   text: string,
@@ -223,6 +239,24 @@ describe("buildCompactionPrompt", () => {
   });
 });
 
+// ── Summary messages ─────────────────────────────────────────────────
+
+describe("createSummaryMessage / getSummaryText", () => {
+  it("round-trips the summary text", () => {
+    const msg = createSummaryMessage("We fixed the parser.", 42);
+    expect(msg).toEqual({
+      role: "user",
+      content: "[Conversation summary]\nWe fixed the parser.",
+      timestamp: 42,
+    });
+    expect(getSummaryText(msg)).toBe("We fixed the parser.");
+  });
+
+  it("returns undefined for other messages", () => {
+    expect(getSummaryText(mkUser("hello"))).toBeUndefined();
+  });
+});
+
 // ── compactMessages ──────────────────────────────────────────────────
 
 describe("compactMessages", () => {
@@ -317,6 +351,134 @@ describe("compactMessages", () => {
     const result = await compactMessages(messages, mockSummarize);
     expect(result).toBe(messages);
   });
+
+  it("never separates tool results from their call at the boundary", async () => {
+    const messages: Message[] = [
+      mkUser("old"),
+      mkToolCall("read", { path: "a.ts" }),
+      mkToolResult("read", "contents"),
+      mkAssistant("done"),
+    ];
+    // recentCount 2 would start the kept part at the tool result
+    const result = await compactMessages(messages, mockSummarize, 2);
+    expect(result.slice(1)).toEqual(messages.slice(1));
+  });
+
+  it("merges into an existing summary instead of summarizing it", async () => {
+    let receivedPrompt = "";
+    const spy = async (prompt: string) => {
+      receivedPrompt = prompt;
+      return "merged summary";
+    };
+    const messages: Message[] = [
+      createSummaryMessage("## Goals\nFix the parser"),
+      mkUser("also fix the lexer"),
+      mkAssistant("ok"),
+      mkUser("recent"),
+    ];
+
+    const result = await compactMessages(messages, spy, 1);
+
+    expect(receivedPrompt).toContain("<existing-summary>\n## Goals\nFix the parser\n</existing-summary>");
+    expect(receivedPrompt).not.toContain("[Conversation summary]");
+    expect(receivedPrompt).toContain("User: also fix the lexer");
+    expect(result.map((m) => getSummaryText(m) ?? (m as UserMessage).content)).toEqual([
+      "merged summary",
+      "recent",
+    ]);
+  });
+
+  it("does not re-summarize when only the existing summary is old", async () => {
+    const messages: Message[] = [createSummaryMessage("s"), mkUser("a"), mkUser("b")];
+    const result = await compactMessages(messages, mockSummarize, 2);
+    expect(result).toBe(messages);
+  });
+
+  it("uses the simple prompt in simple mode", async () => {
+    let receivedPrompt = "";
+    const spy = async (prompt: string) => {
+      receivedPrompt = prompt;
+      return "summary";
+    };
+    await compactMessages([mkUser("a"), mkUser("b")], spy, 1, { mode: "simple" });
+    expect(receivedPrompt).toContain("Provide a concise summary (1-3 paragraphs):");
+    expect(receivedPrompt).not.toContain("## Goals");
+  });
+});
+
+// ── findCompactionSplit ──────────────────────────────────────────────
+
+describe("findCompactionSplit", () => {
+  it("keeps recentCount messages when the boundary is clean", () => {
+    const messages = [mkUser("a"), mkAssistant("b"), mkUser("c"), mkAssistant("d")];
+    expect(findCompactionSplit(messages, 2)).toBe(2);
+  });
+
+  it("moves back past consecutive tool results to their call", () => {
+    const messages = [
+      mkUser("a"),
+      mkToolCall("read", {}),
+      mkToolResult("read", "1"),
+      mkToolResult("read", "2"),
+      mkAssistant("done"),
+    ];
+    expect(findCompactionSplit(messages, 2)).toBe(1);
+  });
+
+  it("returns 0 when there are fewer messages than recentCount", () => {
+    expect(findCompactionSplit([mkUser("a")], 5)).toBe(0);
+  });
+});
+
+// ── buildStructuredCompactionPrompt ──────────────────────────────────
+
+describe("buildStructuredCompactionPrompt", () => {
+  it("asks for every section in order", () => {
+    const prompt = buildStructuredCompactionPrompt([mkUser("hello")]);
+    const positions = STRUCTURED_SUMMARY_SECTIONS.map((s) => prompt.indexOf(`## ${s}`));
+    expect(positions.every((p) => p > -1)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+  });
+
+  it("includes tool calls with their arguments", () => {
+    const prompt = buildStructuredCompactionPrompt([
+      mkToolCall("edit", { path: "src/parser.ts" }, "Fixing the parser."),
+    ]);
+    expect(prompt).toContain("Assistant: Fixing the parser.");
+    expect(prompt).toContain('Assistant → edit({"path":"src/parser.ts"})');
+  });
+
+  it("keeps the head and tail of long tool output and marks errors", () => {
+    const output = "START" + "x".repeat(10_000) + "END: TypeError at line 42";
+    const prompt = buildStructuredCompactionPrompt([
+      mkToolResult("bash", output, { isError: true }),
+    ]);
+    const line = prompt.split("\n").find((l) => l.startsWith("Tool (bash, error):"))!;
+    expect(line).toContain("START");
+    expect(line).toContain("END: TypeError at line 42");
+    expect(line).toMatch(/chars omitted/);
+    expect(line.length).toBeLessThan(2_200);
+  });
+
+  it("renders array user content instead of a placeholder", () => {
+    const msg: UserMessage = {
+      role: "user",
+      content: [
+        { type: "text", text: "What is in this screenshot?" },
+        { type: "image", data: "abc", mimeType: "image/png" },
+      ],
+      timestamp: 0,
+    };
+    const prompt = buildStructuredCompactionPrompt([msg]);
+    expect(prompt).toContain("User: What is in this screenshot? [image]");
+    expect(prompt).not.toContain("[complex content]");
+  });
+
+  it("asks to update an existing summary", () => {
+    const prompt = buildStructuredCompactionPrompt([mkUser("next")], "## Goals\nShip v2");
+    expect(prompt).toContain("Update the existing summary");
+    expect(prompt).toContain("<existing-summary>\n## Goals\nShip v2\n</existing-summary>");
+  });
 });
 
 // ── truncateOversizedToolResults ─────────────────────────────────────
@@ -9,8 +9,20 @@
  *      openclaw/src/agents/context-window-guard.ts
  */
 
-import type { Message, UserMessage, ToolResultMessage, TextContent } from "@mariozechner/pi-ai";
-import { COMPACTION_SAFETY_MARGIN, DEFAULT_MAX_TOOL_RESULT_TRUNCATE_CHARS } from "./types.js";
+import type {
+  Message,
+  UserMessage,
+  ToolResultMessage,
+  TextContent,
+  ImageContent,
+  ToolCall,
+} from "@mariozechner/pi-ai";
+import {
+  COMPACTION_TOOL_ARGS_CHARS,
+  COMPACTION_TOOL_OUTPUT_CHARS,
+  DEFAULT_COMPACTION_RECENT_COUNT,
+  DEFAULT_MAX_TOOL_RESULT_TRUNCATE_CHARS,
+} from "./types.js";
 
 // ── Overflow detection ───────────────────────────────────────────────
 
@@ -46,18 +58,77 @@ export function detectContextOverflow(errorOrMessage: unknown): boolean {
 
 // ── Level 1: Compact messages ────────────────────────────────────────
 
+/** Content prefix of the user message that stands in for compacted history. */
+export const COMPACTION_SUMMARY_PREFIX = "[Conversation summary]\n";
+
+/**
+ * Build the user message that carries a compaction summary.
+ */
+export function createSummaryMessage(summary: string, timestamp: number = Date.now()): UserMessage {
+  return { role: "user", content: COMPACTION_SUMMARY_PREFIX + summary, timestamp };
+}
+
+/**
+ * The summary text of a message built by `createSummaryMessage()`, or
+ * `undefined` for any other message.
+ */
+export function getSummaryText(message: Message): string | undefined {
+  if (message.role !== "user" || typeof message.content !== "string") return undefined;
+  if (!message.content.startsWith(COMPACTION_SUMMARY_PREFIX)) return undefined;
+  return message.content.slice(COMPACTION_SUMMARY_PREFIX.length);
+}
+
 /**
  * Callback type for the LLM summariser used by compaction.
  * Receives a prompt asking to summarize the old messages and returns a summary string.
  */
 export type SummarizeFunction = (prompt: string) => Promise<string>;
 
+/**
+ * `structured`: Markdown sections (goals, decisions, files touched, open
+ * TODOs, important tool outputs). `simple`: 1-3 free-form paragraphs.
+ */
+export type CompactionMode = "structured" | "simple";
+
+export interface CompactMessagesOptions {
+  /** Summary format (default `structured`). */
+  mode?: CompactionMode;
+}
+
+/** Sections of a structured summary, in order. */
+export const STRUCTURED_SUMMARY_SECTIONS = [
+  "Goals",
+  "Decisions",
+  "Files touched",
+  "Open TODOs",
+  "Important tool outputs",
+] as const;
+
+function textOf(content: readonly (TextContent | ImageContent)[]): string {
+  return content.map((c) => (c.type === "text" ? c.text : "[image]")).join(" ");
+}
+
+/** Keep the head and tail of long text — errors and results tend to sit at either end. */
+function clip(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const head = Math.ceil(maxChars * 0.75);
+  const tail = maxChars - head;
+  return `${text.slice(0, head)} …[${text.length - maxChars} chars omitted]… ${text.slice(-tail)}`;
+}
+
 /**
  * Build a text prompt asking the LLM to summarize old messages.
+ *
+ * With `previousSummary`, the LLM is asked to merge the new messages into
+ * it rather than summarize it again.
  */
-export function buildCompactionPrompt(messages: Message[]): string {
+export function buildCompactionPrompt(messages: Message[], previousSummary?: string): string {
   const lines: string[] = [];
   lines.push("Summarize the following conversation concisely, preserving key facts, decisions, and any pending tasks:\n");
+  if (previousSummary !== undefined) {
+    lines.push("Summary of the earlier conversation — merge the messages below into it:");
+    lines.push(previousSummary, "");
+  }
 
   for (const msg of messages) {
     if (msg.role === "user") {
@@ -80,39 +151,110 @@ export function buildCompactionPrompt(messages: Message[]): string {
   return lines.join("\n");
 }
 
+/**
+ * Build a prompt for a sectioned summary that keeps what a coding session
+ * needs to continue: tool calls with their arguments, tool output (head and
+ * tail), exact paths and identifiers.
+ *
+ * With `previousSummary`, the LLM updates that summary section by section
+ * instead of summarizing it as conversation.
+ */
+export function buildStructuredCompactionPrompt(
+  messages: Message[],
+  previousSummary?: string,
+): string {
+  const lines: string[] = [];
+  lines.push(
+    previousSummary === undefined
+      ? "Summarize the conversation below so the work can continue without it."
+      : "Update the existing summary with the newer conversation below so the work can continue without either.",
+    "Use exactly these Markdown sections, in this order (write \"None\" under an empty one):",
+    "",
+    ...STRUCTURED_SUMMARY_SECTIONS.map((s) => `## ${s}`),
+    "",
+    "Keep file paths, identifiers, commands, error messages, and numbers verbatim.",
+    "Under \"Files touched\", list each path with what was done to it.",
+    "Under \"Open TODOs\", list what is still pending or was promised to the user.",
+  );
+  if (previousSummary !== undefined) {
+    lines.push(
+      "Keep everything in the existing summary that is still true, update what changed, and drop TODOs that were completed.",
+      "",
+      "<existing-summary>",
+      previousSummary,
+      "</existing-summary>",
+    );
+  }
+
+  lines.push("", "<conversation>");
+  for (const msg of messages) {
+    if (msg.role === "user") {
+      lines.push(`User: ${typeof msg.content === "string" ? msg.content : textOf(msg.content)}`);
+    } else if (msg.role === "assistant") {
+      const text = msg.content
+        .filter((c): c is TextContent => c.type === "text")
+        .map((c) => c.text)
+        .join(" ");
+      if (text) lines.push(`Assistant: ${text}`);
+      for (const call of msg.content.filter((c): c is ToolCall => c.type === "toolCall")) {
+        lines.push(
+          `Assistant → ${call.name}(${clip(JSON.stringify(call.arguments), COMPACTION_TOOL_ARGS_CHARS)})`,
+        );
+      }
+    } else if (msg.role === "toolResult") {
+      const label = msg.isError ? `${msg.toolName}, error` : msg.toolName;
+      lines.push(`Tool (${label}): ${clip(textOf(msg.content), COMPACTION_TOOL_OUTPUT_CHARS)}`);
+    }
+  }
+  lines.push("</conversation>");
+
+  return lines.join("\n");
+}
+
+/**
+ * Index where the recent (kept) messages start: `recentCount` from the end,
+ * moved back so a tool result is never separated from the assistant
+ * message that called it.
+ */
+export function findCompactionSplit(messages: readonly Message[], recentCount: number): number {
+  let split = messages.length - recentCount;
+  while (split > 0 && messages[split].role === "toolResult") split--;
+  return Math.max(split, 0);
+}
+
 /**
  * Level 1 compaction: split messages into old + recent, summarize old via LLM,
  * return `[summaryUserMsg, ...recent]`.
  *
- * The `recentCount` most-recent messages are preserved as-is.
- * Safety margin: we note that token estimates can be ~20% off.
+ * At least the `recentCount` most-recent messages are preserved as-is (more
+ * if the boundary would split a tool call from its result). If the old
+ * messages start with an earlier summary, the new summary is merged into
+ * it. Returns `messages` unchanged if there is nothing to compact.
  */
 export async function compactMessages(
   messages: Message[],
   summarize: SummarizeFunction,
-  recentCount: number = 10,
+  recentCount: number = DEFAULT_COMPACTION_RECENT_COUNT,
+  options: CompactMessagesOptions = {},
 ): Promise<Message[]> {
-  if (messages.length <= recentCount) {
+  const splitIndex = findCompactionSplit(messages, recentCount);
+  const previousSummary = messages.length > 0 ? getSummaryText(messages[0]) : undefined;
+  const firstOld = previousSummary === undefined ? 0 : 1;
+  if (splitIndex <= firstOld) {
     // Nothing to compact
     return messages;
   }
 
-  const splitIndex = messages.length - recentCount;
-  const oldMessages = messages.slice(0, splitIndex);
+  const oldMessages = messages.slice(firstOld, splitIndex);
   const recentMessages = messages.slice(splitIndex);
 
-  const prompt = buildCompactionPrompt(oldMessages);
+  const prompt =
+    (options.mode ?? "structured") === "structured"
+      ? buildStructuredCompactionPrompt(oldMessages, previousSummary)
+      : buildCompactionPrompt(oldMessages, previousSummary);
   const summary = await summarize(prompt);
 
-  // Pad summary to account for safety margin (the estimate that triggered
-  // compaction may have been ~20% off, so the summary should be conservative)
-  const summaryMsg: UserMessage = {
-    role: "user",
-    content: `[Conversation summary]\n${summary}`,
-    timestamp: Date.now(),
-  };
-
-  return [summaryMsg, ...recentMessages];
+  return [createSummaryMessage(summary), ...recentMessages];
 }
 
 // ── Level 2: Truncate oversized tool results ─────────────────────────
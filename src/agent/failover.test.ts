@@ -2,14 +2,23 @@ import { describe, it, expect } from "vitest";
 
 import {
   classifyError,
+  classifyErrorDetails,
+  getRetryAfterMs,
   isRetriable,
+  isProviderFailoverReason,
   nextProfileIndex,
   createProfileStates,
   isProfileCoolingDown,
+  isProfileDisabled,
   markProfileFailed,
   markProfileGood,
 } from "./failover.js";
-import { BASE_COOLDOWN_MS, MAX_COOLDOWN_MS } from "./types.js";
+import {
+  BASE_COOLDOWN_MS,
+  MAX_COOLDOWN_MS,
+  MAX_RETRY_AFTER_MS,
+  PROFILE_DISABLE_THRESHOLD,
+} from "./types.js";
 import type { FailoverReason, ProfileState } from "./types.js";
 
 // ── classifyError ─────────────────────────────────────────────────────
@@ -175,6 +184,103 @@ describe("classifyError", () => {
   });
 });
 
+// ── getRetryAfterMs ──────────────────────────────────────────────────
+
+describe("getRetryAfterMs", () => {
+  const NOW = Date.parse("2026-01-01T00:00:00Z");
+
+  function errWithHeaders(headers: Record<string, string>, status = 429) {
+    return Object.assign(new Error("rate limited"), { status, headers });
+  }
+
+  it("reads retry-after seconds", () => {
+    expect(getRetryAfterMs(errWithHeaders({ "retry-after": "23" }), NOW)).toBe(23_000);
+  });
+
+  it("reads retry-after as an HTTP date", () => {
+    const err = errWithHeaders({ "retry-after": "Thu, 01 Jan 2026 00:00:30 GMT" });
+    expect(getRetryAfterMs(err, NOW)).toBe(30_000);
+  });
+
+  it("prefers retry-after-ms over retry-after", () => {
+    const err = errWithHeaders({ "retry-after-ms": "1500", "retry-after": "2" });
+    expect(getRetryAfterMs(err, NOW)).toBe(1500);
+  });
+
+  it("matches header names case-insensitively", () => {
+    expect(getRetryAfterMs(errWithHeaders({ "Retry-After": "5" }), NOW)).toBe(5000);
+  });
+
+  it("reads a fetch Headers object", () => {
+    const err = Object.assign(new Error("x"), { headers: new Headers({ "retry-after": "7" }) });
+    expect(getRetryAfterMs(err, NOW)).toBe(7000);
+  });
+
+  it("reads err.response.headers", () => {
+    const err = { response: { status: 429, headers: { "retry-after": "3" } } };
+    expect(getRetryAfterMs(err, NOW)).toBe(3000);
+  });
+
+  it("uses the reset of the exhausted anthropic-ratelimit limit", () => {
+    const err = errWithHeaders({
+      "anthropic-ratelimit-requests-remaining": "12",
+      "anthropic-ratelimit-requests-reset": "2026-01-01T00:00:05Z",
+      "anthropic-ratelimit-tokens-remaining": "0",
+      "anthropic-ratelimit-tokens-reset": "2026-01-01T00:00:40Z",
+    });
+    expect(getRetryAfterMs(err, NOW)).toBe(40_000);
+  });
+
+  it("parses x-ratelimit-reset-* durations", () => {
+    const err = errWithHeaders({
+      "x-ratelimit-remaining-requests": "0",
+      "x-ratelimit-reset-requests": "1m2.5s",
+      "x-ratelimit-remaining-tokens": "900",
+      "x-ratelimit-reset-tokens": "20ms",
+    });
+    expect(getRetryAfterMs(err, NOW)).toBe(62_500);
+  });
+
+  it("uses the longest reset when remaining counts are not reported", () => {
+    const err = errWithHeaders({ "x-ratelimit-reset-requests": "6m0s", "x-ratelimit-reset-tokens": "2s" });
+    expect(getRetryAfterMs(err, NOW)).toBe(360_000);
+  });
+
+  it("ignores resets of limits that still have capacity", () => {
+    const err = errWithHeaders({
+      "anthropic-ratelimit-requests-remaining": "5",
+      "anthropic-ratelimit-requests-reset": "2026-01-01T00:00:05Z",
+    });
+    expect(getRetryAfterMs(err, NOW)).toBeUndefined();
+  });
+
+  it("clamps to [0, MAX_RETRY_AFTER_MS]", () => {
+    expect(getRetryAfterMs(errWithHeaders({ "retry-after": "86400" }), NOW)).toBe(MAX_RETRY_AFTER_MS);
+    const past = errWithHeaders({ "retry-after": "Wed, 31 Dec 2025 23:59:00 GMT" });
+    expect(getRetryAfterMs(past, NOW)).toBe(0);
+  });
+
+  it("returns undefined without headers or with unparseable values", () => {
+    expect(getRetryAfterMs(new Error("429 Too Many Requests"), NOW)).toBeUndefined();
+    expect(getRetryAfterMs(errWithHeaders({ "retry-after": "soon" }), NOW)).toBeUndefined();
+    expect(getRetryAfterMs(errWithHeaders({ "x-ratelimit-reset-tokens": "2 minutes" }), NOW)).toBeUndefined();
+  });
+});
+
+describe("classifyErrorDetails", () => {
+  it("returns reason, status, and the requested wait", () => {
+    const err = Object.assign(new Error("rate limited"), {
+      status: 429,
+      headers: { "retry-after": "23" },
+    });
+    expect(classifyErrorDetails(err)).toEqual({ reason: "rate_limit", status: 429, retryAfterMs: 23_000 });
+  });
+
+  it("omits fields that are not available", () => {
+    expect(classifyErrorDetails(new Error("socket hang up"))).toEqual({ reason: "timeout" });
+  });
+});
+
 // ── isRetriable ───────────────────────────────────────────────────────
 
 describe("isRetriable", () => {
@@ -191,6 +297,22 @@ describe("isRetriable", () => {
   });
 });
 
+// ── isProviderFailoverReason ─────────────────────────────────────────
+
+describe("isProviderFailoverReason", () => {
+  it.each<[FailoverReason, boolean]>([
+    ["auth", true],
+    ["rate_limit", true],
+    ["billing", true],
+    ["timeout", true],
+    ["quota", true],
+    ["context_overflow", false],
+    ["unknown", false],
+  ])("returns %s for reason '%s'", (reason, expected) => {
+    expect(isProviderFailoverReason(reason)).toBe(expected);
+  });
+});
+
 // ── nextProfileIndex ──────────────────────────────────────────────────
 
 describe("nextProfileIndex", () => {
@@ -317,6 +439,65 @@ describe("markProfileFailed", () => {
   });
 });
 
+// ── Failure streaks & disabling ───────────────────────────────────────
+
+describe("markProfileFailed with a provider-requested wait", () => {
+  it("uses retryAfterMs as the cooldown instead of doubling", () => {
+    const state: ProfileState = { index: 0, cooldownMs: BASE_COOLDOWN_MS };
+    markProfileFailed(state, "rate_limit", 23_000);
+    expect(state.cooldownMs).toBe(23_000);
+    expect(isProfileCoolingDown(state, state.failedAt! + 22_999)).toBe(true);
+    expect(isProfileCoolingDown(state, state.failedAt! + 23_000)).toBe(false);
+  });
+
+  it("may go beyond MAX_COOLDOWN_MS up to MAX_RETRY_AFTER_MS", () => {
+    const state: ProfileState = { index: 0, cooldownMs: BASE_COOLDOWN_MS };
+    markProfileFailed(state, "rate_limit", MAX_RETRY_AFTER_MS * 2);
+    expect(state.cooldownMs).toBe(MAX_RETRY_AFTER_MS);
+  });
+
+  it("resumes exponential backoff from the hint when the next failure has none", () => {
+    const state: ProfileState = { index: 0, cooldownMs: BASE_COOLDOWN_MS };
+    markProfileFailed(state, "rate_limit", 5000);
+    markProfileFailed(state, "rate_limit");
+    expect(state.cooldownMs).toBe(10_000);
+  });
+});
+
+describe("markProfileFailed with a reason", () => {
+  it("counts failures in a row with the same reason", () => {
+    const state: ProfileState = { index: 0, cooldownMs: BASE_COOLDOWN_MS };
+    markProfileFailed(state, "rate_limit");
+    markProfileFailed(state, "rate_limit");
+    expect(state).toMatchObject({ lastFailureReason: "rate_limit", consecutiveFailures: 2 });
+
+    markProfileFailed(state, "timeout");
+    expect(state).toMatchObject({ lastFailureReason: "timeout", consecutiveFailures: 1 });
+  });
+
+  it(`disables the profile after ${PROFILE_DISABLE_THRESHOLD} auth failures in a row`, () => {
+    const state: ProfileState = { index: 0, cooldownMs: BASE_COOLDOWN_MS };
+    for (let i = 1; i < PROFILE_DISABLE_THRESHOLD; i++) markProfileFailed(state, "auth");
+    expect(isProfileDisabled(state)).toBe(false);
+    markProfileFailed(state, "auth");
+    expect(isProfileDisabled(state)).toBe(true);
+  });
+
+  it("never disables for transient reasons", () => {
+    const state: ProfileState = { index: 0, cooldownMs: BASE_COOLDOWN_MS };
+    for (let i = 0; i < 10; i++) markProfileFailed(state, "rate_limit");
+    expect(isProfileDisabled(state)).toBe(false);
+  });
+
+  it("is reset by markProfileGood, which does not re-enable", () => {
+    const state: ProfileState = { index: 0, cooldownMs: BASE_COOLDOWN_MS };
+    for (let i = 0; i < PROFILE_DISABLE_THRESHOLD; i++) markProfileFailed(state, "billing");
+    markProfileGood(state);
+    expect(state.consecutiveFailures).toBeUndefined();
+    expect(isProfileDisabled(state)).toBe(true);
+  });
+});
+
 // ── markProfileGood ───────────────────────────────────────────────────
 
 describe("markProfileGood", () => {
@@ -1,11 +1,20 @@
 /**
  * Error classification and auth-profile failover with cooldowns.
  *
+ * When a provider says how long to wait — `retry-after` / `retry-after-ms`,
+ * Anthropic's `anthropic-ratelimit-*-reset`, OpenAI's `x-ratelimit-reset-*`
+ * — the cooldown follows it; otherwise it backs off exponentially.
+ *
  * Ref: openclaw/src/agents/failover-error.ts, openclaw/src/agents/auth-profiles/
  */
 
-import type { FailoverReason, ProfileState } from "./types.js";
-import { BASE_COOLDOWN_MS, MAX_COOLDOWN_MS } from "./types.js";
+import type { FailoverErrorInfo, FailoverReason, ProfileState } from "./types.js";
+import {
+  BASE_COOLDOWN_MS,
+  MAX_COOLDOWN_MS,
+  MAX_RETRY_AFTER_MS,
+  PROFILE_DISABLE_THRESHOLD,
+} from "./types.js";
 
 // ── Helpers: extract info from unknown errors ────────────────────────
 
@@ -34,6 +43,103 @@ function getErrorMessage(err: unknown): string {
   return String(err);
 }
 
+type HeaderLookup = (name: string) => string | undefined;
+
+/** Read response headers from SDK errors: `err.headers` or `err.response.headers`, `Headers` or plain object. */
+function getHeaderLookup(err: unknown): HeaderLookup | undefined {
+  if (err == null || typeof err !== "object") return undefined;
+  const e = err as Record<string, unknown>;
+  const response = e.response as Record<string, unknown> | undefined;
+  const headers = e.headers ?? (response && typeof response === "object" ? response.headers : undefined);
+  if (headers == null || typeof headers !== "object") return undefined;
+
+  if (typeof (headers as Headers).get === "function") {
+    return (name) => (headers as Headers).get(name) ?? undefined;
+  }
+  const lower = new Map(
+    Object.entries(headers as Record<string, unknown>).map(([k, v]) => [k.toLowerCase(), v]),
+  );
+  return (name) => {
+    const value = lower.get(name);
+    return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+  };
+}
+
+// ── Rate-limit hints ─────────────────────────────────────────────────
+
+/** `retry-after`: delay in seconds, or an HTTP date. */
+function parseRetryAfter(value: string, now: number): number | undefined {
+  const seconds = Number(value);
+  if (value.trim() !== "" && Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date - now;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1_000, ms: 1 };
+
+/** OpenAI-style durations: `"1s"`, `"6m0s"`, `"20ms"`, `"1h2m3.5s"`. */
+function parseDuration(value: string): number | undefined {
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0 || parts.map((p) => p[0]).join("") !== value.trim()) return undefined;
+  return parts.reduce((total, [, n, unit]) => total + Number(n) * DURATION_UNITS_MS[unit], 0);
+}
+
+const ANTHROPIC_LIMITS = ["requests", "tokens", "input-tokens", "output-tokens"];
+const OPENAI_LIMITS = ["requests", "tokens"];
+
+/**
+ * Wait until every exhausted rate limit resets. Limits that report
+ * remaining capacity are ignored; without `remaining` headers every reported
+ * reset counts.
+ */
+function rateLimitResetMs(get: HeaderLookup, now: number): number | undefined {
+  const limits: { remaining?: string; resetMs?: number }[] = [
+    ...ANTHROPIC_LIMITS.map((l) => {
+      const reset = get(`anthropic-ratelimit-${l}-reset`);
+      const date = reset ? Date.parse(reset) : NaN;
+      return {
+        remaining: get(`anthropic-ratelimit-${l}-remaining`),
+        resetMs: Number.isNaN(date) ? undefined : date - now,
+      };
+    }),
+    ...OPENAI_LIMITS.map((l) => {
+      const reset = get(`x-ratelimit-reset-${l}`);
+      return {
+        remaining: get(`x-ratelimit-remaining-${l}`),
+        resetMs: reset ? parseDuration(reset) : undefined,
+      };
+    }),
+  ];
+
+  const resets = limits.filter((l) => l.resetMs !== undefined);
+  const exhausted = resets.filter((l) => l.remaining !== undefined && Number(l.remaining) <= 0);
+  const relevant = exhausted.length > 0 ? exhausted : resets.filter((l) => l.remaining === undefined);
+  if (relevant.length === 0) return undefined;
+  return Math.max(...relevant.map((l) => l.resetMs!));
+}
+
+/**
+ * How long the provider asked us to wait before retrying, from the error's
+ * response headers. `retry-after-ms` wins over `retry-after`, which wins
+ * over rate-limit reset headers. Clamped to `[0, MAX_RETRY_AFTER_MS]`.
+ */
+export function getRetryAfterMs(err: unknown, now: number = Date.now()): number | undefined {
+  const get = getHeaderLookup(err);
+  if (!get) return undefined;
+
+  const retryAfterMs = get("retry-after-ms");
+  const retryAfter = get("retry-after");
+  const ms =
+    (retryAfterMs !== undefined && Number.isFinite(Number(retryAfterMs))
+      ? Number(retryAfterMs)
+      : undefined) ??
+    (retryAfter !== undefined ? parseRetryAfter(retryAfter, now) : undefined) ??
+    rateLimitResetMs(get, now);
+
+  if (ms === undefined) return undefined;
+  return Math.min(Math.max(Math.ceil(ms), 0), MAX_RETRY_AFTER_MS);
+}
+
 // ── Error classification ─────────────────────────────────────────────
 
 const CONTEXT_OVERFLOW_PATTERNS = [
@@ -89,6 +195,18 @@ export function classifyError(err: unknown): FailoverReason {
   return "unknown";
 }
 
+/**
+ * Classify an error and extract the provider's requested wait, if any.
+ */
+export function classifyErrorDetails(err: unknown, now: number = Date.now()): FailoverErrorInfo {
+  const info: FailoverErrorInfo = { reason: classifyError(err) };
+  const status = getStatusCode(err);
+  if (status !== undefined) info.status = status;
+  const retryAfterMs = getRetryAfterMs(err, now);
+  if (retryAfterMs !== undefined) info.retryAfterMs = retryAfterMs;
+  return info;
+}
+
 // ── Retriability ─────────────────────────────────────────────────────
 
 const RETRIABLE_REASONS: ReadonlySet<FailoverReason> = new Set([
@@ -105,6 +223,20 @@ export function isRetriable(reason: FailoverReason): boolean {
   return RETRIABLE_REASONS.has(reason);
 }
 
+const PROVIDER_FAILOVER_REASONS: ReadonlySet<FailoverReason> = new Set([
+  ...RETRIABLE_REASONS,
+  "quota",
+]);
+
+/**
+ * Whether a failure reason justifies moving to the next provider in the
+ * fallback chain. Adds `quota` — a spent quota won't recover by retrying
+ * the same provider, but another provider can still answer.
+ */
+export function isProviderFailoverReason(reason: FailoverReason): boolean {
+  return PROVIDER_FAILOVER_REASONS.has(reason);
+}
+
 // ── Profile rotation ─────────────────────────────────────────────────
 
 export function nextProfileIndex(current: number, total: number): number {
@@ -132,17 +264,47 @@ export function isProfileCoolingDown(state: ProfileState, now: number = Date.now
 }
 
 /**
- * Mark a profile as having failed — set `failedAt`, double cooldown (capped).
+ * Whether repeated failures have disabled the profile (until a manual reset).
  */
-export function markProfileFailed(state: ProfileState): void {
-  state.failedAt = Date.now();
-  state.cooldownMs = Math.min(state.cooldownMs * 2, MAX_COOLDOWN_MS);
+export function isProfileDisabled(state: ProfileState): boolean {
+  return state.disabledAt !== undefined;
+}
+
+/** Reasons that, repeated, mean the key itself is bad — not a transient outage. */
+const DISABLING_REASONS: ReadonlySet<FailoverReason> = new Set(["auth", "billing"]);
+
+/**
+ * Mark a profile as having failed — set `failedAt`, and count the failure.
+ * The cooldown is `retryAfterMs` when the provider sent one, else double
+ * the previous cooldown (capped). `PROFILE_DISABLE_THRESHOLD` `auth` /
+ * `billing` failures in a row disable the profile.
+ */
+export function markProfileFailed(
+  state: ProfileState,
+  reason?: FailoverReason,
+  retryAfterMs?: number,
+): void {
+  const now = Date.now();
+  state.failedAt = now;
+  state.cooldownMs =
+    retryAfterMs !== undefined
+      ? Math.min(retryAfterMs, MAX_RETRY_AFTER_MS)
+      : Math.min(state.cooldownMs * 2, MAX_COOLDOWN_MS);
+  if (reason === undefined) return;
+
+  state.consecutiveFailures =
+    state.lastFailureReason === reason ? (state.consecutiveFailures ?? 0) + 1 : 1;
+  state.lastFailureReason = reason;
+  if (DISABLING_REASONS.has(reason) && state.consecutiveFailures >= PROFILE_DISABLE_THRESHOLD) {
+    state.disabledAt ??= now;
+  }
 }
 
 /**
- * Mark a profile as good — reset cooldown to base.
+ * Mark a profile as good — reset cooldown to base and the failure streak.
  */
 export function markProfileGood(state: ProfileState): void {
   state.failedAt = undefined;
   state.cooldownMs = BASE_COOLDOWN_MS;
+  state.consecutiveFailures = undefined;
 }
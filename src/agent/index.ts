@@ -23,20 +23,34 @@ export type {
   AgentRunEvent,
   AgentEventCallback,
   FailoverReason,
+  FailoverErrorInfo,
   ProfileState,
+  ResolvedProvider,
   CallLLMParams,
+  Cassette,
   BootstrapFile,
   StreamCallback,
+  ToolApprovalRequest,
+  ToolApprovalDecision,
+  ToolApprover,
+  ToolAuthorizer,
 } from "./types.js";
 
 export {
   DEFAULT_BOOTSTRAP_MAX_CHARS_PER_FILE,
   DEFAULT_BOOTSTRAP_TOTAL_MAX_CHARS,
   COMPACTION_SAFETY_MARGIN,
+  CHARS_PER_TOKEN,
+  MAX_OUTPUT_TOKEN_RESERVE,
   BASE_COOLDOWN_MS,
   MAX_COOLDOWN_MS,
+  MAX_RETRY_AFTER_MS,
+  PROFILE_DISABLE_THRESHOLD,
   DEFAULT_COMPACTION_RECENT_COUNT,
   DEFAULT_MAX_TOOL_RESULT_TRUNCATE_CHARS,
+  TOOL_OUTPUT_DIRNAME,
+  MAX_TOOL_OUTPUT_FILES,
+  CASSETTE_VERSION,
 } from "./types.js";
 
 export { ensureWorkspace, scaffoldBootstrapFiles } from "./workspace.js";
@@ -47,35 +61,176 @@ export {
   type LoadBootstrapFilesOptions,
 } from "./bootstrap-files.js";
 
+export {
+  resolveSessionProvider,
+  getProviderByName,
+  matchesProviderRule,
+  buildProviderChain,
+} from "./providers.js";
+
 export { buildSystemPrompt, type BuildSystemPromptOptions } from "./system-prompt.js";
 
 export {
   classifyError,
+  classifyErrorDetails,
+  getRetryAfterMs,
   isRetriable,
+  isProviderFailoverReason,
   nextProfileIndex,
   createProfileStates,
   isProfileCoolingDown,
+  isProfileDisabled,
   markProfileFailed,
   markProfileGood,
 } from "./failover.js";
 
+export {
+  loadProfileHealth,
+  loadProfileStates,
+  recordProfileFailure,
+  recordProfileSuccess,
+  listProfileHealth,
+  getProfileHealth,
+  resetProfileHealth,
+  resolveProfileHealthPath,
+  profileHealthKey,
+  PROFILE_HEALTH_FILENAME,
+  PROFILE_HEALTH_LOCK_STALE_MS,
+  type ProfileHealth,
+  type ProfileHealthStore,
+  type ProfileHealthEntry,
+  type ProfileHealthOptions,
+} from "./profile-health.js";
+
 export {
   detectContextOverflow,
   compactMessages,
   truncateOversizedToolResults,
   buildCompactionPrompt,
+  buildStructuredCompactionPrompt,
+  findCompactionSplit,
+  createSummaryMessage,
+  getSummaryText,
+  COMPACTION_SUMMARY_PREFIX,
+  STRUCTURED_SUMMARY_SECTIONS,
   type SummarizeFunction,
+  type CompactionMode,
+  type CompactMessagesOptions,
 } from "./context-guard.js";
 
+export {
+  estimateMessageTokens,
+  estimateContextTokens,
+  promptTokensFromUsage,
+  calibrationFromUsage,
+  calibrationFromHistory,
+  computeContextBudget,
+  checkTokenBudget,
+  type TokenEstimateInput,
+  type TokenBudgetCheck,
+} from "./token-budget.js";
+
 export { resolveModel, streamLLM, callLLM } from "./streaming.js";
+export {
+  MOCK_PROVIDER_NAME,
+  resolveMockModel,
+  isMockModel,
+  answerFromScenario,
+  emitMessageEvents,
+  resetMockScenarios,
+  MockScenarioError,
+  MockProviderError,
+  type MockScenario,
+  type MockTurn,
+} from "./mock-provider.js";
+export {
+  openCassette,
+  resetCassettes,
+  CassetteError,
+  CassetteDivergenceError,
+  ReplayedProviderError,
+  type CassetteHeader,
+  type CassetteCall,
+  type CassetteRequest,
+  type OpenCassetteOptions,
+} from "./cassette.js";
 
 export {
   transcriptToMessages,
+  replayTranscript,
+  type ReplayedTranscript,
   messagesToTranscript,
   repairOrphanedToolCalls,
+  convertMessagesForModel,
   extractText,
   extractToolCalls,
 } from "./transcript-helpers.js";
 
-export { createApplyPatchTool } from "./tools/apply-patch.js";
-export { createAgentTools, findTool, getToolNames } from "./tools/create-tools.js";
+export {
+  createApplyPatchTool,
+  type ApplyPatchDetails,
+  type ApplyPatchFailure,
+  type ApplyPatchToolOptions,
+} from "./tools/apply-patch.js";
+export {
+  parsePatchInput,
+  parseMarkerPatch,
+  PatchParseError,
+  type FilePatch,
+  type FilePatchKind,
+  type PatchHunk,
+} from "./tools/patch-format.js";
+export {
+  applyHunks,
+  findClosestRegion,
+  type ApplyHunksResult,
+  type ClosestRegion,
+  type PatchFuzzOptions,
+} from "./tools/hunk-match.js";
+export {
+  createAgentTools,
+  findTool,
+  getToolNames,
+  PARALLEL_SAFE_TOOL_NAMES,
+  type MyClawTool,
+  type CreateAgentToolsOptions,
+} from "./tools/create-tools.js";
+export {
+  createPathGuard,
+  guardToolPaths,
+  PathGuardError,
+  type PathGuard,
+} from "./tools/path-guard.js";
+export {
+  executeToolCalls,
+  executeToolCall,
+  planToolBatches,
+  resolveToolTimeout,
+  ToolTimeoutError,
+  type ExecuteToolCallsOptions,
+} from "./tool-execution.js";
+
+export {
+  resolveToolPolicy,
+  matchesToolRule,
+  isToolAllowed,
+  filterToolsByPolicy,
+  matchesGlob,
+  type ToolPolicy,
+} from "./tool-policy.js";
+
+export {
+  createToolAuthorizer,
+  getApprovalSubject,
+  matchesApprovalPattern,
+  hasShellControlSyntax,
+  approvesToolCall,
+  loadApprovedPatterns,
+  addApprovedPattern,
+  resolveToolApprovalsPath,
+  TOOL_APPROVALS_FILENAME,
+  type ApprovedPattern,
+  type ToolApprovalStore,
+  type ToolApprovalOptions,
+  type CreateToolAuthorizerParams,
+} from "./tool-approval.js";
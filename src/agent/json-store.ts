@@ -0,0 +1,127 @@
+/**
+ * Small JSON files in the state dir that several runs and processes
+ * read and update — the profile health store and the tool approval store.
+ *
+ * Reads never lock. Every update takes an exclusive lock file
+ * (`<file>.lock`), re-reads the file, and replaces it atomically
+ * (write + rename), so concurrent updates don't overwrite each other. A
+ * lock left behind by a crashed process is broken once it is
+ * `STORE_LOCK_STALE_MS` old.
+ *
+ * A corrupt file is copied to `<file>.bak.<timestamp>` and reset to the
+ * empty store under the lock — once, not on every read.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+import { ensureDir } from "../config/paths.js";
+import { getLogger } from "../logging/logger.js";
+
+const log = getLogger("agent");
+
+/** A lock file older than this is assumed to belong to a crashed process. */
+export const STORE_LOCK_STALE_MS = 10_000;
+
+/** Pause between attempts to take the lock. */
+const LOCK_RETRY_MS = 10;
+
+export interface JsonStoreFile<T> {
+  /** Absolute path of the JSON file. */
+  filePath: string;
+  /** Used in log messages, e.g. `"profile health"`. */
+  name: string;
+  /** Content of a missing (or reset) file. */
+  empty: () => T;
+}
+
+// ── Lock ────────────────────────────────────────────────────────────
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/** Run `fn` holding the file's lock, waiting for (or breaking a stale) lock. */
+export function withStoreLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  ensureDir(path.dirname(filePath));
+
+  let fd: number | undefined;
+  while (fd === undefined) {
+    try {
+      fd = fs.openSync(lockPath, "wx");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      let ageMs: number;
+      try {
+        ageMs = Date.now() - fs.statSync(lockPath).mtimeMs;
+      } catch {
+        continue; // Released between open and stat
+      }
+      if (ageMs > STORE_LOCK_STALE_MS) {
+        log.warn("breaking stale store lock", { file: lockPath, ageMs });
+        fs.rmSync(lockPath, { force: true });
+      } else {
+        sleepSync(LOCK_RETRY_MS);
+      }
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.closeSync(fd);
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+// ── Read / write ────────────────────────────────────────────────────
+
+function writeStoreFile(filePath: string, value: unknown): void {
+  ensureDir(path.dirname(filePath));
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(value, null, 2) + "\n", "utf-8");
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Read the store while holding its lock. A corrupt file is backed up and
+ * replaced with the empty store, so the next read does not back it up again.
+ */
+function readStoreLocked<T>(store: JsonStoreFile<T>): T {
+  const { filePath } = store;
+  if (!fs.existsSync(filePath)) return store.empty();
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch (err) {
+    const backupPath = filePath + `.bak.${Date.now()}`;
+    fs.copyFileSync(filePath, backupPath);
+    log.warn(`${store.name} store is corrupt; starting fresh`, { file: filePath, backupPath, err });
+    const empty = store.empty();
+    writeStoreFile(filePath, empty);
+    return empty;
+  }
+}
+
+/** Read the store. Always re-reads — other processes may have changed it. */
+export function readJsonStore<T>(store: JsonStoreFile<T>): T {
+  const { filePath } = store;
+  if (!fs.existsSync(filePath)) return store.empty();
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch {
+    // Corrupt file — back it up and reset it (once) under the lock
+    return withStoreLock(filePath, () => readStoreLocked(store));
+  }
+}
+
+/** Re-read, mutate, save — under the lock. Skips the write if the mutator returns `false`. */
+export function updateJsonStore<T>(store: JsonStoreFile<T>, mutator: (value: T) => boolean | void): void {
+  withStoreLock(store.filePath, () => {
+    const value = readStoreLocked(store);
+    if (mutator(value) === false) return;
+    writeStoreFile(store.filePath, value);
+  });
+}
@@ -0,0 +1,334 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { AssistantMessageEvent, Context } from "@mariozechner/pi-ai";
+
+import type { MyClawConfig } from "../config/index.js";
+import { loadTranscriptRecords, getSessionEntry, appendMessages } from "../sessions/index.js";
+import { configureLogging, resetLogging, type LogRecord } from "../logging/index.js";
+
+import type { AgentRunEvent } from "./types.js";
+import { MockScenarioError, resetMockScenarios } from "./mock-provider.js";
+import { resolveModel, streamLLM, callLLM } from "./streaming.js";
+import { classifyErrorDetails } from "./failover.js";
+import { runAgent } from "./run.js";
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+const context: Context = {
+  systemPrompt: "You are a test.",
+  messages: [{ role: "user", content: "Hi", timestamp: 0 }],
+};
+
+describe("mock provider", () => {
+  let tmpDir: string;
+  const originalStateDir = process.env.MYCLAW_STATE_DIR;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-mock-provider-test-"));
+    // Keep sessions and profile health out of the real ~/.myclaw
+    process.env.MYCLAW_STATE_DIR = tmpDir;
+  });
+
+  afterEach(() => {
+    resetMockScenarios();
+    if (originalStateDir === undefined) delete process.env.MYCLAW_STATE_DIR;
+    else process.env.MYCLAW_STATE_DIR = originalStateDir;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  /** Write a scenario file and return its path. */
+  function writeScenario(source: string, name = "scenario.json5"): string {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, source);
+    return file;
+  }
+
+  function mockModel(source: string) {
+    return resolveModel("mock", writeScenario(source));
+  }
+
+  // ── Model resolution ─────────────────────────────────────────────
+
+  describe("resolveModel", () => {
+    it("loads the scenario named by the model ID", () => {
+      const file = writeScenario(`{ contextWindow: 8000, turns: [{ text: "hi" }] }`);
+      const model = resolveModel("mock", file);
+      expect(model).toMatchObject({ id: file, api: "mock", provider: "mock", contextWindow: 8000 });
+      expect(model.maxTokens).toBe(8192);
+    });
+
+    it("rejects a missing or invalid scenario up front", () => {
+      expect(() => resolveModel("mock", path.join(tmpDir, "nope.json5"))).toThrow(MockScenarioError);
+      const file = writeScenario(`{ turns: [{ text: "a", deltas: ["b"] }] }`);
+      expect(() => resolveModel("mock", file)).toThrow(/turns\.0: a turn has either 'text' or 'deltas'/);
+      const unknown = writeScenario(`{ turns: [{ reply: "a" }] }`, "unknown.json5");
+      expect(() => resolveModel("mock", unknown)).toThrow(MockScenarioError);
+    });
+  });
+
+  // ── Answers ──────────────────────────────────────────────────────
+
+  describe("answers", () => {
+    it("answers with the turns in order", async () => {
+      const model = mockModel(`{
+        turns: [
+          { toolCalls: [{ name: "read", arguments: { path: "a.txt" } }, { id: "x", name: "ls" }] },
+          { thinking: "Hmm", text: "Done.", usage: { input: 120, output: 7, cacheRead: 100 } },
+        ],
+      }`);
+
+      const first = await callLLM({ model, context });
+      expect(first.stopReason).toBe("toolUse");
+      expect(first.content).toEqual([
+        { type: "toolCall", id: "mock_call_1", name: "read", arguments: { path: "a.txt" } },
+        { type: "toolCall", id: "x", name: "ls", arguments: {} },
+      ]);
+
+      const second = await callLLM({ model, context });
+      expect(second.stopReason).toBe("stop");
+      expect(second.content).toEqual([
+        { type: "thinking", thinking: "Hmm" },
+        { type: "text", text: "Done." },
+      ]);
+      expect(second.usage).toMatchObject({ input: 120, output: 7, cacheRead: 100, totalTokens: 227 });
+    });
+
+    it("estimates usage the turn doesn't give", async () => {
+      const model = mockModel(`{ turns: [{ text: "Hello there" }] }`);
+      const reply = await callLLM({ model, context });
+      expect(reply.usage.input).toBeGreaterThan(0);
+      expect(reply.usage.output).toBeGreaterThan(0);
+      expect(reply.usage.totalTokens).toBe(reply.usage.input + reply.usage.output);
+    });
+
+    it("streams deltas, tool calls, and a done event", async () => {
+      const model = mockModel(`{
+        turns: [{ deltas: ["Hel", "lo"], toolCalls: [{ name: "ls", arguments: { path: "." } }] }],
+      }`);
+      const events: AssistantMessageEvent[] = [];
+      const reply = await streamLLM({ model, context }, (e) => {
+        if (e.type === "llm_stream") events.push(e.event);
+      });
+
+      expect(events.map((e) => e.type)).toEqual([
+        "start",
+        "text_start",
+        "text_delta",
+        "text_delta",
+        "text_end",
+        "toolcall_start",
+        "toolcall_delta",
+        "toolcall_end",
+        "done",
+      ]);
+      expect(events.filter((e) => e.type === "text_delta").map((e) => e.delta)).toEqual(["Hel", "lo"]);
+      expect(events.at(-1)).toMatchObject({ type: "done", reason: "toolUse", message: reply });
+      expect(reply.content[0]).toEqual({ type: "text", text: "Hello" });
+    });
+
+    it("fails past the last turn unless the scenario loops", async () => {
+      const once = mockModel(`{ turns: [{ text: "one" }] }`);
+      await callLLM({ model: once, context });
+      await expect(callLLM({ model: once, context })).rejects.toThrow(/no turns left \(all 1 used\)/);
+
+      const loopFile = writeScenario(`{ loop: true, turns: [{ text: "a" }, { text: "b" }] }`, "loop.json5");
+      const looping = resolveModel("mock", loopFile);
+      const texts = [];
+      for (let i = 0; i < 3; i++) texts.push((await callLLM({ model: looping, context })).content[0]);
+      expect(texts).toEqual([
+        { type: "text", text: "a" },
+        { type: "text", text: "b" },
+        { type: "text", text: "a" },
+      ]);
+    });
+
+    it("keeps its place across model resolutions until reset", async () => {
+      const file = writeScenario(`{ turns: [{ text: "a" }, { text: "b" }] }`);
+      await callLLM({ model: resolveModel("mock", file), context });
+      expect((await callLLM({ model: resolveModel("mock", file), context })).content).toEqual([
+        { type: "text", text: "b" },
+      ]);
+
+      resetMockScenarios();
+      expect((await callLLM({ model: resolveModel("mock", file), context })).content).toEqual([
+        { type: "text", text: "a" },
+      ]);
+    });
+
+    it("ends a delay when the signal aborts", async () => {
+      const model = mockModel(`{ turns: [{ delayMs: 60000, text: "late" }] }`);
+      const controller = new AbortController();
+      const pending = callLLM({ model, context, options: { signal: controller.signal } });
+      controller.abort(new Error("stop"));
+      await expect(pending).rejects.toThrow("stop");
+    });
+  });
+
+  // ── Errors ───────────────────────────────────────────────────────
+
+  describe("scripted errors", () => {
+    it("throws errors the failover classifier recognizes", async () => {
+      const model = mockModel(`{
+        turns: [
+          { error: { preset: "rate_limit", retryAfterMs: 1500 } },
+          { error: "overflow" },
+          { error: "timeout" },
+          { error: "auth" },
+          { error: "quota" },
+          { error: { status: 503, message: "overloaded" } },
+        ],
+      }`);
+
+      const failures = [];
+      for (let i = 0; i < 6; i++) {
+        const err = await callLLM({ model, context }).catch((e: unknown) => e);
+        failures.push(classifyErrorDetails(err));
+      }
+      expect(failures).toEqual([
+        { reason: "rate_limit", status: 429, retryAfterMs: 1500 },
+        { reason: "context_overflow", status: 400 },
+        { reason: "timeout" },
+        { reason: "auth", status: 401 },
+        { reason: "quota" },
+        { reason: "timeout", status: 503 },
+      ]);
+    });
+  });
+
+  // ── End to end ───────────────────────────────────────────────────
+
+  describe("runAgent", () => {
+    const sessionKey = "agent:main:channel:test:account:default:peer:direct:mock_user";
+
+    function makeConfig(scenario: string, overrides?: Partial<MyClawConfig["agent"]>): MyClawConfig {
+      return {
+        provider: {
+          name: "mock",
+          model: writeScenario(scenario),
+          authProfiles: [
+            { id: "primary", apiKey: "unused-1" },
+            { id: "secondary", apiKey: "unused-2" },
+          ],
+        },
+        agent: { workspaceDir: path.join(tmpDir, "workspace"), ...overrides },
+      } as MyClawConfig;
+    }
+
+    it("runs tools and persists the transcript", async () => {
+      const config = makeConfig(`{
+        turns: [
+          {
+            text: "Writing it.",
+            toolCalls: [{ name: "write", arguments: { path: "notes.md", content: "hi\\n" } }],
+          },
+          { deltas: ["Saved ", "notes.md."] },
+        ],
+      }`);
+      const events: AgentRunEvent[] = [];
+
+      const result = await runAgent({
+        sessionKey,
+        userMessage: "Save a note",
+        config,
+        onEvent: (e) => events.push(e),
+      });
+
+      expect(result.reply).toBe("Saved notes.md.");
+      expect(result.iterations).toBe(2);
+      expect(fs.readFileSync(path.join(tmpDir, "workspace", "notes.md"), "utf-8")).toBe("hi\n");
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: "tool_end", toolName: "write", isError: false }),
+      );
+      expect(loadTranscriptRecords(sessionKey).map((r) => ("role" in r ? r.role : r.type))).toEqual([
+        "user",
+        "assistant",
+        "tool",
+        "assistant",
+      ]);
+      expect(getSessionEntry(sessionKey)).toMatchObject({
+        provider: "default",
+        model: config.provider.model,
+      });
+    });
+
+    it("rotates auth profiles on a scripted rate limit", async () => {
+      const config = makeConfig(`{
+        turns: [{ error: { preset: "rate_limit", retryAfterMs: 0 } }, { text: "Recovered." }],
+      }`);
+      const events: AgentRunEvent[] = [];
+
+      const result = await runAgent({
+        sessionKey,
+        userMessage: "Hi",
+        config,
+        onEvent: (e) => events.push(e),
+      });
+
+      expect(result.reply).toBe("Recovered.");
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: "retry", reason: "rate_limit", profileId: "secondary" }),
+      );
+    });
+
+    it("logs the run and its failover", async () => {
+      const logged: LogRecord[] = [];
+      configureLogging({ sinks: [{ write: (r) => logged.push(r) }] });
+      const config = makeConfig(`{
+        turns: [{ error: { preset: "rate_limit", retryAfterMs: 0 } }, { text: "Recovered." }],
+      }`);
+
+      try {
+        await runAgent({ sessionKey, userMessage: "Hi", config });
+      } finally {
+        resetLogging();
+      }
+
+      expect(logged.map((r) => `${r.level} ${r.msg}`)).toEqual([
+        "info run started",
+        "warn LLM call failed",
+        "info retrying LLM call",
+        "info run finished",
+      ]);
+      expect(logged.every((r) => r.subsystem === "agent" && r.sessionKey === sessionKey)).toBe(true);
+      expect(logged[1]).toMatchObject({
+        provider: "default",
+        profileId: "primary",
+        reason: "rate_limit",
+        status: 429,
+        err: { message: "429 Rate limit exceeded" },
+      });
+      expect(logged[2]).toMatchObject({ attempt: 1, profileId: "secondary" });
+    });
+
+    it("compacts history on a scripted overflow and persists the summary", async () => {
+      appendMessages(
+        sessionKey,
+        Array.from({ length: 12 }, (_, i) => ({
+          role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+          content: `message ${i}`,
+        })),
+      );
+      // The summary request is answered by the scenario too
+      const config = makeConfig(`{
+        turns: [{ error: "overflow" }, { text: "Summary of the early chat" }, { text: "Still here." }],
+      }`);
+      const events: AgentRunEvent[] = [];
+
+      const result = await runAgent({
+        sessionKey,
+        userMessage: "Hi",
+        config,
+        onEvent: (e) => events.push(e),
+      });
+
+      expect(result.reply).toBe("Still here.");
+      expect(events).toContainEqual(expect.objectContaining({ type: "compaction", trigger: "overflow" }));
+      expect(loadTranscriptRecords(sessionKey)).toContainEqual(
+        expect.objectContaining({ type: "compaction", summary: "Summary of the early chat" }),
+      );
+    });
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Scripted `mock` provider for offline tests and demos.
+ *
+ * With `provider: { name: "mock", model: "./scenario.json5", ... }` the
+ * model ID is the path of a JSON5 scenario file, and every LLM call —
+ * including compaction summaries — answers with its next turn:
+ *
+ * ```json5
+ * {
+ *   contextWindow: 8000,             // optional model metadata
+ *   turns: [
+ *     { toolCalls: [{ name: "read", arguments: { path: "notes.md" } }] },
+ *     { error: "rate_limit" },       // or { status: 503, message: "...", retryAfterMs: 0 }
+ *     { deltas: ["Done", " — notes read."], usage: { input: 1200, output: 9 } },
+ *   ],
+ * }
+ * ```
+ *
+ * Errors are thrown the way SDK errors are (`status`, `headers`, message),
+ * so failover, cooldowns and overflow recovery treat them like the real
+ * thing. Turns are consumed in order, per scenario file, for the life of
+ * the process; past the last turn a call fails unless `loop` is set.
+ * Usage not given in a turn is estimated from the request and the reply.
+ */
+
+import fs from "node:fs";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+import JSON5 from "json5";
+import { z } from "zod";
+import type {
+  AssistantMessage,
+  AssistantMessageEvent,
+  Context,
+  Model,
+  SimpleStreamOptions,
+  Usage,
+} from "@mariozechner/pi-ai";
+
+import { resolveUserPath } from "../config/index.js";
+
+import { estimateContextTokens, estimateMessageTokens } from "./token-budget.js";
+
+export const MOCK_PROVIDER_NAME = "mock";
+export const MOCK_API = "mock";
+
+// ── Scenario schema ──────────────────────────────────────────────────
+
+const MOCK_ERROR_PRESET_NAMES = [
+  "rate_limit",
+  "overflow",
+  "timeout",
+  "server",
+  "auth",
+  "billing",
+  "quota",
+] as const;
+
+type MockErrorPreset = (typeof MOCK_ERROR_PRESET_NAMES)[number];
+
+/** Preset errors, each classified like its real counterpart. */
+const MOCK_ERROR_PRESETS: Record<MockErrorPreset, { status?: number; message: string }> = {
+  rate_limit: { status: 429, message: "429 Rate limit exceeded" },
+  overflow: { status: 400, message: "400 prompt is too long: context window exceeded" },
+  timeout: { message: "Request timed out" },
+  server: { status: 500, message: "500 Internal server error" },
+  auth: { status: 401, message: "401 Invalid API key" },
+  billing: { status: 402, message: "402 Payment required" },
+  quota: { message: "You exceeded your current quota" },
+};
+
+const MockErrorPresetSchema = z.enum(MOCK_ERROR_PRESET_NAMES);
+
+const MockErrorSchema = z.union([
+  MockErrorPresetSchema,
+  z
+    .object({
+      preset: MockErrorPresetSchema.optional(),
+      status: z.number().int().optional(),
+      message: z.string().optional(),
+      retryAfterMs: z.number().int().nonnegative().optional(),
+      headers: z.record(z.string(), z.string()).optional(),
+    })
+    .strict(),
+]);
+
+const MockToolCallSchema = z
+  .object({
+    /** Defaults to `mock_call_<n>`. */
+    id: z.string().min(1).optional(),
+    name: z.string().min(1),
+    arguments: z.record(z.string(), z.unknown()).default({}),
+  })
+  .strict();
+
+const MockTurnSchema = z
+  .object({
+    text: z.string().optional(),
+    /** Streamed pieces of the text (instead of `text`). */
+    deltas: z.array(z.string()).optional(),
+    thinking: z.string().optional(),
+    toolCalls: z.array(MockToolCallSchema).optional(),
+    usage: z
+      .object({
+        input: z.number().int().nonnegative(),
+        output: z.number().int().nonnegative(),
+        cacheRead: z.number().int().nonnegative(),
+        cacheWrite: z.number().int().nonnegative(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    /** Defaults to `toolUse` with tool calls, else `stop`. */
+    stopReason: z.enum(["stop", "length", "toolUse"]).optional(),
+    /** Fail the call instead of answering. */
+    error: MockErrorSchema.optional(),
+    /** Wait before answering (or failing); an abort ends the wait. */
+    delayMs: z.number().int().nonnegative().optional(),
+  })
+  .strict()
+  .refine((t) => t.text === undefined || t.deltas === undefined, {
+    message: "a turn has either 'text' or 'deltas', not both",
+  });
+
+const MockScenarioSchema = z
+  .object({
+    contextWindow: z.number().int().positive().optional(),
+    maxTokens: z.number().int().positive().optional(),
+    /** Start over after the last turn. */
+    loop: z.boolean().optional(),
+    turns: z.array(MockTurnSchema).min(1),
+  })
+  .strict();
+
+export type MockTurn = z.infer<typeof MockTurnSchema>;
+export type MockScenario = z.infer<typeof MockScenarioSchema>;
+
+// ── Errors ───────────────────────────────────────────────────────────
+
+/** The scenario file is missing, invalid, or out of turns. */
+export class MockScenarioError extends Error {
+  constructor(
+    public readonly scenarioPath: string,
+    message: string,
+  ) {
+    super(`Mock scenario ${scenarioPath}: ${message}`);
+    this.name = "MockScenarioError";
+  }
+}
+
+/** A scripted provider error, shaped like SDK errors for `classifyError()`. */
+export class MockProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly headers?: Record<string, string>,
+  ) {
+    super(message);
+    this.name = "MockProviderError";
+  }
+}
+
+// ── Scenario state ───────────────────────────────────────────────────
+
+interface ScenarioState {
+  scenario: MockScenario;
+  /** Index of the next turn. */
+  next: number;
+  /** Tool calls answered so far, for generated IDs. */
+  toolCalls: number;
+}
+
+/** Loaded scenarios by absolute path. */
+const scenarios = new Map<string, ScenarioState>();
+
+function loadScenario(scenarioPath: string): ScenarioState {
+  const cached = scenarios.get(scenarioPath);
+  if (cached) return cached;
+
+  let raw: unknown;
+  try {
+    raw = JSON5.parse(fs.readFileSync(scenarioPath, "utf-8"));
+  } catch (err) {
+    throw new MockScenarioError(scenarioPath, err instanceof Error ? err.message : String(err));
+  }
+  const parsed = MockScenarioSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new MockScenarioError(scenarioPath, issues.join("; "));
+  }
+
+  const state: ScenarioState = { scenario: parsed.data, next: 0, toolCalls: 0 };
+  scenarios.set(scenarioPath, state);
+  return state;
+}
+
+/**
+ * Forget loaded scenarios, so the next call re-reads each file from its
+ * first turn.
+ */
+export function resetMockScenarios(): void {
+  scenarios.clear();
+}
+
+// ── Model ────────────────────────────────────────────────────────────
+
+/**
+ * The model for a scenario file (`~` expanded, relative to the working
+ * directory). The scenario is loaded right away, so a bad file fails
+ * before the first call. `baseUrl` is the scenario's `file:` URL.
+ * @throws MockScenarioError if the file is missing or invalid.
+ */
+export function resolveMockModel(scenario: string): Model<any> {
+  const scenarioPath = resolveUserPath(scenario);
+  const { scenario: loaded } = loadScenario(scenarioPath);
+  return {
+    id: scenario,
+    name: scenario,
+    api: MOCK_API,
+    provider: MOCK_PROVIDER_NAME,
+    baseUrl: pathToFileURL(scenarioPath).href,
+    reasoning: false,
+    input: ["text", "image"],
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    contextWindow: loaded.contextWindow ?? 200_000,
+    maxTokens: loaded.maxTokens ?? 8192,
+  };
+}
+
+export function isMockModel(model: Model<any>): boolean {
+  return model.api === MOCK_API;
+}
+
+// ── Answering ────────────────────────────────────────────────────────
+
+function toError(error: NonNullable<MockTurn["error"]>): MockProviderError {
+  const spec = typeof error === "string" ? { preset: error } : error;
+  const preset = spec.preset ? MOCK_ERROR_PRESETS[spec.preset] : undefined;
+  const status = spec.status ?? preset?.status;
+  const headers = { ...spec.headers };
+  if (spec.retryAfterMs !== undefined) headers["retry-after-ms"] = String(spec.retryAfterMs);
+  return new MockProviderError(
+    spec.message ?? preset?.message ?? `${status ?? "Unknown"} mock error`,
+    status,
+    Object.keys(headers).length > 0 ? headers : undefined,
+  );
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Usage from the turn, with missing counts estimated from the request and reply. */
+function buildUsage(turn: MockTurn, context: Context, content: AssistantMessage["content"]): Usage {
+  const input = turn.usage?.input ?? estimateContextTokens(context);
+  const output =
+    turn.usage?.output ?? estimateMessageTokens({ role: "assistant", content } as AssistantMessage);
+  const cacheRead = turn.usage?.cacheRead ?? 0;
+  const cacheWrite = turn.usage?.cacheWrite ?? 0;
+  return {
+    input,
+    output,
+    cacheRead,
+    cacheWrite,
+    totalTokens: input + output + cacheRead + cacheWrite,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+  };
+}
+
+/**
+ * Stream events for a finished `reply`, built up block by block as a
+ * streaming provider would. Text streams as `textDeltas` when given.
+ */
+export function emitMessageEvents(
+  reply: AssistantMessage,
+  onEvent: (event: AssistantMessageEvent) => void,
+  textDeltas?: readonly string[],
+): void {
+  const partial: AssistantMessage = { ...reply, content: [] };
+  onEvent({ type: "start", partial });
+
+  for (const block of reply.content) {
+    const contentIndex = partial.content.length;
+    switch (block.type) {
+      case "thinking":
+        partial.content.push({ type: "thinking", thinking: "" });
+        onEvent({ type: "thinking_start", contentIndex, partial });
+        partial.content[contentIndex] = block;
+        onEvent({ type: "thinking_delta", contentIndex, delta: block.thinking, partial });
+        onEvent({ type: "thinking_end", contentIndex, content: block.thinking, partial });
+        break;
+      case "text": {
+        const text = { type: "text" as const, text: "" };
+        partial.content.push(text);
+        onEvent({ type: "text_start", contentIndex, partial });
+        for (const delta of textDeltas ?? [block.text]) {
+          text.text += delta;
+          onEvent({ type: "text_delta", contentIndex, delta, partial });
+        }
+        onEvent({ type: "text_end", contentIndex, content: block.text, partial });
+        break;
+      }
+      case "toolCall":
+        partial.content.push(block);
+        onEvent({ type: "toolcall_start", contentIndex, partial });
+        onEvent({
+          type: "toolcall_delta",
+          contentIndex,
+          delta: JSON.stringify(block.arguments),
+          partial,
+        });
+        onEvent({ type: "toolcall_end", contentIndex, toolCall: block, partial });
+        break;
+    }
+  }
+
+  const reason = reply.stopReason as "stop" | "length" | "toolUse";
+  onEvent({ type: "done", reason, message: reply });
+}
+
+/**
+ * Answer one call from the scenario behind `model`, passing stream events
+ * to `onEvent` as a streaming provider would.
+ * @throws MockProviderError for scripted errors, MockScenarioError once
+ *   the turns run out, or the abort reason if `signal` aborts.
+ */
+export async function answerFromScenario(
+  model: Model<any>,
+  context: Context,
+  options?: SimpleStreamOptions,
+  onEvent?: (event: AssistantMessageEvent) => void,
+): Promise<AssistantMessage> {
+  const scenarioPath = fileURLToPath(model.baseUrl);
+  const state = loadScenario(scenarioPath);
+  const { turns, loop } = state.scenario;
+  if (state.next >= turns.length) {
+    if (!loop) {
+      throw new MockScenarioError(scenarioPath, `no turns left (all ${turns.length} used)`);
+    }
+    state.next = 0;
+  }
+  const turn = turns[state.next++];
+  const signal = options?.signal;
+
+  if (turn.delayMs) await delay(turn.delayMs, signal);
+  signal?.throwIfAborted();
+  if (turn.error) throw toError(turn.error);
+
+  const content: AssistantMessage["content"] = [];
+  if (turn.thinking !== undefined) content.push({ type: "thinking", thinking: turn.thinking });
+  const text = turn.deltas?.join("") ?? turn.text;
+  if (text !== undefined) content.push({ type: "text", text });
+  for (const call of turn.toolCalls ?? []) {
+    content.push({
+      type: "toolCall",
+      id: call.id ?? `mock_call_${++state.toolCalls}`,
+      name: call.name,
+      arguments: call.arguments,
+    });
+  }
+
+  const reply: AssistantMessage = {
+    role: "assistant",
+    content,
+    api: model.api,
+    provider: model.provider,
+    model: model.id,
+    usage: buildUsage(turn, context, content),
+    stopReason: turn.stopReason ?? (turn.toolCalls?.length ? "toolUse" : "stop"),
+    timestamp: Date.now(),
+  };
+
+  if (onEvent) emitMessageEvents(reply, onEvent, turn.deltas);
+  return reply;
+}
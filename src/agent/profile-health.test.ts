@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  loadProfileStates,
+  recordProfileFailure,
+  recordProfileSuccess,
+  getProfileHealth,
+  listProfileHealth,
+  resetProfileHealth,
+  resolveProfileHealthPath,
+  PROFILE_HEALTH_LOCK_STALE_MS,
+} from "./profile-health.js";
+import { BASE_COOLDOWN_MS, PROFILE_DISABLE_THRESHOLD } from "./types.js";
+
+describe("profile health store", () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-health-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("returns fresh states for profiles without recorded failures", () => {
+    expect(loadProfileStates("default", ["a", "b"], { stateDir })).toEqual([
+      { index: 0, cooldownMs: BASE_COOLDOWN_MS },
+      { index: 1, cooldownMs: BASE_COOLDOWN_MS },
+    ]);
+    expect(fs.existsSync(resolveProfileHealthPath(stateDir))).toBe(false);
+  });
+
+  it("persists failures so later loads see them", () => {
+    const state = recordProfileFailure("default", "b", 1, "billing", { stateDir });
+    expect(state).toMatchObject({ index: 1, lastFailureReason: "billing", consecutiveFailures: 1 });
+
+    const [a, b] = loadProfileStates("default", ["a", "b"], { stateDir });
+    expect(a.failedAt).toBeUndefined();
+    expect(b).toMatchObject({ index: 1, cooldownMs: BASE_COOLDOWN_MS * 2, consecutiveFailures: 1 });
+    expect(b.failedAt).toBeGreaterThan(0);
+  });
+
+  it("builds on failures recorded by other runs", () => {
+    recordProfileFailure("default", "a", 0, "auth", { stateDir });
+    const state = recordProfileFailure("default", "a", 0, "auth", { stateDir });
+    expect(state.consecutiveFailures).toBe(2);
+    expect(state.cooldownMs).toBe(BASE_COOLDOWN_MS * 4);
+  });
+
+  it("keys profiles by provider", () => {
+    recordProfileFailure("cheap", "a", 0, "timeout", { stateDir });
+    expect(getProfileHealth("cheap", "a", { stateDir })).toBeDefined();
+    expect(getProfileHealth("default", "a", { stateDir })).toBeUndefined();
+  });
+
+  it("clears the entry on success", () => {
+    recordProfileFailure("default", "a", 0, "rate_limit", { stateDir });
+    recordProfileSuccess("default", "a", { stateDir });
+    expect(getProfileHealth("default", "a", { stateDir })).toBeUndefined();
+  });
+
+  it("keeps disabled profiles disabled until reset", () => {
+    for (let i = 0; i < PROFILE_DISABLE_THRESHOLD; i++) {
+      recordProfileFailure("default", "a", 0, "auth", { stateDir });
+    }
+    recordProfileSuccess("default", "a", { stateDir });
+    expect(getProfileHealth("default", "a", { stateDir })?.disabledAt).toBeGreaterThan(0);
+
+    expect(resetProfileHealth("default", "a", { stateDir })).toEqual(["default/a"]);
+    expect(loadProfileStates("default", ["a"], { stateDir })[0].disabledAt).toBeUndefined();
+  });
+
+  it("resets one profile, a whole provider, or everything", () => {
+    recordProfileFailure("default", "a", 0, "timeout", { stateDir });
+    recordProfileFailure("default", "b", 1, "timeout", { stateDir });
+    recordProfileFailure("cheap", "a", 0, "timeout", { stateDir });
+
+    expect(resetProfileHealth("default", "missing", { stateDir })).toEqual([]);
+    expect(resetProfileHealth("default", undefined, { stateDir })).toEqual([
+      "default/a",
+      "default/b",
+    ]);
+    expect(listProfileHealth({ stateDir }).map((e) => `${e.provider}/${e.profileId}`)).toEqual([
+      "cheap/a",
+    ]);
+    expect(resetProfileHealth(undefined, undefined, { stateDir })).toEqual(["cheap/a"]);
+    expect(listProfileHealth({ stateDir })).toEqual([]);
+  });
+
+  it("keeps every process's failures when processes update at once", async () => {
+    const script = `
+      import { recordProfileFailure } from "./src/agent/profile-health.ts";
+      const [stateDir, profileId] = process.argv.slice(-2);
+      for (let i = 0; i < 15; i++) recordProfileFailure("default", profileId, 0, "timeout", { stateDir });
+    `;
+    const runs = ["a", "b", "c"].map(
+      (profileId) =>
+        new Promise<number | null>((resolve) => {
+          const child = spawn(
+            process.execPath,
+            ["--import", "tsx", "--input-type=module", "-e", script, "--", stateDir, profileId],
+            { cwd: path.resolve(import.meta.dirname, "../.."), stdio: "ignore" },
+          );
+          child.on("exit", resolve);
+        }),
+    );
+    expect(await Promise.all(runs)).toEqual([0, 0, 0]);
+
+    for (const profileId of ["a", "b", "c"]) {
+      expect(getProfileHealth("default", profileId, { stateDir })?.consecutiveFailures).toBe(15);
+    }
+    expect(fs.existsSync(`${resolveProfileHealthPath(stateDir)}.lock`)).toBe(false);
+  }, 30_000);
+
+  it("waits for a held lock", async () => {
+    const lockPath = `${resolveProfileHealthPath(stateDir)}.lock`;
+    fs.writeFileSync(lockPath, "");
+    // Another process releases the lock shortly
+    const release = spawn(process.execPath, [
+      "-e",
+      `setTimeout(() => require("node:fs").rmSync(${JSON.stringify(lockPath)}), 300)`,
+    ]);
+    const exited = new Promise((resolve) => release.on("exit", resolve));
+
+    const started = Date.now();
+    recordProfileFailure("default", "a", 0, "timeout", { stateDir });
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+    expect(getProfileHealth("default", "a", { stateDir })?.consecutiveFailures).toBe(1);
+    expect(fs.existsSync(lockPath)).toBe(false);
+    await exited;
+  });
+
+  it("breaks a stale lock left by a crashed process", () => {
+    const lockPath = `${resolveProfileHealthPath(stateDir)}.lock`;
+    fs.writeFileSync(lockPath, "");
+    const old = (Date.now() - PROFILE_HEALTH_LOCK_STALE_MS - 1_000) / 1000;
+    fs.utimesSync(lockPath, old, old);
+
+    recordProfileFailure("default", "a", 0, "timeout", { stateDir });
+
+    expect(getProfileHealth("default", "a", { stateDir })).toBeDefined();
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it("starts fresh (keeping a backup) when the file is corrupt", () => {
+    const filePath = resolveProfileHealthPath(stateDir);
+    fs.writeFileSync(filePath, "{ not json", "utf-8");
+
+    expect(loadProfileStates("default", ["a"], { stateDir })[0].failedAt).toBeUndefined();
+    expect(fs.readdirSync(stateDir).some((f) => f.startsWith("auth-health.json.bak."))).toBe(true);
+  });
+
+  it("backs up a corrupt file once and resets it", () => {
+    const filePath = resolveProfileHealthPath(stateDir);
+    fs.writeFileSync(filePath, "{ not json", "utf-8");
+
+    loadProfileStates("default", ["a"], { stateDir });
+    recordProfileSuccess("default", "a", { stateDir });
+    loadProfileStates("default", ["a"], { stateDir });
+
+    const backups = fs.readdirSync(stateDir).filter((f) => f.startsWith("auth-health.json.bak."));
+    expect(backups).toHaveLength(1);
+    expect(fs.readFileSync(path.join(stateDir, backups[0]), "utf-8")).toBe("{ not json");
+    expect(JSON.parse(fs.readFileSync(filePath, "utf-8"))).toEqual({});
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Persistent auth-profile health — cooldowns and failure streaks shared
+ * between runs and processes.
+ *
+ * File location:
+ *   <stateDir>/auth-health.json
+ *
+ * Shape:
+ *   {
+ *     "default/primary": { failedAt, cooldownMs, lastFailureReason, consecutiveFailures, ... },
+ *     ...
+ *   }
+ *
+ * Keys are `<provider>/<profileId>` (provider is the config name —
+ * `"default"` for the root `provider`). Profiles without an entry are
+ * healthy; a success deletes the entry. Updates are locked and atomic
+ * (see `json-store.ts`), so concurrent runs see each other's failures
+ * instead of overwriting them.
+ */
+
+import path from "node:path";
+
+import { resolveStateDir } from "../config/paths.js";
+import { getLogger } from "../logging/logger.js";
+
+import {
+  readJsonStore,
+  updateJsonStore,
+  STORE_LOCK_STALE_MS,
+  type JsonStoreFile,
+} from "./json-store.js";
+import type { FailoverErrorInfo, FailoverReason, ProfileState } from "./types.js";
+import { BASE_COOLDOWN_MS } from "./types.js";
+import { markProfileFailed } from "./failover.js";
+
+const log = getLogger("agent");
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ProfileHealth extends Omit<ProfileState, "index"> {
+  /** Epoch-ms timestamp of the last change. */
+  updatedAt: number;
+}
+
+/** `<provider>/<profileId>` → health. */
+export type ProfileHealthStore = Record<string, ProfileHealth>;
+
+export interface ProfileHealthOptions {
+  /** State directory (default: `resolveStateDir()`). */
+  stateDir?: string;
+}
+
+// ── Path helpers ────────────────────────────────────────────────────
+
+export const PROFILE_HEALTH_FILENAME = "auth-health.json";
+
+export function resolveProfileHealthPath(stateDir: string = resolveStateDir()): string {
+  return path.join(stateDir, PROFILE_HEALTH_FILENAME);
+}
+
+/** A lock file older than this is assumed to belong to a crashed process. */
+export const PROFILE_HEALTH_LOCK_STALE_MS = STORE_LOCK_STALE_MS;
+
+export function profileHealthKey(provider: string, profileId: string): string {
+  return `${provider}/${profileId}`;
+}
+
+// ── Read / write ────────────────────────────────────────────────────
+
+function healthStoreFile(options?: ProfileHealthOptions): JsonStoreFile<ProfileHealthStore> {
+  return {
+    filePath: resolveProfileHealthPath(options?.stateDir),
+    name: "profile health",
+    empty: () => ({}),
+  };
+}
+
+/**
+ * Load the health store from disk. Always re-reads — the file is small and
+ * other processes may have changed it.
+ */
+export function loadProfileHealth(options?: ProfileHealthOptions): ProfileHealthStore {
+  return readJsonStore(healthStoreFile(options));
+}
+
+/** Re-read, mutate, save — under the lock. Skips the write if the mutator returns `false`. */
+function updateProfileHealth(
+  mutator: (store: ProfileHealthStore) => boolean | void,
+  options?: ProfileHealthOptions,
+): void {
+  updateJsonStore(healthStoreFile(options), mutator);
+}
+
+function toState(index: number, health: ProfileHealth | undefined): ProfileState {
+  if (!health) return { index, cooldownMs: BASE_COOLDOWN_MS };
+  const { updatedAt: _, ...state } = health;
+  return { index, ...state };
+}
+
+// ── Run-loop API ────────────────────────────────────────────────────
+
+/**
+ * Current state of each of a provider's auth profiles, in `authProfiles` order.
+ */
+export function loadProfileStates(
+  provider: string,
+  profileIds: readonly string[],
+  options?: ProfileHealthOptions,
+): ProfileState[] {
+  const store = loadProfileHealth(options);
+  return profileIds.map((id, index) => toState(index, store[profileHealthKey(provider, id)]));
+}
+
+/**
+ * Record a failed call: bump the cooldown (to the provider's `retryAfterMs`
+ * when given) and failure streak (possibly disabling the profile). Returns
+ * the updated state.
+ */
+export function recordProfileFailure(
+  provider: string,
+  profileId: string,
+  index: number,
+  failure: FailoverReason | FailoverErrorInfo,
+  options?: ProfileHealthOptions,
+): ProfileState {
+  const { reason, retryAfterMs } = typeof failure === "string" ? { reason: failure } : failure;
+  let state!: ProfileState;
+  let wasDisabled = false;
+  updateProfileHealth((store) => {
+    const key = profileHealthKey(provider, profileId);
+    state = toState(index, store[key]);
+    wasDisabled = state.disabledAt !== undefined;
+    markProfileFailed(state, reason, retryAfterMs);
+    const { index: _, ...health } = state;
+    store[key] = { ...health, updatedAt: Date.now() };
+  }, options);
+  if (!wasDisabled && state.disabledAt !== undefined) {
+    log.error("auth profile disabled after repeated failures", {
+      provider,
+      profileId,
+      reason,
+      consecutiveFailures: state.consecutiveFailures,
+    });
+  }
+  return state;
+}
+
+/**
+ * Record a successful call — the profile is healthy again.
+ * Does not re-enable a disabled profile.
+ */
+export function recordProfileSuccess(
+  provider: string,
+  profileId: string,
+  options?: ProfileHealthOptions,
+): void {
+  updateProfileHealth((store) => {
+    const key = profileHealthKey(provider, profileId);
+    if (!store[key] || store[key].disabledAt !== undefined) return false;
+    delete store[key];
+  }, options);
+}
+
+// ── Operator API ────────────────────────────────────────────────────
+
+export interface ProfileHealthEntry {
+  provider: string;
+  profileId: string;
+  health: ProfileHealth;
+}
+
+/**
+ * Every profile with recorded failures, sorted by key.
+ */
+export function listProfileHealth(options?: ProfileHealthOptions): ProfileHealthEntry[] {
+  return Object.entries(loadProfileHealth(options))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, health]) => {
+      const slash = key.indexOf("/");
+      return { provider: key.slice(0, slash), profileId: key.slice(slash + 1), health };
+    });
+}
+
+/**
+ * Get one profile's health, or `undefined` if it is healthy.
+ */
+export function getProfileHealth(
+  provider: string,
+  profileId: string,
+  options?: ProfileHealthOptions,
+): ProfileHealth | undefined {
+  return loadProfileHealth(options)[profileHealthKey(provider, profileId)];
+}
+
+/**
+ * Clear recorded failures (and re-enable) one profile, every profile of a
+ * provider (`profileId` omitted), or everything (`provider` omitted).
+ * Returns the keys that were reset.
+ */
+export function resetProfileHealth(
+  provider?: string,
+  profileId?: string,
+  options?: ProfileHealthOptions,
+): string[] {
+  const reset: string[] = [];
+  updateProfileHealth((store) => {
+    for (const key of Object.keys(store)) {
+      const matches =
+        provider === undefined ||
+        (profileId === undefined
+          ? key.startsWith(`${provider}/`)
+          : key === profileHealthKey(provider, profileId));
+      if (!matches) continue;
+      delete store[key];
+      reset.push(key);
+    }
+    return reset.length > 0;
+  }, options);
+  return reset;
+}
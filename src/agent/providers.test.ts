@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+
+import type { MyClawConfig } from "../config/index.js";
+import { buildSessionKey } from "../sessions/index.js";
+import {
+  resolveSessionProvider,
+  getProviderByName,
+  matchesProviderRule,
+  buildProviderChain,
+} from "./providers.js";
+
+const strong = {
+  name: "anthropic",
+  model: "claude-opus",
+  authProfiles: [{ id: "primary", apiKey: "sk-strong" }],
+};
+const cheap = {
+  name: "anthropic",
+  model: "claude-haiku",
+  authProfiles: [{ id: "c", apiKey: "sk-c" }],
+};
+const local = { name: "ollama", model: "llama3", authProfiles: [{ id: "l", apiKey: "none" }] };
+
+const config: MyClawConfig = {
+  provider: strong,
+  providers: { cheap, local },
+  providerRules: [
+    { agentId: "ops", provider: "local" },
+    { channel: "telegram", peerKind: "group", provider: "cheap" },
+  ],
+};
+
+function key(channel: string, peerKind: "direct" | "group" | "channel", agentId?: string): string {
+  return buildSessionKey({ agentId, channel, peerKind, peerId: "p1" });
+}
+
+describe("resolveSessionProvider", () => {
+  it("uses the first matching rule", () => {
+    expect(resolveSessionProvider(config, key("telegram", "group"))).toEqual({
+      name: "cheap",
+      config: cheap,
+    });
+    expect(resolveSessionProvider(config, key("telegram", "group", "ops")).name).toBe("local");
+  });
+
+  it("falls back to the root provider when nothing matches", () => {
+    expect(resolveSessionProvider(config, key("telegram", "direct"))).toEqual({
+      name: "default",
+      config: strong,
+    });
+    expect(resolveSessionProvider({ provider: strong }, key("telegram", "group")).name).toBe(
+      "default",
+    );
+  });
+
+  it("uses the default for session keys that don't parse", () => {
+    expect(resolveSessionProvider(config, "not-a-session-key").name).toBe("default");
+  });
+});
+
+describe("matchesProviderRule", () => {
+  const session = {
+    agentId: "main",
+    channel: "cli",
+    accountId: "default",
+    peerKind: "direct" as const,
+    peerId: "u",
+  };
+
+  it("matches on every set field", () => {
+    expect(matchesProviderRule({ provider: "x", channel: "cli", peerKind: "direct" }, session)).toBe(
+      true,
+    );
+    expect(matchesProviderRule({ provider: "x", channel: "cli", peerKind: "group" }, session)).toBe(
+      false,
+    );
+  });
+
+  it("treats a rule with no match fields as a catch-all", () => {
+    expect(matchesProviderRule({ provider: "x" }, session)).toBe(true);
+  });
+
+  it("normalizes configured agentId and channel like session keys do", () => {
+    expect(matchesProviderRule({ provider: "x", agentId: "Main", channel: "CLI" }, session)).toBe(
+      true,
+    );
+  });
+});
+
+describe("getProviderByName", () => {
+  it("throws for unknown names", () => {
+    expect(() => getProviderByName(config, "nope")).toThrow("Unknown provider: nope");
+  });
+});
+
+describe("buildProviderChain", () => {
+  it("appends fallbacks in order, applying model overrides", () => {
+    const withFallbacks: MyClawConfig = {
+      ...config,
+      provider: {
+        ...strong,
+        fallbacks: [{ provider: "local" }, { provider: "default", model: "claude-sonnet" }],
+      },
+    };
+    const chain = buildProviderChain(withFallbacks, getProviderByName(withFallbacks, "default"));
+    expect(chain.map((c) => [c.name, c.config.model])).toEqual([
+      ["default", "claude-opus"],
+      ["local", "llama3"],
+      ["default", "claude-sonnet"],
+    ]);
+    expect(chain[2].config.authProfiles).toBe(strong.authProfiles);
+  });
+
+  it("skips entries that repeat an earlier provider/model pair", () => {
+    const withFallbacks: MyClawConfig = {
+      ...config,
+      provider: { ...strong, fallbacks: [{ provider: "default" }, { provider: "cheap" }] },
+    };
+    const chain = buildProviderChain(withFallbacks, getProviderByName(withFallbacks, "default"));
+    expect(chain.map((c) => c.name)).toEqual(["default", "cheap"]);
+  });
+
+  it("is just the provider when it has no fallbacks", () => {
+    expect(buildProviderChain(config, getProviderByName(config, "cheap"))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Per-session provider selection.
+ *
+ * The root `provider` is the default (named `"default"`); `providers` adds
+ * named alternatives, and `providerRules` picks one by the session key's
+ * agentId / channel / peerKind. Rules are checked in order — the first
+ * rule whose fields all match wins. Sessions no rule matches (or keys that
+ * don't parse) use the default.
+ *
+ * The selected provider's `fallbacks` extend it into an ordered chain of
+ * provider/model pairs that the run loop walks when every auth profile of
+ * the current entry is failing. Fallbacks of fallbacks are not followed.
+ *
+ * @example
+ * ```json5
+ * providers: { cheap: { name: "anthropic", model: "claude-haiku-...", authProfiles: [...] } },
+ * providerRules: [{ channel: "telegram", peerKind: "group", provider: "cheap" }],
+ * provider: {
+ *   ...,
+ *   fallbacks: [{ provider: "local" }, { provider: "default", model: "claude-haiku-..." }],
+ * },
+ * ```
+ */
+
+import { DEFAULT_PROVIDER_NAME, type MyClawConfig, type ProviderRule } from "../config/index.js";
+import {
+  normalizeSessionKeySegment,
+  parseSessionKey,
+  type ParsedSessionKey,
+} from "../sessions/index.js";
+
+import type { ResolvedProvider } from "./types.js";
+
+/**
+ * Whether every field set on `rule` matches the session.
+ * A rule with no match fields matches everything.
+ */
+export function matchesProviderRule(rule: ProviderRule, session: ParsedSessionKey): boolean {
+  return (
+    (rule.agentId === undefined ||
+      normalizeSessionKeySegment(rule.agentId) === session.agentId) &&
+    (rule.channel === undefined ||
+      normalizeSessionKeySegment(rule.channel) === session.channel) &&
+    (rule.peerKind === undefined || rule.peerKind === session.peerKind)
+  );
+}
+
+/**
+ * Look up a provider by name (`"default"` is the root `provider`).
+ * @throws If no provider has that name.
+ */
+export function getProviderByName(config: MyClawConfig, name: string): ResolvedProvider {
+  if (name === DEFAULT_PROVIDER_NAME) {
+    return { name, config: config.provider };
+  }
+  const provider = config.providers?.[name];
+  if (!provider) {
+    throw new Error(`Unknown provider: ${name}`);
+  }
+  return { name, config: provider };
+}
+
+/**
+ * Resolve which provider answers a session.
+ */
+export function resolveSessionProvider(config: MyClawConfig, sessionKey: string): ResolvedProvider {
+  const session = parseSessionKey(sessionKey);
+  const rule = session
+    ? config.providerRules?.find((r) => matchesProviderRule(r, session))
+    : undefined;
+  return getProviderByName(config, rule?.provider ?? DEFAULT_PROVIDER_NAME);
+}
+
+/**
+ * The failover chain for a selected provider: the provider itself, then
+ * each of its `fallbacks` (with the `model` override applied). Entries
+ * repeating an earlier provider/model pair are skipped.
+ */
+export function buildProviderChain(
+  config: MyClawConfig,
+  primary: ResolvedProvider,
+): ResolvedProvider[] {
+  const chain = [primary];
+  for (const fallback of primary.config.fallbacks ?? []) {
+    const { name, config: provider } = getProviderByName(config, fallback.provider);
+    const model = fallback.model ?? provider.model;
+    if (chain.some((c) => c.name === name && c.config.model === model)) continue;
+    chain.push({ name, config: { ...provider, model } });
+  }
+  return chain;
+}
@@ -10,8 +10,16 @@ import os from "node:os";
 import path from "node:path";
 
 import type { MyClawConfig } from "../config/index.js";
-import { loadTranscript } from "../sessions/index.js";
+import {
+  loadTranscript,
+  loadTranscriptRecords,
+  getSessionEntry,
+  appendMessages,
+} from "../sessions/index.js";
 import type { AgentRunEvent } from "./types.js";
+import { PROFILE_DISABLE_THRESHOLD } from "./types.js";
+import { recordProfileFailure, getProfileHealth } from "./profile-health.js";
+import { estimateContextTokens } from "./token-budget.js";
 
 // Mock the streaming module to avoid real LLM calls
 vi.mock("./streaming.js", () => ({
@@ -37,10 +45,12 @@ vi.mock("@mariozechner/pi-coding-agent", () => ({
 }));
 
 import { runAgent } from "./run.js";
-import { callLLM, streamLLM } from "./streaming.js";
+import { callLLM, streamLLM, resolveModel } from "./streaming.js";
+import { createCodingTools } from "@mariozechner/pi-coding-agent";
 
 const mockedCallLLM = vi.mocked(callLLM);
 const mockedStreamLLM = vi.mocked(streamLLM);
+const mockedResolveModel = vi.mocked(resolveModel);
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
@@ -102,12 +112,18 @@ describe("runAgent", () => {
   let tmpDir: string;
   const sessionKey = "agent:main:channel:test:account:default:peer:direct:test_user";
 
+  const originalStateDir = process.env.MYCLAW_STATE_DIR;
+
   beforeEach(() => {
     tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-run-test-"));
+    // Keep sessions and profile health out of the real ~/.myclaw
+    process.env.MYCLAW_STATE_DIR = tmpDir;
     vi.clearAllMocks();
   });
 
   afterEach(() => {
+    if (originalStateDir === undefined) delete process.env.MYCLAW_STATE_DIR;
+    else process.env.MYCLAW_STATE_DIR = originalStateDir;
     fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
@@ -299,6 +315,206 @@ describe("runAgent", () => {
     expect(result.lastCallUsage.output).toBe(100);
   });
 
+  it("runs read-only tool calls concurrently and persists results in call order", async () => {
+    const started: string[] = [];
+    const finishers: Record<string, () => void> = {};
+    const read = {
+      name: "read",
+      label: "Read",
+      description: "Read a file",
+      parameters: {},
+      execute: (id: string) => {
+        started.push(id);
+        return new Promise((resolve) => {
+          finishers[id] = () => resolve({ content: [{ type: "text", text: `read ${id}` }] });
+        });
+      },
+    };
+    vi.mocked(createCodingTools).mockReturnValueOnce([read] as any);
+
+    mockedStreamLLM
+      .mockResolvedValueOnce(
+        makeAssistantMessage("Reading.", {
+          toolCalls: [
+            { id: "r1", name: "read", arguments: { path: "a" } },
+            { id: "r2", name: "read", arguments: { path: "b" } },
+          ],
+        }),
+      )
+      .mockResolvedValueOnce(makeAssistantMessage("Done."));
+
+    const events: AgentRunEvent[] = [];
+    const run = runAgent({
+      sessionKey,
+      userMessage: "Read both",
+      config: makeConfig(tmpDir),
+      onEvent: (e) => events.push(e),
+    });
+
+    // Both reads are in flight before either finishes; finish them out of order
+    await vi.waitFor(() => expect(started).toEqual(["r1", "r2"]));
+    finishers.r2();
+    finishers.r1();
+    await run;
+
+    const results = loadTranscript(sessionKey).filter((m) => m.role === "tool");
+    expect(results.map((m) => m.toolCallId)).toEqual(["r1", "r2"]);
+    expect(events.filter((e) => e.type === "tool_end").map((e) => (e as any).toolCallId)).toEqual([
+      "r2",
+      "r1",
+    ]);
+  });
+
+  it("returns a denied tool call to the model as an error result", async () => {
+    mockedCallLLM
+      .mockResolvedValueOnce(
+        makeAssistantMessage("Patching.", {
+          toolCalls: [{ id: "tc1", name: "apply_patch", arguments: { patch: "--- a" } }],
+        }),
+      )
+      .mockResolvedValueOnce(makeAssistantMessage("Okay, I won't."));
+
+    const config = makeConfig(tmpDir);
+    config.agent!.approval = { tools: ["apply_patch"] };
+    const approver = vi.fn(async () => ({ type: "deny" as const, reason: "read-only chat" }));
+
+    const result = await runAgent({ sessionKey, userMessage: "Patch it", config, approver });
+
+    expect(result.reply).toBe("Okay, I won't.");
+    expect(approver).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: "apply_patch", toolCallId: "tc1" }),
+      undefined,
+    );
+    const toolResult = loadTranscript(sessionKey).find((m) => m.role === "tool");
+    expect(toolResult).toMatchObject({
+      toolCallId: "tc1",
+      content: "Tool call denied: read-only chat",
+    });
+  });
+
+  it("offers only the tools the session's policy allows and denies the rest", async () => {
+    mockedCallLLM
+      .mockResolvedValueOnce(
+        makeAssistantMessage("Patching.", {
+          toolCalls: [{ id: "tc1", name: "apply_patch", arguments: { patch: "--- a" } }],
+        }),
+      )
+      .mockResolvedValueOnce(makeAssistantMessage("Not available here."));
+
+    const config = makeConfig(tmpDir);
+    config.agent!.tools = { rules: [{ peerKind: "direct", peerId: "test_user", deny: ["apply_*"] }] };
+
+    await runAgent({ sessionKey, userMessage: "Patch it", config });
+
+    const { context } = mockedCallLLM.mock.calls[0][0];
+    expect(context.tools?.map((t) => t.name) ?? []).not.toContain("apply_patch");
+    expect(context.systemPrompt).not.toContain("apply_patch");
+    expect(loadTranscript(sessionKey).find((m) => m.role === "tool")).toMatchObject({
+      content: "Tool call denied: apply_patch is not available in this session",
+    });
+  });
+
+  function mockContextWindow(contextWindow: number): void {
+    const model = mockedResolveModel("anthropic", "test-model");
+    mockedResolveModel.mockClear();
+    mockedResolveModel.mockReturnValueOnce({ ...model, contextWindow, maxTokens: 100 });
+  }
+
+  function seedHistory(count: number, chars: number): void {
+    appendMessages(
+      sessionKey,
+      Array.from({ length: count }, (_, i) => ({
+        role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+        content: `message ${i} `.padEnd(chars, "x"),
+      })),
+    );
+  }
+
+  it("compacts before the call when the estimate exceeds the context budget", async () => {
+    seedHistory(12, 4000);
+    mockContextWindow(8000);
+    mockedCallLLM.mockResolvedValueOnce(makeAssistantMessage("Summary of the early chat"));
+    mockedStreamLLM.mockResolvedValueOnce(makeAssistantMessage("ok"));
+
+    const events: AgentRunEvent[] = [];
+    const result = await runAgent({
+      sessionKey,
+      userMessage: "hi",
+      config: makeConfig(tmpDir),
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(result.reply).toBe("ok");
+    const compaction = events.find((e) => e.type === "compaction");
+    expect(compaction).toMatchObject({ trigger: "budget", oldCount: 13, newCount: 11 });
+    if (compaction?.type === "compaction") {
+      expect(compaction.estimatedTokens).toBeGreaterThan(8000);
+    }
+    // Summarized before the request was sent, not after a rejection
+    expect(mockedCallLLM.mock.invocationCallOrder[0]).toBeLessThan(
+      mockedStreamLLM.mock.invocationCallOrder[0],
+    );
+    expect(mockedStreamLLM).toHaveBeenCalledTimes(1);
+    const sent = mockedStreamLLM.mock.calls[0][0].context.messages;
+    expect(sent[0].content).toContain("Summary of the early chat");
+  });
+
+  it("persists the compaction so the next run starts from the summary", async () => {
+    seedHistory(12, 4000);
+    mockContextWindow(8000);
+    mockedCallLLM
+      .mockResolvedValueOnce(makeAssistantMessage("Summary of the early chat"))
+      .mockResolvedValueOnce(makeAssistantMessage("first"))
+      .mockResolvedValueOnce(makeAssistantMessage("second"));
+
+    await runAgent({ sessionKey, userMessage: "one", config: makeConfig(tmpDir) });
+
+    // Originals stay on disk; the checkpoint replaces the 3 oldest messages
+    expect(loadTranscript(sessionKey)).toHaveLength(14);
+    const records = loadTranscriptRecords(sessionKey);
+    expect(records[records.length - 1]).toMatchObject({
+      type: "compaction",
+      summary: "Summary of the early chat",
+      fromIndex: 0,
+      toIndex: 3,
+    });
+
+    // Fits again once replayed from the summary: no second compaction
+    await runAgent({ sessionKey, userMessage: "two", config: makeConfig(tmpDir) });
+    expect(mockedCallLLM).toHaveBeenCalledTimes(3);
+    // (the run keeps appending to the array it sent, so compare its first 13 entries)
+    const sent = mockedCallLLM.mock.calls[2][0].context.messages.slice(0, 13);
+    expect(sent.map((m) => m.content)).toEqual([
+      "[Conversation summary]\nSummary of the early chat",
+      ...loadTranscript(sessionKey)
+        .slice(3, 14)
+        .map((m) => (m.role === "user" ? m.content : expect.anything())),
+      "two",
+    ]);
+  });
+
+  it("calibrates the estimate from usage reported earlier in the session", async () => {
+    seedHistory(12, 400);
+    mockedCallLLM.mockImplementationOnce(async (params) => {
+      // The provider counts 3× our estimate
+      const estimate = estimateContextTokens(params.context);
+      return makeAssistantMessage("first", { usage: { input: estimate * 3, output: 10 } });
+    });
+    await runAgent({ sessionKey, userMessage: "one", config: makeConfig(tmpDir) });
+    const estimate = estimateContextTokens(mockedCallLLM.mock.calls[0][0].context);
+
+    // Fits uncalibrated (estimate × 1.2), but not at the 3× the provider reported
+    mockContextWindow(Math.ceil(estimate * 2) + 100);
+    mockedCallLLM
+      .mockResolvedValueOnce(makeAssistantMessage("summary"))
+      .mockResolvedValueOnce(makeAssistantMessage("second"));
+    const result = await runAgent({ sessionKey, userMessage: "two", config: makeConfig(tmpDir) });
+
+    expect(result.reply).toBe("second");
+    expect(mockedCallLLM).toHaveBeenCalledTimes(3);
+    expect(mockedCallLLM.mock.calls[1][0].context.messages[0].content).toContain("Summarize");
+  });
+
   it("handles unknown tool gracefully", async () => {
     const toolCallMsg = makeAssistantMessage("Calling unknown tool", {
       toolCalls: [{ id: "tc-unknown", name: "nonexistent_tool", arguments: {} }],
@@ -319,6 +535,206 @@ describe("runAgent", () => {
     expect(result.reply).toBe("Tool not found");
   });
 
+  it("uses the provider picked by providerRules and records it in session metadata", async () => {
+    mockedCallLLM.mockResolvedValueOnce(makeAssistantMessage("From the cheap model"));
+    const groupKey = "agent:main:channel:test:account:default:peer:group:test_group";
+    const config: MyClawConfig = {
+      ...makeConfig(tmpDir),
+      providers: {
+        cheap: {
+          name: "openai",
+          model: "cheap-model",
+          authProfiles: [{ id: "cheap", apiKey: "sk-cheap" }],
+        },
+      },
+      providerRules: [{ peerKind: "group", provider: "cheap" }],
+    };
+
+    await runAgent({ sessionKey: groupKey, userMessage: "Hi group", config });
+
+    expect(mockedResolveModel).toHaveBeenCalledWith("openai", "cheap-model", undefined);
+    expect(mockedCallLLM.mock.calls[0][0].options?.apiKey).toBe("sk-cheap");
+    expect(getSessionEntry(groupKey)).toMatchObject({ provider: "cheap", model: "cheap-model" });
+  });
+
+  it("records the default provider when no rule matches", async () => {
+    mockedCallLLM.mockResolvedValueOnce(makeAssistantMessage("Default"));
+    const config: MyClawConfig = {
+      ...makeConfig(tmpDir),
+      providerRules: [{ peerKind: "group", provider: "default" }],
+    };
+
+    await runAgent({ sessionKey, userMessage: "Hi", config });
+
+    expect(mockedCallLLM.mock.calls[0][0].options?.apiKey).toBe("sk-test-1");
+    expect(getSessionEntry(sessionKey)).toMatchObject({ provider: "default", model: "test-model" });
+  });
+
+  it("falls back to the next provider once every profile is failing", async () => {
+    const unavailable = Object.assign(new Error("Service Unavailable"), { status: 503 });
+    mockedStreamLLM
+      .mockRejectedValueOnce(unavailable) // primary
+      .mockRejectedValueOnce(unavailable) // fallback profile → both cooling down
+      .mockResolvedValueOnce(makeAssistantMessage("From the local model"));
+
+    const base = makeConfig(tmpDir);
+    const config: MyClawConfig = {
+      ...base,
+      provider: { ...base.provider, fallbacks: [{ provider: "local", model: "llama3" }] },
+      providers: {
+        local: {
+          name: "ollama",
+          model: "qwen",
+          baseUrl: "http://localhost:11434/v1",
+          authProfiles: [{ id: "local", apiKey: "ollama" }],
+        },
+      },
+    };
+
+    const events: AgentRunEvent[] = [];
+    const result = await runAgent({
+      sessionKey,
+      userMessage: "Anyone there?",
+      config,
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(result.reply).toBe("From the local model");
+    expect(events.filter((e) => e.type === "retry")).toHaveLength(1);
+    expect(events.find((e) => e.type === "provider_fallback")).toEqual({
+      type: "provider_fallback",
+      fromProvider: "default",
+      fromModel: "test-model",
+      toProvider: "local",
+      toModel: "llama3",
+      reason: "timeout",
+    });
+    expect(mockedResolveModel).toHaveBeenLastCalledWith(
+      "ollama",
+      "llama3",
+      "http://localhost:11434/v1",
+    );
+    expect(mockedStreamLLM.mock.calls[2][0].options?.apiKey).toBe("ollama");
+    expect(getSessionEntry(sessionKey)).toMatchObject({ provider: "local", model: "llama3" });
+  });
+
+  it("falls back on quota errors without retrying the provider", async () => {
+    const quota = new Error("You exceeded your current quota");
+    mockedCallLLM.mockRejectedValueOnce(quota).mockResolvedValueOnce(makeAssistantMessage("ok"));
+
+    const base = makeConfig(tmpDir);
+    const config: MyClawConfig = {
+      ...base,
+      provider: { ...base.provider, fallbacks: [{ provider: "default", model: "smaller-model" }] },
+    };
+
+    const result = await runAgent({ sessionKey, userMessage: "Hi", config });
+
+    expect(result.reply).toBe("ok");
+    expect(mockedCallLLM).toHaveBeenCalledTimes(2);
+    // Same provider → same profile health: the key that just failed is cooling down
+    expect(mockedCallLLM.mock.calls[1][0].options?.apiKey).toBe("sk-test-2");
+    expect(mockedResolveModel).toHaveBeenLastCalledWith("anthropic", "smaller-model", undefined);
+  });
+
+  it("remembers failed profiles across runs", async () => {
+    const billing = Object.assign(new Error("Payment Required"), { status: 402 });
+    mockedCallLLM
+      .mockRejectedValueOnce(billing)
+      .mockResolvedValueOnce(makeAssistantMessage("first"))
+      .mockResolvedValueOnce(makeAssistantMessage("second"));
+
+    await runAgent({ sessionKey, userMessage: "one", config: makeConfig(tmpDir) });
+    await runAgent({ sessionKey, userMessage: "two", config: makeConfig(tmpDir) });
+
+    // The next run starts on the fallback profile instead of retrying the failed key
+    expect(mockedCallLLM.mock.calls.map((c) => c[0].options?.apiKey)).toEqual([
+      "sk-test-1",
+      "sk-test-2",
+      "sk-test-2",
+    ]);
+    expect(getProfileHealth("default", "primary")).toMatchObject({
+      lastFailureReason: "billing",
+      consecutiveFailures: 1,
+    });
+    expect(getProfileHealth("default", "fallback")).toBeUndefined();
+  });
+
+  it("cools profiles down for as long as the provider's retry-after asks", async () => {
+    const limited = (retryAfterMs: string) =>
+      Object.assign(new Error("Too Many Requests"), {
+        status: 429,
+        headers: { "retry-after-ms": retryAfterMs },
+      });
+    mockedStreamLLM
+      .mockRejectedValueOnce(limited("60000")) // primary
+      .mockRejectedValueOnce(limited("200")) // fallback → every profile cooling down
+      .mockResolvedValueOnce(makeAssistantMessage("ok"));
+
+    const events: AgentRunEvent[] = [];
+    const result = await runAgent({
+      sessionKey,
+      userMessage: "hi",
+      config: makeConfig(tmpDir),
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(result.reply).toBe("ok");
+    const retries = events.filter((e) => e.type === "retry");
+    expect(retries).toHaveLength(2);
+    expect(retries[0]).toMatchObject({ profileId: "fallback", waitMs: 0 });
+    expect(retries[1]).toMatchObject({ profileId: "fallback" });
+    if (retries[1].type === "retry") {
+      expect(retries[1].waitMs).toBeGreaterThan(0);
+      expect(retries[1].waitMs).toBeLessThanOrEqual(200);
+    }
+    expect(getProfileHealth("default", "primary")?.cooldownMs).toBe(60_000);
+  });
+
+  it("removes the abort listener of each cooldown wait", async () => {
+    const limited = Object.assign(new Error("Too Many Requests"), {
+      status: 429,
+      headers: { "retry-after-ms": "150" },
+    });
+    mockedStreamLLM
+      .mockRejectedValueOnce(limited)
+      .mockRejectedValueOnce(limited)
+      .mockResolvedValueOnce(makeAssistantMessage("ok"));
+    const controller = new AbortController();
+    const added = vi.spyOn(controller.signal, "addEventListener");
+    const removed = vi.spyOn(controller.signal, "removeEventListener");
+
+    const result = await runAgent({
+      sessionKey,
+      userMessage: "hi",
+      config: makeConfig(tmpDir),
+      signal: controller.signal,
+      onEvent: () => {},
+    });
+
+    expect(result.reply).toBe("ok");
+    const abortListeners = (spy: typeof added) =>
+      spy.mock.calls.filter(([type]) => type === "abort").map(([, listener]) => listener);
+    expect(abortListeners(added).length).toBeGreaterThan(0);
+    expect(abortListeners(removed)).toEqual(abortListeners(added));
+  });
+
+  it("skips disabled profiles and fails clearly when all are disabled", async () => {
+    for (let i = 0; i < PROFILE_DISABLE_THRESHOLD; i++) {
+      recordProfileFailure("default", "primary", 0, "auth");
+    }
+    mockedCallLLM.mockResolvedValueOnce(makeAssistantMessage("ok"));
+    await runAgent({ sessionKey, userMessage: "hi", config: makeConfig(tmpDir) });
+    expect(mockedCallLLM.mock.calls[0][0].options?.apiKey).toBe("sk-test-2");
+
+    for (let i = 0; i < PROFILE_DISABLE_THRESHOLD; i++) {
+      recordProfileFailure("default", "fallback", 1, "auth");
+    }
+    await expect(
+      runAgent({ sessionKey, userMessage: "hi again", config: makeConfig(tmpDir) }),
+    ).rejects.toThrow(/All auth profiles of provider "default" are disabled/);
+  });
+
   it("throws on non-retriable error", async () => {
     const unknownError = new Error("Something completely unexpected");
     mockedCallLLM.mockRejectedValueOnce(unknownError);
@@ -5,6 +5,21 @@
  * LLM call loop with retry/failover/context compaction → tool execution →
  * transcript persistence.
  *
+ * Failover is two-level: retriable errors rotate through the current
+ * provider's auth profiles; once they are all failing or cooling down (or
+ * `maxRetries` is spent), the run moves to the next entry of the provider's
+ * `fallbacks` chain and stays there for the rest of the run. Profile health
+ * (cooldowns, failure streaks, disabled keys) lives in the profile-health
+ * store and is re-read before every attempt, so it is shared with other runs.
+ *
+ * Before every call the request is checked against the model's context
+ * budget (token estimate calibrated by the session's reported usage) and
+ * compacted up front if it would not fit; the overflow recovery in the
+ * error path remains as a backstop for bad estimates.
+ *
+ * With `agent.cassette`, every LLM call of the run is recorded to (or
+ * replayed from) a cassette file; cassette errors end the run.
+ *
  * Uses Pi SDK's `streamSimple` / `completeSimple` (not the Agent class)
  * for full control over retry, failover, and compaction.
  *
@@ -15,9 +30,8 @@ import type {
   Message,
   UserMessage,
   AssistantMessage,
-  ToolResultMessage,
   Context,
-  TextContent,
+  Model,
   Usage,
 } from "@mariozechner/pi-ai";
 
@@ -25,35 +39,76 @@ import {
   DEFAULT_MAX_ITERATIONS,
   DEFAULT_MAX_RETRIES,
   DEFAULT_MAX_TOOL_RESULT_CHARS,
+  DEFAULT_MAX_PARALLEL_TOOLS,
+  DEFAULT_TOOL_TIMEOUT_MS,
+  DEFAULT_COMPACTION_MODE,
+  collectSecrets,
 } from "../config/index.js";
-import { loadTranscript, appendMessages, updateSessionMeta } from "../sessions/index.js";
+import {
+  loadTranscriptRecords,
+  isTranscriptCompaction,
+  appendMessages,
+  appendCompaction,
+  updateSessionMeta,
+  type TranscriptCompaction,
+} from "../sessions/index.js";
+import { getLogger, type Logger } from "../logging/index.js";
 
-import type { RunAgentParams, RunResult, AgentEventCallback, ProfileState } from "./types.js";
+import type {
+  RunAgentParams,
+  RunResult,
+  AgentRunEvent,
+  AgentEventCallback,
+  FailoverReason,
+  ProfileState,
+  Cassette,
+} from "./types.js";
+import { DEFAULT_COMPACTION_RECENT_COUNT } from "./types.js";
 import { ensureWorkspace, scaffoldBootstrapFiles } from "./workspace.js";
 import { buildSystemPrompt } from "./system-prompt.js";
 import { resolveModel, streamLLM, callLLM } from "./streaming.js";
-import { createAgentTools, findTool, getToolNames } from "./tools/create-tools.js";
+import { openCassette, CassetteError } from "./cassette.js";
+import { resolveSessionProvider, buildProviderChain } from "./providers.js";
+import { createAgentTools, getToolNames } from "./tools/create-tools.js";
+import { executeToolCalls } from "./tool-execution.js";
+import { createToolAuthorizer } from "./tool-approval.js";
+import { resolveToolPolicy, filterToolsByPolicy } from "./tool-policy.js";
 import {
-  transcriptToMessages,
+  replayTranscript,
   repairOrphanedToolCalls,
+  convertMessagesForModel,
   messagesToTranscript,
   extractText,
   extractToolCalls,
 } from "./transcript-helpers.js";
 import {
-  classifyError,
+  classifyErrorDetails,
   isRetriable,
+  isProviderFailoverReason,
   nextProfileIndex,
-  createProfileStates,
   isProfileCoolingDown,
-  markProfileFailed,
-  markProfileGood,
+  isProfileDisabled,
 } from "./failover.js";
+import {
+  loadProfileStates,
+  recordProfileFailure,
+  recordProfileSuccess,
+} from "./profile-health.js";
 import {
   detectContextOverflow,
   compactMessages,
   truncateOversizedToolResults,
+  getSummaryText,
+  type SummarizeFunction,
 } from "./context-guard.js";
+import {
+  estimateContextTokens,
+  calibrationFromUsage,
+  calibrationFromHistory,
+  checkTokenBudget,
+} from "./token-budget.js";
+
+const log = getLogger("agent");
 
 // ── Usage helpers ────────────────────────────────────────────────────
 
@@ -90,18 +145,79 @@ function mergeUsage(accumulated: Usage, latest: Usage): Usage {
   };
 }
 
-// ── Tool result helpers ──────────────────────────────────────────────
-
-function extractToolResultText(result: { content: { type: string; text?: string }[] }): string {
-  return result.content
-    .filter((c): c is TextContent => c.type === "text" && typeof c.text === "string")
-    .map((c) => c.text)
-    .join("\n");
+// ── Compaction helpers ───────────────────────────────────────────────
+
+function createSummarizer(
+  model: Model<any>,
+  apiKey: string,
+  signal: AbortSignal | undefined,
+  cassette: Cassette | undefined,
+): SummarizeFunction {
+  return async (prompt) => {
+    const summaryContext: Context = {
+      messages: [{ role: "user", content: prompt, timestamp: Date.now() }],
+    };
+    const summaryMsg = await callLLM({
+      model,
+      context: summaryContext,
+      options: { apiKey, signal },
+      cassette,
+    });
+    return extractText(summaryMsg);
+  };
 }
 
-function truncateToolResult(text: string, maxChars: number): string {
-  if (text.length <= maxChars) return text;
-  return text.slice(0, maxChars) + "\n[truncated]";
+// ── Logging helpers ──────────────────────────────────────────────────
+
+/** Log a run event (stream deltas and tool starts are too chatty for the log files). */
+function logRunEvent(runLog: Logger, event: AgentRunEvent): void {
+  switch (event.type) {
+    case "llm_start":
+      runLog.debug("calling LLM", { iteration: event.iteration });
+      break;
+    case "llm_end":
+      runLog.debug("LLM replied", {
+        stopReason: event.message.stopReason,
+        inputTokens: event.message.usage.input,
+        outputTokens: event.message.usage.output,
+      });
+      break;
+    case "tool_end": {
+      const { type: _, ...fields } = event;
+      if (event.timedOut) runLog.warn("tool call timed out", fields);
+      else runLog.debug("tool call finished", fields);
+      break;
+    }
+    case "tool_denied":
+      runLog.info("tool call denied", {
+        toolName: event.toolName,
+        toolCallId: event.toolCallId,
+        reason: event.reason,
+      });
+      break;
+    case "retry": {
+      const { type: _, ...fields } = event;
+      runLog.info("retrying LLM call", fields);
+      break;
+    }
+    case "provider_fallback": {
+      const { type: _, ...fields } = event;
+      runLog.warn("falling back to the next provider", fields);
+      break;
+    }
+    case "compaction": {
+      const { type: _, ...fields } = event;
+      runLog.info("compacted history", fields);
+      break;
+    }
+    case "done":
+      runLog.info("run finished", {
+        iterations: event.result.iterations,
+        maxIterationsReached: event.result.maxIterationsReached,
+        totalTokens: event.result.usage.totalTokens,
+      });
+      break;
+  }
 }
 
 // ── Main entry point ─────────────────────────────────────────────────
@@ -110,44 +226,106 @@ function truncateToolResult(text: string, maxChars: number): string {
  * Run the agent for a single user message.
  *
  * Pipeline:
- *   1. Setup workspace, tools, system prompt, model
+ *   1. Setup workspace, session tools, provider chain, system prompt, model
  *   2. Load & prepare conversation history
  *   3. Iteration loop: LLM call → tool execution → repeat
  *   4. Persist new messages to transcript
  */
 export async function runAgent(params: RunAgentParams): Promise<RunResult> {
-  const { sessionKey, userMessage, config, signal, onEvent } = params;
-  const emit = onEvent ?? (() => {});
+  const { sessionKey, userMessage, config, signal, onEvent, approver } = params;
+  const runLog = log.child({ sessionKey });
+  const emit: AgentEventCallback = (event) => {
+    logRunEvent(runLog, event);
+    onEvent?.(event);
+  };
 
   // ── 1. Setup ───────────────────────────────────────────────────────
 
   const workspaceDir = ensureWorkspace(config);
   scaffoldBootstrapFiles(workspaceDir);
 
-  const tools = createAgentTools(workspaceDir);
+  // Only the tools the session's policy allows are offered (and may run)
+  const policy = resolveToolPolicy(config, sessionKey);
+  const tools = filterToolsByPolicy(
+    createAgentTools(workspaceDir, {
+      extraRoots: config.agent?.extraRoots,
+      patchFuzz: config.agent?.patchFuzz,
+    }),
+    policy,
+  );
   const toolNames = getToolNames(tools);
+  const authorize = createToolAuthorizer({ config, sessionKey, approver, signal, emit, policy });
+
+  const providerChain = buildProviderChain(config, resolveSessionProvider(config, sessionKey));
+  let chainIndex = 0;
+  let { name: providerName, config: provider } = providerChain[chainIndex];
 
-  const systemPrompt = buildSystemPrompt({
+  let systemPrompt = buildSystemPrompt({
     workspaceDir,
     toolNames,
-    modelId: config.provider.model,
+    modelId: provider.model,
   });
 
-  const model = resolveModel(
-    config.provider.name,
-    config.provider.model,
-    config.provider.baseUrl,
-  );
+  let model = resolveModel(provider.name, provider.model, provider.baseUrl);
+
+  // Record or replay this run's LLM calls (agent.cassette)
+  const cassette = config.agent?.cassette
+    ? openCassette(config.agent.cassette, { workspaceDir, secrets: collectSecrets(config) })
+    : undefined;
 
   const maxIterations = config.agent?.maxIterations ?? DEFAULT_MAX_ITERATIONS;
   const maxRetries = config.agent?.maxRetries ?? DEFAULT_MAX_RETRIES;
   const maxToolResultChars = config.agent?.maxToolResultChars ?? DEFAULT_MAX_TOOL_RESULT_CHARS;
+  const maxParallelTools = config.agent?.maxParallelTools ?? DEFAULT_MAX_PARALLEL_TOOLS;
+  const toolTimeoutMs = config.agent?.toolTimeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+  const compactionMode = config.agent?.compactionMode ?? DEFAULT_COMPACTION_MODE;
+
+  runLog.info("run started", {
+    provider: providerName,
+    model: provider.model,
+    tools: toolNames.length,
+    ...(cassette ? { cassette: cassette.mode } : {}),
+  });
 
   // ── 2. Load & prepare history ──────────────────────────────────────
 
-  const transcript = loadTranscript(sessionKey);
-  let messages: Message[] = transcriptToMessages(transcript);
-  messages = repairOrphanedToolCalls(messages);
+  // Replay starts from the latest compaction checkpoint
+  const records = loadTranscriptRecords(sessionKey);
+  const replayed = replayTranscript(records);
+  const storedCount = records.filter((r) => !isTranscriptCompaction(r)).length;
+
+  // Transcript index of each in-memory message (none for summaries and
+  // synthetic tool results) — to place compaction checkpoints
+  const transcriptIndex = new Map<Message, number>();
+  replayed.messages.forEach((m, i) => {
+    const index = replayed.transcriptIndices[i];
+    if (index !== undefined) transcriptIndex.set(m, index);
+  });
+
+  let messages: Message[] = [];
+
+  /** Replace `messages`; a same-length result (copies of the same messages) keeps their indices. */
+  const setMessages = (next: Message[]): void => {
+    if (next.length === messages.length) {
+      next.forEach((m, i) => {
+        const index = transcriptIndex.get(messages[i]);
+        if (index !== undefined) transcriptIndex.set(m, index);
+      });
+    }
+    messages = next;
+  };
+
+  // Messages produced by this run, persisted at the end (as produced, before truncation)
+  const newMessages: Message[] = [];
+  const addMessage = (message: Message): void => {
+    transcriptIndex.set(message, storedCount + newMessages.length);
+    newMessages.push(message);
+    messages.push(message);
+  };
+
+  messages = repairOrphanedToolCalls(replayed.messages);
+  // Earlier runs may have been answered by a fallback model
+  setMessages(convertMessagesForModel(messages, model));
 
   // Append new user message
   const userMsg: UserMessage = {
@@ -155,19 +333,92 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
     content: userMessage,
     timestamp: Date.now(),
   };
-  messages.push(userMsg);
-
-  // Track where new messages start (for persistence later)
-  const historyLength = messages.length;
+  addMessage(userMsg);
+
+  // Checkpoint for the latest compaction of this run, written after the new messages
+  let pendingCompaction: Omit<TranscriptCompaction, "type" | "ts"> | undefined;
+  let summaryFromIndex = replayed.compaction?.fromIndex;
+
+  /**
+   * Level 1 compaction — summarize old messages and record the checkpoint
+   * that lets later runs start from the summary.
+   */
+  const compactHistory = async (apiKey: string): Promise<void> => {
+    const compacted = await compactMessages(
+      messages,
+      createSummarizer(model, apiKey, signal, cassette),
+      DEFAULT_COMPACTION_RECENT_COUNT,
+      { mode: compactionMode },
+    );
+    const summary = compacted === messages ? undefined : getSummaryText(compacted[0]);
+    if (summary !== undefined) {
+      const kept = compacted.slice(1);
+      const replaced = messages.slice(0, messages.length - kept.length);
+      const replacedIndices = replaced.flatMap((m) => transcriptIndex.get(m) ?? []);
+      const fromIndex = Math.min(summaryFromIndex ?? Infinity, ...replacedIndices);
+      const toIndex =
+        kept.map((m) => transcriptIndex.get(m)).find((i) => i !== undefined) ??
+        storedCount + newMessages.length;
+      pendingCompaction = { summary, fromIndex: Number.isFinite(fromIndex) ? fromIndex : 0, toIndex };
+      summaryFromIndex = pendingCompaction.fromIndex;
+    }
+    messages = compacted;
+  };
 
   // ── 3. Init profile state & usage ──────────────────────────────────
 
-  const profileStates = createProfileStates(config.provider.authProfiles.length);
+  const loadCurrentProfileStates = (): ProfileState[] =>
+    loadProfileStates(providerName, provider.authProfiles.map((p) => p.id));
+
+  let profileStates = loadCurrentProfileStates();
   let currentProfileIndex = 0;
 
+  // Provider-reported prompt tokens ÷ our estimate — refined after every call
+  let calibration = calibrationFromHistory({ systemPrompt, messages, tools }, model);
+
+  /**
+   * Switch to the next provider in the fallback chain — fresh profile
+   * state, system prompt, and history converted for its API.
+   * Returns `false` at the end of the chain.
+   */
+  const fallBackToNextProvider = (reason: FailoverReason): boolean => {
+    if (chainIndex + 1 >= providerChain.length) return false;
+    const from = providerChain[chainIndex];
+    chainIndex++;
+    ({ name: providerName, config: provider } = providerChain[chainIndex]);
+
+    model = resolveModel(provider.name, provider.model, provider.baseUrl);
+    systemPrompt = buildSystemPrompt({ workspaceDir, toolNames, modelId: provider.model });
+    profileStates = loadCurrentProfileStates();
+    currentProfileIndex = 0;
+    setMessages(convertMessagesForModel(messages, model));
+    calibration = calibrationFromHistory({ systemPrompt, messages, tools }, model);
+
+    emit({
+      type: "provider_fallback",
+      fromProvider: from.name,
+      fromModel: from.config.model,
+      toProvider: providerName,
+      toModel: provider.model,
+      reason,
+    });
+    return true;
+  };
+
   let totalUsage = emptyUsage();
   let lastCallUsage = emptyUsage();
 
+  /** Persist this run's messages (and compaction checkpoint) and session metadata. */
+  const persistRun = (): void => {
+    appendMessages(sessionKey, messagesToTranscript(newMessages));
+    if (pendingCompaction) appendCompaction(sessionKey, pendingCompaction);
+    updateSessionMeta(sessionKey, {
+      provider: providerName,
+      model: provider.model,
+      totalTokens: totalUsage.totalTokens,
+    });
+  };
+
   // ── 4. Iteration loop ──────────────────────────────────────────────
 
   let compactionAttempted = false;
@@ -185,39 +436,81 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
     while (retries <= maxRetries) {
       signal?.throwIfAborted();
 
-      // Find a non-cooling-down profile
+      // Find a profile that is neither disabled nor cooling down (other runs may have failed it)
+      profileStates = loadCurrentProfileStates();
       const profile = findAvailableProfile(
         profileStates,
         currentProfileIndex,
-        config.provider.authProfiles.length,
+        provider.authProfiles.length,
       );
       if (profile === undefined) {
-        // All profiles cooling down — wait for the shortest cooldown
-        const minWait = Math.min(
-          ...profileStates.map((s) =>
-            s.failedAt !== undefined ? s.cooldownMs - (Date.now() - s.failedAt) : 0,
-          ),
-        );
-        await sleep(Math.max(minWait, 100), signal);
+        // All profiles unavailable → next provider in the fallback chain
+        const reason = latestFailureReason(profileStates);
+        if (fallBackToNextProvider(reason)) {
+          retries = 0;
+          continue;
+        }
+
+        const enabled = profileStates.filter((s) => !isProfileDisabled(s));
+        if (enabled.length === 0) {
+          runLog.error("all auth profiles are disabled", { provider: providerName, reason });
+          throw new Error(
+            `All auth profiles of provider "${providerName}" are disabled after repeated ` +
+              `${reason} failures. Re-enable them with \`myclaw profiles reset ${providerName}\`.`,
+          );
+        }
+
+        // Wait for the shortest cooldown
+        await sleep(Math.max(msUntilAvailable(enabled), 100), signal);
         retries++;
         continue;
       }
       currentProfileIndex = profile.index;
 
-      const apiKey = config.provider.authProfiles[currentProfileIndex].apiKey;
-      const context: Context = {
-        systemPrompt,
-        messages,
-        tools,
-      };
-
-      emit({ type: "llm_start", iteration: iterations });
+      const apiKey = provider.authProfiles[currentProfileIndex].apiKey;
 
       try {
+        // Level 0: compact/truncate up front if the request would not fit the budget
+        let budget = checkTokenBudget({ systemPrompt, messages, tools }, model, calibration);
+        if (budget.overBudget && !compactionAttempted) {
+          compactionAttempted = true;
+          const oldCount = messages.length;
+          await compactHistory(apiKey);
+          emit({
+            type: "compaction",
+            oldCount,
+            newCount: messages.length,
+            trigger: "budget",
+            estimatedTokens: budget.estimatedTokens,
+          });
+          budget = checkTokenBudget({ systemPrompt, messages, tools }, model, calibration);
+        }
+        if (budget.overBudget && !truncationAttempted) {
+          truncationAttempted = true;
+          const oldCount = messages.length;
+          setMessages(truncateOversizedToolResults(messages));
+          emit({
+            type: "compaction",
+            oldCount,
+            newCount: messages.length,
+            trigger: "budget",
+            estimatedTokens: budget.estimatedTokens,
+          });
+        }
+
+        const context: Context = {
+          systemPrompt,
+          messages,
+          tools,
+        };
+
+        emit({ type: "llm_start", iteration: iterations });
+
         const callParams = {
           model,
           context,
           options: { apiKey, signal },
+          cassette,
         };
 
         if (onEvent) {
@@ -227,14 +520,29 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
         }
 
         // Success
-        markProfileGood(profileStates[currentProfileIndex]);
+        recordProfileSuccess(providerName, provider.authProfiles[currentProfileIndex].id);
         lastCallUsage = assistantMsg.usage;
+        calibration =
+          calibrationFromUsage(estimateContextTokens(context), assistantMsg.usage) ?? calibration;
         totalUsage = mergeUsage(totalUsage, lastCallUsage);
 
         emit({ type: "llm_end", message: assistantMsg });
         break;
       } catch (err) {
-        const reason = classifyError(err);
+        // Cassette problems (divergence, end of recording) are never retried
+        if (err instanceof CassetteError) {
+          runLog.error("cassette failed", { err });
+          throw err;
+        }
+
+        const failure = classifyErrorDetails(err);
+        const { reason } = failure;
+        runLog.warn("LLM call failed", {
+          provider: providerName,
+          profileId: provider.authProfiles[currentProfileIndex].id,
+          ...failure,
+          err,
+        });
 
         // Context overflow → 3-level recovery
         if (reason === "context_overflow") {
@@ -242,18 +550,8 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
             // Level 1: compact messages via LLM summary
             compactionAttempted = true;
             const oldCount = messages.length;
-
-            const summarizer = async (prompt: string): Promise<string> => {
-              const summaryContext: Context = {
-                messages: [{ role: "user", content: prompt, timestamp: Date.now() }],
-              };
-              const summaryMsg = await callLLM({ model, context: summaryContext, options: { apiKey, signal } });
-              return extractText(summaryMsg);
-            };
-
-            messages = await compactMessages(messages, summarizer);
-            const newCount = messages.length;
-            emit({ type: "compaction", oldCount, newCount });
+            await compactHistory(apiKey);
+            emit({ type: "compaction", oldCount, newCount: messages.length, trigger: "overflow" });
             continue; // retry same iteration
           }
 
@@ -261,38 +559,63 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
             // Level 2: truncate oversized tool results
             truncationAttempted = true;
             const oldCount = messages.length;
-            messages = truncateOversizedToolResults(messages);
-            emit({ type: "compaction", oldCount, newCount: messages.length });
+            setMessages(truncateOversizedToolResults(messages));
+            emit({ type: "compaction", oldCount, newCount: messages.length, trigger: "overflow" });
             continue; // retry
           }
 
           // Level 3: give up
+          runLog.error("context overflow persists after compaction and truncation");
           throw new Error(
             `Context overflow persists after compaction and truncation. ` +
               `Original error: ${err instanceof Error ? err.message : String(err)}`,
           );
         }
 
+        if (isProviderFailoverReason(reason)) {
+          profileStates[currentProfileIndex] = recordProfileFailure(
+            providerName,
+            provider.authProfiles[currentProfileIndex].id,
+            currentProfileIndex,
+            failure,
+          );
+
+          // This provider is exhausted → next provider in the fallback chain
+          const exhausted =
+            !isRetriable(reason) ||
+            retries >= maxRetries ||
+            findAvailableProfile(profileStates, currentProfileIndex, profileStates.length) ===
+              undefined;
+          if (exhausted && fallBackToNextProvider(reason)) {
+            retries = 0;
+            continue;
+          }
+        }
+
         // Retriable errors → rotate profile
         if (isRetriable(reason) && retries < maxRetries) {
-          markProfileFailed(profileStates[currentProfileIndex]);
           const nextIdx = nextProfileIndex(
             currentProfileIndex,
-            config.provider.authProfiles.length,
+            provider.authProfiles.length,
           );
-          currentProfileIndex = nextIdx;
+          currentProfileIndex = (
+            findAvailableProfile(profileStates, nextIdx, profileStates.length) ??
+            soonestAvailableProfile(profileStates) ?? { index: nextIdx }
+          ).index;
           retries++;
 
           emit({
             type: "retry",
             attempt: retries,
             reason,
-            profileId: config.provider.authProfiles[currentProfileIndex].id,
+            profileId: provider.authProfiles[currentProfileIndex].id,
+            waitMs: msUntilAvailable(profileStates),
           });
           continue;
         }
 
         // Non-retriable or retries exhausted
+        runLog.error("giving up on the LLM call", { reason, retries });
         throw err;
       }
     }
@@ -303,7 +626,7 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
 
     // ── 4b. Push assistant message ───────────────────────────────────
 
-    messages.push(assistantMsg);
+    addMessage(assistantMsg);
 
     // ── 4c. Extract tool calls ───────────────────────────────────────
 
@@ -311,13 +634,7 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
 
     if (toolCalls.length === 0) {
       // Final reply — persist and return
-      const newMessages = messages.slice(historyLength - 1); // include the new user message
-      const transcriptMessages = messagesToTranscript(newMessages);
-      appendMessages(sessionKey, transcriptMessages);
-      updateSessionMeta(sessionKey, {
-        model: config.provider.model,
-        totalTokens: totalUsage.totalTokens,
-      });
+      persistRun();
 
       const reply = extractText(assistantMsg);
       const result: RunResult = {
@@ -331,64 +648,19 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
       return result;
     }
 
-    // ── 4d. Execute each tool call ───────────────────────────────────
-
-    for (const tc of toolCalls) {
-      signal?.throwIfAborted();
+    // ── 4d. Execute tool calls (read-only batches in parallel) ───────
 
-      emit({ type: "tool_start", toolName: tc.name, toolCallId: tc.id });
-      const startTime = Date.now();
-
-      const tool = findTool(tools, tc.name);
-      let toolResult: ToolResultMessage;
-
-      if (!tool) {
-        toolResult = {
-          role: "toolResult",
-          toolCallId: tc.id,
-          toolName: tc.name,
-          content: [{ type: "text", text: `Unknown tool: ${tc.name}` }],
-          isError: true,
-          timestamp: Date.now(),
-        };
-      } else {
-        try {
-          const execResult = await tool.execute(tc.id, tc.arguments, signal);
-          const text = extractToolResultText(execResult);
-          const truncated = truncateToolResult(text, maxToolResultChars);
-
-          toolResult = {
-            role: "toolResult",
-            toolCallId: tc.id,
-            toolName: tc.name,
-            content: [{ type: "text", text: truncated }],
-            isError: false,
-            timestamp: Date.now(),
-          };
-        } catch (err) {
-          const errMsg = err instanceof Error ? err.message : String(err);
-          toolResult = {
-            role: "toolResult",
-            toolCallId: tc.id,
-            toolName: tc.name,
-            content: [{ type: "text", text: `Tool execution error: ${errMsg}` }],
-            isError: true,
-            timestamp: Date.now(),
-          };
-        }
-      }
-
-      messages.push(toolResult);
-
-      const durationMs = Date.now() - startTime;
-      emit({
-        type: "tool_end",
-        toolName: tc.name,
-        toolCallId: tc.id,
-        durationMs,
-        isError: toolResult.isError,
-      });
-    }
+    const toolResults = await executeToolCalls(toolCalls, tools, {
+      maxParallelTools,
+      maxToolResultChars,
+      toolTimeoutMs,
+      toolTimeouts: config.agent?.toolTimeouts,
+      workspaceDir,
+      signal,
+      emit,
+      authorize,
+    });
+    for (const toolResult of toolResults) addMessage(toolResult);
 
     // Reset compaction/truncation flags for next iteration
     compactionAttempted = false;
@@ -397,13 +669,7 @@ export async function runAgent(params: RunAgentParams): Promise<RunResult> {
 
   // ── 5. Max iterations reached ──────────────────────────────────────
 
-  const newMessages = messages.slice(historyLength - 1);
-  const transcriptMessages = messagesToTranscript(newMessages);
-  appendMessages(sessionKey, transcriptMessages);
-  updateSessionMeta(sessionKey, {
-    model: config.provider.model,
-    totalTokens: totalUsage.totalTokens,
-  });
+  persistRun();
 
   // Extract the last assistant text as reply
   let reply = "";
@@ -435,23 +701,54 @@ function findAvailableProfile(
   const now = Date.now();
   for (let i = 0; i < count; i++) {
     const idx = (startIndex + i) % count;
-    if (!isProfileCoolingDown(states[idx], now)) {
+    if (!isProfileDisabled(states[idx]) && !isProfileCoolingDown(states[idx], now)) {
       return states[idx];
     }
   }
   return undefined;
 }
 
+function remainingCooldownMs(state: ProfileState, now: number): number {
+  return state.failedAt !== undefined ? Math.max(state.cooldownMs - (now - state.failedAt), 0) : 0;
+}
+
+/** The enabled profile whose cooldown ends first. */
+function soonestAvailableProfile(states: ProfileState[]): ProfileState | undefined {
+  const now = Date.now();
+  let soonest: ProfileState | undefined;
+  for (const s of states) {
+    if (isProfileDisabled(s)) continue;
+    if (!soonest || remainingCooldownMs(s, now) < remainingCooldownMs(soonest, now)) soonest = s;
+  }
+  return soonest;
+}
+
+/** Time until the first enabled profile in `states` is off cooldown (0 if one is available). */
+function msUntilAvailable(states: ProfileState[]): number {
+  const soonest = soonestAvailableProfile(states);
+  return soonest ? remainingCooldownMs(soonest, Date.now()) : 0;
+}
+
+/** Reason of the most recent failure among `states` (`"unknown"` if none recorded). */
+function latestFailureReason(states: ProfileState[]): FailoverReason {
+  let latest: ProfileState | undefined;
+  for (const s of states) {
+    if (s.lastFailureReason && (s.failedAt ?? 0) >= (latest?.failedAt ?? 0)) latest = s;
+  }
+  return latest?.lastFailureReason ?? "unknown";
+}
+
 function sleep(ms: number, signal?: AbortSignal): Promise<void> {
   return new Promise((resolve, reject) => {
-    const timer = setTimeout(resolve, ms);
-    signal?.addEventListener(
-      "abort",
-      () => {
-        clearTimeout(timer);
-        reject(signal.reason);
-      },
-      { once: true },
-    );
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    // The run's signal outlives many waits — don't leave a listener per wait
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
 }
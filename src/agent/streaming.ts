@@ -2,7 +2,9 @@
  * LLM call wrappers: streamLLM() and callLLM().
  *
  * Uses Pi SDK's `streamSimple` / `completeSimple` for full control
- * over retry and failover (we don't use the Agent class).
+ * over retry and failover (we don't use the Agent class). Models of the
+ * scripted `mock` provider are answered by mock-provider.ts instead, and
+ * a cassette (cassette.ts) can record or replay any call.
  *
  * Ref: openclaw/src/agents/pi-embedded-runner/ streaming integration
  */
@@ -17,6 +19,13 @@ import {
 } from "@mariozechner/pi-ai";
 
 import type { CallLLMParams, AgentEventCallback } from "./types.js";
+import {
+  MOCK_PROVIDER_NAME,
+  resolveMockModel,
+  isMockModel,
+  answerFromScenario,
+  emitMessageEvents,
+} from "./mock-provider.js";
 
 // ── Model resolution ─────────────────────────────────────────────────
 
@@ -25,12 +34,17 @@ import type { CallLLMParams, AgentEventCallback } from "./types.js";
  *
  * If the model is in Pi SDK's built-in registry, use that.
  * Otherwise, construct a manual Model with sensible defaults.
+ * For the `mock` provider, `modelId` is the scenario file.
  */
 export function resolveModel(
   providerName: string,
   modelId: string,
   baseUrl?: string,
 ): Model<any> {
+  if (providerName === MOCK_PROVIDER_NAME) {
+    return resolveMockModel(modelId);
+  }
+
   // Try the built-in registry first
   try {
     const model = getModel(providerName as any, modelId as any);
@@ -75,6 +89,26 @@ function getDefaultBaseUrl(provider: string): string {
   }
 }
 
+// ── Cassettes ─────────────────────────────────────────────────────────
+
+/**
+ * Route a call through `params.cassette` when there is one: replay answers
+ * from the recording (forwarding its events to `onEvent`), record wraps `send`.
+ */
+async function withCassette(
+  params: CallLLMParams,
+  send: () => Promise<AssistantMessage>,
+  onEvent?: AgentEventCallback,
+): Promise<AssistantMessage> {
+  const { cassette, model, context } = params;
+  if (!cassette) return send();
+  if (cassette.mode === "record") return cassette.record(model, context, send);
+
+  const reply = cassette.replay(model, context);
+  if (onEvent) emitMessageEvents(reply, (event) => onEvent({ type: "llm_stream", event }));
+  return reply;
+}
+
 // ── Stream LLM call ──────────────────────────────────────────────────
 
 /**
@@ -86,15 +120,23 @@ export async function streamLLM(
   onEvent?: AgentEventCallback,
 ): Promise<AssistantMessage> {
   const { model, context, options } = params;
-  const stream = streamSimple(model, context, options);
+  const forward = onEvent && ((event: AssistantMessageEvent) => onEvent({ type: "llm_stream", event }));
 
-  for await (const event of stream) {
-    if (onEvent) {
-      onEvent({ type: "llm_stream", event });
-    }
-  }
+  return withCassette(
+    params,
+    async () => {
+      if (isMockModel(model)) {
+        return answerFromScenario(model, context, options, forward);
+      }
 
-  return await stream.result();
+      const stream = streamSimple(model, context, options);
+      for await (const event of stream) {
+        forward?.(event);
+      }
+      return await stream.result();
+    },
+    onEvent,
+  );
 }
 
 // ── Non-streaming LLM call ───────────────────────────────────────────
@@ -104,5 +146,9 @@ export async function streamLLM(
  */
 export async function callLLM(params: CallLLMParams): Promise<AssistantMessage> {
   const { model, context, options } = params;
-  return completeSimple(model, context, options);
+  return withCassette(params, () =>
+    isMockModel(model)
+      ? answerFromScenario(model, context, options)
+      : completeSimple(model, context, options),
+  );
 }
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+
+import type { AssistantMessage, Message, Model, Usage } from "@mariozechner/pi-ai";
+
+import {
+  estimateMessageTokens,
+  estimateContextTokens,
+  promptTokensFromUsage,
+  calibrationFromUsage,
+  calibrationFromHistory,
+  computeContextBudget,
+  checkTokenBudget,
+} from "./token-budget.js";
+import {
+  COMPACTION_SAFETY_MARGIN,
+  IMAGE_TOKEN_ESTIMATE,
+  MAX_CALIBRATION_RATIO,
+  MAX_OUTPUT_TOKEN_RESERVE,
+  MESSAGE_TOKEN_OVERHEAD,
+  MIN_CALIBRATION_RATIO,
+} from "./types.js";
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function usage(input: number, cacheRead = 0, cacheWrite = 0): Usage {
+  return {
+    input,
+    output: 0,
+    cacheRead,
+    cacheWrite,
+    totalTokens: input,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+  };
+}
+
+function mkAssistant(text: string, input: number, model = "test-model"): AssistantMessage {
+  return {
+    role: "assistant",
+    content: [{ type: "text", text }],
+    api: "anthropic-messages",
+    provider: "anthropic",
+    model,
+    usage: usage(input),
+    stopReason: "stop",
+    timestamp: 0,
+  };
+}
+
+const model = {
+  id: "test-model",
+  name: "test-model",
+  api: "anthropic-messages",
+  provider: "anthropic",
+  baseUrl: "https://api.anthropic.com",
+  reasoning: false,
+  input: ["text"],
+  cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+  contextWindow: 10_000,
+  maxTokens: 2_000,
+} as Model<any>;
+
+// ── Estimation ───────────────────────────────────────────────────────
+
+describe("estimateMessageTokens", () => {
+  it("counts ~4 chars per token plus per-message overhead", () => {
+    const msg: Message = { role: "user", content: "x".repeat(400), timestamp: 0 };
+    expect(estimateMessageTokens(msg)).toBe(100 + MESSAGE_TOKEN_OVERHEAD);
+  });
+
+  it("counts images at a flat cost", () => {
+    const msg: Message = {
+      role: "user",
+      content: [{ type: "image", data: "a".repeat(100_000), mimeType: "image/png" }],
+      timestamp: 0,
+    };
+    expect(estimateMessageTokens(msg)).toBe(IMAGE_TOKEN_ESTIMATE + MESSAGE_TOKEN_OVERHEAD);
+  });
+
+  it("counts tool-call names and arguments, and thinking", () => {
+    const msg: AssistantMessage = {
+      ...mkAssistant("", 0),
+      content: [
+        { type: "thinking", thinking: "t".repeat(40) },
+        { type: "toolCall", id: "tc1", name: "read", arguments: { path: "p".repeat(100) } },
+      ],
+    };
+    expect(estimateMessageTokens(msg)).toBeGreaterThan(10 + 25 + MESSAGE_TOKEN_OVERHEAD);
+  });
+});
+
+describe("estimateContextTokens", () => {
+  it("includes the system prompt and tool schemas", () => {
+    const messages: Message[] = [{ role: "user", content: "hello", timestamp: 0 }];
+    const bare = estimateContextTokens({ messages });
+    const full = estimateContextTokens({
+      systemPrompt: "s".repeat(800),
+      messages,
+      tools: [{ name: "read", description: "Read a file", parameters: { type: "object" } as any }],
+    });
+    expect(full - bare).toBeGreaterThan(200);
+  });
+});
+
+// ── Calibration ──────────────────────────────────────────────────────
+
+describe("promptTokensFromUsage", () => {
+  it("adds cached prompt tokens back to input", () => {
+    expect(promptTokensFromUsage(usage(100, 900, 50))).toBe(1050);
+  });
+});
+
+describe("calibrationFromUsage", () => {
+  it("returns reported ÷ estimated", () => {
+    expect(calibrationFromUsage(1000, usage(1300))).toBeCloseTo(1.3);
+  });
+
+  it("clamps to the allowed range", () => {
+    expect(calibrationFromUsage(1000, usage(100_000))).toBe(MAX_CALIBRATION_RATIO);
+    expect(calibrationFromUsage(1000, usage(1))).toBe(MIN_CALIBRATION_RATIO);
+  });
+
+  it("returns undefined without reported prompt tokens", () => {
+    expect(calibrationFromUsage(1000, usage(0))).toBeUndefined();
+  });
+});
+
+describe("calibrationFromHistory", () => {
+  const user: Message = { role: "user", content: "x".repeat(4000), timestamp: 0 };
+
+  it("uses the last assistant message of the same model", () => {
+    const before = estimateContextTokens({ messages: [user] });
+    const messages = [user, mkAssistant("ok", before * 2), user];
+    expect(calibrationFromHistory({ messages }, model)).toBeCloseTo(2);
+  });
+
+  it("ignores messages from other models", () => {
+    const messages = [user, mkAssistant("ok", 50_000, "other-model"), user];
+    expect(calibrationFromHistory({ messages }, model)).toBeUndefined();
+  });
+
+  it("skips messages without usage", () => {
+    const before = estimateContextTokens({ messages: [user] });
+    const messages = [user, mkAssistant("a", before * 2), mkAssistant("b", 0)];
+    expect(calibrationFromHistory({ messages }, model)).toBeCloseTo(2);
+  });
+});
+
+// ── Budget ───────────────────────────────────────────────────────────
+
+describe("computeContextBudget", () => {
+  it("reserves maxTokens for output", () => {
+    expect(computeContextBudget(model)).toBe(8_000);
+  });
+
+  it("caps the output reservation", () => {
+    const big = { ...model, contextWindow: 1_000_000, maxTokens: 128_000 };
+    expect(computeContextBudget(big)).toBe(1_000_000 - MAX_OUTPUT_TOKEN_RESERVE);
+  });
+});
+
+describe("checkTokenBudget", () => {
+  const messages = (chars: number): Message[] => [
+    { role: "user", content: "x".repeat(chars), timestamp: 0 },
+  ];
+
+  it("is within budget when the estimate plus safety margin fits", () => {
+    const check = checkTokenBudget({ messages: messages(20_000) }, model);
+    expect(check.estimatedTokens).toBe(5_000 + MESSAGE_TOKEN_OVERHEAD);
+    expect(check.budgetTokens).toBe(8_000);
+    expect(check.overBudget).toBe(false);
+  });
+
+  it("applies the safety margin", () => {
+    const chars = Math.ceil((8_000 / COMPACTION_SAFETY_MARGIN) * 4) + 40;
+    expect(checkTokenBudget({ messages: messages(chars) }, model).overBudget).toBe(true);
+  });
+
+  it("scales the estimate by the calibration ratio", () => {
+    const check = checkTokenBudget({ messages: messages(20_000) }, model, 1.5);
+    expect(check.estimatedTokens).toBe(Math.ceil((5_000 + MESSAGE_TOKEN_OVERHEAD) * 1.5));
+    expect(check.overBudget).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Token estimation and the pre-call context budget.
+ *
+ * The run loop checks the estimate before every LLM call and compacts when
+ * it would not fit, instead of waiting for the provider to reject the
+ * request. Estimates are a chars/4 heuristic (images at a flat cost),
+ * scaled by a calibration ratio learned from the prompt tokens providers
+ * report in `usage` — so they track the model's real tokenizer after the
+ * first call of a session.
+ *
+ * Budget: `contextWindow` minus the output reservation (`maxTokens`, capped
+ * like Pi SDK's default). Over budget when
+ * `estimate × COMPACTION_SAFETY_MARGIN > budget`.
+ */
+
+import type { Message, Model, Tool, Usage } from "@mariozechner/pi-ai";
+
+import {
+  CHARS_PER_TOKEN,
+  COMPACTION_SAFETY_MARGIN,
+  IMAGE_TOKEN_ESTIMATE,
+  MAX_CALIBRATION_RATIO,
+  MAX_OUTPUT_TOKEN_RESERVE,
+  MESSAGE_TOKEN_OVERHEAD,
+  MIN_CALIBRATION_RATIO,
+} from "./types.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** What is sent to the model: the same parts as a Pi SDK `Context`. */
+export interface TokenEstimateInput {
+  systemPrompt?: string;
+  messages: readonly Message[];
+  tools?: readonly Tool[];
+}
+
+export interface TokenBudgetCheck {
+  /** Calibrated estimate of the prompt, in tokens. */
+  estimatedTokens: number;
+  /** Prompt tokens that fit beside the output reservation. */
+  budgetTokens: number;
+  overBudget: boolean;
+}
+
+// ── Estimation ──────────────────────────────────────────────────────
+
+function charsToTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/**
+ * Uncalibrated token estimate for one message.
+ */
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_TOKEN_OVERHEAD;
+
+  if (typeof message.content === "string") {
+    return tokens + charsToTokens(message.content.length);
+  }
+
+  for (const block of message.content) {
+    switch (block.type) {
+      case "text":
+        tokens += charsToTokens(block.text.length);
+        break;
+      case "thinking":
+        tokens += charsToTokens(block.thinking.length);
+        break;
+      case "image":
+        tokens += IMAGE_TOKEN_ESTIMATE;
+        break;
+      case "toolCall":
+        tokens += charsToTokens(block.name.length + JSON.stringify(block.arguments).length);
+        break;
+    }
+  }
+  if (message.role === "toolResult") tokens += charsToTokens(message.toolName.length);
+
+  return tokens;
+}
+
+/**
+ * Uncalibrated token estimate for a whole request — system prompt, tool
+ * schemas, and messages.
+ */
+export function estimateContextTokens(input: TokenEstimateInput): number {
+  let tokens = charsToTokens(input.systemPrompt?.length ?? 0);
+  for (const tool of input.tools ?? []) {
+    tokens += charsToTokens(
+      tool.name.length + tool.description.length + JSON.stringify(tool.parameters).length,
+    );
+  }
+  for (const message of input.messages) {
+    tokens += estimateMessageTokens(message);
+  }
+  return tokens;
+}
+
+// ── Calibration ─────────────────────────────────────────────────────
+
+/**
+ * Prompt tokens the provider counted. Anthropic reports cached prompt
+ * tokens separately from `input`, so cache reads/writes are added back.
+ */
+export function promptTokensFromUsage(usage: Usage): number {
+  return usage.input + usage.cacheRead + usage.cacheWrite;
+}
+
+/**
+ * Ratio of the provider's prompt token count to our estimate of the same
+ * request, clamped to `[MIN_CALIBRATION_RATIO, MAX_CALIBRATION_RATIO]`.
+ * Returns `undefined` when the usage carries no prompt tokens.
+ */
+export function calibrationFromUsage(estimatedTokens: number, usage: Usage): number | undefined {
+  const actual = promptTokensFromUsage(usage);
+  if (actual <= 0 || estimatedTokens <= 0) return undefined;
+  return Math.min(Math.max(actual / estimatedTokens, MIN_CALIBRATION_RATIO), MAX_CALIBRATION_RATIO);
+}
+
+/**
+ * Calibrate from the session history: the last assistant message from
+ * `model` reports the prompt tokens of everything before it.
+ */
+export function calibrationFromHistory(
+  input: TokenEstimateInput,
+  model: Model<any>,
+): number | undefined {
+  const { messages } = input;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role !== "assistant" || msg.provider !== model.provider || msg.model !== model.id) {
+      continue;
+    }
+    const ratio = calibrationFromUsage(
+      estimateContextTokens({ ...input, messages: messages.slice(0, i) }),
+      msg.usage,
+    );
+    if (ratio !== undefined) return ratio;
+  }
+  return undefined;
+}
+
+// ── Budget ──────────────────────────────────────────────────────────
+
+/**
+ * Prompt tokens available for `model`: the context window minus the
+ * output reservation.
+ */
+export function computeContextBudget(model: Model<any>): number {
+  return model.contextWindow - Math.min(model.maxTokens, MAX_OUTPUT_TOKEN_RESERVE);
+}
+
+/**
+ * Check whether a request fits `model`'s context budget.
+ *
+ * @param calibration - Ratio from `calibrationFromUsage()` /
+ *   `calibrationFromHistory()` (default 1: uncalibrated).
+ */
+export function checkTokenBudget(
+  input: TokenEstimateInput,
+  model: Model<any>,
+  calibration: number = 1,
+): TokenBudgetCheck {
+  const estimatedTokens = Math.ceil(estimateContextTokens(input) * calibration);
+  const budgetTokens = computeContextBudget(model);
+  return {
+    estimatedTokens,
+    budgetTokens,
+    overBudget: estimatedTokens * COMPACTION_SAFETY_MARGIN > budgetTokens,
+  };
+}
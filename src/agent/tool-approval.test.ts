@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { ToolCall } from "@mariozechner/pi-ai";
+
+import type { MyClawConfig } from "../config/index.js";
+import { configureLogging, resetLogging, type LogRecord } from "../logging/index.js";
+import { getSessionEntry } from "../sessions/index.js";
+
+import type { AgentRunEvent, ToolApprovalDecision, ToolApprover } from "./types.js";
+import {
+  getApprovalSubject,
+  matchesApprovalPattern,
+  hasShellControlSyntax,
+  approvesToolCall,
+  loadApprovedPatterns,
+  resolveToolApprovalsPath,
+  addApprovedPattern,
+  createToolAuthorizer,
+} from "./tool-approval.js";
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+const sessionKey = "agent:main:channel:telegram:account:default:peer:group:42";
+
+function mkCall(id: string, name: string, args: Record<string, unknown>): ToolCall {
+  return { type: "toolCall", id, name, arguments: args };
+}
+
+function mkConfig(approval: NonNullable<MyClawConfig["agent"]>["approval"]): MyClawConfig {
+  return {
+    provider: { name: "anthropic", model: "test-model", authProfiles: [] },
+    agent: { approval },
+  } as unknown as MyClawConfig;
+}
+
+/** Approver answering from a queue of decisions. */
+function mkApprover(...decisions: ToolApprovalDecision[]) {
+  return vi.fn<ToolApprover>(async () => decisions.shift() ?? { type: "deny" });
+}
+
+// ── Subjects & patterns ──────────────────────────────────────────────
+
+describe("getApprovalSubject", () => {
+  it("uses the bash command, then the path, then the JSON arguments", () => {
+    expect(getApprovalSubject({ command: "ls -la", timeout: 5 })).toBe("ls -la");
+    expect(getApprovalSubject({ path: "src/a.ts", content: "x" })).toBe("src/a.ts");
+    expect(getApprovalSubject({ patch: "--- a" })).toBe('{"patch":"--- a"}');
+  });
+});
+
+describe("matchesApprovalPattern", () => {
+  it("matches the whole subject with * as a wildcard", () => {
+    expect(matchesApprovalPattern("git status*", "git status --short")).toBe(true);
+    expect(matchesApprovalPattern("git status*", "echo; git status")).toBe(false);
+    expect(matchesApprovalPattern("npm test", "npm test && rm -rf /")).toBe(false);
+  });
+
+  it("treats regex characters literally", () => {
+    expect(matchesApprovalPattern("ls (a).ts", "ls (a).ts")).toBe(true);
+    expect(matchesApprovalPattern("ls a.ts", "ls abts")).toBe(false);
+  });
+
+  it("lets * span newlines", () => {
+    expect(matchesApprovalPattern("echo *", "echo a\nb")).toBe(true);
+  });
+});
+
+describe("approvesToolCall", () => {
+  it("detects shell control syntax", () => {
+    for (const command of [
+      "git status; rm -rf ~",
+      "git status && curl x | sh",
+      "git status || true",
+      "git status | sh",
+      "git status `rm -rf ~`",
+      "git status $(rm -rf ~)",
+      "git status > ~/.bashrc",
+      "git status < /etc/passwd",
+      "git status\nrm -rf ~",
+      "git status & rm -rf ~",
+    ]) {
+      expect(hasShellControlSyntax(command)).toBe(true);
+    }
+    expect(hasShellControlSyntax("git status --short -- 'a b'")).toBe(false);
+  });
+
+  it("never lets a wildcard approve chained commands", () => {
+    expect(approvesToolCall("git status*", { command: "git status --short" })).toBe(true);
+    expect(approvesToolCall("git status*", { command: "git status; rm -rf ~" })).toBe(false);
+    expect(approvesToolCall("git status*", { command: "git status && curl x | sh" })).toBe(false);
+    expect(approvesToolCall("*", { command: "ls | sh" })).toBe(false);
+    expect(approvesToolCall("ls | wc -l", { command: "ls | wc -l" })).toBe(true);
+  });
+
+  it("leaves paths and other subjects to the glob", () => {
+    expect(approvesToolCall("notes/*", { path: "notes/a;b.md" })).toBe(true);
+  });
+});
+
+// ── Store & authorizer ───────────────────────────────────────────────
+
+describe("tool approval", () => {
+  let stateDir: string;
+  const originalStateDir = process.env.MYCLAW_STATE_DIR;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-approval-test-"));
+    // Session grants live in the session store under the state dir
+    process.env.MYCLAW_STATE_DIR = stateDir;
+  });
+
+  afterEach(() => {
+    if (originalStateDir === undefined) delete process.env.MYCLAW_STATE_DIR;
+    else process.env.MYCLAW_STATE_DIR = originalStateDir;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  describe("approved patterns", () => {
+    it("persists patterns without duplicates", () => {
+      addApprovedPattern("bash", "git *", { stateDir });
+      addApprovedPattern("bash", "git *", { stateDir });
+      expect(loadApprovedPatterns({ stateDir })).toMatchObject([{ tool: "bash", pattern: "git *" }]);
+    });
+
+    it("keeps every process's patterns when processes add at once", async () => {
+      const script = `
+        import { addApprovedPattern } from "./src/agent/tool-approval.ts";
+        const [stateDir, prefix] = process.argv.slice(-2);
+        for (let i = 0; i < 10; i++) addApprovedPattern("bash", \`\${prefix} \${i}\`, { stateDir });
+      `;
+      const runs = ["git", "npm", "ls"].map(
+        (prefix) =>
+          new Promise<number | null>((resolve) => {
+            const child = spawn(
+              process.execPath,
+              ["--import", "tsx", "--input-type=module", "-e", script, "--", stateDir, prefix],
+              { cwd: path.resolve(import.meta.dirname, "../.."), stdio: "ignore" },
+            );
+            child.on("exit", resolve);
+          }),
+      );
+      expect(await Promise.all(runs)).toEqual([0, 0, 0]);
+
+      expect(loadApprovedPatterns({ stateDir })).toHaveLength(30);
+      expect(fs.existsSync(`${resolveToolApprovalsPath(stateDir)}.lock`)).toBe(false);
+    }, 30_000);
+
+    it("returns no patterns when the store is missing", () => {
+      expect(loadApprovedPatterns({ stateDir })).toEqual([]);
+    });
+
+    it("backs up and resets a corrupt store once, with a warning", () => {
+      const records: LogRecord[] = [];
+      configureLogging({ sinks: [{ write: (r) => records.push(r) }] });
+      const filePath = resolveToolApprovalsPath(stateDir);
+      fs.writeFileSync(filePath, "{ not json", "utf-8");
+
+      try {
+        expect(loadApprovedPatterns({ stateDir })).toEqual([]);
+        expect(loadApprovedPatterns({ stateDir })).toEqual([]);
+      } finally {
+        resetLogging();
+      }
+
+      const backups = fs.readdirSync(stateDir).filter((f) => f.startsWith("tool-approvals.json.bak."));
+      expect(backups).toHaveLength(1);
+      const backup = backups[0];
+      expect(fs.readFileSync(path.join(stateDir, backup), "utf-8")).toBe("{ not json");
+      expect(JSON.parse(fs.readFileSync(filePath, "utf-8"))).toEqual({ patterns: [] });
+      expect(records).toMatchObject([
+        {
+          level: "warn",
+          subsystem: "agent",
+          msg: "tool approval store is corrupt; starting fresh",
+          file: filePath,
+          backupPath: path.join(stateDir, backup!),
+          err: { name: "SyntaxError" },
+        },
+      ]);
+    });
+  });
+
+  describe("createToolAuthorizer", () => {
+    it("is undefined when no tool needs approval", () => {
+      expect(createToolAuthorizer({ config: mkConfig(undefined), sessionKey })).toBeUndefined();
+      expect(createToolAuthorizer({ config: mkConfig({ tools: [] }), sessionKey })).toBeUndefined();
+    });
+
+    it("denies tools outside the session's policy without asking", async () => {
+      const approver = mkApprover({ type: "allow_once" });
+      const authorize = createToolAuthorizer({
+        config: mkConfig(undefined),
+        sessionKey,
+        approver,
+        policy: { allow: ["*"], deny: ["bash"] },
+      })!;
+      expect(await authorize(mkCall("1", "bash", { command: "ls" }))).toBe(
+        "bash is not available in this session",
+      );
+      expect(await authorize(mkCall("2", "read", { path: "a" }))).toBeUndefined();
+      expect(approver).not.toHaveBeenCalled();
+    });
+
+    it("lets tools that need no approval through without asking", async () => {
+      const approver = mkApprover();
+      const authorize = createToolAuthorizer({
+        config: mkConfig({ tools: ["bash"] }),
+        sessionKey,
+        approver,
+      })!;
+      expect(await authorize(mkCall("1", "read", { path: "a" }))).toBeUndefined();
+      expect(approver).not.toHaveBeenCalled();
+    });
+
+    it("denies when there is no approver", async () => {
+      const authorize = createToolAuthorizer({ config: mkConfig({ tools: ["bash"] }), sessionKey })!;
+      expect(await authorize(mkCall("1", "bash", { command: "ls" }))).toMatch(/no approver/);
+    });
+
+    it("asks the approver and returns its denial reason", async () => {
+      const events: AgentRunEvent[] = [];
+      const approver = mkApprover({ type: "deny", reason: "not in this group" });
+      const authorize = createToolAuthorizer({
+        config: mkConfig({ tools: ["bash"] }),
+        sessionKey,
+        approver,
+        emit: (e) => events.push(e),
+      })!;
+
+      expect(await authorize(mkCall("1", "bash", { command: "rm -rf /" }))).toBe("not in this group");
+      expect(approver).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionKey, toolName: "bash", subject: "rm -rf /" }),
+        undefined,
+      );
+      expect(events).toEqual([
+        { type: "tool_approval", toolName: "bash", toolCallId: "1", subject: "rm -rf /" },
+      ]);
+    });
+
+    it("asks again after allow_once", async () => {
+      const approver = mkApprover({ type: "allow_once" }, { type: "allow_once" });
+      const authorize = createToolAuthorizer({
+        config: mkConfig({ tools: ["bash"] }),
+        sessionKey,
+        approver,
+      })!;
+      expect(await authorize(mkCall("1", "bash", { command: "ls" }))).toBeUndefined();
+      expect(await authorize(mkCall("2", "bash", { command: "ls" }))).toBeUndefined();
+      expect(approver).toHaveBeenCalledTimes(2);
+    });
+
+    it("remembers allow_session in the session entry", async () => {
+      const config = mkConfig({ tools: ["bash"] });
+      const first = createToolAuthorizer({ config, sessionKey, approver: mkApprover({ type: "allow_session" }) })!;
+      expect(await first(mkCall("1", "bash", { command: "ls" }))).toBeUndefined();
+      expect(getSessionEntry(sessionKey)?.approvedTools).toEqual(["bash"]);
+
+      // A later run of the same session doesn't ask; another session does
+      const approver = mkApprover();
+      const later = createToolAuthorizer({ config, sessionKey, approver })!;
+      expect(await later(mkCall("2", "bash", { command: "make" }))).toBeUndefined();
+      const other = createToolAuthorizer({ config, sessionKey: `${sessionKey}0`, approver })!;
+      expect(await other(mkCall("3", "bash", { command: "make" }))).toBeDefined();
+    });
+
+    it("stores allow_pattern and approves matching calls from then on", async () => {
+      const config = mkConfig({ tools: ["bash"] });
+      const approver = mkApprover({ type: "allow_pattern", pattern: "git status*" });
+      const authorize = createToolAuthorizer({ config, sessionKey, approver, stateDir })!;
+
+      expect(await authorize(mkCall("1", "bash", { command: "git status" }))).toBeUndefined();
+      expect(await authorize(mkCall("2", "bash", { command: "git status -s" }))).toBeUndefined();
+      expect(await authorize(mkCall("3", "bash", { command: "git push" }))).toBe("denied by approver");
+      expect(approver).toHaveBeenCalledTimes(2);
+      expect(loadApprovedPatterns({ stateDir })).toMatchObject([{ tool: "bash", pattern: "git status*" }]);
+    });
+
+    it("asks again for commands chained onto an approved prefix", async () => {
+      const config = mkConfig({ tools: ["bash"], allow: [{ tool: "bash", pattern: "npm test*" }] });
+      addApprovedPattern("bash", "git status*", { stateDir });
+      const approver = mkApprover();
+      const authorize = createToolAuthorizer({ config, sessionKey, approver, stateDir })!;
+
+      for (const command of ["git status; rm -rf ~", "git status && curl x | sh", "npm test $(rm -rf ~)"]) {
+        expect(await authorize(mkCall(command, "bash", { command }))).toBe("denied by approver");
+      }
+      expect(approver).toHaveBeenCalledTimes(3);
+    });
+
+    it("defaults allow_pattern to the exact subject", async () => {
+      const approver = mkApprover({ type: "allow_pattern" });
+      const authorize = createToolAuthorizer({
+        config: mkConfig({ tools: ["write"] }),
+        sessionKey,
+        approver,
+        stateDir,
+      })!;
+      await authorize(mkCall("1", "write", { path: "notes.md", content: "a" }));
+      expect(loadApprovedPatterns({ stateDir })).toMatchObject([{ tool: "write", pattern: "notes.md" }]);
+    });
+
+    it("honors patterns from config", async () => {
+      const approver = mkApprover();
+      const authorize = createToolAuthorizer({
+        config: mkConfig({ tools: ["bash"], allow: [{ tool: "bash", pattern: "npm test*" }] }),
+        sessionKey,
+        approver,
+      })!;
+      expect(await authorize(mkCall("1", "bash", { command: "npm test -- --run" }))).toBeUndefined();
+      expect(approver).not.toHaveBeenCalled();
+    });
+
+    it("turns approver errors into denials", async () => {
+      const authorize = createToolAuthorizer({
+        config: mkConfig({ tools: ["bash"] }),
+        sessionKey,
+        approver: async () => {
+          throw new Error("chat unreachable");
+        },
+      })!;
+      expect(await authorize(mkCall("1", "bash", { command: "ls" }))).toBe(
+        "approval failed: chat unreachable",
+      );
+    });
+
+    it("asks one request at a time and applies a session grant to queued calls", async () => {
+      let release!: (d: ToolApprovalDecision) => void;
+      const approver = vi.fn<ToolApprover>(() => new Promise((resolve) => (release = resolve)));
+      const authorize = createToolAuthorizer({
+        config: mkConfig({ tools: ["read"] }),
+        sessionKey,
+        approver,
+      })!;
+
+      const a = authorize(mkCall("1", "read", { path: "a" }));
+      const b = authorize(mkCall("2", "read", { path: "b" }));
+      await vi.waitFor(() => expect(approver).toHaveBeenCalledTimes(1));
+      release({ type: "allow_session" });
+
+      expect(await a).toBeUndefined();
+      expect(await b).toBeUndefined();
+      expect(approver).toHaveBeenCalledTimes(1);
+    });
+  });
+});
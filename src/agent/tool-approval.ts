@@ -0,0 +1,225 @@
+/**
+ * Tool approval — the policy layer between the model's tool calls and
+ * their execution.
+ *
+ * Calls to tools the session's tool policy (see `tool-policy.ts`) doesn't
+ * allow are denied outright. Tools listed in `agent.approval.tools` run
+ * only once approved. A call is approved by, in order:
+ *   1. a session grant — `allow_session`, kept in the session entry's `approvedTools`
+ *   2. a pattern — `agent.approval.allow` in config, or an `allow_pattern`
+ *      answer kept in the approval store
+ *   3. the run's `approver` callback (`allow_once` approves just this call)
+ * Without an approver, the call is denied. Requests reach the approver one
+ * at a time, even when read-only calls run in parallel, and a grant given
+ * for one call applies to the calls queued behind it.
+ *
+ * Patterns are globs (`*` = any characters) matched against the whole
+ * approval subject: the `command` of a bash call, the `path` of a file
+ * tool call, or the JSON arguments of anything else. A command with shell
+ * control syntax (`;`, `&`, `|`, backticks, `$(`, redirections, newlines)
+ * is only approved by a pattern equal to it — otherwise `git status*`
+ * would also approve `git status; rm -rf ~`.
+ *
+ * Store location:
+ *   <stateDir>/tool-approvals.json
+ *
+ * Shape:
+ *   { "patterns": [{ "tool": "bash", "pattern": "git status*", "createdAt": ... }] }
+ *
+ * Adding a pattern holds the store's lock while it re-reads and rewrites
+ * the file, so grants from concurrent runs are all kept; a corrupt store
+ * is backed up once and reset (see `json-store.ts`).
+ */
+
+import path from "node:path";
+
+import type { ToolCall } from "@mariozechner/pi-ai";
+
+import { resolveStateDir } from "../config/paths.js";
+import type { MyClawConfig, ToolApprovalPattern } from "../config/index.js";
+import { getSessionEntry, updateSessionMeta } from "../sessions/index.js";
+
+import { readJsonStore, updateJsonStore, type JsonStoreFile } from "./json-store.js";
+import { isToolAllowed, matchesGlob, type ToolPolicy } from "./tool-policy.js";
+import type {
+  AgentEventCallback,
+  ToolApprovalDecision,
+  ToolApprover,
+  ToolAuthorizer,
+} from "./types.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ApprovedPattern extends ToolApprovalPattern {
+  /** Epoch-ms timestamp of the approval. */
+  createdAt: number;
+}
+
+export interface ToolApprovalStore {
+  patterns: ApprovedPattern[];
+}
+
+export interface ToolApprovalOptions {
+  /** State directory (default: `resolveStateDir()`). */
+  stateDir?: string;
+}
+
+export interface CreateToolAuthorizerParams extends ToolApprovalOptions {
+  config: MyClawConfig;
+  sessionKey: string;
+  approver?: ToolApprover;
+  signal?: AbortSignal;
+  emit?: AgentEventCallback;
+  /** The session's tool policy; calls to tools it doesn't allow are denied without asking. */
+  policy?: ToolPolicy;
+}
+
+// ── Subjects & patterns ─────────────────────────────────────────────
+
+/**
+ * What approval patterns are matched against: the command of a bash call,
+ * the path of a file tool call, otherwise the JSON arguments.
+ */
+export function getApprovalSubject(args: Record<string, unknown>): string {
+  if (typeof args.command === "string") return args.command;
+  if (typeof args.path === "string") return args.path;
+  return JSON.stringify(args);
+}
+
+/**
+ * Whether a glob pattern (`*` = any characters, everything else literal)
+ * matches the whole subject.
+ */
+export function matchesApprovalPattern(pattern: string, subject: string): boolean {
+  return matchesGlob(pattern, subject);
+}
+
+/** Shell syntax that chains, pipes, substitutes, or redirects commands. */
+const SHELL_CONTROL_PATTERN = /[;&|`<>\n\r]|\$\(/;
+
+/**
+ * Whether a bash command is more than one simple command — wildcard
+ * patterns must not approve it, since anything can follow the approved part.
+ */
+export function hasShellControlSyntax(command: string): boolean {
+  return SHELL_CONTROL_PATTERN.test(command);
+}
+
+/**
+ * Whether an approval pattern approves a call with these arguments. Bash
+ * commands with shell control syntax need a pattern equal to the command.
+ */
+export function approvesToolCall(
+  pattern: string,
+  args: Record<string, unknown>,
+  subject: string = getApprovalSubject(args),
+): boolean {
+  if (typeof args.command === "string" && hasShellControlSyntax(subject)) {
+    return pattern === subject;
+  }
+  return matchesApprovalPattern(pattern, subject);
+}
+
+// ── Pattern store ───────────────────────────────────────────────────
+
+export const TOOL_APPROVALS_FILENAME = "tool-approvals.json";
+
+export function resolveToolApprovalsPath(stateDir: string = resolveStateDir()): string {
+  return path.join(stateDir, TOOL_APPROVALS_FILENAME);
+}
+
+function approvalStoreFile(options?: ToolApprovalOptions): JsonStoreFile<ToolApprovalStore> {
+  return {
+    filePath: resolveToolApprovalsPath(options?.stateDir),
+    name: "tool approval",
+    empty: () => ({ patterns: [] }),
+  };
+}
+
+/**
+ * Patterns approved with `allow_pattern`. Always re-reads — other runs may
+ * have added some.
+ */
+export function loadApprovedPatterns(options?: ToolApprovalOptions): ApprovedPattern[] {
+  return readJsonStore(approvalStoreFile(options)).patterns ?? [];
+}
+
+/**
+ * Always allow calls of `tool` whose subject matches `pattern`. A pattern
+ * that is already stored is not added twice.
+ */
+export function addApprovedPattern(
+  tool: string,
+  pattern: string,
+  options?: ToolApprovalOptions,
+): void {
+  updateJsonStore(approvalStoreFile(options), (store) => {
+    store.patterns ??= [];
+    if (store.patterns.some((p) => p.tool === tool && p.pattern === pattern)) return false;
+    store.patterns.push({ tool, pattern, createdAt: Date.now() });
+  });
+}
+
+// ── Authorizer ──────────────────────────────────────────────────────
+
+/**
+ * Build the run's tool authorizer, or `undefined` when there is no policy
+ * and no tool needs approval.
+ */
+export function createToolAuthorizer(params: CreateToolAuthorizerParams): ToolAuthorizer | undefined {
+  const { config, sessionKey, approver, signal, emit = () => {}, policy } = params;
+  const required = new Set(config.agent?.approval?.tools ?? []);
+  if (required.size === 0 && !policy) return undefined;
+
+  const configPatterns = config.agent?.approval?.allow ?? [];
+  const sessionTools = new Set(getSessionEntry(sessionKey)?.approvedTools ?? []);
+
+  const isPreApproved = (tc: ToolCall, subject: string): boolean =>
+    sessionTools.has(tc.name) ||
+    [...configPatterns, ...loadApprovedPatterns(params)].some(
+      (p) => p.tool === tc.name && approvesToolCall(p.pattern, tc.arguments, subject),
+    );
+
+  const decide = async (tc: ToolCall): Promise<string | undefined> => {
+    const subject = getApprovalSubject(tc.arguments);
+    if (isPreApproved(tc, subject)) return undefined;
+    if (!approver) return `${tc.name} requires approval and no approver is available`;
+
+    emit({ type: "tool_approval", toolName: tc.name, toolCallId: tc.id, subject });
+    let decision: ToolApprovalDecision;
+    try {
+      decision = await approver(
+        { sessionKey, toolCallId: tc.id, toolName: tc.name, arguments: tc.arguments, subject },
+        signal,
+      );
+    } catch (err) {
+      signal?.throwIfAborted();
+      return `approval failed: ${err instanceof Error ? err.message : String(err)}`;
+    }
+
+    switch (decision.type) {
+      case "allow_once":
+        return undefined;
+      case "allow_session":
+        sessionTools.add(tc.name);
+        updateSessionMeta(sessionKey, { approvedTools: [...sessionTools] });
+        return undefined;
+      case "allow_pattern":
+        addApprovedPattern(tc.name, decision.pattern ?? subject, params);
+        return undefined;
+      case "deny":
+        return decision.reason ?? "denied by approver";
+    }
+  };
+
+  // One approval request at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  return async (tc) => {
+    if (policy && !isToolAllowed(policy, tc.name)) return `${tc.name} is not available in this session`;
+    if (!required.has(tc.name)) return undefined;
+
+    const result = queue.then(() => decide(tc));
+    queue = result.catch(() => {});
+    return result;
+  };
+}
@@ -0,0 +1,327 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { ToolCall } from "@mariozechner/pi-ai";
+
+import { MAX_TOOL_OUTPUT_FILES, TOOL_OUTPUT_DIRNAME, type AgentRunEvent } from "./types.js";
+import type { MyClawTool } from "./tools/create-tools.js";
+import {
+  planToolBatches,
+  executeToolCall,
+  executeToolCalls,
+  resolveToolTimeout,
+} from "./tool-execution.js";
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function mkCall(id: string, name: string): ToolCall {
+  return { type: "toolCall", id, name, arguments: {} };
+}
+
+/** A tool whose calls finish after `delayMs`, logging start/end. */
+function mkTool(
+  name: string,
+  options: { parallelSafe?: boolean; delayMs?: number; log?: string[]; fail?: boolean } = {},
+): MyClawTool {
+  return {
+    name,
+    label: name,
+    description: name,
+    parameters: {} as any,
+    parallelSafe: options.parallelSafe,
+    execute: async (toolCallId) => {
+      options.log?.push(`start ${toolCallId}`);
+      await new Promise((r) => setTimeout(r, options.delayMs ?? 0));
+      options.log?.push(`end ${toolCallId}`);
+      if (options.fail) throw new Error(`${name} failed`);
+      return { content: [{ type: "text", text: `${name}:${toolCallId}` }], details: undefined };
+    },
+  };
+}
+
+/** A tool that only finishes when its signal aborts, recording the reason. */
+function mkHangingTool(name: string, seen: { reason?: unknown }): MyClawTool {
+  return {
+    name,
+    label: name,
+    description: name,
+    parameters: {} as any,
+    execute: (_id, _params, signal) =>
+      new Promise((_, reject) => {
+        signal?.addEventListener("abort", () => {
+          seen.reason = signal.reason;
+          reject(new Error("aborted"));
+        });
+      }),
+  };
+}
+
+/** A tool returning `text`. */
+function mkTextTool(name: string, text: string): MyClawTool {
+  return {
+    name,
+    label: name,
+    description: name,
+    parameters: {} as any,
+    execute: async () => ({ content: [{ type: "text", text }], details: undefined }),
+  };
+}
+
+const baseOptions = { maxParallelTools: 4, maxToolResultChars: 50_000 };
+
+// ── planToolBatches ──────────────────────────────────────────────────
+
+describe("planToolBatches", () => {
+  const tools = [mkTool("read", { parallelSafe: true }), mkTool("write")];
+
+  it("groups consecutive parallel-safe calls and isolates the rest", () => {
+    const calls = [
+      mkCall("1", "read"),
+      mkCall("2", "read"),
+      mkCall("3", "write"),
+      mkCall("4", "read"),
+      mkCall("5", "nope"),
+    ];
+    const ids = planToolBatches(calls, tools).map((b) => b.map((c) => c.id));
+    expect(ids).toEqual([["1", "2"], ["3"], ["4"], ["5"]]);
+  });
+
+  it("gives consecutive mutating calls a batch each", () => {
+    const calls = [mkCall("1", "write"), mkCall("2", "write")];
+    expect(planToolBatches(calls, tools)).toHaveLength(2);
+  });
+});
+
+// ── executeToolCall ──────────────────────────────────────────────────
+
+describe("executeToolCall", () => {
+  it("returns an error result for unknown tools", async () => {
+    const result = await executeToolCall(mkCall("1", "nope"), [], baseOptions);
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: "Unknown tool: nope" }]);
+  });
+
+  it("turns tool exceptions into error results", async () => {
+    const result = await executeToolCall(mkCall("1", "bash"), [mkTool("bash", { fail: true })], baseOptions);
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: "Tool execution error: bash failed" }]);
+  });
+
+  it("truncates long output", async () => {
+    const result = await executeToolCall(mkCall("abcdef", "read"), [mkTool("read")], {
+      ...baseOptions,
+      maxToolResultChars: 4,
+    });
+    expect(result.content).toEqual([{ type: "text", text: "read\n[truncated]" }]);
+  });
+
+  it("returns the denial reason without running a denied call", async () => {
+    const log: string[] = [];
+    const events: AgentRunEvent[] = [];
+    const result = await executeToolCall(mkCall("1", "bash"), [mkTool("bash", { log })], {
+      ...baseOptions,
+      authorize: async () => "not allowed here",
+      emit: (e) => events.push(e),
+    });
+
+    expect(log).toEqual([]);
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: "Tool call denied: not allowed here" }]);
+    expect(events).toEqual([
+      { type: "tool_denied", toolName: "bash", toolCallId: "1", reason: "not allowed here" },
+    ]);
+  });
+
+  it("throws when aborted before starting", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+    await expect(
+      executeToolCall(mkCall("1", "read"), [mkTool("read")], { ...baseOptions, signal: controller.signal }),
+    ).rejects.toThrow("cancelled");
+  });
+});
+
+// ── executeToolCalls ─────────────────────────────────────────────────
+
+describe("executeToolCalls", () => {
+  it("runs parallel-safe calls concurrently and returns results in call order", async () => {
+    const log: string[] = [];
+    const tools = [mkTool("read", { parallelSafe: true, delayMs: 20, log })];
+    // The first call is slowest, so it finishes last
+    tools.push(mkTool("grep", { parallelSafe: true, delayMs: 1, log }));
+
+    const results = await executeToolCalls(
+      [mkCall("r1", "read"), mkCall("g1", "grep"), mkCall("g2", "grep")],
+      tools,
+      baseOptions,
+    );
+
+    expect(log.slice(0, 3)).toEqual(["start r1", "start g1", "start g2"]);
+    expect(log.at(-1)).toBe("end r1");
+    expect(results.map((r) => r.toolCallId)).toEqual(["r1", "g1", "g2"]);
+  });
+
+  it("respects maxParallelTools", async () => {
+    const log: string[] = [];
+    const tools = [mkTool("read", { parallelSafe: true, delayMs: 5, log })];
+    const calls = ["1", "2", "3"].map((id) => mkCall(id, "read"));
+
+    await executeToolCalls(calls, tools, { ...baseOptions, maxParallelTools: 2 });
+
+    expect(log.slice(0, 2)).toEqual(["start 1", "start 2"]);
+    expect(log.indexOf("start 3")).toBeGreaterThan(log.indexOf("end 1"));
+  });
+
+  it("never overlaps a mutating call with other calls", async () => {
+    const log: string[] = [];
+    const tools = [
+      mkTool("read", { parallelSafe: true, delayMs: 5, log }),
+      mkTool("write", { delayMs: 5, log }),
+    ];
+    const calls = [mkCall("r1", "read"), mkCall("w1", "write"), mkCall("w2", "write"), mkCall("r2", "read")];
+
+    await executeToolCalls(calls, tools, baseOptions);
+
+    expect(log).toEqual([
+      "start r1",
+      "end r1",
+      "start w1",
+      "end w1",
+      "start w2",
+      "end w2",
+      "start r2",
+      "end r2",
+    ]);
+  });
+
+  it("emits one tool_start before one tool_end per call", async () => {
+    const events: AgentRunEvent[] = [];
+    const tools = [mkTool("read", { parallelSafe: true, delayMs: 5 }), mkTool("bash", { fail: true })];
+
+    await executeToolCalls([mkCall("a", "read"), mkCall("b", "read"), mkCall("c", "bash")], tools, {
+      ...baseOptions,
+      emit: (e) => events.push(e),
+    });
+
+    for (const id of ["a", "b", "c"]) {
+      const mine = events.filter((e) => "toolCallId" in e && e.toolCallId === id);
+      expect(mine.map((e) => e.type)).toEqual(["tool_start", "tool_end"]);
+    }
+    const end = events.find((e) => e.type === "tool_end" && e.toolCallId === "c");
+    expect(end).toMatchObject({ isError: true, toolName: "bash" });
+  });
+});
+
+// ── Timeouts ─────────────────────────────────────────────────────────
+
+describe("tool timeouts", () => {
+  it("resolves per-tool overrides before the default", () => {
+    const options = { toolTimeoutMs: 1_000, toolTimeouts: { bash: 5_000, read: 0 } };
+    expect(resolveToolTimeout("bash", options)).toBe(5_000);
+    expect(resolveToolTimeout("read", options)).toBe(0);
+    expect(resolveToolTimeout("write", options)).toBe(1_000);
+    expect(resolveToolTimeout("write", {})).toBe(0);
+  });
+
+  it("aborts a call that runs too long and returns a timeout error", async () => {
+    const seen: { reason?: unknown } = {};
+    const events: AgentRunEvent[] = [];
+    const result = await executeToolCall(mkCall("1", "bash"), [mkHangingTool("bash", seen)], {
+      ...baseOptions,
+      toolTimeoutMs: 10_000,
+      toolTimeouts: { bash: 20 },
+      emit: (e) => events.push(e),
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: "text", text: "Tool timed out: bash did not finish within 20ms and was aborted" },
+    ]);
+    expect(seen.reason).toMatchObject({ name: "ToolTimeoutError", toolName: "bash", timeoutMs: 20 });
+    expect(events.at(-1)).toMatchObject({ type: "tool_end", isError: true, timedOut: true });
+  });
+
+  it("times out tools that ignore their signal", async () => {
+    const stuck: MyClawTool = { ...mkTool("bash"), execute: () => new Promise(() => {}) };
+    const result = await executeToolCall(mkCall("1", "bash"), [stuck], { ...baseOptions, toolTimeoutMs: 10 });
+    expect(result.content).toEqual([
+      { type: "text", text: "Tool timed out: bash did not finish within 10ms and was aborted" },
+    ]);
+  });
+
+  it("passes a run abort through to the call", async () => {
+    const seen: { reason?: unknown } = {};
+    const controller = new AbortController();
+    const pending = executeToolCall(mkCall("1", "bash"), [mkHangingTool("bash", seen)], {
+      ...baseOptions,
+      toolTimeoutMs: 10_000,
+      signal: controller.signal,
+    });
+    await new Promise((r) => setTimeout(r, 5));
+    controller.abort(new Error("stop"));
+
+    const result = await pending;
+    expect(seen.reason).toEqual(new Error("stop"));
+    expect(result.content).toEqual([{ type: "text", text: "Tool execution error: aborted" }]);
+  });
+
+  it("leaves fast calls alone", async () => {
+    const result = await executeToolCall(mkCall("1", "read"), [mkTool("read")], { ...baseOptions, toolTimeoutMs: 1_000 });
+    expect(result).toMatchObject({ isError: false, content: [{ type: "text", text: "read:1" }] });
+  });
+});
+
+// ── Oversized output ─────────────────────────────────────────────────
+
+describe("oversized output", () => {
+  let workspaceDir: string;
+
+  beforeEach(() => {
+    workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-tool-output-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  const output = ["line 1", "line 2", "line 3", "line 4"].join("\n");
+  const options = () => ({ ...baseOptions, maxToolResultChars: 10, workspaceDir });
+
+  it("saves the full output to the workspace and says where to read on", async () => {
+    const result = await executeToolCall(mkCall("call/1", "bash"), [mkTextTool("bash", output)], options());
+    const text = (result.content[0] as { text: string }).text;
+
+    const [fileName] = fs.readdirSync(path.join(workspaceDir, TOOL_OUTPUT_DIRNAME));
+    expect(fileName).toMatch(/^\d+-bash-call_1\.txt$/);
+    const spillPath = `${TOOL_OUTPUT_DIRNAME}/${fileName}`;
+    expect(fs.readFileSync(path.join(workspaceDir, spillPath), "utf-8")).toBe(output);
+
+    expect(text).toBe(
+      "line 1\nlin\n[truncated: showing 10 of 27 characters. " +
+        `Full output (4 lines) saved to ${spillPath} — read it with {"path": "${spillPath}", "offset": 2} to continue.]`,
+    );
+    expect(result.isError).toBe(false);
+  });
+
+  it("keeps only the newest spilled outputs", async () => {
+    const dir = path.join(workspaceDir, TOOL_OUTPUT_DIRNAME);
+    fs.mkdirSync(dir);
+    for (let i = 0; i < MAX_TOOL_OUTPUT_FILES; i++) fs.writeFileSync(path.join(dir, `${1000 + i}-bash-x.txt`), "old");
+
+    await executeToolCall(mkCall("1", "bash"), [mkTextTool("bash", output)], options());
+
+    const files = fs.readdirSync(dir);
+    expect(files).toHaveLength(MAX_TOOL_OUTPUT_FILES);
+    expect(files).not.toContain("1000-bash-x.txt");
+  });
+
+  it("only truncates without a workspace", async () => {
+    const result = await executeToolCall(mkCall("1", "bash"), [mkTextTool("bash", output)], {
+      ...baseOptions,
+      maxToolResultChars: 10,
+    });
+    expect(result.content).toEqual([{ type: "text", text: "line 1\nlin\n[truncated]" }]);
+  });
+});
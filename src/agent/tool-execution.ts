@@ -0,0 +1,296 @@
+/**
+ * Tool-call execution for one assistant message.
+ *
+ * Calls are grouped into batches in the order the model made them: a run
+ * of consecutive parallel-safe calls (see `MyClawTool.parallelSafe`) forms
+ * one batch and executes concurrently, up to `maxParallelTools` at a time;
+ * any other call — a mutating tool or an unknown name — is a batch of its
+ * own. A batch starts only after the previous one has finished, so
+ * mutating tools never overlap anything and keep their order.
+ *
+ * Each call emits `tool_start` when it actually starts and `tool_end` when
+ * it finishes; with concurrency, events of different calls may interleave.
+ * Results are always returned in the original tool-call order.
+ *
+ * With an `authorize` hook (see `tool-approval.ts`), each call is checked
+ * before it starts; a denied call emits `tool_denied` instead of
+ * `tool_start` / `tool_end` and returns an error result with the reason.
+ *
+ * Each call gets its own abort signal, linked to the run's. A call that
+ * outlives its timeout (`toolTimeouts[name]`, else `toolTimeoutMs`) is
+ * aborted and returns a timeout error result; the run goes on.
+ *
+ * Output over `maxToolResultChars` is truncated. With `workspaceDir`, the
+ * full output is first saved under `<workspaceDir>/.tool-output/` and the
+ * truncated result tells the model how to `read` the rest.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+import type { TextContent, ToolCall, ToolResultMessage } from "@mariozechner/pi-ai";
+
+import {
+  MAX_TOOL_OUTPUT_FILES,
+  TOOL_OUTPUT_DIRNAME,
+  type AgentEventCallback,
+  type ToolAuthorizer,
+} from "./types.js";
+import { findTool, type MyClawTool } from "./tools/create-tools.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ExecuteToolCallsOptions {
+  /** Max parallel-safe calls in flight at once (1 = strictly sequential). */
+  maxParallelTools: number;
+  /** Tool output longer than this is truncated. */
+  maxToolResultChars: number;
+  /** Default time limit per call in ms; 0 or unset = none. */
+  toolTimeoutMs?: number;
+  /** Per-tool time limits in ms, overriding `toolTimeoutMs`; 0 = none. */
+  toolTimeouts?: Record<string, number>;
+  /** Where oversized output is saved (under `.tool-output/`); unset = truncate only. */
+  workspaceDir?: string;
+  signal?: AbortSignal;
+  emit?: AgentEventCallback;
+  /** Checked before each call runs; a denial becomes an error result. */
+  authorize?: ToolAuthorizer;
+}
+
+// ── Tool result helpers ──────────────────────────────────────────────
+
+function extractToolResultText(result: { content: { type: string; text?: string }[] }): string {
+  return result.content
+    .filter((c): c is TextContent => c.type === "text" && typeof c.text === "string")
+    .map((c) => c.text)
+    .join("\n");
+}
+
+function truncateToolResult(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return text.slice(0, maxChars) + "\n[truncated]";
+}
+
+/**
+ * Save the full output of a call to `<workspaceDir>/.tool-output/`, keeping
+ * only the newest `MAX_TOOL_OUTPUT_FILES`. Returns the path relative to the
+ * workspace.
+ */
+function spillToolOutput(workspaceDir: string, tc: ToolCall, text: string): string {
+  const dir = path.join(workspaceDir, TOOL_OUTPUT_DIRNAME);
+  fs.mkdirSync(dir, { recursive: true });
+  const fileName = `${Date.now()}-${tc.name}-${tc.id}`.replace(/[^\w.-]/g, "_") + ".txt";
+  fs.writeFileSync(path.join(dir, fileName), text, "utf-8");
+
+  // Names start with the timestamp, so they sort oldest first
+  const files = fs.readdirSync(dir).filter((f) => f.endsWith(".txt")).sort();
+  for (const old of files.slice(0, Math.max(0, files.length - MAX_TOOL_OUTPUT_FILES))) {
+    fs.rmSync(path.join(dir, old), { force: true });
+  }
+  return path.posix.join(TOOL_OUTPUT_DIRNAME, fileName);
+}
+
+/**
+ * Truncate oversized output, saving the full text to the workspace when
+ * possible so the model can page through it with `read`.
+ */
+function limitToolResult(tc: ToolCall, text: string, options: ExecuteToolCallsOptions): string {
+  const { maxToolResultChars: maxChars, workspaceDir } = options;
+  if (text.length <= maxChars || !workspaceDir) return truncateToolResult(text, maxChars);
+
+  let spillPath: string;
+  try {
+    spillPath = spillToolOutput(workspaceDir, tc, text);
+  } catch {
+    return truncateToolResult(text, maxChars);
+  }
+  const shown = text.slice(0, maxChars);
+  // The last shown line may be cut short, so continue from it
+  const nextLine = shown.split("\n").length;
+  const totalLines = text.split("\n").length;
+  return (
+    `${shown}\n[truncated: showing ${maxChars} of ${text.length} characters. ` +
+    `Full output (${totalLines} lines) saved to ${spillPath} — ` +
+    `read it with {"path": "${spillPath}", "offset": ${nextLine}} to continue.]`
+  );
+}
+
+function toolResultMessage(tc: ToolCall, text: string, isError: boolean): ToolResultMessage {
+  return {
+    role: "toolResult",
+    toolCallId: tc.id,
+    toolName: tc.name,
+    content: [{ type: "text", text }],
+    isError,
+    timestamp: Date.now(),
+  };
+}
+
+// ── Timeouts ────────────────────────────────────────────────────────
+
+/** A tool call that ran past its time limit. */
+export class ToolTimeoutError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`${toolName} did not finish within ${formatDuration(timeoutMs)} and was aborted`);
+    this.name = "ToolTimeoutError";
+  }
+}
+
+function formatDuration(ms: number): string {
+  return ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+}
+
+/** The time limit for a call, in ms (0 = none). */
+export function resolveToolTimeout(
+  toolName: string,
+  options: Pick<ExecuteToolCallsOptions, "toolTimeoutMs" | "toolTimeouts">,
+): number {
+  return options.toolTimeouts?.[toolName] ?? options.toolTimeoutMs ?? 0;
+}
+
+/**
+ * Run a tool with its own abort signal, linked to the run's. When
+ * `timeoutMs` passes first, the signal is aborted and `ToolTimeoutError`
+ * thrown — even if the tool ignores its signal.
+ */
+async function executeWithTimeout(
+  tool: MyClawTool,
+  tc: ToolCall,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): ReturnType<MyClawTool["execute"]> {
+  if (timeoutMs <= 0) return tool.execute(tc.id, tc.arguments, signal);
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const execution = tool.execute(tc.id, tc.arguments, controller.signal);
+  // A tool that rejects after timing out has nobody left to report to
+  execution.catch(() => {});
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new ToolTimeoutError(tc.name, timeoutMs);
+      // Settle the race before the tool reacts to the abort
+      reject(err);
+      controller.abort(err);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([execution, timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// ── Batching ────────────────────────────────────────────────────────
+
+/**
+ * Split tool calls into execution batches, preserving order: consecutive
+ * parallel-safe calls share a batch, every other call gets its own.
+ */
+export function planToolBatches(toolCalls: readonly ToolCall[], tools: MyClawTool[]): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  let parallel: ToolCall[] | undefined;
+
+  for (const tc of toolCalls) {
+    if (findTool(tools, tc.name)?.parallelSafe) {
+      if (!parallel) {
+        parallel = [];
+        batches.push(parallel);
+      }
+      parallel.push(tc);
+    } else {
+      parallel = undefined;
+      batches.push([tc]);
+    }
+  }
+  return batches;
+}
+
+// ── Execution ───────────────────────────────────────────────────────
+
+/**
+ * Execute one tool call. Denials, tool errors, timeouts, and unknown tools
+ * become error results; only an aborted `signal` throws.
+ */
+export async function executeToolCall(
+  tc: ToolCall,
+  tools: MyClawTool[],
+  options: ExecuteToolCallsOptions,
+): Promise<ToolResultMessage> {
+  const { signal, emit = () => {} } = options;
+  signal?.throwIfAborted();
+
+  const denial = await options.authorize?.(tc);
+  if (denial !== undefined) {
+    emit({ type: "tool_denied", toolName: tc.name, toolCallId: tc.id, reason: denial });
+    return toolResultMessage(tc, `Tool call denied: ${denial}`, true);
+  }
+  signal?.throwIfAborted();
+
+  emit({ type: "tool_start", toolName: tc.name, toolCallId: tc.id });
+  const startTime = Date.now();
+
+  const tool = findTool(tools, tc.name);
+  let toolResult: ToolResultMessage;
+  let timedOut = false;
+
+  if (!tool) {
+    toolResult = toolResultMessage(tc, `Unknown tool: ${tc.name}`, true);
+  } else {
+    try {
+      const execResult = await executeWithTimeout(tool, tc, resolveToolTimeout(tc.name, options), signal);
+      const text = extractToolResultText(execResult);
+      toolResult = toolResultMessage(tc, limitToolResult(tc, text, options), false);
+    } catch (err) {
+      timedOut = err instanceof ToolTimeoutError;
+      const errMsg = err instanceof Error ? err.message : String(err);
+      const text = timedOut ? `Tool timed out: ${errMsg}` : `Tool execution error: ${errMsg}`;
+      toolResult = toolResultMessage(tc, text, true);
+    }
+  }
+
+  emit({
+    type: "tool_end",
+    toolName: tc.name,
+    toolCallId: tc.id,
+    durationMs: Date.now() - startTime,
+    isError: toolResult.isError,
+    ...(timedOut && { timedOut }),
+  });
+  return toolResult;
+}
+
+/**
+ * Execute all tool calls of one assistant message, running parallel-safe
+ * batches concurrently. Returns the results in tool-call order.
+ */
+export async function executeToolCalls(
+  toolCalls: readonly ToolCall[],
+  tools: MyClawTool[],
+  options: ExecuteToolCallsOptions,
+): Promise<ToolResultMessage[]> {
+  const results: ToolResultMessage[] = [];
+
+  for (const batch of planToolBatches(toolCalls, tools)) {
+    const batchResults = new Array<ToolResultMessage>(batch.length);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < batch.length) {
+        const i = next++;
+        batchResults[i] = await executeToolCall(batch[i], tools, options);
+      }
+    };
+    const workers = Math.min(Math.max(options.maxParallelTools, 1), batch.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+    results.push(...batchResults);
+  }
+  return results;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+
+import type { MyClawConfig, ToolPolicyConfig } from "../config/index.js";
+import { buildSessionKey, type PeerKind } from "../sessions/index.js";
+import {
+  matchesGlob,
+  matchesToolRule,
+  resolveToolPolicy,
+  isToolAllowed,
+  filterToolsByPolicy,
+} from "./tool-policy.js";
+
+const provider = { name: "anthropic", model: "m", authProfiles: [{ id: "p", apiKey: "k" }] };
+
+function withTools(tools: ToolPolicyConfig | undefined): MyClawConfig {
+  return { provider, agent: { tools } };
+}
+
+function key(channel: string, peerKind: PeerKind, peerId = "p1", agentId?: string): string {
+  return buildSessionKey({ agentId, channel, peerKind, peerId });
+}
+
+const ALL = ["read", "bash", "edit", "write", "grep", "find", "ls", "apply_patch"];
+
+function available(config: MyClawConfig, sessionKey: string): string[] {
+  const policy = resolveToolPolicy(config, sessionKey);
+  return ALL.filter((name) => isToolAllowed(policy, name));
+}
+
+describe("matchesGlob", () => {
+  it("matches whole names with * as a wildcard", () => {
+    expect(matchesGlob("*", "bash")).toBe(true);
+    expect(matchesGlob("apply_*", "apply_patch")).toBe(true);
+    expect(matchesGlob("read", "readme")).toBe(false);
+    expect(matchesGlob("a.b", "axb")).toBe(false);
+  });
+});
+
+describe("matchesToolRule", () => {
+  const session = { agentId: "main", channel: "telegram", accountId: "default", peerKind: "group" as const, peerId: "42" };
+
+  it("requires every set field to match", () => {
+    expect(matchesToolRule({ channel: "telegram", peerKind: "group" }, session)).toBe(true);
+    expect(matchesToolRule({ channel: "telegram", peerId: "43" }, session)).toBe(false);
+    expect(matchesToolRule({}, session)).toBe(true);
+  });
+});
+
+describe("resolveToolPolicy", () => {
+  it("allows every tool by default", () => {
+    expect(available(withTools(undefined), key("telegram", "group"))).toEqual(ALL);
+  });
+
+  it("applies the base allow and deny lists", () => {
+    const config = withTools({ allow: ["read", "grep", "bash"], deny: ["bash"] });
+    expect(available(config, key("cli", "direct"))).toEqual(["read", "grep"]);
+  });
+
+  it("gives telegram groups read-only tools and bash only to direct CLI sessions", () => {
+    const config = withTools({
+      deny: ["bash"],
+      rules: [
+        { channel: "telegram", peerKind: "group", allow: ["read", "grep", "find", "ls"] },
+        { channel: "cli", peerKind: "direct", deny: [] },
+      ],
+    });
+
+    expect(available(config, key("telegram", "group"))).toEqual(["read", "grep", "find", "ls"]);
+    expect(available(config, key("cli", "direct"))).toEqual(ALL);
+    expect(available(config, key("telegram", "direct"))).not.toContain("bash");
+  });
+
+  it("applies every matching rule in order, so later rules override earlier ones", () => {
+    const config = withTools({
+      rules: [
+        { channel: "telegram", allow: ["read"] },
+        { channel: "telegram", peerId: "trusted", allow: ["*"], deny: ["apply_*"] },
+      ],
+    });
+
+    expect(available(config, key("telegram", "group", "other"))).toEqual(["read"]);
+    expect(available(config, key("telegram", "group", "trusted"))).toEqual(
+      ALL.filter((t) => t !== "apply_patch"),
+    );
+  });
+
+  it("matches rules by agentId", () => {
+    const config = withTools({ rules: [{ agentId: "ops", deny: ["write", "edit"] }] });
+    expect(available(config, key("cli", "direct", "p1", "ops"))).not.toContain("write");
+    expect(available(config, key("cli", "direct", "p1", "main"))).toContain("write");
+  });
+
+  it("normalizes configured channel and peerId like session keys do", () => {
+    const config = withTools({
+      rules: [{ channel: "Telegram", peerId: "Chat 42", deny: ["bash"] }],
+    });
+    expect(key("telegram", "group", "Chat 42")).toContain(":chat_42");
+    expect(available(config, key("telegram", "group", "Chat 42"))).not.toContain("bash");
+    expect(available(config, key("telegram", "group", "chat_43"))).toContain("bash");
+  });
+
+  it("uses only the base lists for keys that don't parse", () => {
+    const config = withTools({ deny: ["bash"], rules: [{ deny: [] }] });
+    expect(resolveToolPolicy(config, "not-a-session-key")).toEqual({ allow: ["*"], deny: ["bash"] });
+  });
+});
+
+describe("filterToolsByPolicy", () => {
+  it("keeps allowed tools in order", () => {
+    const tools = ALL.map((name) => ({ name }));
+    expect(filterToolsByPolicy(tools, { allow: ["*"], deny: ["bash", "write"] }).map((t) => t.name)).toEqual(
+      ["read", "edit", "grep", "find", "ls", "apply_patch"],
+    );
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Per-session tool policy — which tools the agent gets, by who is talking.
+ *
+ * `agent.tools` sets base `allow` / `deny` lists, and `rules` override them
+ * by the session key's agentId / channel / peerKind / peerId. Every rule
+ * whose fields all match applies, in order: a rule's `allow` / `deny`
+ * replace the lists set before it, and lists it omits are kept — so put
+ * general rules before specific ones. Entries are globs (`*` = any
+ * characters). A tool is available when it matches `allow` (default `*`)
+ * and does not match `deny`.
+ *
+ * The policy filters the tools sent to the model and listed in the system
+ * prompt, and the run's tool authorizer rejects calls to anything else.
+ *
+ * @example
+ * ```json5
+ * tools: {
+ *   deny: ["bash"],
+ *   rules: [
+ *     { channel: "telegram", peerKind: "group", allow: ["read", "grep", "find", "ls"] },
+ *     { channel: "cli", peerKind: "direct", deny: [] },
+ *   ],
+ * },
+ * ```
+ */
+
+import type { MyClawConfig, ToolRule } from "../config/index.js";
+import {
+  normalizeSessionKeySegment,
+  parseSessionKey,
+  type ParsedSessionKey,
+} from "../sessions/index.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** The effective allow / deny lists for one session. */
+export interface ToolPolicy {
+  allow: string[];
+  deny: string[];
+}
+
+// ── Globs ───────────────────────────────────────────────────────────
+
+/**
+ * Whether a glob (`*` = any characters, everything else literal) matches
+ * the whole value.
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[\\s\\S]*");
+  return new RegExp(`^${source}$`).test(value);
+}
+
+// ── Resolution ──────────────────────────────────────────────────────
+
+/** Compare a configured value the way session keys store it (`"Main Group"` → `main_group`). */
+function matchesSegment(configured: string | undefined, actual: string): boolean {
+  return configured === undefined || normalizeSessionKeySegment(configured) === actual;
+}
+
+/**
+ * Whether every field set on `rule` matches the session.
+ * A rule with no match fields matches everything.
+ */
+export function matchesToolRule(rule: ToolRule, session: ParsedSessionKey): boolean {
+  return (
+    matchesSegment(rule.agentId, session.agentId) &&
+    matchesSegment(rule.channel, session.channel) &&
+    (rule.peerKind === undefined || rule.peerKind === session.peerKind) &&
+    matchesSegment(rule.peerId, session.peerId)
+  );
+}
+
+/**
+ * The effective tool policy for a session. Keys that don't parse get the
+ * base lists only.
+ */
+export function resolveToolPolicy(config: MyClawConfig, sessionKey: string): ToolPolicy {
+  const tools = config.agent?.tools;
+  const policy: ToolPolicy = { allow: tools?.allow ?? ["*"], deny: tools?.deny ?? [] };
+
+  const session = parseSessionKey(sessionKey);
+  if (!session) return policy;
+
+  for (const rule of tools?.rules ?? []) {
+    if (!matchesToolRule(rule, session)) continue;
+    if (rule.allow) policy.allow = rule.allow;
+    if (rule.deny) policy.deny = rule.deny;
+  }
+  return policy;
+}
+
+/**
+ * Whether the policy makes `toolName` available.
+ */
+export function isToolAllowed(policy: ToolPolicy, toolName: string): boolean {
+  return (
+    policy.allow.some((p) => matchesGlob(p, toolName)) &&
+    !policy.deny.some((p) => matchesGlob(p, toolName))
+  );
+}
+
+/**
+ * The tools available to a session, in their original order.
+ */
+export function filterToolsByPolicy<T extends { name: string }>(tools: T[], policy: ToolPolicy): T[] {
+  return tools.filter((t) => isToolAllowed(policy, t.name));
+}
@@ -1,7 +1,7 @@
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { createApplyPatchTool } from "./apply-patch.js";
 
 describe("createApplyPatchTool", () => {
@@ -115,4 +115,271 @@ describe("createApplyPatchTool", () => {
     );
     expect(content).toBe("hello\n");
   });
+
+  it("rejects a patch reaching outside the workspace without writing anything", async () => {
+    const patch = [
+      "--- /dev/null",
+      "+++ b/inside.txt",
+      "@@ -0,0 +1,1 @@",
+      "+ok",
+      "--- /dev/null",
+      "+++ b/../escaped.txt",
+      "@@ -0,0 +1,1 @@",
+      "+nope",
+    ].join("\n");
+
+    await expect(tool.execute("call-6", { patch })).rejects.toThrow(/outside the workspace/);
+    expect(fs.existsSync(path.join(tmpDir, "inside.txt"))).toBe(false);
+    expect(fs.existsSync(path.join(tmpDir, "..", "escaped.txt"))).toBe(false);
+  });
+
+  describe("transactions", () => {
+    const text = (result: { content: unknown[] }) => (result.content[0] as { text: string }).text;
+
+    /** Patch modifying a.txt, creating new/b.txt and deleting c.txt, plus `extra` sections. */
+    function multiFilePatch(...extra: string[][]): string {
+      return [
+        ["--- a/a.txt", "+++ b/a.txt", "@@ -1,2 +1,2 @@", " one", "-two", "+TWO"],
+        ["--- /dev/null", "+++ b/new/b.txt", "@@ -0,0 +1,1 @@", "+bee"],
+        ["--- a/c.txt", "+++ /dev/null", "@@ -1,1 +0,0 @@", "-sea"],
+        ...extra,
+      ]
+        .flat()
+        .join("\n");
+    }
+
+    beforeEach(() => {
+      fs.writeFileSync(path.join(tmpDir, "a.txt"), "one\ntwo\n", "utf-8");
+      fs.writeFileSync(path.join(tmpDir, "c.txt"), "sea\n", "utf-8");
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    function expectUntouched() {
+      expect(fs.readFileSync(path.join(tmpDir, "a.txt"), "utf-8")).toBe("one\ntwo\n");
+      expect(fs.readFileSync(path.join(tmpDir, "c.txt"), "utf-8")).toBe("sea\n");
+      expect(fs.existsSync(path.join(tmpDir, "new"))).toBe(false);
+      expect(fs.readdirSync(tmpDir).sort()).toEqual(["a.txt", "c.txt"]);
+    }
+
+    it("lists created, modified and deleted files in details", async () => {
+      const result = await tool.execute("t-1", { patch: multiFilePatch() });
+
+      expect(result.details).toEqual({
+        dryRun: false,
+        applied: true,
+        filesPatched: 3,
+        created: ["new/b.txt"],
+        modified: ["a.txt"],
+        deleted: ["c.txt"],
+        failed: [],
+      });
+      expect(fs.readFileSync(path.join(tmpDir, "a.txt"), "utf-8")).toBe("one\nTWO\n");
+      expect(fs.readFileSync(path.join(tmpDir, "new", "b.txt"), "utf-8")).toBe("bee\n");
+      expect(fs.existsSync(path.join(tmpDir, "c.txt"))).toBe(false);
+    });
+
+    it("writes nothing when any file fails to apply", async () => {
+      const bad = ["--- a/a.txt", "+++ b/a.txt", "@@ -1,1 +1,1 @@", "-missing", "+x"];
+      const result = await tool.execute("t-2", { patch: multiFilePatch(bad) });
+
+      expect(text(result)).toContain("Patch not applied — 1 of 3 file(s) failed");
+      expect(text(result)).toContain("FAILED: a.txt — hunk 1 of 1 does not match");
+      expect(result.details).toMatchObject({
+        applied: false,
+        failed: [{ path: "a.txt", reason: expect.stringContaining("does not match") }],
+      });
+      expectUntouched();
+    });
+
+    it("refuses to add a file that already exists (/dev/null diff)", async () => {
+      fs.writeFileSync(path.join(tmpDir, "keep.txt"), "keep\n", "utf-8");
+      const add = ["--- /dev/null", "+++ b/keep.txt", "@@ -0,0 +1,1 @@", "+x"];
+      const result = await tool.execute("t-add-1", { patch: multiFilePatch(add) });
+
+      expect(text(result)).toContain("FAILED: keep.txt — file already exists");
+      expect(result.details).toMatchObject({
+        applied: false,
+        failed: [{ path: "keep.txt", reason: "file already exists" }],
+      });
+      expect(fs.readFileSync(path.join(tmpDir, "keep.txt"), "utf-8")).toBe("keep\n");
+      fs.rmSync(path.join(tmpDir, "keep.txt"));
+      expectUntouched();
+    });
+
+    it("refuses to add a file that already exists (marker format)", async () => {
+      fs.writeFileSync(path.join(tmpDir, "keep.txt"), "important\ncontent\n", "utf-8");
+      const patch = [
+        "*** Begin Patch",
+        "*** Update File: a.txt",
+        "@@",
+        " one",
+        "-two",
+        "+TWO",
+        "*** Add File: keep.txt",
+        "+new",
+        "*** End Patch",
+      ].join("\n");
+
+      const result = await tool.execute("t-add-2", { patch });
+
+      expect(result.details).toMatchObject({
+        applied: false,
+        failed: [{ path: "keep.txt", reason: "file already exists" }],
+      });
+      expect(fs.readFileSync(path.join(tmpDir, "keep.txt"), "utf-8")).toBe("important\ncontent\n");
+      fs.rmSync(path.join(tmpDir, "keep.txt"));
+      expectUntouched();
+    });
+
+    it("applies several patches for one file on top of each other", async () => {
+      const again = ["--- a/a.txt", "+++ b/a.txt", "@@ -1,2 +1,2 @@", "-one", "+ONE", " TWO"];
+      const result = await tool.execute("t-3", { patch: multiFilePatch(again) });
+
+      expect(result.details).toMatchObject({ applied: true, modified: ["a.txt"] });
+      expect(fs.readFileSync(path.join(tmpDir, "a.txt"), "utf-8")).toBe("ONE\nTWO\n");
+    });
+
+    it("previews a dry run without touching disk", async () => {
+      const result = await tool.execute("t-4", { patch: multiFilePatch(), dryRun: true });
+
+      expect(text(result)).toContain("Dry run — patch applies cleanly to 3 file(s)");
+      expect(text(result)).toContain("Would create: new/b.txt (1 lines)");
+      expect(result.details).toMatchObject({
+        dryRun: true,
+        applied: false,
+        created: ["new/b.txt"],
+        modified: ["a.txt"],
+        deleted: ["c.txt"],
+      });
+      expect(result.details.preview).toContain("+++ b/a.txt");
+      expect(result.details.preview).toContain("+TWO");
+      expect(result.details.preview).toContain("+++ /dev/null");
+      expectUntouched();
+    });
+
+    it("rolls back files already written when a later write fails", async () => {
+      const rename = fs.renameSync;
+      vi.spyOn(fs, "renameSync").mockImplementation((from, to) => {
+        if (String(to).endsWith("b.txt")) throw new Error("disk full");
+        rename(from, to);
+      });
+
+      const result = await tool.execute("t-5", { patch: multiFilePatch() });
+
+      expect(text(result)).toBe("Failed to apply patch: new/b.txt: disk full. No files were changed.");
+      expect(result.details).toMatchObject({ applied: false, error: "new/b.txt: disk full" });
+      expectUntouched();
+    });
+
+    it("keeps file modes of patched files", async () => {
+      fs.chmodSync(path.join(tmpDir, "a.txt"), 0o755);
+      await tool.execute("t-6", { patch: multiFilePatch() });
+      expect(fs.statSync(path.join(tmpDir, "a.txt")).mode & 0o777).toBe(0o755);
+    });
+  });
+
+  describe("fuzzy matching", () => {
+    const text = (result: { content: unknown[] }) => (result.content[0] as { text: string }).text;
+    const source = ["function main() {", "  const a = 1;", "  const b = 2;", "  return a + b;", "}", ""].join("\n");
+
+    beforeEach(() => {
+      fs.writeFileSync(path.join(tmpDir, "main.ts"), "// header\n".repeat(30) + source, "utf-8");
+    });
+
+    it("finds hunks with drifted line numbers and whitespace", async () => {
+      const patch = [
+        "--- a/main.ts",
+        "+++ b/main.ts",
+        "@@ -2,3 +2,3 @@",
+        "    const a = 1;",
+        "-  const b = 2;  ",
+        "+  const b = 3;",
+        "   return a + b;",
+      ].join("\n");
+
+      const result = await tool.execute("f-1", { patch });
+
+      expect(result.details).toMatchObject({ applied: true, modified: ["main.ts"] });
+      expect(fs.readFileSync(path.join(tmpDir, "main.ts"), "utf-8")).toContain(
+        "  const a = 1;\n  const b = 3;\n  return a + b;\n",
+      );
+    });
+
+    it("honors a stricter fuzz configuration", async () => {
+      const strict = createApplyPatchTool(tmpDir, { fuzz: { maxOffset: 5, ignoreWhitespace: false } });
+      const patch = ["--- a/main.ts", "+++ b/main.ts", "@@ -2,1 +2,1 @@", "-  const b = 2;", "+  const b = 3;"].join(
+        "\n",
+      );
+
+      const result = await strict.execute("f-2", { patch });
+
+      expect(text(result)).toContain("does not match within 5 lines of line 2");
+      expect(result.details).toMatchObject({ applied: false });
+    });
+
+    it("shows the closest region of the file when a hunk doesn't match", async () => {
+      const patch = [
+        "--- a/main.ts",
+        "+++ b/main.ts",
+        "@@ -31,4 +31,4 @@",
+        " function main() {",
+        "   const a = 1;",
+        "-  const b = 20;",
+        "+  const b = 3;",
+        "   return a + b;",
+      ].join("\n");
+
+      const result = await tool.execute("f-3", { patch });
+
+      expect(text(result)).toContain("Closest match, lines 31-34 (3 of 4 lines match):");
+      expect(text(result)).toContain("   33 |   const b = 2;");
+      expect(result.details.failed[0].closest).toMatchObject({ startLine: 31, endLine: 34, matchedLines: 3 });
+    });
+
+    it("applies the begin/end marker format", async () => {
+      fs.writeFileSync(path.join(tmpDir, "old.ts"), "gone\n", "utf-8");
+      const patch = [
+        "*** Begin Patch",
+        "*** Add File: src/new.ts",
+        "+export const x = 1;",
+        "*** Update File: main.ts",
+        "@@ function main() {",
+        "   const a = 1;",
+        "-  const b = 2;",
+        "+  const b = 3;",
+        "*** Delete File: old.ts",
+        "*** End Patch",
+      ].join("\n");
+
+      const result = await tool.execute("f-4", { patch });
+
+      expect(result.details).toMatchObject({
+        applied: true,
+        created: ["src/new.ts"],
+        modified: ["main.ts"],
+        deleted: ["old.ts"],
+      });
+      expect(fs.readFileSync(path.join(tmpDir, "src", "new.ts"), "utf-8")).toBe("export const x = 1;\n");
+      expect(fs.readFileSync(path.join(tmpDir, "main.ts"), "utf-8")).toContain("  const b = 3;");
+      expect(fs.existsSync(path.join(tmpDir, "old.ts"))).toBe(false);
+    });
+
+    it("inserts pure-addition hunks where the header says", async () => {
+      const patch = ["--- a/main.ts", "+++ b/main.ts", "@@ -31,0 +32,1 @@", "+// inserted"].join("\n");
+
+      await tool.execute("f-6", { patch });
+
+      expect(fs.readFileSync(path.join(tmpDir, "main.ts"), "utf-8")).toContain(
+        "function main() {\n// inserted\n  const a = 1;",
+      );
+    });
+
+    it("reports marker-format parse errors with their line", async () => {
+      const result = await tool.execute("f-5", { patch: "*** Begin Patch\n*** Update File: main.ts\n@@\n-x" });
+      expect(text(result)).toContain('Invalid patch (line 4): missing "*** End Patch"');
+    });
+  });
 });
@@ -1,115 +1,367 @@
 /**
- * Custom `apply_patch` tool — applies unified diffs to files.
+ * Custom `apply_patch` tool — applies patches to files.
  *
- * Uses the `diff` npm package for robust patch application.
+ * Accepts unified diffs and the begin/end marker format (see
+ * `patch-format.ts`); hunks are located by `hunk-match.ts`, which
+ * tolerates drifted line numbers and whitespace and reports the closest
+ * region when a hunk doesn't match. Every target path is checked against
+ * the workspace path guard before any file is touched; a patch reaching
+ * outside the workspace fails as a whole.
+ *
+ * Patches are transactional:
+ *   1. validate — every file's hunks are applied in memory; if any file
+ *      fails, nothing is written
+ *   2. commit — new contents are staged next to their targets, then
+ *      swapped in; if a write fails, files already changed are restored
+ *      and staged files removed
+ *
+ * With `dryRun`, the tool stops after validation and returns the per-file
+ * results plus a preview diff.
  */
 
 import fs from "node:fs";
 import path from "node:path";
-import { applyPatch, parsePatch } from "diff";
+import { createTwoFilesPatch } from "diff";
 import { Type, type Static } from "@sinclair/typebox";
 import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
 
+import { DEFAULT_PATCH_FUZZ, type PatchFuzzConfig } from "../../config/index.js";
+
+import { applyHunks, type ClosestRegion, type PatchFuzzOptions } from "./hunk-match.js";
+import { createPathGuard, PathGuardError, type PathGuard } from "./path-guard.js";
+import { parsePatchInput, type FilePatch } from "./patch-format.js";
+
 // ── Schema ───────────────────────────────────────────────────────────
 
 const ApplyPatchSchema = Type.Object({
   patch: Type.String({
     description:
-      "Unified diff to apply. Should include file paths in the --- / +++ headers.",
+      "Unified diff with --- / +++ headers, or a patch between '*** Begin Patch' and '*** End Patch' " +
+      "with '*** Add File: <path>' / '*** Update File: <path>' / '*** Delete File: <path>' sections.",
   }),
+  dryRun: Type.Optional(
+    Type.Boolean({
+      description: "Only check that the patch applies and preview the result; don't write any file.",
+    }),
+  ),
 });
 
 type ApplyPatchInput = Static<typeof ApplyPatchSchema>;
 
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface ApplyPatchFailure {
+  path: string;
+  reason: string;
+  /** Where the file looks most like the hunk that didn't match. */
+  closest?: ClosestRegion;
+}
+
+export interface ApplyPatchToolOptions {
+  /** Path guard for patch targets (default: the workspace only). */
+  guard?: PathGuard;
+  /** Hunk matching tolerance; unset fields use `DEFAULT_PATCH_FUZZ`. */
+  fuzz?: PatchFuzzConfig;
+}
+
+/** `details` of an `apply_patch` result. Paths are as written in the patch. */
+export interface ApplyPatchDetails {
+  dryRun: boolean;
+  /** Whether the files on disk were changed. */
+  applied: boolean;
+  /** Files changed (or, on a dry run / failure, that would be). */
+  filesPatched: number;
+  created: string[];
+  modified: string[];
+  deleted: string[];
+  failed: ApplyPatchFailure[];
+  /** Unified diff of the changes (dry run only). */
+  preview?: string;
+  error?: string;
+}
+
+type FileAction = "create" | "modify" | "delete";
+
+/** The validated change to one file. */
+interface FileChange {
+  relPath: string;
+  /** Where the write lands — symlinks inside the workspace are followed. */
+  absPath: string;
+  action: FileAction;
+  /** `null` for files that don't exist yet. */
+  original: string | null;
+  /** `null` for deleted files. */
+  updated: string | null;
+}
+
+// ── Validation ───────────────────────────────────────────────────────
+
+/**
+ * Apply every file patch in memory. Several patches for one file apply on
+ * top of each other; once one of them fails, the file is reported failed
+ * only. Returns the final change per file, in patch order, and the files
+ * that failed.
+ */
+function validatePatches(
+  patches: FilePatch[],
+  guard: PathGuard,
+  fuzz: PatchFuzzOptions,
+): { changes: FileChange[]; failed: ApplyPatchFailure[] } {
+  // Resolve every target up front so a rejected path aborts before anything else
+  const targets = patches.map((patch) => ({ patch, absPath: guard.resolve(patch.path) }));
+
+  const changes = new Map<string, FileChange>();
+  const failed: ApplyPatchFailure[] = [];
+  const failedPaths = new Set<string>();
+  const fail = (absPath: string, failure: ApplyPatchFailure) => {
+    failed.push(failure);
+    failedPaths.add(absPath);
+    changes.delete(absPath);
+  };
+
+  for (const { patch, absPath } of targets) {
+    const relPath = patch.path;
+    if (failedPaths.has(absPath)) continue;
+    const existing = changes.get(absPath);
+    let current: string | null;
+    if (existing) {
+      current = existing.updated;
+    } else {
+      try {
+        current = fs.existsSync(absPath) ? fs.readFileSync(absPath, "utf-8") : null;
+      } catch (err) {
+        fail(absPath, { path: relPath, reason: err instanceof Error ? err.message : String(err) });
+        continue;
+      }
+    }
+
+    if (patch.kind === "update" && patch.hunks.length === 0) {
+      fail(absPath, { path: relPath, reason: "no hunks to apply" });
+      continue;
+    }
+    if (patch.kind === "delete" && current === null) {
+      fail(absPath, { path: relPath, reason: "file to delete does not exist" });
+      continue;
+    }
+    if (patch.kind === "add" && current !== null) {
+      fail(absPath, { path: relPath, reason: "file already exists" });
+      continue;
+    }
+
+    // New files are patched from empty content
+    const applied = applyHunks(patch.kind === "add" ? "" : current ?? "", patch.hunks, fuzz);
+    if (!applied.ok) {
+      fail(absPath, { path: relPath, reason: applied.reason, closest: applied.closest });
+      continue;
+    }
+
+    const original = existing ? existing.original : current;
+    const updated = patch.kind === "delete" ? null : applied.text;
+    changes.set(absPath, {
+      relPath,
+      // Write through symlinks that stay inside the workspace instead of replacing them
+      absPath: original !== null ? fs.realpathSync(absPath) : absPath,
+      action: original === null ? "create" : updated === null ? "delete" : "modify",
+      original,
+      updated,
+    });
+  }
+
+  // A file created and deleted again within the patch is no change at all
+  return {
+    changes: [...changes.values()].filter((c) => c.original !== null || c.updated !== null),
+    failed,
+  };
+}
+
+// ── Commit ───────────────────────────────────────────────────────────
+
+/**
+ * Write every change, or none: contents are first staged to temp files
+ * next to their targets, then renamed into place. On any error, changed
+ * files are restored, created files and directories removed, and the
+ * error rethrown prefixed with the file it concerns.
+ */
+function commitChanges(changes: FileChange[]): void {
+  const staged = new Map<FileChange, string>();
+  const createdDirs: string[] = [];
+  const committed: FileChange[] = [];
+  let current: FileChange | undefined;
+
+  try {
+    for (const change of changes) {
+      current = change;
+      if (change.updated === null) continue;
+
+      // Ensure parent directory exists
+      const created = fs.mkdirSync(path.dirname(change.absPath), { recursive: true });
+      if (created) createdDirs.push(created);
+
+      const tmpPath = `${change.absPath}.${process.pid}.patch.tmp`;
+      fs.writeFileSync(tmpPath, change.updated, "utf-8");
+      staged.set(change, tmpPath);
+      if (change.original !== null) fs.chmodSync(tmpPath, fs.statSync(change.absPath).mode);
+    }
+
+    for (const change of changes) {
+      current = change;
+      const tmpPath = staged.get(change);
+      if (tmpPath) {
+        fs.renameSync(tmpPath, change.absPath);
+        staged.delete(change);
+      } else {
+        fs.unlinkSync(change.absPath);
+      }
+      committed.push(change);
+    }
+  } catch (err) {
+    for (const change of committed.reverse()) {
+      if (change.original === null) fs.rmSync(change.absPath, { force: true });
+      else fs.writeFileSync(change.absPath, change.original, "utf-8");
+    }
+    for (const tmpPath of staged.values()) fs.rmSync(tmpPath, { force: true });
+    for (const dir of createdDirs.reverse()) fs.rmSync(dir, { recursive: true, force: true });
+
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(current ? `${current.relPath}: ${msg}` : msg);
+  }
+}
+
+// ── Results ──────────────────────────────────────────────────────────
+
+function countLines(text: string | null): number {
+  return text ? text.split("\n").length - (text.endsWith("\n") ? 1 : 0) : 0;
+}
+
+function buildPreview(changes: FileChange[]): string {
+  return changes
+    .map((c) =>
+      createTwoFilesPatch(
+        c.original === null ? "/dev/null" : `a/${c.relPath}`,
+        c.updated === null ? "/dev/null" : `b/${c.relPath}`,
+        c.original ?? "",
+        c.updated ?? "",
+      ).replace(/^=+\n/, ""),
+    )
+    .join("");
+}
+
+function buildDetails(
+  changes: FileChange[],
+  failed: ApplyPatchFailure[],
+  flags: Pick<ApplyPatchDetails, "dryRun" | "applied">,
+): ApplyPatchDetails {
+  const pathsFor = (action: FileAction) => changes.filter((c) => c.action === action).map((c) => c.relPath);
+  return {
+    ...flags,
+    filesPatched: changes.length,
+    created: pathsFor("create"),
+    modified: pathsFor("modify"),
+    deleted: pathsFor("delete"),
+    failed,
+  };
+}
+
+const ACTION_LABELS: Record<FileAction, [done: string, planned: string]> = {
+  create: ["Created", "Would create"],
+  modify: ["Patched", "Would patch"],
+  delete: ["Deleted", "Would delete"],
+};
+
+function describeChange(change: FileChange, dryRun: boolean): string {
+  const label = ACTION_LABELS[change.action][dryRun ? 1 : 0];
+  const stat =
+    change.action === "modify" ? "" : ` (${countLines(change.original ?? change.updated)} lines)`;
+  return `${label}: ${change.relPath}${stat}`;
+}
+
+function describeFailure(failure: ApplyPatchFailure): string {
+  const lines = [`FAILED: ${failure.path} — ${failure.reason}`];
+  const closest = failure.closest;
+  if (closest) {
+    lines.push(
+      `  Closest match, lines ${closest.startLine}-${closest.endLine} ` +
+        `(${closest.matchedLines} of ${closest.totalLines} lines match):`,
+      ...closest.lines.map((line, i) => `  ${String(closest.startLine + i).padStart(5)} | ${line}`),
+    );
+  }
+  return lines.join("\n");
+}
+
+function result(text: string, details: ApplyPatchDetails): AgentToolResult<ApplyPatchDetails> {
+  return { content: [{ type: "text", text }], details };
+}
+
 // ── Tool factory ─────────────────────────────────────────────────────
 
-export function createApplyPatchTool(cwd: string): AgentTool<typeof ApplyPatchSchema> {
+export function createApplyPatchTool(
+  cwd: string,
+  options?: ApplyPatchToolOptions,
+): AgentTool<typeof ApplyPatchSchema, ApplyPatchDetails> {
+  const guard = options?.guard ?? createPathGuard(cwd);
+  const fuzz: PatchFuzzOptions = { ...DEFAULT_PATCH_FUZZ, ...options?.fuzz };
+
   return {
     name: "apply_patch",
     label: "Apply Patch",
     description:
-      "Apply a unified diff (patch) to one or more files. " +
-      "The patch should use standard unified diff format with --- and +++ headers.",
+      "Apply a patch to one or more files, as a unified diff (--- / +++ headers) or in the " +
+      "'*** Begin Patch' format, which locates hunks by '@@ <anchor line>' instead of line numbers. " +
+      "Line offsets and whitespace differences are tolerated. " +
+      "All files are patched or none are; set dryRun to check the patch without writing.",
     parameters: ApplyPatchSchema,
 
     async execute(
       _toolCallId: string,
       params: ApplyPatchInput,
       _signal?: AbortSignal,
-    ): Promise<AgentToolResult<any>> {
+    ): Promise<AgentToolResult<ApplyPatchDetails>> {
+      const dryRun = params.dryRun ?? false;
       try {
-        const patches = parsePatch(params.patch).filter(
-          (p) => p.hunks && p.hunks.length > 0,
-        );
+        const patches = parsePatchInput(params.patch);
 
         if (patches.length === 0) {
-          return {
-            content: [{ type: "text", text: "No valid patches found in the input." }],
-            details: { filesPatched: 0 },
-          };
+          return result(
+            "No valid patches found in the input.",
+            buildDetails([], [], { dryRun, applied: false }),
+          );
         }
 
-        const results: string[] = [];
-
-        for (const patch of patches) {
-          // Determine target file path from the patch headers.
-          // parsePatch gives us oldFileName / newFileName (e.g. "a/foo.ts" / "b/foo.ts")
-          const rawPath =
-            patch.newFileName && patch.newFileName !== "/dev/null"
-              ? patch.newFileName
-              : patch.oldFileName ?? "unknown";
-
-          // Strip leading "a/" or "b/" git prefixes
-          const relPath = rawPath.replace(/^[ab]\//, "");
-          const absPath = path.resolve(cwd, relPath);
-
-          // Read existing file or empty string for new files
-          let original = "";
-          const isNewFile =
-            patch.oldFileName === "/dev/null" ||
-            !fs.existsSync(absPath);
-
-          if (!isNewFile) {
-            original = fs.readFileSync(absPath, "utf-8");
-          }
-
-          const patched = applyPatch(original, patch);
-
-          if (patched === false) {
-            results.push(`FAILED: ${relPath} — patch does not apply cleanly`);
-            continue;
-          }
-
-          // Handle file deletion
-          if (patch.newFileName === "/dev/null") {
-            if (fs.existsSync(absPath)) {
-              fs.unlinkSync(absPath);
-              results.push(`Deleted: ${relPath}`);
-            }
-            continue;
-          }
-
-          // Ensure parent directory exists
-          const dir = path.dirname(absPath);
-          if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-          }
-
-          fs.writeFileSync(absPath, patched, "utf-8");
-          results.push(`${isNewFile ? "Created" : "Patched"}: ${relPath}`);
+        const { changes, failed } = validatePatches(patches, guard, fuzz);
+        const lines = [
+          ...failed.map(describeFailure),
+          ...changes.map((c) => describeChange(c, dryRun || failed.length > 0)),
+        ];
+
+        if (failed.length > 0) {
+          return result(
+            `Patch not applied — ${failed.length} of ${failed.length + changes.length} file(s) failed, ` +
+              `no files were changed:\n${lines.join("\n")}`,
+            buildDetails(changes, failed, { dryRun, applied: false }),
+          );
+        }
+
+        if (dryRun) {
+          const preview = buildPreview(changes);
+          return result(
+            `Dry run — patch applies cleanly to ${changes.length} file(s):\n${lines.join("\n")}\n\n${preview}`,
+            { ...buildDetails(changes, [], { dryRun, applied: false }), preview },
+          );
         }
 
-        const summary = `Applied patch to ${patches.length} file(s):\n${results.join("\n")}`;
-        return {
-          content: [{ type: "text", text: summary }],
-          details: { filesPatched: patches.length, results },
-        };
+        commitChanges(changes);
+        return result(
+          `Applied patch to ${changes.length} file(s):\n${lines.join("\n")}`,
+          buildDetails(changes, [], { dryRun, applied: true }),
+        );
       } catch (err) {
+        // Surface confinement violations as tool errors
+        if (err instanceof PathGuardError) throw err;
         const msg = err instanceof Error ? err.message : String(err);
-        return {
-          content: [{ type: "text", text: `Failed to apply patch: ${msg}` }],
-          details: { error: msg },
-        };
+        return result(`Failed to apply patch: ${msg}. No files were changed.`, {
+          ...buildDetails([], [], { dryRun, applied: false }),
+          error: msg,
+        });
       }
     },
   };
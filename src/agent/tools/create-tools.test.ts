@@ -6,6 +6,7 @@ import {
   createAgentTools,
   findTool,
   getToolNames,
+  PARALLEL_SAFE_TOOL_NAMES,
 } from "./create-tools.js";
 
 describe("createAgentTools", () => {
@@ -48,6 +49,31 @@ describe("createAgentTools", () => {
     expect(applyPatch).toBeDefined();
     expect(applyPatch!.label).toBe("Apply Patch");
   });
+
+  it("flags only read-only tools as parallel-safe", () => {
+    const tools = createAgentTools(tmpDir);
+    const safe = tools.filter((t) => t.parallelSafe).map((t) => t.name);
+
+    expect(safe).toContain("read");
+    expect(safe.every((name) => PARALLEL_SAFE_TOOL_NAMES.includes(name))).toBe(true);
+    for (const name of ["bash", "edit", "write", "apply_patch"]) {
+      expect(findTool(tools, name)?.parallelSafe).toBeFalsy();
+    }
+  });
+
+  it("confines file tools to the workspace and extra roots", async () => {
+    const extra = fs.mkdtempSync(path.join(os.tmpdir(), "create-tools-extra-"));
+    try {
+      fs.writeFileSync(path.join(extra, "notes.txt"), "shared", "utf-8");
+      const read = findTool(createAgentTools(tmpDir, { extraRoots: [extra] }), "read")!;
+
+      await expect(read.execute("c1", { path: "../outside.txt" })).rejects.toThrow(/outside the workspace/);
+      const result = await read.execute("c2", { path: path.join(extra, "notes.txt") });
+      expect(JSON.stringify(result.content)).toContain("shared");
+    } finally {
+      fs.rmSync(extra, { recursive: true, force: true });
+    }
+  });
 });
 
 describe("findTool", () => {
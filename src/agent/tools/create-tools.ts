@@ -1,12 +1,40 @@
 /**
  * Combine Pi SDK coding tools with our custom tools.
+ *
+ * Tools that only read (`read`, `grep`, `find`, `ls`) are flagged
+ * `parallelSafe`, so the run loop may execute several of them at once.
+ * Everything else — `write`, `edit`, `bash`, `apply_patch` — runs alone, in
+ * the order the model asked for it.
+ *
+ * Every tool taking a `path` — and `apply_patch` — is confined to the
+ * workspace (plus `agent.extraRoots`) by a shared path guard; see
+ * `path-guard.ts`.
  */
 
 import { createCodingTools } from "@mariozechner/pi-coding-agent";
 import type { AgentTool } from "@mariozechner/pi-agent-core";
 import type { Tool } from "@mariozechner/pi-ai";
 
+import type { PatchFuzzConfig } from "../../config/index.js";
+
 import { createApplyPatchTool } from "./apply-patch.js";
+import { createPathGuard, guardToolPaths } from "./path-guard.js";
+
+/** An agent tool plus the run loop's execution hints. */
+export interface MyClawTool extends AgentTool<any> {
+  /** Read-only: may run concurrently with other parallel-safe calls. */
+  parallelSafe?: boolean;
+}
+
+export interface CreateAgentToolsOptions {
+  /** Directories outside the workspace the file tools may also use. */
+  extraRoots?: string[];
+  /** `apply_patch` hunk matching tolerance (`agent.patchFuzz`). */
+  patchFuzz?: PatchFuzzConfig;
+}
+
+/** Pi SDK coding tools that never modify the workspace. */
+export const PARALLEL_SAFE_TOOL_NAMES: readonly string[] = ["read", "grep", "find", "ls"];
 
 /**
  * Create the full set of agent tools for a given workspace directory.
@@ -15,19 +43,20 @@ import { createApplyPatchTool } from "./apply-patch.js";
  * - Pi SDK coding tools: read, bash, edit, write, grep, find, ls
  * - Custom: apply_patch
  */
-export function createAgentTools(workspaceDir: string): AgentTool<any>[] {
-  const codingTools = createCodingTools(workspaceDir) as AgentTool<any>[];
-  const applyPatch = createApplyPatchTool(workspaceDir);
+export function createAgentTools(workspaceDir: string, options?: CreateAgentToolsOptions): MyClawTool[] {
+  const guard = createPathGuard(workspaceDir, options?.extraRoots);
+  const codingTools = (createCodingTools(workspaceDir) as AgentTool<any>[]).map((tool): MyClawTool => {
+    const guarded = guardToolPaths(tool, guard);
+    return PARALLEL_SAFE_TOOL_NAMES.includes(tool.name) ? { ...guarded, parallelSafe: true } : guarded;
+  });
+  const applyPatch = createApplyPatchTool(workspaceDir, { guard, fuzz: options?.patchFuzz });
   return [...codingTools, applyPatch];
 }
 
 /**
  * Find a tool by name. Returns `undefined` if not found.
  */
-export function findTool(
-  tools: AgentTool<any>[],
-  name: string,
-): AgentTool<any> | undefined {
+export function findTool<T extends AgentTool<any>>(tools: T[], name: string): T | undefined {
   return tools.find((t) => t.name === name);
 }
 
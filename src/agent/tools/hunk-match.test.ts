@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { applyHunks, findClosestRegion, type PatchFuzzOptions } from "./hunk-match.js";
+import type { PatchHunk } from "./patch-format.js";
+
+const fuzz: PatchFuzzOptions = { maxOffset: 200, ignoreWhitespace: true, ignoreMissingNewline: true };
+const strict: PatchFuzzOptions = { maxOffset: 0, ignoreWhitespace: false, ignoreMissingNewline: false };
+
+function hunk(lines: string[], extra?: Partial<PatchHunk>): PatchHunk {
+  return { anchors: [], lines, ...extra };
+}
+
+const file = ["a", "b", "c", "d", "e", ""].join("\n");
+
+describe("applyHunks", () => {
+  it("applies a hunk at its stated line", () => {
+    const result = applyHunks(file, [hunk([" b", "-c", "+C"], { oldStart: 2 })], strict);
+    expect(result).toEqual({ ok: true, text: "a\nb\nC\nd\ne\n" });
+  });
+
+  it("searches outward from the stated line up to maxOffset", () => {
+    const h = hunk([" d", "-e", "+E"], { oldStart: 1 });
+    expect(applyHunks(file, [h], fuzz)).toEqual({ ok: true, text: "a\nb\nc\nd\nE\n" });
+    expect(applyHunks(file, [h], { ...fuzz, maxOffset: 2 })).toMatchObject({
+      ok: false,
+      reason: "hunk 1 of 1 does not match within 2 lines of line 1",
+    });
+  });
+
+  it("carries one hunk's drift over to the next", () => {
+    const shifted = "x\nx\nx\n" + file;
+    const result = applyHunks(
+      shifted,
+      [hunk(["-a", "+A"], { oldStart: 1 }), hunk(["-e", "+E"], { oldStart: 5 })],
+      { ...fuzz, maxOffset: 3 },
+    );
+    expect(result).toEqual({ ok: true, text: "x\nx\nx\nA\nb\nc\nd\nE\n" });
+  });
+
+  it("matches whitespace-insensitively and keeps the file's context lines", () => {
+    const source = "if (x) {\n\treturn 1;\n}\n";
+    const h = hunk([" if (x)  {", "-    return 1;", "+\treturn 2;"], { oldStart: 1 });
+    expect(applyHunks(source, [h], fuzz)).toEqual({ ok: true, text: "if (x) {\n\treturn 2;\n}\n" });
+    expect(applyHunks(source, [h], strict)).toMatchObject({ ok: false });
+  });
+
+  it("requires hunks in order without overlapping", () => {
+    const result = applyHunks(file, [hunk(["-c", "+C"]), hunk(["-b", "+B"])], fuzz);
+    expect(result).toMatchObject({ ok: false, hunkIndex: 1 });
+  });
+
+  it("locates marker-format hunks by their anchors", () => {
+    const source = "class A {\n  run() {\n    go();\n  }\n}\nclass B {\n  run() {\n    go();\n  }\n}\n";
+    const h = hunk(["-    go();", "+    stop();"], { anchors: ["class B {", "run() {"] });
+    expect(applyHunks(source, [h], fuzz)).toEqual({
+      ok: true,
+      text: "class A {\n  run() {\n    go();\n  }\n}\nclass B {\n  run() {\n    stop();\n  }\n}\n",
+    });
+    expect(applyHunks(source, [hunk(["-x"], { anchors: ["class C {"] })], fuzz)).toMatchObject({
+      ok: false,
+      reason: 'anchor "class C {" not found',
+    });
+  });
+
+  it("pins *** End of File hunks to the end", () => {
+    const source = "x\ny\nx\n";
+    expect(applyHunks(source, [hunk(["-x", "+z"], { atEof: true })], fuzz)).toEqual({ ok: true, text: "x\ny\nz\n" });
+  });
+
+  it("appends unanchored pure insertions and inserts unified ones before their line", () => {
+    expect(applyHunks("a\n", [hunk(["+b"])], fuzz)).toEqual({ ok: true, text: "a\nb\n" });
+    expect(applyHunks("a\nc\n", [hunk(["+b"], { oldStart: 2 })], fuzz)).toEqual({ ok: true, text: "a\nb\nc\n" });
+  });
+
+  it("tolerates a missing final newline unless told not to", () => {
+    const h = hunk(["-e", "+E"], { oldStart: 5 });
+    const noNewline = "a\nb\nc\nd\ne";
+    expect(applyHunks(noNewline, [h], fuzz)).toEqual({ ok: true, text: "a\nb\nc\nd\nE" });
+    expect(applyHunks(noNewline, [h], strict)).toMatchObject({
+      ok: false,
+      reason: "hunk 1 of 1 disagrees with the file about its final newline",
+    });
+  });
+
+  it("follows the patch's no-newline markers", () => {
+    const removeNewline = hunk(["-e", "+E", "\\ No newline at end of file"], { oldStart: 5 });
+    expect(applyHunks(file, [removeNewline], strict)).toEqual({ ok: true, text: "a\nb\nc\nd\nE" });
+
+    const addNewline = hunk(["-e", "\\ No newline at end of file", "+E"], { oldStart: 5 });
+    expect(applyHunks("a\nb\nc\nd\ne", [addNewline], strict)).toEqual({ ok: true, text: "a\nb\nc\nd\nE\n" });
+  });
+
+  it("keeps CRLF line endings", () => {
+    expect(applyHunks("a\r\nb\r\n", [hunk(["-b", "+B"], { oldStart: 2 })], fuzz)).toEqual({
+      ok: true,
+      text: "a\r\nB\r\n",
+    });
+  });
+
+  it("returns the closest region with a failure", () => {
+    const result = applyHunks(file, [hunk([" b", "-x", " d"], { oldStart: 2 })], fuzz);
+    expect(result).toMatchObject({
+      ok: false,
+      hunkIndex: 0,
+      closest: { startLine: 2, endLine: 4, lines: ["b", "c", "d"], matchedLines: 2, totalLines: 3 },
+    });
+  });
+});
+
+describe("findClosestRegion", () => {
+  it("ignores blank lines and returns undefined without any shared line", () => {
+    expect(findClosestRegion(["a", "", "b"], ["", "x"])).toBeUndefined();
+  });
+
+  it("prefers the window nearest the hint on ties", () => {
+    const lines = ["f()", "x", "f()", "y"];
+    expect(findClosestRegion(lines, ["f()", "z"], 2)?.startLine).toBe(3);
+    expect(findClosestRegion(lines, ["f()", "z"], 0)?.startLine).toBe(1);
+  });
+});
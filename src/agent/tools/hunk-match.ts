@@ -0,0 +1,260 @@
+/**
+ * Fuzzy hunk matching for `apply_patch`.
+ *
+ * Model-written hunks drift: line numbers are off, indentation or trailing
+ * whitespace differs, the final newline is missing. Each hunk's old side
+ * (context + removed lines) is searched for:
+ *   1. near the line its header names (up to `maxOffset` lines away) or,
+ *      for marker-format hunks, after its anchor lines
+ *   2. exactly first, then — with `ignoreWhitespace` — comparing lines with
+ *      whitespace runs collapsed and trimmed
+ *
+ * Hunks must match in order without overlapping. Matched context lines
+ * keep the file's text; added lines take the file's line endings.
+ *
+ * When a hunk doesn't match, the result carries the region of the file
+ * most similar to its old side, so the model can fix its patch.
+ */
+
+import type { PatchHunk } from "./patch-format.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface PatchFuzzOptions {
+  /** How far (in lines) a hunk may be found from the line its header names. */
+  maxOffset: number;
+  /** Compare lines with whitespace runs collapsed and ends trimmed. */
+  ignoreWhitespace: boolean;
+  /** Don't fail on a final-newline mismatch between the patch and the file. */
+  ignoreMissingNewline: boolean;
+}
+
+/** The part of a file most similar to a hunk that didn't match. */
+export interface ClosestRegion {
+  /** 1-based, inclusive. */
+  startLine: number;
+  endLine: number;
+  lines: string[];
+  /** How many of the hunk's old lines match there. */
+  matchedLines: number;
+  totalLines: number;
+}
+
+export type ApplyHunksResult =
+  | { ok: true; text: string }
+  | {
+      ok: false;
+      /** 0-based index of the hunk that failed. */
+      hunkIndex: number;
+      reason: string;
+      closest?: ClosestRegion;
+    };
+
+// ── Hunk sides ───────────────────────────────────────────────────────
+
+interface HunkSides {
+  /** Context + removed lines. */
+  old: string[];
+  /** Per old line: whether it is context (kept). */
+  isContext: boolean[];
+  /** Context + added lines; `null` marks where a context line goes. */
+  replacement: (string | null)[];
+  oldNoEol: boolean;
+  newNoEol: boolean;
+}
+
+function splitHunk(hunk: PatchHunk): HunkSides {
+  const sides: HunkSides = { old: [], isContext: [], replacement: [], oldNoEol: false, newNoEol: false };
+  let previous = " ";
+  for (const line of hunk.lines) {
+    const op = line[0] ?? " ";
+    const text = line.slice(1);
+    if (op === "\\") {
+      // "\ No newline at end of file" applies to the line before it
+      if (previous !== "+") sides.oldNoEol = true;
+      if (previous !== "-") sides.newNoEol = true;
+      continue;
+    }
+    if (op === " " || op === "-") {
+      sides.old.push(text);
+      sides.isContext.push(op === " ");
+    }
+    if (op === " ") sides.replacement.push(null);
+    if (op === "+") sides.replacement.push(text);
+    previous = op;
+  }
+  return sides;
+}
+
+// ── Line comparison ──────────────────────────────────────────────────
+
+function normalizeWhitespace(line: string): string {
+  return line.replace(/\s+/g, " ").trim();
+}
+
+function matchesAt(lines: string[], old: string[], pos: number, normalize: boolean): boolean {
+  for (let i = 0; i < old.length; i++) {
+    const a = lines[pos + i];
+    const b = old[i];
+    if (a !== b && !(normalize && normalizeWhitespace(a) === normalizeWhitespace(b))) return false;
+  }
+  return true;
+}
+
+/** Positions from `hint` outward (hint, +1, -1, +2, …) within `[min, max]`. */
+function* outward(hint: number, min: number, max: number, maxDistance: number): Generator<number> {
+  for (let d = 0; d <= maxDistance; d++) {
+    const after = hint + d;
+    const before = hint - d;
+    if (after > max && before < min) return;
+    if (after >= min && after <= max) yield after;
+    if (d > 0 && before >= min && before <= max) yield before;
+  }
+}
+
+function findLine(lines: string[], target: string, from: number, normalize: boolean): number {
+  for (const pass of normalize ? [false, true] : [false]) {
+    for (let i = from; i < lines.length; i++) {
+      if (lines[i] === target || (pass && normalizeWhitespace(lines[i]) === normalizeWhitespace(target))) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+// ── Closest region ───────────────────────────────────────────────────
+
+/**
+ * The window of the file sharing the most non-blank lines (position by
+ * position, whitespace-insensitive) with `old`; ties go to the window
+ * nearest `hint`. `undefined` when no window shares a line.
+ */
+export function findClosestRegion(lines: string[], old: string[], hint = 0): ClosestRegion | undefined {
+  if (old.length === 0 || lines.length === 0) return undefined;
+  const target = old.map(normalizeWhitespace);
+  const normalized = lines.map(normalizeWhitespace);
+
+  let best = { pos: -1, score: 0 };
+  for (let pos = 0; pos <= Math.max(0, lines.length - old.length); pos++) {
+    let score = 0;
+    for (let i = 0; i < old.length && pos + i < lines.length; i++) {
+      if (target[i] !== "" && normalized[pos + i] === target[i]) score++;
+    }
+    if (score > best.score || (score === best.score && score > 0 && Math.abs(pos - hint) < Math.abs(best.pos - hint))) {
+      best = { pos, score };
+    }
+  }
+  if (best.score === 0) return undefined;
+
+  const region = lines.slice(best.pos, best.pos + old.length);
+  return {
+    startLine: best.pos + 1,
+    endLine: best.pos + region.length,
+    lines: region,
+    matchedLines: best.score,
+    totalLines: old.length,
+  };
+}
+
+// ── Applying ─────────────────────────────────────────────────────────
+
+/**
+ * Apply hunks to `source`. All hunks must match; the first that doesn't
+ * fails the whole file.
+ */
+export function applyHunks(source: string, hunks: PatchHunk[], fuzz: PatchFuzzOptions): ApplyHunksResult {
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+  const hadFinalNewline = source === "" || source.endsWith("\n");
+  const lines = source === "" ? [] : source.replace(/\r?\n$/, "").split(/\r?\n/);
+
+  const matches: { pos: number; sides: HunkSides }[] = [];
+  let minLine = 0;
+  // How far the previous hunk was found from where its header said
+  let drift = 0;
+  let finalNewline = hadFinalNewline;
+
+  for (const [hunkIndex, hunk] of hunks.entries()) {
+    const sides = splitHunk(hunk);
+    const { old } = sides;
+    const fail = (reason: string, hint: number): ApplyHunksResult => ({
+      ok: false,
+      hunkIndex,
+      reason,
+      closest: findClosestRegion(lines, old, hint),
+    });
+
+    // Where to look: anchors, else the header's line number, else anywhere after the previous hunk
+    let from = minLine;
+    for (const anchor of hunk.anchors) {
+      const at = findLine(lines, anchor, from, fuzz.ignoreWhitespace);
+      if (at < 0) return fail(`anchor "${anchor}" not found`, from);
+      from = at + 1;
+    }
+    const byLineNumber = hunk.oldStart !== undefined && hunk.anchors.length === 0;
+    const stated = byLineNumber ? hunk.oldStart! - 1 : from;
+    const hint = Math.max(from, stated + (byLineNumber ? drift : 0));
+    const maxPos = lines.length - old.length;
+
+    let pos = -1;
+    if (hunk.atEof) {
+      if (maxPos >= from && (matchesAt(lines, old, maxPos, false) || (fuzz.ignoreWhitespace && matchesAt(lines, old, maxPos, true)))) {
+        pos = maxPos;
+      }
+    } else if (old.length === 0) {
+      // Pure insertion: at the stated line, or the end of the file for unanchored marker hunks
+      pos = byLineNumber || hunk.anchors.length > 0 ? Math.min(hint, lines.length) : lines.length;
+    } else {
+      const maxDistance = byLineNumber ? fuzz.maxOffset : lines.length;
+      for (const normalize of fuzz.ignoreWhitespace ? [false, true] : [false]) {
+        for (const candidate of outward(hint, from, maxPos, maxDistance)) {
+          if (matchesAt(lines, old, candidate, normalize)) {
+            pos = candidate;
+            break;
+          }
+        }
+        if (pos >= 0) break;
+      }
+    }
+
+    if (pos < 0) {
+      const where = byLineNumber
+        ? ` within ${fuzz.maxOffset} lines of line ${stated + 1}`
+        : hunk.atEof
+          ? " at the end of the file"
+          : hunk.anchors.length > 0
+            ? " after its anchor"
+            : "";
+      return fail(`hunk ${hunkIndex + 1} of ${hunks.length} does not match${where}`, hint);
+    }
+
+    if (pos + old.length === lines.length && lines.length > 0) {
+      if (!fuzz.ignoreMissingNewline && sides.oldNoEol === hadFinalNewline) {
+        return fail(`hunk ${hunkIndex + 1} of ${hunks.length} disagrees with the file about its final newline`, pos);
+      }
+      if (sides.newNoEol) finalNewline = false;
+      else if (sides.oldNoEol) finalNewline = true;
+    } else if (lines.length === 0 && sides.newNoEol) {
+      finalNewline = false;
+    }
+
+    matches.push({ pos, sides });
+    if (byLineNumber) drift = pos - stated;
+    minLine = pos + old.length;
+  }
+
+  // Splice from the bottom up so earlier positions stay valid
+  const result = [...lines];
+  for (const { pos, sides } of matches.reverse()) {
+    // Context lines keep the file's text, even when matched loosely
+    const fileContext = result.slice(pos, pos + sides.old.length).filter((_, i) => sides.isContext[i]);
+    let contextIndex = 0;
+    const replacement = sides.replacement.map((line) => line ?? fileContext[contextIndex++]);
+    result.splice(pos, sides.old.length, ...replacement);
+  }
+
+  return {
+    ok: true,
+    text: result.length === 0 ? "" : result.join(eol) + (finalNewline ? eol : ""),
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { parsePatchInput, parseMarkerPatch, PatchParseError } from "./patch-format.js";
+
+describe("parsePatchInput", () => {
+  it("parses unified diffs into file patches", () => {
+    const patches = parsePatchInput(
+      [
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -3,2 +3,2 @@",
+        " keep",
+        "-old",
+        "+new",
+        "--- /dev/null",
+        "+++ b/new.ts",
+        "@@ -0,0 +1,1 @@",
+        "+x",
+        "--- a/gone.ts",
+        "+++ /dev/null",
+        "@@ -1,1 +0,0 @@",
+        "-y",
+      ].join("\n"),
+    );
+
+    expect(patches).toEqual([
+      { kind: "update", path: "src/a.ts", hunks: [{ oldStart: 3, anchors: [], lines: [" keep", "-old", "+new"] }] },
+      { kind: "add", path: "new.ts", hunks: [{ oldStart: 1, anchors: [], lines: ["+x"] }] },
+      { kind: "delete", path: "gone.ts", hunks: [{ oldStart: 1, anchors: [], lines: ["-y"] }] },
+    ]);
+  });
+
+  it("detects the marker format", () => {
+    expect(parsePatchInput("\n*** Begin Patch\n*** Delete File: a.ts\n*** End Patch\n")).toEqual([
+      { kind: "delete", path: "a.ts", hunks: [] },
+    ]);
+  });
+});
+
+describe("parseMarkerPatch", () => {
+  it("parses add, update, and delete sections", () => {
+    const patches = parseMarkerPatch(
+      [
+        "*** Begin Patch",
+        "*** Add File: src/new.ts",
+        "+line 1",
+        "+",
+        "*** Update File: src/app.ts",
+        "@@ class App {",
+        "@@   run() {",
+        "     start();",
+        "-    stop();",
+        "+    pause();",
+        "@@",
+        "-last",
+        "*** End of File",
+        "*** Delete File: src/old.ts",
+        "*** End Patch",
+      ].join("\n"),
+    );
+
+    expect(patches).toEqual([
+      { kind: "add", path: "src/new.ts", hunks: [{ anchors: [], lines: ["+line 1", "+"] }] },
+      {
+        kind: "update",
+        path: "src/app.ts",
+        hunks: [
+          { anchors: ["class App {", "run() {"], lines: ["     start();", "-    stop();", "+    pause();"] },
+          { anchors: [], lines: ["-last"], atEof: true },
+        ],
+      },
+      { kind: "delete", path: "src/old.ts", hunks: [] },
+    ]);
+  });
+
+  it("treats blank lines inside a hunk as blank context, but not trailing ones", () => {
+    const [patch] = parseMarkerPatch(
+      ["*** Begin Patch", "*** Update File: a.ts", " a", "", "-b", "", "*** End Patch"].join("\n"),
+    );
+    expect(patch.hunks[0].lines).toEqual([" a", " ", "-b"]);
+  });
+
+  it("starts an implicit hunk without @@", () => {
+    const [patch] = parseMarkerPatch(["*** Begin Patch", "*** Update File: a.ts", "-a", "+b", "*** End Patch"].join("\n"));
+    expect(patch.hunks).toEqual([{ anchors: [], lines: ["-a", "+b"] }]);
+  });
+
+  it.each([
+    ["*** Update File: a.ts\n*** End Patch", 1, 'expected "*** Begin Patch"'],
+    ["*** Begin Patch\n-a\n*** End Patch", 2, "expected a file header"],
+    ["*** Begin Patch\n*** Add File: a.ts\n a\n*** End Patch", 3, 'must start with "+"'],
+    ["*** Begin Patch\n*** Update File: a.ts\n*** Move to: b.ts\n*** End Patch", 3, "unknown marker"],
+    ["*** Begin Patch\n*** Update File: a.ts\nx\n*** End Patch", 3, 'must start with " ", "-" or "+"'],
+    ["*** Begin Patch\n*** Delete File: a.ts\n-a\n*** End Patch", 3, "unexpected content"],
+  ])("rejects malformed input %#", (input, line, message) => {
+    const error = (() => {
+      try {
+        parseMarkerPatch(input);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(PatchParseError);
+    expect((error as PatchParseError).line).toBe(line);
+    expect((error as PatchParseError).message).toContain(message);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Patch input formats accepted by `apply_patch`.
+ *
+ * Both parse into the same `FilePatch[]`:
+ *
+ * - **Unified diff** — `---` / `+++` headers and `@@ -l,n +l,n @@` hunks,
+ *   parsed by the `diff` package. Hunk line numbers are hints for the
+ *   matcher, not requirements.
+ *
+ * - **Marker format** — file sections between begin/end markers, with
+ *   anchor lines instead of line numbers:
+ *
+ *   ```
+ *   *** Begin Patch
+ *   *** Add File: src/new.ts
+ *   +export const x = 1;
+ *   *** Update File: src/app.ts
+ *   @@ function main() {
+ *    const a = 1;
+ *   -const b = 2;
+ *   +const b = 3;
+ *   *** Delete File: src/old.ts
+ *   *** End Patch
+ *   ```
+ *
+ *   In an update section, each `@@` line starts a hunk; text after `@@ ` is
+ *   an anchor — a line the hunk comes after. Consecutive `@@` lines narrow
+ *   down (e.g. class, then method). `*** End of File` pins the hunk to the
+ *   end of the file.
+ */
+
+import { parsePatch, type StructuredPatch } from "diff";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface PatchHunk {
+  /**
+   * 1-based line the hunk's old side starts at (unified diffs only); for
+   * pure insertions, the line inserted before — as `parsePatch()` reports it.
+   */
+  oldStart?: number;
+  /** Lines to find, in order, before the hunk (marker format). */
+  anchors: string[];
+  /** Diff lines, each prefixed with " ", "-", "+", or "\\" (no newline at end of file). */
+  lines: string[];
+  /** The hunk must end at the end of the file. */
+  atEof?: boolean;
+}
+
+export type FilePatchKind = "add" | "update" | "delete";
+
+export interface FilePatch {
+  kind: FilePatchKind;
+  /** Target path as written in the patch (git `a/` / `b/` prefixes removed). */
+  path: string;
+  hunks: PatchHunk[];
+}
+
+export class PatchParseError extends Error {
+  constructor(
+    message: string,
+    /** 1-based line of the patch input. */
+    public readonly line: number,
+  ) {
+    super(`Invalid patch (line ${line}): ${message}`);
+    this.name = "PatchParseError";
+  }
+}
+
+// ── Detection ────────────────────────────────────────────────────────
+
+const BEGIN_MARKER = "*** Begin Patch";
+const END_MARKER = "*** End Patch";
+const END_OF_FILE_MARKER = "*** End of File";
+const FILE_HEADER = /^\*\*\* (Add|Update|Delete) File: (.+)$/;
+
+/**
+ * Parse either format. Unified diff sections without hunks are dropped;
+ * an empty result means there was nothing to apply.
+ * @throws PatchParseError (marker format) or the `diff` package's parse errors.
+ */
+export function parsePatchInput(input: string): FilePatch[] {
+  return input.trimStart().startsWith(BEGIN_MARKER)
+    ? parseMarkerPatch(input)
+    : parsePatch(input)
+        .filter((p) => p.hunks && p.hunks.length > 0)
+        .map(fromStructuredPatch);
+}
+
+// ── Unified diff ─────────────────────────────────────────────────────
+
+/** Target path from the patch headers, without git's "a/" / "b/" prefixes. */
+function unifiedTargetPath(patch: StructuredPatch): string {
+  // parsePatch gives us oldFileName / newFileName (e.g. "a/foo.ts" / "b/foo.ts")
+  const rawPath =
+    patch.newFileName && patch.newFileName !== "/dev/null"
+      ? patch.newFileName
+      : patch.oldFileName ?? "unknown";
+  return rawPath.replace(/^[ab]\//, "");
+}
+
+function fromStructuredPatch(patch: StructuredPatch): FilePatch {
+  return {
+    kind:
+      patch.newFileName === "/dev/null" ? "delete" : patch.oldFileName === "/dev/null" ? "add" : "update",
+    path: unifiedTargetPath(patch),
+    hunks: patch.hunks.map((h) => ({ oldStart: h.oldStart, anchors: [], lines: h.lines })),
+  };
+}
+
+// ── Marker format ────────────────────────────────────────────────────
+
+/**
+ * Parse the begin/end marker format.
+ * @throws PatchParseError on anything outside the grammar.
+ */
+export function parseMarkerPatch(input: string): FilePatch[] {
+  const lines = input.replace(/\r\n/g, "\n").split("\n");
+  let i = lines.findIndex((l) => l.trim() !== "");
+  if (lines[i]?.trim() !== BEGIN_MARKER) throw new PatchParseError(`expected "${BEGIN_MARKER}"`, i + 1);
+  i++;
+
+  const files: FilePatch[] = [];
+  let file: FilePatch | undefined;
+  let hunk: PatchHunk | undefined;
+  // Blank lines in an update section, kept only if more hunk lines follow
+  let blanks = 0;
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNo = i + 1;
+
+    // Models often drop the leading space of blank context lines
+    if (file?.kind === "update" && line === "") {
+      blanks++;
+      continue;
+    }
+    const pendingBlanks = blanks;
+    blanks = 0;
+
+    if (line.trim() === END_MARKER) return files;
+
+    const header = FILE_HEADER.exec(line.trimEnd());
+    if (header) {
+      const kind = header[1].toLowerCase() as FilePatchKind;
+      file = { kind, path: header[2].trim(), hunks: [] };
+      hunk = kind === "add" ? { anchors: [], lines: [] } : undefined;
+      if (hunk) file.hunks.push(hunk);
+      files.push(file);
+      continue;
+    }
+    if (!file) throw new PatchParseError(`expected a file header, got "${line}"`, lineNo);
+
+    if (file.kind === "delete") {
+      if (line.trim() === "") continue;
+      throw new PatchParseError(`unexpected content in "Delete File" section: "${line}"`, lineNo);
+    }
+
+    if (file.kind === "add") {
+      if (!line.startsWith("+")) {
+        // Blank lines between sections are fine
+        if (line.trim() === "") continue;
+        throw new PatchParseError(`lines of an added file must start with "+": "${line}"`, lineNo);
+      }
+      hunk!.lines.push(line);
+      continue;
+    }
+
+    // Update section
+    if (line.startsWith("@@")) {
+      const anchor = line.slice(2).trim();
+      // Consecutive @@ lines narrow down the same hunk
+      if (!hunk || hunk.lines.length > 0 || hunk.atEof) {
+        hunk = { anchors: [], lines: [] };
+        file.hunks.push(hunk);
+      }
+      if (anchor) hunk.anchors.push(anchor);
+      continue;
+    }
+    if (line.trim() === END_OF_FILE_MARKER) {
+      if (!hunk) throw new PatchParseError(`"${END_OF_FILE_MARKER}" outside a hunk`, lineNo);
+      hunk.atEof = true;
+      continue;
+    }
+    if (line.startsWith("***")) throw new PatchParseError(`unknown marker "${line}"`, lineNo);
+
+    if (!hunk) {
+      hunk = { anchors: [], lines: [] };
+      file.hunks.push(hunk);
+    }
+    if (!" -+".includes(line[0])) {
+      throw new PatchParseError(`hunk lines must start with " ", "-" or "+": "${line}"`, lineNo);
+    }
+    hunk.lines.push(...Array<string>(pendingBlanks).fill(" "), line);
+  }
+
+  throw new PatchParseError(`missing "${END_MARKER}"`, lines.length);
+}
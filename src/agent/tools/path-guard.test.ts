@@ -0,0 +1,127 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { AgentTool } from "@mariozechner/pi-agent-core";
+import { createPathGuard, guardToolPaths, PathGuardError } from "./path-guard.js";
+
+describe("createPathGuard", () => {
+  let tmpDir: string;
+  let workspace: string;
+  let outside: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "path-guard-test-")));
+    workspace = path.join(tmpDir, "workspace");
+    outside = path.join(tmpDir, "outside");
+    fs.mkdirSync(workspace);
+    fs.mkdirSync(outside);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("resolves relative paths against the workspace", () => {
+    const guard = createPathGuard(workspace);
+    expect(guard.resolve("src/a.ts")).toBe(path.join(workspace, "src", "a.ts"));
+    expect(guard.resolve("@src/a.ts")).toBe(path.join(workspace, "src", "a.ts"));
+    expect(guard.resolve("src/../b.ts")).toBe(path.join(workspace, "b.ts"));
+    expect(guard.resolve(".")).toBe(workspace);
+  });
+
+  it("accepts absolute paths inside the workspace", () => {
+    const guard = createPathGuard(workspace);
+    expect(guard.resolve(path.join(workspace, "a.ts"))).toBe(path.join(workspace, "a.ts"));
+  });
+
+  it("rejects .. escapes and absolute paths outside the workspace", () => {
+    const guard = createPathGuard(workspace);
+    for (const p of ["../outside/a.ts", "src/../../a.ts", path.join(outside, "a.ts"), "/etc/passwd", "~/.ssh/id_rsa"]) {
+      expect(() => guard.resolve(p)).toThrow(PathGuardError);
+    }
+    // Sibling directories sharing the workspace's name as a prefix are outside too
+    expect(() => guard.resolve(`${workspace}-other/a.ts`)).toThrow(/outside the workspace/);
+  });
+
+  it("allows extra roots", () => {
+    const guard = createPathGuard(workspace, [outside]);
+    expect(guard.roots).toEqual([workspace, outside]);
+    expect(guard.resolve(path.join(outside, "a.ts"))).toBe(path.join(outside, "a.ts"));
+    expect(guard.resolve("../outside/a.ts")).toBe(path.join(outside, "a.ts"));
+  });
+
+  it("expands ~ in extra roots", () => {
+    const guard = createPathGuard(workspace, ["~/shared"]);
+    expect(guard.roots[1]).toBe(path.join(os.homedir(), "shared"));
+    expect(guard.resolve("~/shared/a.ts")).toBe(path.join(os.homedir(), "shared", "a.ts"));
+  });
+
+  it("rejects symlinks that lead outside the workspace", () => {
+    fs.writeFileSync(path.join(outside, "secret.txt"), "s", "utf-8");
+    fs.symlinkSync(outside, path.join(workspace, "dir-link"));
+    fs.symlinkSync(path.join(outside, "secret.txt"), path.join(workspace, "file-link"));
+    fs.symlinkSync(path.join(outside, "missing.txt"), path.join(workspace, "dangling-link"));
+    const guard = createPathGuard(workspace);
+
+    for (const p of ["dir-link/secret.txt", "dir-link/new/file.txt", "file-link", "dangling-link"]) {
+      const err = (() => {
+        try {
+          guard.resolve(p);
+        } catch (e) {
+          return e;
+        }
+      })();
+      expect(err).toBeInstanceOf(PathGuardError);
+      expect((err as PathGuardError).reason).toBe("symlink");
+    }
+  });
+
+  it("allows symlinks that stay inside the workspace", () => {
+    fs.mkdirSync(path.join(workspace, "real"));
+    fs.symlinkSync(path.join(workspace, "real"), path.join(workspace, "alias"));
+    const guard = createPathGuard(workspace);
+    expect(guard.resolve("alias/a.ts")).toBe(path.join(workspace, "alias", "a.ts"));
+  });
+
+  it("accepts a workspace reached through a symlink", () => {
+    const link = path.join(tmpDir, "workspace-link");
+    fs.symlinkSync(workspace, link);
+    const guard = createPathGuard(link);
+    expect(guard.resolve("a.ts")).toBe(path.join(link, "a.ts"));
+  });
+});
+
+describe("guardToolPaths", () => {
+  const guard = createPathGuard("/work");
+
+  function mkTool() {
+    return {
+      name: "read",
+      label: "Read",
+      description: "",
+      parameters: {},
+      execute: vi.fn(async () => ({ content: [], details: {} })),
+    } as unknown as AgentTool<any> & { execute: ReturnType<typeof vi.fn> };
+  }
+
+  it("passes the resolved path to the tool", async () => {
+    const tool = mkTool();
+    await guardToolPaths(tool, guard).execute("c1", { path: "a.ts", offset: 2 });
+    expect(tool.execute).toHaveBeenCalledWith("c1", { path: "/work/a.ts", offset: 2 }, undefined, undefined);
+  });
+
+  it("rejects without running the tool", async () => {
+    const tool = mkTool();
+    await expect(guardToolPaths(tool, guard).execute("c1", { path: "../etc/passwd" })).rejects.toThrow(
+      /Access denied: "..\/etc\/passwd" is outside the workspace/,
+    );
+    expect(tool.execute).not.toHaveBeenCalled();
+  });
+
+  it("leaves tools without a path argument alone", async () => {
+    const tool = mkTool();
+    await guardToolPaths(tool, guard).execute("c1", { command: "ls" });
+    expect(tool.execute).toHaveBeenCalledWith("c1", { command: "ls" }, undefined, undefined);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Workspace confinement for file-touching tools.
+ *
+ * A path guard resolves the paths the model passes to tools the way the
+ * tools would (`@` prefix dropped, `~` expanded, relative to the
+ * workspace) and rejects any that end up outside the allowed roots —
+ * `workspaceDir` plus `agent.extraRoots`:
+ * - absolute / `~` paths outside every root
+ * - `..` escapes
+ * - symlinks (anywhere along the path) that lead outside every root
+ *
+ * Tools get the checked absolute path, so what runs is what was checked.
+ * A rejection throws `PathGuardError`, which the run loop reports to the
+ * model as a tool error. `bash` is not confined — deny it with
+ * `agent.tools` where that matters.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { AgentTool } from "@mariozechner/pi-agent-core";
+
+import { resolveUserPath } from "../../config/index.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface PathGuard {
+  /** Allowed roots, absolute; the workspace first. */
+  readonly roots: readonly string[];
+  /**
+   * Resolve a tool path to an absolute path inside a root.
+   * @throws PathGuardError if it resolves (or links) outside every root.
+   */
+  resolve(filePath: string): string;
+}
+
+export class PathGuardError extends Error {
+  constructor(
+    /** The path as the model wrote it. */
+    public readonly requestedPath: string,
+    public readonly reason: "outside" | "symlink",
+    workspaceDir: string,
+  ) {
+    super(
+      reason === "outside"
+        ? `Access denied: "${requestedPath}" is outside the workspace (${workspaceDir}). ` +
+            "Use a path relative to the workspace."
+        : `Access denied: "${requestedPath}" goes through a symlink that leads outside the workspace (${workspaceDir}).`,
+    );
+    this.name = "PathGuardError";
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const MAX_SYMLINK_DEPTH = 40;
+
+function isInside(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel));
+}
+
+function lexists(p: string): boolean {
+  try {
+    fs.lstatSync(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * `realpath` of the deepest existing ancestor, with the rest appended.
+ * Dangling symlinks are followed to where a write would land.
+ */
+function realpathExisting(target: string, depth = 0): string {
+  let existing = target;
+  const rest: string[] = [];
+  while (!lexists(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    rest.unshift(path.basename(existing));
+    existing = parent;
+  }
+  try {
+    return path.join(fs.realpathSync(existing), ...rest);
+  } catch {
+    // Dangling (or looping) symlink
+    try {
+      const linked = path.resolve(path.dirname(existing), fs.readlinkSync(existing), ...rest);
+      return depth < MAX_SYMLINK_DEPTH ? realpathExisting(linked, depth + 1) : linked;
+    } catch {
+      return target;
+    }
+  }
+}
+
+/** Same expansion as the Pi coding tools: drop `@`, expand `~`. */
+function expandToolPath(filePath: string): string {
+  const p = filePath.startsWith("@") ? filePath.slice(1) : filePath;
+  if (p === "~") return os.homedir();
+  if (p.startsWith("~/")) return path.join(os.homedir(), p.slice(2));
+  return p;
+}
+
+// ── Factory ─────────────────────────────────────────────────────────
+
+/**
+ * Create a guard confining paths to `workspaceDir` and `extraRoots`
+ * (`~` expanded).
+ */
+export function createPathGuard(workspaceDir: string, extraRoots: readonly string[] = []): PathGuard {
+  const roots = [path.resolve(workspaceDir), ...extraRoots.map((r) => resolveUserPath(r))];
+  const realRoots = roots.map(realpathExisting);
+
+  return {
+    roots,
+    resolve(filePath) {
+      const resolved = path.resolve(roots[0], expandToolPath(filePath));
+      if (!roots.some((root) => isInside(root, resolved))) {
+        throw new PathGuardError(filePath, "outside", roots[0]);
+      }
+      const real = realpathExisting(resolved);
+      if (!realRoots.some((root) => isInside(root, real))) {
+        throw new PathGuardError(filePath, "symlink", roots[0]);
+      }
+      return resolved;
+    },
+  };
+}
+
+// ── Tool wrapper ────────────────────────────────────────────────────
+
+/**
+ * Wrap a tool so its `path` argument (when given) is checked and replaced
+ * by the resolved absolute path before the tool runs.
+ */
+export function guardToolPaths<T extends AgentTool<any>>(tool: T, guard: PathGuard): T {
+  return {
+    ...tool,
+    execute: async (toolCallId, params, signal, onUpdate) => {
+      const guarded =
+        typeof params?.path === "string" ? { ...params, path: guard.resolve(params.path) } : params;
+      return tool.execute(toolCallId, guarded, signal, onUpdate);
+    },
+  };
+}
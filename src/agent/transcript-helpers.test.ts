@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest";
 
 import type {
   AssistantMessage,
+  Model,
   UserMessage,
   ToolResultMessage,
   TextContent,
@@ -10,12 +11,14 @@ import type {
   Usage,
 } from "@mariozechner/pi-ai";
 
-import type { TranscriptMessage } from "../sessions/index.js";
+import type { TranscriptMessage, TranscriptRecord } from "../sessions/index.js";
 
 import {
   transcriptToMessages,
+  replayTranscript,
   messagesToTranscript,
   repairOrphanedToolCalls,
+  convertMessagesForModel,
   extractText,
   extractToolCalls,
 } from "./transcript-helpers.js";
@@ -255,6 +258,60 @@ describe("transcriptToMessages", () => {
     expect(messages[2].role).toBe("toolResult");
     expect(messages[3].role).toBe("user");
   });
+
+  it("starts from the latest compaction checkpoint", () => {
+    const records: TranscriptRecord[] = [
+      { role: "user", content: "m0", ts: 0 },
+      { role: "assistant", content: "m1", ts: 1 },
+      { type: "compaction", summary: "first summary", fromIndex: 0, toIndex: 1, ts: 2 },
+      { role: "user", content: "m2", ts: 3 },
+      { role: "assistant", content: "m3", ts: 4 },
+      { type: "compaction", summary: "second summary", fromIndex: 0, toIndex: 3, ts: 5 },
+      { role: "user", content: "m4", ts: 6 },
+    ];
+
+    const messages = transcriptToMessages(records);
+
+    expect(messages.map((m) => m.content)).toEqual([
+      "[Conversation summary]\nsecond summary",
+      [{ type: "text", text: "m3" }],
+      "m4",
+    ]);
+    expect(messages[0].timestamp).toBe(5);
+  });
+});
+
+// ── replayTranscript ─────────────────────────────────────────────────
+
+describe("replayTranscript", () => {
+  it("maps each message to its transcript index", () => {
+    const records: TranscriptRecord[] = [
+      { role: "user", content: "m0", ts: 0 },
+      { role: "system", content: "sys", ts: 1 },
+      { role: "user", content: "m2", ts: 2 },
+    ];
+    expect(replayTranscript(records)).toEqual({
+      messages: expect.any(Array),
+      transcriptIndices: [0, 2],
+    });
+  });
+
+  it("keeps messages before the replaced range and marks the summary", () => {
+    const checkpoint = { type: "compaction" as const, summary: "s", fromIndex: 1, toIndex: 3, ts: 9 };
+    const records: TranscriptRecord[] = [
+      { role: "user", content: "m0", ts: 0 },
+      { role: "user", content: "m1", ts: 1 },
+      { role: "user", content: "m2", ts: 2 },
+      { role: "user", content: "m3", ts: 3 },
+      checkpoint,
+    ];
+
+    const replayed = replayTranscript(records);
+
+    expect(replayed.messages.map((m) => m.content)).toEqual(["m0", "[Conversation summary]\ns", "m3"]);
+    expect(replayed.transcriptIndices).toEqual([0, undefined, 3]);
+    expect(replayed.compaction).toBe(checkpoint);
+  });
 });
 
 // ── messagesToTranscript ─────────────────────────────────────────────
@@ -636,6 +693,70 @@ describe("repairOrphanedToolCalls", () => {
   });
 });
 
+// ── convertMessagesForModel ──────────────────────────────────────────
+
+describe("convertMessagesForModel", () => {
+  const openai = {
+    id: "gpt-4o",
+    api: "openai-completions",
+    provider: "openai",
+    input: ["text"],
+  } as Model<any>;
+
+  const longId = "fc_" + "x".repeat(60) + "|item";
+
+  function history() {
+    return [
+      { role: "user", content: "hi", timestamp: 1000 } satisfies UserMessage,
+      makeAssistantMessage([
+        { type: "thinking", thinking: "hmm", thinkingSignature: "sig" } as ThinkingContent,
+        { ...makeToolCall(longId, "read"), thoughtSignature: "ts" },
+      ]),
+      makeToolResult(longId, "read", "data"),
+    ];
+  }
+
+  it("drops foreign thinking blocks and signatures, and remaps long tool-call ids", () => {
+    const out = convertMessagesForModel(history(), openai);
+    const assistant = out[1] as AssistantMessage;
+    const call = assistant.content[0] as ToolCall;
+
+    expect(out).toHaveLength(3);
+    expect(assistant.content).toHaveLength(1);
+    expect(call.thoughtSignature).toBeUndefined();
+    expect(call.id).toMatch(/^call_[0-9a-f]{24}$/);
+    expect((out[2] as ToolResultMessage).toolCallId).toBe(call.id);
+  });
+
+  it("leaves the target model's own messages untouched", () => {
+    const own = {
+      id: "claude-sonnet-4-20250514",
+      api: "anthropic-messages",
+      provider: "anthropic",
+      input: ["text", "image"],
+    } as Model<any>;
+    const messages = history();
+    const out = convertMessagesForModel(messages, own);
+    expect(out[1]).toBe(messages[1]);
+  });
+
+  it("replaces images with a placeholder for text-only models", () => {
+    const user: UserMessage = {
+      role: "user",
+      content: [
+        { type: "text", text: "look" },
+        { type: "image", data: "AAAA", mimeType: "image/png" },
+      ],
+      timestamp: 1000,
+    };
+    const [out] = convertMessagesForModel([user], openai) as UserMessage[];
+    expect(out.content).toEqual([
+      { type: "text", text: "look" },
+      { type: "text", text: "[image omitted — gpt-4o does not accept images]" },
+    ]);
+  });
+});
+
 // ── extractText ──────────────────────────────────────────────────────
 
 describe("extractText", () => {
@@ -1,23 +1,80 @@
 /**
- * Conversion between TranscriptMessage[] (JSONL persistence) and Pi SDK Message[].
- * Also includes orphaned-tool-call repair.
+ * Conversion between TranscriptMessage[] (JSONL persistence) and Pi SDK Message[],
+ * replaying from the latest compaction checkpoint. Also includes
+ * orphaned-tool-call repair and cross-provider history conversion.
  *
  * Ref: openclaw/src/agents/pi-embedded-runner/session-transcript-repair.ts
  */
 
+import crypto from "node:crypto";
+
 import type {
   Message,
   UserMessage,
   AssistantMessage,
   ToolResultMessage,
   TextContent,
+  ImageContent,
   ToolCall,
+  Model,
 } from "@mariozechner/pi-ai";
 
-import type { TranscriptMessage } from "../sessions/index.js";
+import {
+  findLatestCompaction,
+  isTranscriptCompaction,
+  type TranscriptCompaction,
+  type TranscriptMessage,
+  type TranscriptRecord,
+} from "../sessions/index.js";
+
+import { createSummaryMessage } from "./context-guard.js";
 
 // ── Transcript → Pi SDK Messages ─────────────────────────────────────
 
+/** Messages to replay to the model, with where each one lives in the transcript. */
+export interface ReplayedTranscript {
+  messages: Message[];
+  /**
+   * Index of each message among the transcript's messages (parallel to
+   * `messages`); `undefined` for the compaction summary.
+   */
+  transcriptIndices: Array<number | undefined>;
+  /** The checkpoint replay started from, if any. */
+  compaction?: TranscriptCompaction;
+}
+
+/**
+ * Convert persisted transcript records into the Pi SDK `Message[]` to
+ * replay, starting from the latest compaction checkpoint: the messages it
+ * replaces become a single summary message.
+ */
+export function replayTranscript(records: readonly TranscriptRecord[]): ReplayedTranscript {
+  const compaction = findLatestCompaction(records);
+  const transcript = records.filter((r): r is TranscriptMessage => !isTranscriptCompaction(r));
+  const messages: Message[] = [];
+  const transcriptIndices: Array<number | undefined> = [];
+
+  const replay = (from: number, to: number): void => {
+    for (let i = from; i < to; i++) {
+      const message = transcriptMessageToMessage(transcript[i]);
+      if (!message) continue;
+      messages.push(message);
+      transcriptIndices.push(i);
+    }
+  };
+
+  if (!compaction) {
+    replay(0, transcript.length);
+    return { messages, transcriptIndices };
+  }
+
+  replay(0, compaction.fromIndex);
+  messages.push(createSummaryMessage(compaction.summary, compaction.ts));
+  transcriptIndices.push(undefined);
+  replay(compaction.toIndex, transcript.length);
+  return { messages, transcriptIndices, compaction };
+}
+
 /**
  * Convert persisted `TranscriptMessage[]` into Pi SDK `Message[]`.
  *
@@ -25,59 +82,55 @@ import type { TranscriptMessage } from "../sessions/index.js";
  * - "assistant"  → AssistantMessage (content as TextContent[])
  * - "tool"       → ToolResultMessage
  * - "system"     → skipped (system prompt is separate in Pi SDK Context)
+ *
+ * Compaction checkpoints are honored as in `replayTranscript()`.
  */
-export function transcriptToMessages(transcript: TranscriptMessage[]): Message[] {
-  const messages: Message[] = [];
+export function transcriptToMessages(records: readonly TranscriptRecord[]): Message[] {
+  return replayTranscript(records).messages;
+}
 
-  for (const t of transcript) {
-    switch (t.role) {
-      case "user":
-        messages.push({
-          role: "user",
-          content: t.content,
-          timestamp: t.ts,
-        } satisfies UserMessage);
-        break;
+function transcriptMessageToMessage(t: TranscriptMessage): Message | undefined {
+  switch (t.role) {
+    case "user":
+      return {
+        role: "user",
+        content: t.content,
+        timestamp: t.ts,
+      } satisfies UserMessage;
 
-      case "assistant": {
-        // Reconstruct content array. If meta has stored content blocks, use them;
-        // otherwise wrap text in a single TextContent.
-        const contentBlocks = t.meta?.contentBlocks
-          ? (t.meta.contentBlocks as AssistantMessage["content"])
-          : ([{ type: "text", text: t.content }] as AssistantMessage["content"]);
+    case "assistant": {
+      // Reconstruct content array. If meta has stored content blocks, use them;
+      // otherwise wrap text in a single TextContent.
+      const contentBlocks = t.meta?.contentBlocks
+        ? (t.meta.contentBlocks as AssistantMessage["content"])
+        : ([{ type: "text", text: t.content }] as AssistantMessage["content"]);
 
-        messages.push({
-          role: "assistant",
-          content: contentBlocks,
-          api: (t.meta?.api as string) ?? "anthropic-messages",
-          provider: (t.meta?.provider as string) ?? "anthropic",
-          model: (t.meta?.model as string) ?? "unknown",
-          usage: (t.meta?.usage as AssistantMessage["usage"]) ?? emptyUsage(),
-          stopReason: (t.meta?.stopReason as AssistantMessage["stopReason"]) ?? "stop",
-          timestamp: t.ts,
-        } satisfies AssistantMessage);
-        break;
-      }
+      return {
+        role: "assistant",
+        content: contentBlocks,
+        api: (t.meta?.api as string) ?? "anthropic-messages",
+        provider: (t.meta?.provider as string) ?? "anthropic",
+        model: (t.meta?.model as string) ?? "unknown",
+        usage: (t.meta?.usage as AssistantMessage["usage"]) ?? emptyUsage(),
+        stopReason: (t.meta?.stopReason as AssistantMessage["stopReason"]) ?? "stop",
+        timestamp: t.ts,
+      } satisfies AssistantMessage;
+    }
 
-      case "tool": {
-        messages.push({
-          role: "toolResult",
-          toolCallId: t.toolCallId ?? "unknown",
-          toolName: t.meta?.toolName as string ?? "unknown",
-          content: [{ type: "text", text: t.content }],
-          isError: (t.meta?.isError as boolean) ?? false,
-          timestamp: t.ts,
-        } satisfies ToolResultMessage);
-        break;
-      }
+    case "tool":
+      return {
+        role: "toolResult",
+        toolCallId: t.toolCallId ?? "unknown",
+        toolName: t.meta?.toolName as string ?? "unknown",
+        content: [{ type: "text", text: t.content }],
+        isError: (t.meta?.isError as boolean) ?? false,
+        timestamp: t.ts,
+      } satisfies ToolResultMessage;
 
-      case "system":
-        // Skip — system prompt handled separately
-        break;
-    }
+    case "system":
+      // Skip — system prompt handled separately
+      return undefined;
   }
-
-  return messages;
 }
 
 // ── Pi SDK Messages → Transcript ─────────────────────────────────────
@@ -196,6 +249,77 @@ export function repairOrphanedToolCalls(messages: Message[]): Message[] {
   return result;
 }
 
+// ── Cross-provider conversion ────────────────────────────────────────
+
+/** Tool-call ids every supported API accepts (OpenAI caps ids at 40 chars). */
+const PORTABLE_TOOL_CALL_ID_RE = /^[a-zA-Z0-9_-]{1,40}$/;
+
+function portableToolCallId(id: string): string {
+  if (PORTABLE_TOOL_CALL_ID_RE.test(id)) return id;
+  return `call_${crypto.createHash("sha256").update(id).digest("hex").slice(0, 24)}`;
+}
+
+function isFromModel(msg: AssistantMessage, model: Model<any>): boolean {
+  return msg.provider === model.provider && msg.api === model.api && msg.model === model.id;
+}
+
+function omitImages<T extends TextContent | ImageContent>(
+  content: T[],
+  model: Model<any>,
+): (T | TextContent)[] {
+  if (model.input.includes("image")) return content;
+  const placeholder: TextContent = {
+    type: "text",
+    text: `[image omitted — ${model.id} does not accept images]`,
+  };
+  return content.map((c) => (c.type === "image" ? placeholder : c));
+}
+
+/**
+ * Convert history written by other models so `model`'s API accepts it
+ * (used when failover switches providers mid-session).
+ *
+ * - Thinking blocks from other models are dropped — their signatures are
+ *   only valid for the model that produced them
+ * - `thoughtSignature` is stripped from other models' tool calls
+ * - Tool-call ids outside `[a-zA-Z0-9_-]{1,40}` are replaced with a stable
+ *   hash, in both the call and its result
+ * - Images become a text placeholder if `model` is text-only
+ *
+ * Returns a new array of the same length; messages that need no change are
+ * passed through as-is.
+ */
+export function convertMessagesForModel(messages: Message[], model: Model<any>): Message[] {
+  const idMap = new Map<string, string>();
+
+  return messages.map((msg): Message => {
+    switch (msg.role) {
+      case "user":
+        return typeof msg.content === "string"
+          ? msg
+          : { ...msg, content: omitImages(msg.content, model) };
+
+      case "toolResult": {
+        const toolCallId = idMap.get(msg.toolCallId) ?? msg.toolCallId;
+        return { ...msg, toolCallId, content: omitImages(msg.content, model) };
+      }
+
+      case "assistant": {
+        if (isFromModel(msg, model)) return msg;
+        const content = msg.content.flatMap((block): AssistantMessage["content"] => {
+          if (block.type === "thinking") return [];
+          if (block.type !== "toolCall") return [block];
+          const { thoughtSignature: _, ...call } = block;
+          const id = portableToolCallId(call.id);
+          if (id !== call.id) idMap.set(call.id, id);
+          return [{ ...call, id }];
+        });
+        return { ...msg, content };
+      }
+    }
+  });
+}
+
 // ── Extraction helpers ───────────────────────────────────────────────
 
 /**
@@ -10,20 +10,43 @@ import type {
   Context,
   Model,
   SimpleStreamOptions,
+  ToolCall,
   Usage,
 } from "@mariozechner/pi-ai";
 
-import type { MyClawConfig } from "../config/index.js";
+import type { MyClawConfig, ProviderConfig } from "../config/index.js";
 
 // ── Constants ────────────────────────────────────────────────────────
 
 export const DEFAULT_BOOTSTRAP_MAX_CHARS_PER_FILE = 50_000;
 export const DEFAULT_BOOTSTRAP_TOTAL_MAX_CHARS = 200_000;
+/** Token estimates are scaled by this before comparing against the context budget. */
 export const COMPACTION_SAFETY_MARGIN = 1.2;
+export const CHARS_PER_TOKEN = 4;
+export const IMAGE_TOKEN_ESTIMATE = 1_600;
+export const MESSAGE_TOKEN_OVERHEAD = 4;
+/** Output tokens reserved out of the context window (Pi SDK's default `maxTokens` cap). */
+export const MAX_OUTPUT_TOKEN_RESERVE = 32_000;
+/** Bounds for the usage-derived estimate calibration ratio. */
+export const MIN_CALIBRATION_RATIO = 0.5;
+export const MAX_CALIBRATION_RATIO = 3;
 export const BASE_COOLDOWN_MS = 1_000;
 export const MAX_COOLDOWN_MS = 60_000;
+/** Upper bound for provider-requested waits (`retry-after`, rate-limit resets). */
+export const MAX_RETRY_AFTER_MS = 15 * 60_000;
+/** `auth` / `billing` failures in a row after which a profile is disabled. */
+export const PROFILE_DISABLE_THRESHOLD = 3;
 export const DEFAULT_COMPACTION_RECENT_COUNT = 10;
+/** Per-call limits on what a structured compaction prompt quotes from tool calls / results. */
+export const COMPACTION_TOOL_ARGS_CHARS = 500;
+export const COMPACTION_TOOL_OUTPUT_CHARS = 2_000;
 export const DEFAULT_MAX_TOOL_RESULT_TRUNCATE_CHARS = 20_000;
+/** Workspace subdirectory that oversized tool results are written to. */
+export const TOOL_OUTPUT_DIRNAME = ".tool-output";
+/** Spilled tool outputs kept; the oldest are deleted beyond this. */
+export const MAX_TOOL_OUTPUT_FILES = 50;
+/** Format version written to cassette headers. */
+export const CASSETTE_VERSION = 1;
 
 // ── Bootstrap ────────────────────────────────────────────────────────
 
@@ -43,11 +66,37 @@ export type FailoverReason =
   | "context_overflow"
   | "unknown";
 
-/** Per-run state for an auth profile (not persisted). */
+/** A classified provider error, with the provider's requested wait if it sent one. */
+export interface FailoverErrorInfo {
+  reason: FailoverReason;
+  status?: number;
+  /** From `retry-after(-ms)`, `anthropic-ratelimit-*-reset`, or `x-ratelimit-reset-*` headers. */
+  retryAfterMs?: number;
+}
+
+/**
+ * Health of an auth profile. Loaded from (and saved to) the profile-health
+ * store, so it carries over between runs and processes.
+ */
 export interface ProfileState {
+  /** Position in the provider's `authProfiles`. */
   index: number;
   failedAt?: number;
   cooldownMs: number;
+  lastFailureReason?: FailoverReason;
+  /** Failures in a row with `lastFailureReason`; reset by a success. */
+  consecutiveFailures?: number;
+  /** Set once repeated `auth` / `billing` failures disable the profile. Cleared only by a manual reset. */
+  disabledAt?: number;
+}
+
+// ── Provider selection ───────────────────────────────────────────────
+
+/** The provider chosen for a session. */
+export interface ResolvedProvider {
+  /** Key in `providers`, or `"default"` for the root `provider`. */
+  name: string;
+  config: ProviderConfig;
 }
 
 // ── Streaming / LLM calls ────────────────────────────────────────────
@@ -58,8 +107,65 @@ export interface CallLLMParams {
   model: Model<any>;
   context: Context;
   options?: SimpleStreamOptions;
+  /** Record the call to, or answer it from, a cassette. */
+  cassette?: Cassette;
+}
+
+// ── Cassettes ────────────────────────────────────────────────────────
+
+/** An open cassette file (see cassette.ts). */
+export interface Cassette {
+  readonly path: string;
+  readonly mode: "record" | "replay";
+  /** Make the call with `send` and append it to the cassette. */
+  record(
+    model: Model<any>,
+    context: Context,
+    send: () => Promise<AssistantMessage>,
+  ): Promise<AssistantMessage>;
+  /**
+   * The recorded reply to the next call.
+   * @throws CassetteDivergenceError if `model` / `context` differ from the recording,
+   *   or the recorded provider error.
+   */
+  replay(model: Model<any>, context: Context): AssistantMessage;
 }
 
+// ── Tool approval ────────────────────────────────────────────────────
+
+/** A tool call waiting for approval. */
+export interface ToolApprovalRequest {
+  sessionKey: string;
+  toolCallId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  /** What approval patterns match against: the command (bash), path (file tools), or JSON arguments. */
+  subject: string;
+}
+
+/**
+ * An approver's answer:
+ * - `allow_once`    — run this call only
+ * - `allow_session` — run this tool without asking for the rest of the session
+ * - `allow_pattern` — run this call, and from now on every call of this tool
+ *                     whose subject matches `pattern` (default: this exact subject)
+ * - `deny`          — return an error result with `reason` to the model
+ */
+export type ToolApprovalDecision =
+  | { type: "allow_once" }
+  | { type: "allow_session" }
+  | { type: "allow_pattern"; pattern?: string }
+  | { type: "deny"; reason?: string };
+
+/** Asks a person (CLI prompt, chat button, gateway client) to approve a tool call. */
+export type ToolApprover = (
+  request: ToolApprovalRequest,
+  signal?: AbortSignal,
+) => Promise<ToolApprovalDecision>;
+
+/** Decides whether a tool call may run: `undefined` to run it, or the reason it was denied. */
+export type ToolAuthorizer = (toolCall: ToolCall) => Promise<string | undefined>;
+
 // ── Run loop events ──────────────────────────────────────────────────
 
 export type AgentRunEvent =
@@ -73,9 +179,36 @@ export type AgentRunEvent =
       toolCallId: string;
       durationMs: number;
       isError: boolean;
+      /** Set when the call was aborted for exceeding its timeout. */
+      timedOut?: boolean;
+    }
+  | { type: "tool_approval"; toolName: string; toolCallId: string; subject: string }
+  | { type: "tool_denied"; toolName: string; toolCallId: string; reason: string }
+  | {
+      type: "retry";
+      attempt: number;
+      reason: FailoverReason;
+      profileId: string;
+      /** Milliseconds until the retry is attempted (0 = immediately). */
+      waitMs: number;
+    }
+  | {
+      type: "provider_fallback";
+      fromProvider: string;
+      fromModel: string;
+      toProvider: string;
+      toModel: string;
+      reason: FailoverReason;
+    }
+  | {
+      type: "compaction";
+      oldCount: number;
+      newCount: number;
+      /** `budget`: the pre-call estimate exceeded the context budget; `overflow`: the provider rejected the request. */
+      trigger: "budget" | "overflow";
+      /** Calibrated prompt estimate that triggered a `budget` compaction. */
+      estimatedTokens?: number;
     }
-  | { type: "retry"; attempt: number; reason: FailoverReason; profileId: string }
-  | { type: "compaction"; oldCount: number; newCount: number }
   | { type: "done"; result: RunResult };
 
 export type AgentEventCallback = (event: AgentRunEvent) => void;
@@ -88,6 +221,8 @@ export interface RunAgentParams {
   config: MyClawConfig;
   signal?: AbortSignal;
   onEvent?: AgentEventCallback;
+  /** Answers approval requests for tools listed in `agent.approval.tools` (denied when absent). */
+  approver?: ToolApprover;
 }
 
 export interface RunResult {
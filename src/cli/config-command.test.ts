@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { runConfigCommand, parseCliValue, type CliOutput } from "./config-command.js";
+import {
+  clearConfigCache,
+  registerConfigMigration,
+  resetConfigMigrations,
+  DEFAULT_GATEWAY_PORT,
+} from "../config/index.js";
+
+// ── Test helpers ────────────────────────────────────────────────────
+
+let tmpDir: string;
+let configPath: string;
+let stdout: string[];
+let stderr: string[];
+
+const output: CliOutput = {
+  out: (line) => stdout.push(line),
+  err: (line) => stderr.push(line),
+};
+
+const baseConfig = `{
+  // Primary provider
+  provider: {
+    name: "anthropic",
+    model: "claude-sonnet-4-20250514",
+    authProfiles: [
+      { id: "primary", apiKey: "sk-live-secret" },
+    ],
+  },
+}
+`;
+
+function run(...args: string[]): number {
+  return runConfigCommand(["--config", configPath, ...args], { env: {}, output });
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-cli-test-"));
+  configPath = path.join(tmpDir, "myclaw.json");
+  fs.writeFileSync(configPath, baseConfig, "utf-8");
+  stdout = [];
+  stderr = [];
+  clearConfigCache();
+});
+
+afterEach(() => {
+  resetConfigMigrations();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── parseCliValue ───────────────────────────────────────────────────
+
+describe("parseCliValue", () => {
+  it("parses JSON5 literals and falls back to strings", () => {
+    expect(parseCliValue("9000")).toBe(9000);
+    expect(parseCliValue("true")).toBe(true);
+    expect(parseCliValue("['a']")).toEqual(["a"]);
+    expect(parseCliValue("claude-opus")).toBe("claude-opus");
+    expect(parseCliValue('"123"')).toBe("123");
+  });
+});
+
+// ── validate ────────────────────────────────────────────────────────
+
+describe("config validate", () => {
+  it("reports a valid config", () => {
+    expect(run("validate")).toBe(0);
+    expect(stdout[0]).toContain("is valid");
+  });
+
+  it("reports issues with line and column", () => {
+    fs.writeFileSync(
+      configPath,
+      baseConfig.replace(`model: "claude-sonnet-4-20250514",`, `model: 42,`),
+      "utf-8",
+    );
+
+    expect(run("validate")).toBe(1);
+    expect(stderr.join("\n")).toContain(`${configPath}:5:5  provider.model:`);
+  });
+
+  it("locates issues in included files", () => {
+    const inc = path.join(tmpDir, "gateway.json5");
+    fs.writeFileSync(inc, `{\n  port: "nope",\n}`, "utf-8");
+    fs.writeFileSync(
+      configPath,
+      baseConfig.replace(/}\n$/, `  gateway: { $include: "./gateway.json5" },\n}\n`),
+      "utf-8",
+    );
+
+    expect(run("validate")).toBe(1);
+    expect(stderr.join("\n")).toContain(`${inc}:2:3  gateway.port:`);
+  });
+
+  it("reports parse errors", () => {
+    fs.writeFileSync(configPath, `{ broken`, "utf-8");
+    expect(run("validate")).toBe(1);
+    expect(stderr[0]).toContain("Failed to parse");
+  });
+});
+
+// ── migrate ─────────────────────────────────────────────────────────
+
+describe("config migrate", () => {
+  const v1Config = baseConfig.replace("{\n", "{\n  agent: { maxLoops: 7 },\n");
+
+  beforeEach(() => {
+    registerConfigMigration({
+      from: 1,
+      description: "rename agent.maxLoops → agent.maxIterations",
+      migrate: (doc) => {
+        const agent = doc.agent as Record<string, unknown>;
+        agent.maxIterations = agent.maxLoops;
+        delete agent.maxLoops;
+        return doc;
+      },
+    });
+    fs.writeFileSync(configPath, v1Config, "utf-8");
+  });
+
+  it("validate reports a pending migration without touching the file", () => {
+    expect(run("validate")).toBe(0);
+    expect(stdout[0]).toBe("↑ Config v1 needs migrating to v2:");
+    expect(stdout.join("\n")).toContain("run `myclaw config migrate`");
+    expect(fs.readFileSync(configPath, "utf-8")).toBe(v1Config);
+    expect(fs.existsSync(`${configPath}.v1.bak`)).toBe(false);
+  });
+
+  it("rewrites the file and keeps a backup", () => {
+    expect(run("migrate")).toBe(0);
+    expect(stdout[0]).toBe("↑ Migrated config v1 → v2:");
+    expect(stdout[2]).toContain(`${configPath}.v1.bak`);
+    expect(fs.readFileSync(`${configPath}.v1.bak`, "utf-8")).toBe(v1Config);
+    expect(fs.readFileSync(configPath, "utf-8")).toContain("maxIterations: 7");
+
+    stdout = [];
+    expect(run("migrate")).toBe(0);
+    expect(stdout[0]).toContain("already at the current version");
+  });
+});
+
+// ── get / print-effective ───────────────────────────────────────────
+
+describe("config get", () => {
+  it("reads defaulted values", () => {
+    expect(run("get", "gateway.port")).toBe(0);
+    expect(stdout).toEqual([String(DEFAULT_GATEWAY_PORT)]);
+  });
+
+  it("redacts secrets", () => {
+    expect(run("get", "provider.authProfiles[0]")).toBe(0);
+    expect(stdout.join("\n")).toContain("[redacted]");
+    expect(stdout.join("\n")).not.toContain("sk-live-secret");
+  });
+
+  it("fails for unset paths", () => {
+    expect(run("get", "channels.telegram")).toBe(1);
+    expect(stderr[0]).toContain("is not set");
+  });
+
+  it("print-effective --origins shows where each value came from", () => {
+    const code = runConfigCommand(["--config", configPath, "print-effective", "--origins"], {
+      env: { MYCLAW__AGENT__MAXITERATIONS: "40" },
+      output,
+    });
+    expect(code).toBe(0);
+    expect(stdout).toContain(`provider.model = "claude-sonnet-4-20250514"  # file ${configPath}`);
+    expect(stdout).toContain(`agent.maxIterations = 40  # env MYCLAW__AGENT__MAXITERATIONS`);
+    expect(stdout).toContain(`provider.authProfiles[0].apiKey = "[redacted]"  # file ${configPath}`);
+    expect(stdout.find((l) => l.startsWith("agent.maxRetries"))).toMatch(/# default$/);
+  });
+
+  it("print-effective prints the full redacted config", () => {
+    expect(run("print-effective")).toBe(0);
+    const printed = JSON.parse(stdout.join("\n"));
+    expect(printed.provider.authProfiles[0].apiKey).toBe("[redacted]");
+    expect(printed.agent.maxIterations).toBeGreaterThan(0);
+  });
+});
+
+// ── set / unset ─────────────────────────────────────────────────────
+
+describe("config set", () => {
+  it("writes the value and keeps comments", () => {
+    expect(run("set", "gateway.port", "9000")).toBe(0);
+    const text = fs.readFileSync(configPath, "utf-8");
+    expect(text).toContain("// Primary provider");
+    expect(text).toContain("port: 9000");
+
+    stdout = [];
+    run("get", "gateway.port");
+    expect(stdout).toEqual(["9000"]);
+  });
+
+  it("redacts sensitive values in its confirmation", () => {
+    expect(run("set", "provider.authProfiles[0].apiKey", "sk-new-secret")).toBe(0);
+    expect(stdout[0]).not.toContain("sk-new-secret");
+  });
+
+  it("rejects edits that fail validation and leaves the file untouched", () => {
+    expect(run("set", "gateway.port", '"not-a-port"')).toBe(1);
+    expect(stderr[0]).toContain("Not saved");
+    expect(stderr.join("\n")).toMatch(/myclaw\.json:\d+:\d+ {2}gateway\.port:/);
+    expect(fs.readFileSync(configPath, "utf-8")).toBe(baseConfig);
+  });
+
+  it("rejects unknown keys", () => {
+    expect(run("set", "provider.modle", "x")).toBe(1);
+    expect(fs.readFileSync(configPath, "utf-8")).toBe(baseConfig);
+  });
+});
+
+describe("config unset", () => {
+  it("removes a value", () => {
+    run("set", "logging.level", "debug");
+    expect(run("unset", "logging")).toBe(0);
+    expect(fs.readFileSync(configPath, "utf-8")).toBe(baseConfig);
+  });
+
+  it("refuses to remove required fields", () => {
+    expect(run("unset", "provider.model")).toBe(1);
+    expect(fs.readFileSync(configPath, "utf-8")).toBe(baseConfig);
+  });
+
+  it("fails when the path is not in the file", () => {
+    expect(run("unset", "gateway.port")).toBe(1);
+    expect(stderr[0]).toContain("is not set");
+  });
+});
+
+// ── schema ──────────────────────────────────────────────────────────
+
+describe("config schema", () => {
+  it("prints the JSON Schema", () => {
+    expect(run("schema")).toBe(0);
+    expect(JSON.parse(stdout.join("\n")).title).toBe("MyClaw configuration");
+  });
+
+  it("writes myclaw.schema.json next to the config with --write", () => {
+    expect(run("schema", "--write")).toBe(0);
+    expect(fs.existsSync(path.join(tmpDir, "myclaw.schema.json"))).toBe(true);
+  });
+});
+
+// ── usage ───────────────────────────────────────────────────────────
+
+describe("usage", () => {
+  it("prints usage for unknown commands", () => {
+    expect(run("frobnicate")).toBe(1);
+    expect(stderr[0]).toContain("Usage: myclaw config");
+  });
+});
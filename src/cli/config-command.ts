@@ -0,0 +1,390 @@
+/**
+ * `myclaw config` — inspect and edit myclaw.json from the command line.
+ *
+ * Subcommands:
+ * - `validate`          — run the full load pipeline (including migrations, in
+ *                         memory), print issues as `file:line:col`
+ * - `migrate`           — upgrade an older config file to the current version,
+ *                         keeping the original as `<file>.v<N>.bak`
+ * - `get <path>`        — read a value from the effective (defaulted) config, secrets redacted
+ * - `set <path> <value>` — write a value, preserving comments and formatting
+ * - `unset <path>`      — remove a value, preserving comments and formatting
+ * - `print-effective`   — print the whole effective config, secrets redacted;
+ *                         `--origins` lists each value with its source (file,
+ *                         include, env override, default)
+ * - `schema [--write]`  — print the JSON Schema, or write `myclaw.schema.json`
+ *                         next to the config file
+ *
+ * `set` values are parsed as JSON5 (`9000`, `true`, `["a"]`); anything that
+ * does not parse is taken as a plain string. Edits are re-validated against
+ * `MyClawConfigSchema` before the file is written — an invalid edit is
+ * rejected and the file is left untouched.
+ *
+ * @example
+ * ```sh
+ * myclaw config validate
+ * myclaw config migrate
+ * myclaw config get provider.authProfiles[0]
+ * myclaw config set gateway.port 9000
+ * myclaw config unset channels.telegram
+ * ```
+ */
+
+import JSON5 from "json5";
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  loadConfig,
+  loadConfigFromText,
+  clearConfigCache,
+  resolveConfigPath,
+  redactConfig,
+  isSensitiveConfigPath,
+  parseConfigPath,
+  formatConfigPath,
+  getConfigValue,
+  formatConfigOrigin,
+  buildConfigJsonSchema,
+  writeConfigJsonSchema,
+  setJson5Value,
+  unsetJson5Value,
+  locateJson5Path,
+  ConfigParseError,
+  ConfigValidationError,
+  REDACTED_PLACEHOLDER,
+  type ConfigIssue,
+} from "../config/index.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface CliOutput {
+  /** Normal output (stdout). */
+  out: (line: string) => void;
+  /** Diagnostics (stderr). */
+  err: (line: string) => void;
+}
+
+export interface ConfigCommandOptions {
+  /** Env used for path resolution and `${VAR}` substitution. */
+  env?: NodeJS.ProcessEnv;
+  output?: CliOutput;
+}
+
+export const CONFIG_COMMAND_USAGE = `Usage: myclaw config <command> [--config <file>]
+
+Commands:
+  validate              Check the config file and report issues with line/column
+  migrate               Upgrade an older config file in place (original kept as .v<N>.bak)
+  get <path>            Print a value from the effective config (secrets redacted)
+  set <path> <value>    Set a value (JSON5 literal or plain string)
+  unset <path>          Remove a value
+  print-effective [--origins]
+                        Print the full effective config (secrets redacted),
+                        optionally with where each value came from
+  schema [--write]      Print the JSON Schema for myclaw.json, or write it next to the config
+
+Paths use dots and brackets: provider.authProfiles[0].apiKey`;
+
+const consoleOutput: CliOutput = {
+  out: (line) => console.log(line),
+  err: (line) => console.error(line),
+};
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Parse a CLI value as JSON5, falling back to the raw string. */
+export function parseCliValue(raw: string): unknown {
+  try {
+    return JSON5.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Find the line/column of a validation issue. Issues from `$include`d files
+ * carry full config paths, so leading segments are dropped until the
+ * longest suffix that exists in that file is found.
+ */
+function locateIssue(
+  issue: ConfigIssue,
+  rootPath: string,
+  readFile: (file: string) => string,
+): string {
+  const file = issue.filePath ?? rootPath;
+  let text: string;
+  try {
+    text = readFile(file);
+  } catch {
+    return file;
+  }
+
+  const segments = issue.path.filter(
+    (s): s is string | number => typeof s === "string" || typeof s === "number",
+  );
+  const offsets = file === rootPath ? [0] : segments.map((_, i) => i);
+  let best: { line: number; column: number; matched: number } | undefined;
+  for (const offset of offsets.length > 0 ? offsets : [0]) {
+    const loc = locateJson5Path(text, segments.slice(offset));
+    if (!best || loc.matched > best.matched) best = loc;
+  }
+  return best ? `${file}:${best.line}:${best.column}` : file;
+}
+
+function reportError(
+  err: unknown,
+  rootPath: string,
+  output: CliOutput,
+  readFile: (file: string) => string = (f) => fs.readFileSync(f, "utf-8"),
+): void {
+  if (err instanceof ConfigValidationError) {
+    output.err(`✗ ${rootPath}: ${err.issues.length} issue(s)`);
+    for (const issue of err.issues) {
+      const where = locateIssue(issue, rootPath, readFile);
+      output.err(`  ${where}  ${formatConfigPath(issue.path) || "(root)"}: ${issue.message}`);
+    }
+    return;
+  }
+  output.err(`✗ ${err instanceof Error ? err.message : String(err)}`);
+}
+
+// ── Subcommands ─────────────────────────────────────────────────────
+
+function validateCommand(configPath: string, env: NodeJS.ProcessEnv, output: CliOutput): number {
+  try {
+    const { files, migration } = loadConfig({ configPath, env, noCache: true });
+    if (migration) {
+      output.out(`↑ Config v${migration.fromVersion} needs migrating to v${migration.toVersion}:`);
+      for (const step of migration.applied) output.out(`  - ${step}`);
+      output.out(
+        files.length === 1
+          ? `  (checked in memory — run \`myclaw config migrate\` to update the file)`
+          : `  (checked in memory — update the $include'd files by hand)`,
+      );
+    }
+    const extra = files.length > 1 ? ` (+${files.length - 1} included file(s))` : "";
+    output.out(`✓ ${configPath} is valid${extra}`);
+    return 0;
+  } catch (err) {
+    reportError(err, configPath, output);
+    return 1;
+  }
+}
+
+function migrateCommand(configPath: string, env: NodeJS.ProcessEnv, output: CliOutput): number {
+  try {
+    const { migration } = loadConfig({ configPath, env, migrate: true });
+    if (!migration) {
+      output.out(`✓ ${configPath} is already at the current version`);
+      return 0;
+    }
+    if (!migration.backupPath) {
+      output.err(
+        `Cannot migrate ${configPath} in place: it uses $include — update the included files by hand:`,
+      );
+      for (const step of migration.applied) output.err(`  - ${step}`);
+      return 1;
+    }
+    output.out(`↑ Migrated config v${migration.fromVersion} → v${migration.toVersion}:`);
+    for (const step of migration.applied) output.out(`  - ${step}`);
+    output.out(`  original saved to ${migration.backupPath}`);
+    return 0;
+  } catch (err) {
+    reportError(err, configPath, output);
+    return 1;
+  }
+}
+
+function printOriginsCommand(configPath: string, env: NodeJS.ProcessEnv, output: CliOutput): number {
+  try {
+    const { config, origins } = loadConfig({ configPath, env, noCache: true });
+    const redacted = redactConfig(config);
+    for (const [leaf, origin] of origins) {
+      const value = JSON.stringify(getConfigValue(redacted, parseConfigPath(leaf)));
+      output.out(`${leaf} = ${value}  # ${formatConfigOrigin(origin)}`);
+    }
+    return 0;
+  } catch (err) {
+    reportError(err, configPath, output);
+    return 1;
+  }
+}
+
+function getCommand(
+  configPath: string,
+  pathArg: string | undefined,
+  env: NodeJS.ProcessEnv,
+  output: CliOutput,
+): number {
+  try {
+    const { config } = loadConfig({ configPath, env, noCache: true });
+    const redacted = redactConfig(config);
+    if (pathArg === undefined) {
+      output.out(formatValue(redacted));
+      return 0;
+    }
+    const value = getConfigValue(redacted, parseConfigPath(pathArg));
+    if (value === undefined) {
+      output.err(`✗ ${pathArg} is not set`);
+      return 1;
+    }
+    output.out(formatValue(value));
+    return 0;
+  } catch (err) {
+    reportError(err, configPath, output);
+    return 1;
+  }
+}
+
+function schemaCommand(configPath: string, write: boolean, output: CliOutput): number {
+  if (!write) {
+    output.out(JSON.stringify(buildConfigJsonSchema(), null, 2));
+    return 0;
+  }
+  const dir = path.dirname(configPath);
+  if (!fs.existsSync(dir)) {
+    output.err(`✗ Config directory not found: ${dir}`);
+    return 1;
+  }
+  output.out(`✓ Wrote ${writeConfigJsonSchema(dir)}`);
+  return 0;
+}
+
+/** Apply an edit to the file text, re-validate, and write it back. */
+function editCommand(
+  configPath: string,
+  pathArg: string | undefined,
+  env: NodeJS.ProcessEnv,
+  output: CliOutput,
+  edit: (text: string, segments: Array<string | number>) => string | undefined,
+  describe: (pathArg: string) => string,
+): number {
+  if (!pathArg) {
+    output.err(CONFIG_COMMAND_USAGE);
+    return 1;
+  }
+  if (!fs.existsSync(configPath)) {
+    output.err(`✗ Config file not found: ${configPath}`);
+    return 1;
+  }
+
+  const original = fs.readFileSync(configPath, "utf-8");
+  let updated: string | undefined;
+  try {
+    try {
+      JSON5.parse(original);
+    } catch (err) {
+      throw new ConfigParseError(configPath, err instanceof Error ? err.message : String(err));
+    }
+    updated = edit(original, parseConfigPath(pathArg));
+  } catch (err) {
+    reportError(err, configPath, output);
+    return 1;
+  }
+  if (updated === undefined) {
+    output.err(`✗ ${pathArg} is not set in ${configPath}`);
+    return 1;
+  }
+
+  try {
+    loadConfigFromText(updated, configPath, env);
+  } catch (err) {
+    output.err(`✗ Not saved — the edit would make the config invalid`);
+    reportError(err, configPath, output, (f) =>
+      f === configPath ? updated : fs.readFileSync(f, "utf-8"),
+    );
+    return 1;
+  }
+
+  fs.writeFileSync(configPath, updated, "utf-8");
+  clearConfigCache();
+  output.out(`✓ ${describe(pathArg)}`);
+  return 0;
+}
+
+// ── Entry point ─────────────────────────────────────────────────────
+
+/**
+ * Run `myclaw config <args>`.
+ *
+ * @returns Process exit code (0 on success).
+ */
+export function runConfigCommand(args: string[], options: ConfigCommandOptions = {}): number {
+  const env = options.env ?? process.env;
+  const output = options.output ?? consoleOutput;
+
+  const rest = [...args];
+  let configPath = resolveConfigPath(env);
+  const flag = rest.indexOf("--config");
+  if (flag !== -1) {
+    const value = rest[flag + 1];
+    if (!value) {
+      output.err(CONFIG_COMMAND_USAGE);
+      return 1;
+    }
+    configPath = value;
+    rest.splice(flag, 2);
+  }
+  configPath = path.resolve(configPath);
+
+  const [command, pathArg, valueArg] = rest;
+  switch (command) {
+    case "validate":
+      return validateCommand(configPath, env, output);
+
+    case "migrate":
+      if (pathArg !== undefined) break;
+      return migrateCommand(configPath, env, output);
+
+    case "get":
+      if (!pathArg) break;
+      return getCommand(configPath, pathArg, env, output);
+
+    case "print-effective":
+      if (pathArg === "--origins") return printOriginsCommand(configPath, env, output);
+      if (pathArg !== undefined) break;
+      return getCommand(configPath, undefined, env, output);
+
+    case "schema":
+      if (pathArg !== undefined && pathArg !== "--write") break;
+      return schemaCommand(configPath, pathArg === "--write", output);
+
+    case "set": {
+      if (valueArg === undefined) break;
+      const value = parseCliValue(valueArg);
+      return editCommand(
+        configPath,
+        pathArg,
+        env,
+        output,
+        (text, segments) => setJson5Value(text, segments, value),
+        (p) =>
+          `Set ${p} = ${isSensitiveConfigPath(p) ? REDACTED_PLACEHOLDER : JSON.stringify(value)}`,
+      );
+    }
+
+    case "unset":
+      return editCommand(
+        configPath,
+        pathArg,
+        env,
+        output,
+        (text, segments) => unsetJson5Value(text, segments),
+        (p) => `Removed ${p}`,
+      );
+
+    case "help":
+    case "--help":
+    case undefined:
+      output.out(CONFIG_COMMAND_USAGE);
+      return command === undefined ? 1 : 0;
+  }
+
+  output.err(CONFIG_COMMAND_USAGE);
+  return 1;
+}
@@ -0,0 +1,21 @@
+/**
+ * CLI commands — public API.
+ *
+ * Each command group is a plain function taking argv (after the group
+ * name) and returning an exit code, so it can be tested without spawning
+ * a process. `scripts/myclaw.ts` is the executable entry point.
+ */
+
+export {
+  runConfigCommand,
+  parseCliValue,
+  CONFIG_COMMAND_USAGE,
+  type CliOutput,
+  type ConfigCommandOptions,
+} from "./config-command.js";
+
+export {
+  runProfilesCommand,
+  PROFILES_COMMAND_USAGE,
+  type ProfilesCommandOptions,
+} from "./profiles-command.js";
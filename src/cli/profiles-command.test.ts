@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { runProfilesCommand } from "./profiles-command.js";
+import type { CliOutput } from "./config-command.js";
+import {
+  recordProfileFailure,
+  getProfileHealth,
+  PROFILE_DISABLE_THRESHOLD,
+} from "../agent/index.js";
+
+let stateDir: string;
+let stdout: string[];
+let stderr: string[];
+
+const output: CliOutput = {
+  out: (line) => stdout.push(line),
+  err: (line) => stderr.push(line),
+};
+
+function run(...args: string[]): number {
+  return runProfilesCommand(args, { env: { MYCLAW_STATE_DIR: stateDir }, output });
+}
+
+beforeEach(() => {
+  stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-profiles-cli-test-"));
+  stdout = [];
+  stderr = [];
+});
+
+afterEach(() => {
+  fs.rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe("myclaw profiles", () => {
+  it("list reports healthy when nothing is recorded", () => {
+    expect(run("list")).toBe(0);
+    expect(stdout).toEqual(["No recorded failures — all auth profiles are healthy."]);
+  });
+
+  it("list shows cooldowns and disabled profiles", () => {
+    recordProfileFailure("default", "backup", 1, "rate_limit", { stateDir });
+    for (let i = 0; i < PROFILE_DISABLE_THRESHOLD; i++) {
+      recordProfileFailure("default", "primary", 0, "billing", { stateDir });
+    }
+
+    expect(run("list")).toBe(0);
+    expect(stdout[0]).toMatch(/^default\/backup +cooling down \ds \(rate_limit ×1\)$/);
+    expect(stdout[1]).toMatch(/^default\/primary +disabled since \S+ \(billing ×3\)$/);
+  });
+
+  it("reset re-enables a profile", () => {
+    for (let i = 0; i < PROFILE_DISABLE_THRESHOLD; i++) {
+      recordProfileFailure("default", "primary", 0, "auth", { stateDir });
+    }
+
+    expect(run("reset", "default/primary")).toBe(0);
+    expect(stdout).toEqual(["Reset default/primary"]);
+    expect(getProfileHealth("default", "primary", { stateDir })).toBeUndefined();
+  });
+
+  it("reset reports when there is nothing to reset", () => {
+    expect(run("reset", "--all")).toBe(0);
+    expect(stdout).toEqual(["No recorded failures for any profile"]);
+  });
+
+  it("prints usage for bad arguments", () => {
+    expect(run("reset")).toBe(1);
+    expect(stderr[0]).toMatch(/^Usage: myclaw profiles/);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * `myclaw profiles` — inspect and reset persisted auth-profile health.
+ *
+ * Subcommands:
+ * - `list`                          — profiles with recorded failures: cooldown,
+ *                                     failure streak, disabled state
+ * - `reset <provider>[/<profile>]`  — clear failures and re-enable one profile,
+ *                                     or every profile of a provider
+ * - `reset --all`                   — clear every recorded failure
+ *
+ * Profiles are named `<provider>/<profileId>`, where provider is the config
+ * name (`default` for the root `provider`).
+ *
+ * @example
+ * ```sh
+ * myclaw profiles list
+ * myclaw profiles reset default/primary
+ * ```
+ */
+
+import { resolveStateDir } from "../config/index.js";
+import { listProfileHealth, resetProfileHealth, type ProfileHealth } from "../agent/index.js";
+
+import type { CliOutput } from "./config-command.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ProfilesCommandOptions {
+  /** Env used to resolve the state directory. */
+  env?: NodeJS.ProcessEnv;
+  output?: CliOutput;
+  /** Clock for cooldown display (tests). */
+  now?: number;
+}
+
+export const PROFILES_COMMAND_USAGE = `Usage: myclaw profiles <command>
+
+Commands:
+  list                          Show auth profiles with recorded failures
+  reset <provider>[/<profile>]  Clear failures and re-enable a profile (or all of a provider's)
+  reset --all                   Clear every recorded failure
+
+Profiles are named <provider>/<profileId>; the root provider is "default"`;
+
+const consoleOutput: CliOutput = {
+  out: (line) => console.log(line),
+  err: (line) => console.error(line),
+};
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function describeHealth(health: ProfileHealth, now: number): string {
+  const streak = health.lastFailureReason
+    ? ` (${health.lastFailureReason} ×${health.consecutiveFailures ?? 1})`
+    : "";
+  if (health.disabledAt !== undefined) {
+    return `disabled since ${new Date(health.disabledAt).toISOString()}${streak}`;
+  }
+  const remainingMs = health.failedAt !== undefined ? health.failedAt + health.cooldownMs - now : 0;
+  return remainingMs > 0
+    ? `cooling down ${Math.ceil(remainingMs / 1000)}s${streak}`
+    : `available${streak}`;
+}
+
+// ── Entry point ─────────────────────────────────────────────────────
+
+/**
+ * Run `myclaw profiles <args>`.
+ *
+ * @returns Process exit code (0 on success).
+ */
+export function runProfilesCommand(args: string[], options: ProfilesCommandOptions = {}): number {
+  const output = options.output ?? consoleOutput;
+  const stateDir = resolveStateDir(options.env ?? process.env);
+  const [command, target, extra] = args;
+
+  switch (command) {
+    case "list": {
+      if (target !== undefined) break;
+      const entries = listProfileHealth({ stateDir });
+      if (entries.length === 0) {
+        output.out("No recorded failures — all auth profiles are healthy.");
+        return 0;
+      }
+      const now = options.now ?? Date.now();
+      const width = Math.max(...entries.map((e) => e.provider.length + e.profileId.length + 1));
+      for (const { provider, profileId, health } of entries) {
+        output.out(`${`${provider}/${profileId}`.padEnd(width)}  ${describeHealth(health, now)}`);
+      }
+      return 0;
+    }
+
+    case "reset": {
+      if (!target || extra !== undefined) break;
+      let reset: string[];
+      if (target === "--all") {
+        reset = resetProfileHealth(undefined, undefined, { stateDir });
+      } else {
+        const slash = target.indexOf("/");
+        reset =
+          slash === -1
+            ? resetProfileHealth(target, undefined, { stateDir })
+            : resetProfileHealth(target.slice(0, slash), target.slice(slash + 1), { stateDir });
+      }
+      output.out(
+        reset.length > 0
+          ? `Reset ${reset.join(", ")}`
+          : `No recorded failures for ${target === "--all" ? "any profile" : target}`,
+      );
+      return 0;
+    }
+
+    case "help":
+    case "--help":
+    case undefined:
+      output.out(PROFILES_COMMAND_USAGE);
+      return command === undefined ? 1 : 0;
+  }
+
+  output.err(PROFILES_COMMAND_USAGE);
+  return 1;
+}
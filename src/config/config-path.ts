@@ -0,0 +1,57 @@
+/**
+ * Config path notation — `provider.authProfiles[0].apiKey`.
+ *
+ * The same dotted/bracket format is used by env substitution errors,
+ * `$include` source tracking and validation issue lookups.
+ */
+
+function childPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Format path segments: `["a", 0, "b"]` → `a[0].b`.
+ */
+export function formatConfigPath(segments: readonly PropertyKey[]): string {
+  let out = "";
+  for (const seg of segments) {
+    if (typeof seg === "number") out += `[${seg}]`;
+    else out = childPath(out, String(seg));
+  }
+  return out;
+}
+
+/**
+ * Parse a config path back into segments: `a[0].b` → `["a", 0, "b"]`.
+ * Empty string → `[]` (the root).
+ */
+export function parseConfigPath(configPath: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  for (const part of configPath.split(".")) {
+    if (!part) continue;
+    const m = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!m) {
+      segments.push(part);
+      continue;
+    }
+    if (m[1]) segments.push(m[1]);
+    for (const idx of m[2].matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(idx[1]));
+    }
+  }
+  return segments;
+}
+
+/**
+ * Read the value at a config path from a plain object tree.
+ * Returns `undefined` if any segment is missing.
+ */
+export function getConfigValue(obj: unknown, segments: readonly PropertyKey[]): unknown {
+  let current = obj;
+  for (const seg of segments) {
+    if (typeof current !== "object" || current === null) return undefined;
+    if (!Object.hasOwn(current, seg)) return undefined;
+    current = (current as Record<PropertyKey, unknown>)[seg];
+  }
+  return current;
+}
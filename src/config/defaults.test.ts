@@ -7,6 +7,9 @@ import {
   DEFAULT_MAX_ITERATIONS,
   DEFAULT_MAX_RETRIES,
   DEFAULT_MAX_TOOL_RESULT_CHARS,
+  DEFAULT_MAX_PARALLEL_TOOLS,
+  DEFAULT_TOOL_TIMEOUT_MS,
+  DEFAULT_COMPACTION_MODE,
   DEFAULT_LOG_LEVEL,
 } from "./defaults.js";
 import { DEFAULT_GATEWAY_PORT } from "./paths.js";
@@ -42,6 +45,9 @@ describe("applyAgentDefaults", () => {
     expect(result.agent?.maxIterations).toBe(DEFAULT_MAX_ITERATIONS);
     expect(result.agent?.maxRetries).toBe(DEFAULT_MAX_RETRIES);
     expect(result.agent?.maxToolResultChars).toBe(DEFAULT_MAX_TOOL_RESULT_CHARS);
+    expect(result.agent?.maxParallelTools).toBe(DEFAULT_MAX_PARALLEL_TOOLS);
+    expect(result.agent?.toolTimeoutMs).toBe(DEFAULT_TOOL_TIMEOUT_MS);
+    expect(result.agent?.compactionMode).toBe(DEFAULT_COMPACTION_MODE);
   });
 
   it("preserves explicitly set values", () => {
@@ -12,9 +12,20 @@ import { DEFAULT_GATEWAY_PORT } from "./paths.js";
 // ── Constants ───────────────────────────────────────────────────────
 
 export const DEFAULT_MODEL = "claude-sonnet-4-20250514";
+/** Name the root `provider` goes by in `providerRules` and session metadata. */
+export const DEFAULT_PROVIDER_NAME = "default";
 export const DEFAULT_MAX_ITERATIONS = 25;
 export const DEFAULT_MAX_RETRIES = 3;
 export const DEFAULT_MAX_TOOL_RESULT_CHARS = 50_000;
+export const DEFAULT_MAX_PARALLEL_TOOLS = 4;
+export const DEFAULT_TOOL_TIMEOUT_MS = 300_000;
+export const DEFAULT_COMPACTION_MODE = "structured" as const;
+/** `agent.patchFuzz` fields that are not set. */
+export const DEFAULT_PATCH_FUZZ = {
+  maxOffset: 200,
+  ignoreWhitespace: true,
+  ignoreMissingNewline: true,
+} as const;
 export const DEFAULT_LOG_LEVEL = "info" as const;
 
 // ── Agent defaults ──────────────────────────────────────────────────
@@ -25,7 +36,10 @@ export function applyAgentDefaults(cfg: MyClawConfig): MyClawConfig {
     !agent ||
     agent.maxIterations === undefined ||
     agent.maxRetries === undefined ||
-    agent.maxToolResultChars === undefined;
+    agent.maxToolResultChars === undefined ||
+    agent.maxParallelTools === undefined ||
+    agent.toolTimeoutMs === undefined ||
+    agent.compactionMode === undefined;
 
   if (!needsDefaults) return cfg;
 
@@ -36,6 +50,9 @@ export function applyAgentDefaults(cfg: MyClawConfig): MyClawConfig {
       maxIterations: agent?.maxIterations ?? DEFAULT_MAX_ITERATIONS,
       maxRetries: agent?.maxRetries ?? DEFAULT_MAX_RETRIES,
       maxToolResultChars: agent?.maxToolResultChars ?? DEFAULT_MAX_TOOL_RESULT_CHARS,
+      maxParallelTools: agent?.maxParallelTools ?? DEFAULT_MAX_PARALLEL_TOOLS,
+      toolTimeoutMs: agent?.toolTimeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS,
+      compactionMode: agent?.compactionMode ?? DEFAULT_COMPACTION_MODE,
     },
   };
 }
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { collectEnvOverrides, applyEnvOverrides } from "./env-overrides.js";
+import { ConfigEnvOverrideError, ConfigValidationError } from "./errors.js";
+import { loadConfig, clearConfigCache } from "./loader.js";
+
+// ── collectEnvOverrides ─────────────────────────────────────────────
+
+describe("collectEnvOverrides", () => {
+  it("maps prefixed vars onto schema paths case-insensitively", () => {
+    const overrides = collectEnvOverrides({
+      MYCLAW__AGENT__MAXITERATIONS: "40",
+      MYCLAW__PROVIDER__MODEL: "claude-opus",
+      MYCLAW__LOGGING__REDACT_SENSITIVE: "false",
+    });
+    expect(overrides.map((o) => [o.path, o.value])).toEqual(
+      expect.arrayContaining([
+        ["agent.maxIterations", 40],
+        ["provider.model", "claude-opus"],
+        ["logging.redactSensitive", false],
+      ]),
+    );
+  });
+
+  it("ignores unrelated vars, including single-underscore MYCLAW_ vars", () => {
+    expect(collectEnvOverrides({ MYCLAW_STATE_DIR: "/tmp", HOME: "/root" })).toEqual([]);
+  });
+
+  it("indexes arrays with numeric segments", () => {
+    const [o] = collectEnvOverrides({ MYCLAW__PROVIDER__AUTHPROFILES__0__APIKEY: "sk-env" });
+    expect(o.segments).toEqual(["provider", "authProfiles", 0, "apiKey"]);
+  });
+
+  it("parses objects and arrays as JSON5", () => {
+    const [o] = collectEnvOverrides({ MYCLAW__CHANNELS__TELEGRAM__ALLOWEDCHATIDS: "['1', 2]" });
+    expect(o.value).toEqual(["1", 2]);
+  });
+
+  it("sorts parents before children", () => {
+    const overrides = collectEnvOverrides({
+      MYCLAW__AGENT__MAXRETRIES: "1",
+      MYCLAW__AGENT: "{ maxIterations: 5 }",
+    });
+    expect(overrides.map((o) => o.path)).toEqual(["agent", "agent.maxRetries"]);
+  });
+
+  it("rejects unknown keys", () => {
+    expect(() => collectEnvOverrides({ MYCLAW__AGENT__MAXITERATONS: "1" })).toThrow(
+      ConfigEnvOverrideError,
+    );
+    expect(() => collectEnvOverrides({ MYCLAW__AGENT__MAXITERATONS: "1" })).toThrow(
+      /"MAXITERATONS" is not a key of agent/,
+    );
+  });
+
+  it("matches record keys case-insensitively against the document", () => {
+    const doc = {
+      providers: { local: { model: "m" } },
+      agent: { toolTimeouts: { bash: 1000 } },
+    };
+    const overrides = collectEnvOverrides(
+      { MYCLAW__PROVIDERS__LOCAL__MODEL: "llama", MYCLAW__AGENT__TOOLTIMEOUTS__BASH: "60000" },
+      doc,
+    );
+    expect(overrides.map((o) => [o.path, o.value])).toEqual(
+      expect.arrayContaining([
+        ["providers.local.model", "llama"],
+        ["agent.toolTimeouts.bash", 60000],
+      ]),
+    );
+  });
+
+  it("rejects upper-case record keys that name no existing key", () => {
+    expect(() => collectEnvOverrides({ MYCLAW__AGENT__TOOLTIMEOUTS__BASH: "60000" }, {})).toThrow(
+      /"BASH" is not a key of agent.toolTimeouts/,
+    );
+    expect(() =>
+      collectEnvOverrides(
+        { MYCLAW__PROVIDERS__LOCAL__MODEL: "llama" },
+        { providers: { local: {}, Local: {} } },
+      ),
+    ).toThrow(/"LOCAL" matches several keys of providers: local, Local/);
+    // Written in its exact case, a new key is taken as is
+    const [o] = collectEnvOverrides({ MYCLAW__AGENT__TOOLTIMEOUTS__bash: "60000" }, {});
+    expect(o.path).toBe("agent.toolTimeouts.bash");
+  });
+
+  it("rejects values that don't match the schema type", () => {
+    expect(() => collectEnvOverrides({ MYCLAW__GATEWAY__PORT: "eighty" })).toThrow(
+      /cannot convert value to number/,
+    );
+    expect(() => collectEnvOverrides({ MYCLAW__LOGGING__REDACTSENSITIVE: "maybe" })).toThrow(
+      ConfigEnvOverrideError,
+    );
+  });
+});
+
+// ── applyEnvOverrides ───────────────────────────────────────────────
+
+describe("applyEnvOverrides", () => {
+  it("creates missing parents without mutating the input", () => {
+    const doc = { provider: { model: "m" } };
+    const out = applyEnvOverrides(doc, collectEnvOverrides({ MYCLAW__GATEWAY__PORT: "9000" }));
+    expect(out).toEqual({ provider: { model: "m" }, gateway: { port: 9000 } });
+    expect(doc).toEqual({ provider: { model: "m" } });
+  });
+});
+
+// ── loadConfig integration ──────────────────────────────────────────
+
+describe("loadConfig env overrides", () => {
+  let tmpDir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-override-test-"));
+    configPath = path.join(tmpDir, "myclaw.json");
+    fs.writeFileSync(
+      configPath,
+      `{
+        provider: { name: "anthropic", model: "m", authProfiles: [{ id: "p", apiKey: "sk-file" }] },
+        agent: { maxIterations: 10 },
+      }`,
+      "utf-8",
+    );
+    clearConfigCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("applies overrides over file values and records origins", () => {
+    const env = { MYCLAW__AGENT__MAXITERATIONS: "40" };
+    const { config, origins } = loadConfig({ configPath, env });
+
+    expect(config.agent?.maxIterations).toBe(40);
+    expect(origins.get("agent.maxIterations")).toEqual({
+      kind: "env",
+      envVar: "MYCLAW__AGENT__MAXITERATIONS",
+    });
+    expect(origins.get("provider.model")).toEqual({ kind: "file", file: configPath });
+    expect(origins.get("agent.maxRetries")).toEqual({ kind: "default" });
+  });
+
+  it("overrides existing record entries whatever the env var's case", () => {
+    fs.writeFileSync(
+      configPath,
+      `{
+        provider: { name: "anthropic", model: "m", authProfiles: [{ id: "p", apiKey: "sk-file" }] },
+        providers: { local: { name: "ollama", model: "llama3", authProfiles: [{ id: "l", apiKey: "k" }] } },
+        agent: { toolTimeouts: { bash: 1000 } },
+      }`,
+      "utf-8",
+    );
+    const env = { MYCLAW__PROVIDERS__LOCAL__MODEL: "llama3.1", MYCLAW__AGENT__TOOLTIMEOUTS__BASH: "60000" };
+    const { config } = loadConfig({ configPath, env });
+
+    expect(config.providers).toEqual({ local: expect.objectContaining({ model: "llama3.1" }) });
+    expect(config.agent?.toolTimeouts).toEqual({ bash: 60000 });
+  });
+
+  it("does not substitute ${VAR} inside override values", () => {
+    const env = { MYCLAW__PROVIDER__MODEL: "${NOT_A_VAR}" };
+    expect(loadConfig({ configPath, env }).config.provider.model).toBe("${NOT_A_VAR}");
+  });
+
+  it("names the env var in validation issues and redacts sensitive values", () => {
+    const env = { MYCLAW__PROVIDER__BASEURL: "not a url", MYCLAW__GATEWAY__TOKEN: "tok-secret" };
+    try {
+      loadConfig({ configPath, env });
+      expect.fail("should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigValidationError);
+      const issue = (err as ConfigValidationError).issues[0];
+      expect(issue.message).toContain("(set by MYCLAW__PROVIDER__BASEURL)");
+    }
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * `MYCLAW__SECTION__KEY=value` env overrides for any config path.
+ *
+ * Segments are separated by `__` and matched against the schema
+ * case-insensitively (single `_` inside a segment is ignored), so both
+ * `MYCLAW__AGENT__MAXITERATIONS` and `MYCLAW__AGENT__MAX_ITERATIONS` target
+ * `agent.maxIterations`. Numeric segments index arrays:
+ * `MYCLAW__PROVIDER__AUTHPROFILES__0__APIKEY`. Record keys match the keys
+ * already in the file case-insensitively (`MYCLAW__PROVIDERS__LOCAL__MODEL`
+ * targets `providers.local`); an all-upper-case segment naming no existing
+ * key is rejected rather than guessed.
+ *
+ * Values are coerced using the schema type at the path — numbers, booleans
+ * (`true`/`false`/`1`/`0`/`yes`/`no`), strings and enums as-is, objects and
+ * arrays as JSON5. An unknown path or a value that can't be coerced throws
+ * `ConfigEnvOverrideError` (a typo should not be silently ignored).
+ *
+ * @example
+ * ```sh
+ * MYCLAW__AGENT__MAXITERATIONS=40
+ * MYCLAW__PROVIDER__MODEL=claude-opus-4-20250514
+ * MYCLAW__CHANNELS__TELEGRAM__ALLOWEDCHATIDS='["123", "456"]'
+ * ```
+ */
+
+import JSON5 from "json5";
+import { z } from "zod";
+
+import { formatConfigPath } from "./config-path.js";
+import { ConfigEnvOverrideError } from "./errors.js";
+import { MyClawConfigSchema } from "./schema.js";
+import { unwrapSchema } from "./sensitive.js";
+
+export const ENV_OVERRIDE_PREFIX = "MYCLAW__";
+export const ENV_OVERRIDE_SEPARATOR = "__";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ConfigEnvOverride {
+  /** The env var name, e.g. `MYCLAW__AGENT__MAXITERATIONS`. */
+  envVar: string;
+  /** Canonical config path, e.g. `agent.maxIterations`. */
+  path: string;
+  segments: Array<string | number>;
+  /** Value after coercion. */
+  value: unknown;
+}
+
+// ── Path resolution ─────────────────────────────────────────────────
+
+function normalizeKey(key: string): string {
+  return key.replace(/_/g, "").toLowerCase();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Pick the record key an env segment means. Env var names are usually all
+ * upper case, so keys already in the document match case-insensitively; a
+ * new key is taken as written only if the segment's case says something
+ * (it has lower-case letters, or no letters at all).
+ */
+function resolveRecordKey(envVar: string, raw: string, node: unknown, at: string): string {
+  const existing = isPlainObject(node) ? Object.keys(node) : [];
+  const matches = existing.filter((k) => k.toLowerCase() === raw.toLowerCase());
+  if (matches.includes(raw)) return raw;
+  if (matches.length > 1) {
+    throw new ConfigEnvOverrideError(envVar, `"${raw}" matches several keys of ${at}: ${matches.join(", ")}`);
+  }
+  if (matches.length === 1) return matches[0];
+  if (raw === raw.toUpperCase() && raw !== raw.toLowerCase()) {
+    throw new ConfigEnvOverrideError(
+      envVar,
+      `"${raw}" is not a key of ${at} — to add a key, write the segment in the key's exact case`,
+    );
+  }
+  return raw;
+}
+
+function resolveSegments(
+  envVar: string,
+  rawSegments: string[],
+  root: z.ZodType,
+  doc: unknown,
+): { segments: Array<string | number>; schema: z.ZodType } {
+  const segments: Array<string | number> = [];
+  let current = root;
+  // The document value at `segments`, for matching record keys
+  let node = doc;
+
+  for (const raw of rawSegments) {
+    const { schema } = unwrapSchema(current);
+    const at = formatConfigPath(segments) || "(root)";
+
+    if (schema instanceof z.ZodObject) {
+      const shape = schema.shape as Record<string, z.ZodType>;
+      const key = Object.keys(shape).find((k) => normalizeKey(k) === normalizeKey(raw));
+      if (!key) {
+        throw new ConfigEnvOverrideError(envVar, `"${raw}" is not a key of ${at}`);
+      }
+      segments.push(key);
+      current = shape[key];
+      node = isPlainObject(node) ? node[key] : undefined;
+    } else if (schema instanceof z.ZodArray) {
+      if (!/^\d+$/.test(raw)) {
+        throw new ConfigEnvOverrideError(envVar, `${at} is an array — expected an index, got "${raw}"`);
+      }
+      segments.push(Number(raw));
+      current = schema.element as z.ZodType;
+      node = Array.isArray(node) ? node[Number(raw)] : undefined;
+    } else if (schema instanceof z.ZodRecord) {
+      const key = resolveRecordKey(envVar, raw, node, at);
+      segments.push(key);
+      current = schema.valueType as z.ZodType;
+      node = isPlainObject(node) ? node[key] : undefined;
+    } else {
+      throw new ConfigEnvOverrideError(envVar, `${at} has no nested keys`);
+    }
+  }
+
+  return { segments, schema: current };
+}
+
+// ── Coercion ────────────────────────────────────────────────────────
+
+const TRUE_VALUES = new Set(["true", "1", "yes", "on"]);
+const FALSE_VALUES = new Set(["false", "0", "no", "off"]);
+
+/**
+ * Convert an env string to the type the schema expects.
+ * Returns `undefined` if it can't be converted.
+ */
+function coerceValue(raw: string, schema: z.ZodType): unknown {
+  const { schema: inner } = unwrapSchema(schema);
+
+  if (inner instanceof z.ZodNumber) {
+    const n = Number(raw.trim());
+    return raw.trim() !== "" && Number.isFinite(n) ? n : undefined;
+  }
+  if (inner instanceof z.ZodBoolean) {
+    const v = raw.trim().toLowerCase();
+    if (TRUE_VALUES.has(v)) return true;
+    if (FALSE_VALUES.has(v)) return false;
+    return undefined;
+  }
+  if (inner instanceof z.ZodString || inner instanceof z.ZodEnum) {
+    return raw;
+  }
+  if (inner instanceof z.ZodUnion) {
+    for (const option of inner.options as z.ZodType[]) {
+      const value = coerceValue(raw, option);
+      if (value !== undefined && option.safeParse(value).success) return value;
+    }
+    return raw;
+  }
+  if (inner instanceof z.ZodObject || inner instanceof z.ZodArray || inner instanceof z.ZodRecord) {
+    try {
+      return JSON5.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  return raw;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Collect every `MYCLAW__...` override from `env`, resolved against the
+ * schema and coerced. Sorted by depth, so parents apply before children.
+ * Record keys (`providers.<name>`, `agent.toolTimeouts.<tool>`) are matched
+ * case-insensitively against the keys already in `doc`, the document the
+ * overrides will be applied to.
+ *
+ * @throws {ConfigEnvOverrideError} For unknown paths, ambiguous record keys,
+ *   or uncoercible values
+ */
+export function collectEnvOverrides(
+  env: NodeJS.ProcessEnv,
+  doc?: unknown,
+  schema: z.ZodType = MyClawConfigSchema,
+): ConfigEnvOverride[] {
+  const overrides: ConfigEnvOverride[] = [];
+
+  for (const [envVar, raw] of Object.entries(env)) {
+    if (!envVar.startsWith(ENV_OVERRIDE_PREFIX) || raw === undefined) continue;
+    const rawSegments = envVar.slice(ENV_OVERRIDE_PREFIX.length).split(ENV_OVERRIDE_SEPARATOR);
+    if (rawSegments.some((s) => s === "")) {
+      throw new ConfigEnvOverrideError(envVar, "empty path segment");
+    }
+
+    const resolved = resolveSegments(envVar, rawSegments, schema, doc);
+    const value = coerceValue(raw, resolved.schema);
+    if (value === undefined) {
+      const expected = unwrapSchema(resolved.schema).schema.type;
+      throw new ConfigEnvOverrideError(envVar, `cannot convert value to ${expected}`);
+    }
+
+    overrides.push({
+      envVar,
+      path: formatConfigPath(resolved.segments),
+      segments: resolved.segments,
+      value,
+    });
+  }
+
+  return overrides.sort((a, b) => a.segments.length - b.segments.length);
+}
+
+/**
+ * Return a copy of `doc` with the overrides applied, creating missing
+ * parent objects/arrays.
+ */
+export function applyEnvOverrides(doc: unknown, overrides: readonly ConfigEnvOverride[]): unknown {
+  if (overrides.length === 0) return doc;
+  const root = structuredClone(doc ?? {}) as Record<string | number, unknown>;
+
+  for (const { segments, value } of overrides) {
+    let parent = root;
+    segments.forEach((seg, i) => {
+      if (i === segments.length - 1) {
+        parent[seg] = structuredClone(value);
+        return;
+      }
+      const next = parent[seg];
+      if (typeof next !== "object" || next === null) {
+        parent[seg] = typeof segments[i + 1] === "number" ? [] : {};
+      }
+      parent = parent[seg] as Record<string | number, unknown>;
+    });
+  }
+
+  return root;
+}
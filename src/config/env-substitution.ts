@@ -1,27 +1,40 @@
 /**
- * Environment variable substitution for config values.
+ * Environment variable and secret-reference substitution for config values.
  *
  * Supports `${VAR_NAME}` syntax in string values, substituted at config load time.
  * - Only uppercase env vars are matched: `[A-Z_][A-Z0-9_]*`
  * - Escape with `$${VAR}` to output literal `${VAR}`
  * - Missing env vars throw `MissingEnvVarError` with context path
  *
+ * Also supports `${scheme:reference}` for registered secret resolvers
+ * (`${file:...}`, `${cmd:...}` built in — see `secret-resolvers.ts`).
+ * - Same escape rule: `$${file:...}` outputs literal `${file:...}`
+ * - Unregistered schemes pass through unchanged
+ * - Resolver failures throw `SecretResolutionError` with context path
+ *
  * @example
  * ```json5
  * {
  *   provider: {
  *     authProfiles: [
  *       { id: "primary", apiKey: "${ANTHROPIC_API_KEY}" },
+ *       { id: "docker", apiKey: "${file:/run/secrets/anthropic}" },
+ *       { id: "pass", apiKey: "${cmd:pass show anthropic}" },
  *     ],
  *   },
  * }
  * ```
  */
 
+import { getSecretResolver, type SecretResolver } from "./secret-resolvers.js";
+
 /** Pattern for valid uppercase env var names. */
 const ENV_VAR_NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
 
-// ── Error ───────────────────────────────────────────────────────────
+/** Pattern for `scheme:reference` bodies. */
+const SECRET_REF_PATTERN = /^([a-z][a-z0-9_-]*):([\s\S]+)$/;
+
+// ── Errors ──────────────────────────────────────────────────────────
 
 export class MissingEnvVarError extends Error {
   constructor(
@@ -33,11 +46,109 @@ export class MissingEnvVarError extends Error {
   }
 }
 
+export class SecretResolutionError extends Error {
+  constructor(
+    public readonly scheme: string,
+    public readonly reference: string,
+    public readonly configPath: string,
+    public readonly detail: string,
+  ) {
+    super(
+      `Failed to resolve secret "\${${scheme}:${reference}}" referenced at config path: ${configPath} (${detail})`,
+    );
+    this.name = "SecretResolutionError";
+  }
+}
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ResolvedReference {
+  /** Config path of the string containing the reference. */
+  configPath: string;
+  /** `"env"` for `${VAR}`, otherwise the resolver scheme. */
+  scheme: string;
+  /** Env var name or resolver reference. */
+  reference: string;
+  /** The substituted value. */
+  value: string;
+}
+
+export interface SubstitutionOptions {
+  /**
+   * Base directory for relative secret references — fixed, or per config
+   * path (e.g. the directory of the `$include`d file). Default: `process.cwd()`.
+   */
+  baseDir?: string | ((configPath: string) => string);
+  /** Resolver lookup. Default: the global registry. */
+  getResolver?: (scheme: string) => SecretResolver | undefined;
+  /** Called for every substituted reference (env and secret). */
+  onResolved?: (resolved: ResolvedReference) => void;
+}
+
+interface SubstitutionContext {
+  env: NodeJS.ProcessEnv;
+  baseDir: (configPath: string) => string;
+  getResolver: (scheme: string) => SecretResolver | undefined;
+  onResolved?: (resolved: ResolvedReference) => void;
+}
+
+// ── Reference matching ──────────────────────────────────────────────
+
+type Reference =
+  | { kind: "env"; name: string }
+  | { kind: "secret"; scheme: string; reference: string; resolver: SecretResolver };
+
+/** Classify a `${...}` body, or `undefined` if it is not a recognized reference. */
+function matchReference(
+  body: string,
+  getResolver: (scheme: string) => SecretResolver | undefined,
+): Reference | undefined {
+  if (ENV_VAR_NAME_PATTERN.test(body)) return { kind: "env", name: body };
+  const m = body.match(SECRET_REF_PATTERN);
+  if (m) {
+    const resolver = getResolver(m[1]);
+    if (resolver) return { kind: "secret", scheme: m[1], reference: m[2], resolver };
+  }
+  return undefined;
+}
+
+function resolveReference(ref: Reference, ctx: SubstitutionContext, configPath: string): string {
+  if (ref.kind === "env") {
+    const envValue = ctx.env[ref.name];
+    if (envValue === undefined || envValue === "") {
+      throw new MissingEnvVarError(ref.name, configPath);
+    }
+    ctx.onResolved?.({ configPath, scheme: "env", reference: ref.name, value: envValue });
+    return envValue;
+  }
+
+  let value: string;
+  try {
+    value = ref.resolver(ref.reference, {
+      configPath,
+      env: ctx.env,
+      baseDir: ctx.baseDir(configPath),
+    });
+  } catch (err) {
+    throw new SecretResolutionError(
+      ref.scheme,
+      ref.reference,
+      configPath,
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+  if (typeof value !== "string" || value === "") {
+    throw new SecretResolutionError(ref.scheme, ref.reference, configPath, "resolved to an empty value");
+  }
+  ctx.onResolved?.({ configPath, scheme: ref.scheme, reference: ref.reference, value });
+  return value;
+}
+
 // ── String substitution ─────────────────────────────────────────────
 
 function substituteString(
   value: string,
-  env: NodeJS.ProcessEnv,
+  ctx: SubstitutionContext,
   configPath: string,
 ): string {
   if (!value.includes("$")) return value;
@@ -54,32 +165,28 @@ function substituteString(
     const next = value[i + 1];
     const afterNext = value[i + 2];
 
-    // Escaped: $${VAR} → literal ${VAR}
+    // Escaped: $${VAR} / $${scheme:ref} → literal ${...}
     if (next === "$" && afterNext === "{") {
       const start = i + 3;
       const end = value.indexOf("}", start);
       if (end !== -1) {
-        const name = value.slice(start, end);
-        if (ENV_VAR_NAME_PATTERN.test(name)) {
-          chunks.push(`\${${name}}`);
+        const body = value.slice(start, end);
+        if (matchReference(body, ctx.getResolver)) {
+          chunks.push(`\${${body}}`);
           i = end;
           continue;
         }
       }
     }
 
-    // Substitution: ${VAR} → env value
+    // Substitution: ${VAR} → env value, ${scheme:ref} → resolver value
     if (next === "{") {
       const start = i + 2;
       const end = value.indexOf("}", start);
       if (end !== -1) {
-        const name = value.slice(start, end);
-        if (ENV_VAR_NAME_PATTERN.test(name)) {
-          const envValue = env[name];
-          if (envValue === undefined || envValue === "") {
-            throw new MissingEnvVarError(name, configPath);
-          }
-          chunks.push(envValue);
+        const ref = matchReference(value.slice(start, end), ctx.getResolver);
+        if (ref) {
+          chunks.push(resolveReference(ref, ctx, configPath));
           i = end;
           continue;
         }
@@ -99,12 +206,14 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-/**
- * Check if a string contains any `${VAR}` references (without substituting).
- */
-export function containsEnvVarReference(value: string): boolean {
-  if (!value.includes("$")) return false;
+/** Collect the unescaped references in a string (without resolving them). */
+function scanReferences(
+  value: string,
+  getResolver: (scheme: string) => SecretResolver | undefined,
+): Reference[] {
+  if (!value.includes("$")) return [];
 
+  const refs: Reference[] = [];
   for (let i = 0; i < value.length; i++) {
     const char = value[i];
     if (char !== "$") continue;
@@ -112,16 +221,13 @@ export function containsEnvVarReference(value: string): boolean {
     const next = value[i + 1];
     const afterNext = value[i + 2];
 
-    // Skip escaped: $${VAR}
+    // Skip escaped: $${...}
     if (next === "$" && afterNext === "{") {
       const start = i + 3;
       const end = value.indexOf("}", start);
-      if (end !== -1) {
-        const name = value.slice(start, end);
-        if (ENV_VAR_NAME_PATTERN.test(name)) {
-          i = end;
-          continue;
-        }
+      if (end !== -1 && matchReference(value.slice(start, end), getResolver)) {
+        i = end;
+        continue;
       }
     }
 
@@ -130,37 +236,53 @@ export function containsEnvVarReference(value: string): boolean {
       const start = i + 2;
       const end = value.indexOf("}", start);
       if (end !== -1) {
-        const name = value.slice(start, end);
-        if (ENV_VAR_NAME_PATTERN.test(name)) {
-          return true;
+        const ref = matchReference(value.slice(start, end), getResolver);
+        if (ref) {
+          refs.push(ref);
+          i = end;
         }
       }
     }
   }
 
-  return false;
+  return refs;
+}
+
+/**
+ * Check if a string contains any `${VAR}` references (without substituting).
+ */
+export function containsEnvVarReference(value: string): boolean {
+  return scanReferences(value, getSecretResolver).some((r) => r.kind === "env");
+}
+
+/**
+ * Check if a string contains any `${scheme:ref}` secret references for
+ * registered resolvers (without resolving them).
+ */
+export function containsSecretReference(value: string): boolean {
+  return scanReferences(value, getSecretResolver).some((r) => r.kind === "secret");
 }
 
 // ── Deep walk ───────────────────────────────────────────────────────
 
 function substituteAny(
   value: unknown,
-  env: NodeJS.ProcessEnv,
+  ctx: SubstitutionContext,
   path: string,
 ): unknown {
   if (typeof value === "string") {
-    return substituteString(value, env, path);
+    return substituteString(value, ctx, path);
   }
 
   if (Array.isArray(value)) {
-    return value.map((item, index) => substituteAny(item, env, `${path}[${index}]`));
+    return value.map((item, index) => substituteAny(item, ctx, `${path}[${index}]`));
   }
 
   if (isPlainObject(value)) {
     const result: Record<string, unknown> = {};
     for (const [key, val] of Object.entries(value)) {
       const childPath = path ? `${path}.${key}` : key;
-      result[key] = substituteAny(val, env, childPath);
+      result[key] = substituteAny(val, ctx, childPath);
     }
     return result;
   }
@@ -172,16 +294,27 @@ function substituteAny(
 // ── Public API ──────────────────────────────────────────────────────
 
 /**
- * Resolve `${VAR_NAME}` environment variable references in config values.
+ * Resolve `${VAR_NAME}` environment variable and `${scheme:ref}` secret
+ * references in config values.
  *
- * @param obj - Parsed config object (after JSON5 parse)
- * @param env - Environment variables to use for substitution (defaults to process.env)
- * @returns Config object with env vars substituted
+ * @param obj     - Parsed config object (after JSON5 parse)
+ * @param env     - Environment variables to use for substitution (defaults to process.env)
+ * @param options - Secret resolver base dir / lookup / resolution callback
+ * @returns Config object with references substituted
  * @throws {MissingEnvVarError} If a referenced env var is not set or empty
+ * @throws {SecretResolutionError} If a secret resolver fails or returns an empty value
  */
 export function resolveConfigEnvVars(
   obj: unknown,
   env: NodeJS.ProcessEnv = process.env,
+  options: SubstitutionOptions = {},
 ): unknown {
-  return substituteAny(obj, env, "");
+  const baseDir = options.baseDir ?? process.cwd();
+  const ctx: SubstitutionContext = {
+    env,
+    baseDir: typeof baseDir === "string" ? () => baseDir : baseDir,
+    getResolver: options.getResolver ?? getSecretResolver,
+    onResolved: options.onResolved,
+  };
+  return substituteAny(obj, ctx, "");
 }
@@ -0,0 +1,124 @@
+/**
+ * Error classes for the config layer.
+ *
+ * Every error carries the file it refers to. When the file was pulled in
+ * via `$include`, `includeChain` lists the files from the root config down
+ * to the one that actually failed.
+ */
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function formatIncludeChain(chain: string[]): string {
+  return chain.join(" → ");
+}
+
+// ── Error classes ───────────────────────────────────────────────────
+
+export class ConfigFileNotFoundError extends Error {
+  constructor(public readonly filePath: string) {
+    super(`Config file not found: ${filePath}`);
+    this.name = "ConfigFileNotFoundError";
+  }
+}
+
+export class ConfigParseError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly parseError: string,
+    /** Root config → ... → `filePath`. Single entry when not included. */
+    public readonly includeChain: string[] = [filePath],
+  ) {
+    const via =
+      includeChain.length > 1 ? ` (included via ${formatIncludeChain(includeChain)})` : "";
+    super(`Failed to parse config file ${filePath}${via}: ${parseError}`);
+    this.name = "ConfigParseError";
+  }
+}
+
+export class ConfigIncludeError extends Error {
+  constructor(
+    /** The file containing the offending `$include`. */
+    public readonly filePath: string,
+    public readonly detail: string,
+    /** Root config → ... → `filePath` (plus the target, for cycles). */
+    public readonly includeChain: string[] = [filePath],
+  ) {
+    super(`Invalid $include in ${filePath}: ${detail}\n  chain: ${formatIncludeChain(includeChain)}`);
+    this.name = "ConfigIncludeError";
+  }
+}
+
+export class ConfigEnvSubstitutionError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly detail: string,
+  ) {
+    super(`Env substitution failed for ${filePath}: ${detail}`);
+    this.name = "ConfigEnvSubstitutionError";
+  }
+}
+
+export class ConfigEnvOverrideError extends Error {
+  constructor(
+    /** The `MYCLAW__...` variable name. */
+    public readonly envVar: string,
+    public readonly detail: string,
+  ) {
+    super(`Invalid config override ${envVar}: ${detail}`);
+    this.name = "ConfigEnvOverrideError";
+  }
+}
+
+export class ConfigVersionError extends Error {
+  constructor(
+    public readonly filePath: string,
+    /** The `version` value found in the file. */
+    public readonly version: unknown,
+    /** Highest version this build can read. */
+    public readonly supportedVersion: number,
+  ) {
+    const detail =
+      typeof version === "number" && Number.isInteger(version) && version > supportedVersion
+        ? `was written for config version ${version}, but this build of MyClaw supports up to version ${supportedVersion} — upgrade MyClaw to use it`
+        : `has an invalid "version": ${JSON.stringify(version)} (expected a positive integer)`;
+    super(`Config file ${filePath} ${detail}`);
+    this.name = "ConfigVersionError";
+  }
+}
+
+export class ConfigMigrationError extends Error {
+  constructor(
+    public readonly filePath: string,
+    /** Version the failing step upgrades from. */
+    public readonly fromVersion: number,
+    public readonly detail: string,
+  ) {
+    super(`Config migration v${fromVersion} → v${fromVersion + 1} failed for ${filePath}: ${detail}`);
+    this.name = "ConfigMigrationError";
+  }
+}
+
+export interface ConfigIssue {
+  path: PropertyKey[];
+  message: string;
+  /** File the offending value came from (differs from the root when included). */
+  filePath?: string;
+  /** Root config → ... → `filePath`. */
+  includeChain?: string[];
+}
+
+export class ConfigValidationError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly issues: ConfigIssue[],
+  ) {
+    const summary = issues
+      .map((i) => {
+        const source = i.filePath && i.filePath !== filePath ? ` (in ${i.filePath})` : "";
+        return `  - ${i.path.join(".")}: ${i.message}${source}`;
+      })
+      .join("\n");
+    super(`Config validation failed for ${filePath}:\n${summary}`);
+    this.name = "ConfigValidationError";
+  }
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  resolveConfigIncludes,
+  lookupConfigSource,
+  MAX_INCLUDE_DEPTH,
+} from "./includes.js";
+import { formatConfigPath, parseConfigPath } from "./config-path.js";
+import { ConfigIncludeError, ConfigParseError } from "./errors.js";
+
+// ── Test helpers ────────────────────────────────────────────────────
+
+let tmpDir: string;
+
+function writeFile(name: string, content: string): string {
+  const filePath = path.join(tmpDir, name);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, "utf-8");
+  return filePath;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-include-test-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── formatConfigPath ────────────────────────────────────────────────
+
+describe("formatConfigPath", () => {
+  it("formats keys with dots and indices with brackets", () => {
+    expect(formatConfigPath(["provider", "authProfiles", 0, "apiKey"])).toBe(
+      "provider.authProfiles[0].apiKey",
+    );
+  });
+
+  it("returns empty string for the root", () => {
+    expect(formatConfigPath([])).toBe("");
+  });
+
+  it("round-trips with parseConfigPath", () => {
+    const segments = ["provider", "authProfiles", 1, "apiKey"];
+    expect(parseConfigPath(formatConfigPath(segments))).toEqual(segments);
+    expect(parseConfigPath("")).toEqual([]);
+  });
+});
+
+// ── resolveConfigIncludes ───────────────────────────────────────────
+
+describe("resolveConfigIncludes", () => {
+  it("passes through configs without $include", () => {
+    const root = path.join(tmpDir, "myclaw.json");
+    const input = { provider: { name: "anthropic" } };
+    const { value, files } = resolveConfigIncludes(input, root);
+    expect(value).toEqual(input);
+    expect(files).toEqual([root]);
+  });
+
+  it("merges a single included file at the root", () => {
+    writeFile("provider.json5", `{ provider: { name: "anthropic", model: "m" } }`);
+    const root = path.join(tmpDir, "myclaw.json");
+
+    const { value, files } = resolveConfigIncludes(
+      { $include: "./provider.json5", agent: { maxIterations: 5 } },
+      root,
+    );
+
+    expect(value).toEqual({
+      provider: { name: "anthropic", model: "m" },
+      agent: { maxIterations: 5 },
+    });
+    expect(files).toEqual([root, path.join(tmpDir, "provider.json5")]);
+  });
+
+  it("merges an array of includes in order (later wins)", () => {
+    writeFile("a.json5", `{ agent: { maxIterations: 1, maxRetries: 1 } }`);
+    writeFile("b.json5", `{ agent: { maxIterations: 2 } }`);
+
+    const { value } = resolveConfigIncludes(
+      { $include: ["a.json5", "b.json5"] },
+      path.join(tmpDir, "myclaw.json"),
+    );
+
+    expect(value).toEqual({ agent: { maxIterations: 2, maxRetries: 1 } });
+  });
+
+  it("lets the including file override included values", () => {
+    writeFile("base.json5", `{ logging: { level: "debug", redactSensitive: false } }`);
+
+    const { value } = resolveConfigIncludes(
+      { $include: "base.json5", logging: { level: "warn" } },
+      path.join(tmpDir, "myclaw.json"),
+    );
+
+    expect(value).toEqual({ logging: { level: "warn", redactSensitive: false } });
+  });
+
+  it("replaces arrays instead of concatenating them", () => {
+    writeFile("p.json5", `{ authProfiles: [{ id: "a", apiKey: "1" }, { id: "b", apiKey: "2" }] }`);
+
+    const { value } = resolveConfigIncludes(
+      { provider: { $include: "p.json5", authProfiles: [{ id: "c", apiKey: "3" }] } },
+      path.join(tmpDir, "myclaw.json"),
+    );
+
+    expect(value).toEqual({ provider: { authProfiles: [{ id: "c", apiKey: "3" }] } });
+  });
+
+  it("supports $include in nested objects", () => {
+    writeFile("secrets/telegram.json5", `{ botToken: "\${TELEGRAM_BOT_TOKEN}" }`);
+
+    const { value } = resolveConfigIncludes(
+      { channels: { telegram: { $include: "secrets/telegram.json5" } } },
+      path.join(tmpDir, "myclaw.json"),
+    );
+
+    expect(value).toEqual({ channels: { telegram: { botToken: "${TELEGRAM_BOT_TOKEN}" } } });
+  });
+
+  it("resolves nested include paths relative to the including file", () => {
+    writeFile("conf/a.json5", `{ $include: "./b.json5", agent: { maxRetries: 1 } }`);
+    writeFile("conf/b.json5", `{ agent: { maxIterations: 9 } }`);
+
+    const { value, files } = resolveConfigIncludes(
+      { $include: "conf/a.json5" },
+      path.join(tmpDir, "myclaw.json"),
+    );
+
+    expect(value).toEqual({ agent: { maxIterations: 9, maxRetries: 1 } });
+    expect(files).toContain(path.join(tmpDir, "conf", "b.json5"));
+  });
+
+  it("detects include cycles with the full chain", () => {
+    const root = path.join(tmpDir, "myclaw.json");
+    writeFile("a.json5", `{ $include: "b.json5" }`);
+    writeFile("b.json5", `{ $include: "a.json5" }`);
+
+    try {
+      resolveConfigIncludes({ $include: "a.json5" }, root);
+      expect.fail("should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigIncludeError);
+      const e = err as ConfigIncludeError;
+      expect(e.message).toContain("cycle");
+      expect(e.includeChain).toEqual([
+        root,
+        path.join(tmpDir, "a.json5"),
+        path.join(tmpDir, "b.json5"),
+        path.join(tmpDir, "a.json5"),
+      ]);
+    }
+  });
+
+  it("rejects includes nested deeper than MAX_INCLUDE_DEPTH", () => {
+    for (let i = 0; i <= MAX_INCLUDE_DEPTH; i++) {
+      writeFile(`d${i}.json5`, `{ $include: "d${i + 1}.json5" }`);
+    }
+    writeFile(`d${MAX_INCLUDE_DEPTH + 1}.json5`, `{}`);
+
+    expect(() =>
+      resolveConfigIncludes({ $include: "d0.json5" }, path.join(tmpDir, "myclaw.json")),
+    ).toThrow(/deeper than/);
+  });
+
+  it("throws ConfigIncludeError for a missing included file", () => {
+    expect(() =>
+      resolveConfigIncludes({ $include: "nope.json5" }, path.join(tmpDir, "myclaw.json")),
+    ).toThrow(ConfigIncludeError);
+  });
+
+  it("throws ConfigIncludeError for a non-string spec", () => {
+    expect(() =>
+      resolveConfigIncludes({ $include: 42 }, path.join(tmpDir, "myclaw.json")),
+    ).toThrow(ConfigIncludeError);
+  });
+
+  it("throws ConfigIncludeError when an included file is not an object", () => {
+    writeFile("list.json5", `[1, 2, 3]`);
+    expect(() =>
+      resolveConfigIncludes({ $include: "list.json5" }, path.join(tmpDir, "myclaw.json")),
+    ).toThrow(ConfigIncludeError);
+  });
+
+  it("throws ConfigParseError pointing at the included file", () => {
+    const root = path.join(tmpDir, "myclaw.json");
+    const bad = writeFile("bad.json5", `{ not valid !!`);
+
+    try {
+      resolveConfigIncludes({ $include: "bad.json5" }, root);
+      expect.fail("should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigParseError);
+      const e = err as ConfigParseError;
+      expect(e.filePath).toBe(bad);
+      expect(e.includeChain).toEqual([root, bad]);
+    }
+  });
+});
+
+// ── lookupConfigSource ──────────────────────────────────────────────
+
+describe("lookupConfigSource", () => {
+  it("maps values to the file that introduced them", () => {
+    const root = path.join(tmpDir, "myclaw.json");
+    const inc = writeFile("provider.json5", `{ provider: { authProfiles: [{ id: "p", apiKey: "k" }] } }`);
+
+    const { sources } = resolveConfigIncludes(
+      { $include: "provider.json5", provider: { name: "anthropic" } },
+      root,
+    );
+
+    expect(lookupConfigSource(sources, "provider.name")).toEqual([root]);
+    expect(lookupConfigSource(sources, "provider.authProfiles[0].apiKey")).toEqual([root, inc]);
+    expect(lookupConfigSource(sources, "agent.maxIterations")).toEqual([root]);
+  });
+
+  it("attributes replaced values to the overriding file", () => {
+    const root = path.join(tmpDir, "myclaw.json");
+    writeFile("p.json5", `{ authProfiles: [{ id: "a", apiKey: "1" }] }`);
+
+    const { sources } = resolveConfigIncludes(
+      { provider: { $include: "p.json5", authProfiles: [{ id: "c", apiKey: "3" }] } },
+      root,
+    );
+
+    expect(lookupConfigSource(sources, "provider.authProfiles[0].apiKey")).toEqual([root]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * `$include` directive — split myclaw.json across several JSON5 files.
+ *
+ * Any object in the config may carry an `$include` key (a path or an array
+ * of paths). Paths are resolved relative to the file that contains them.
+ * Included files are deep-merged in order, then the object's own keys are
+ * merged on top — so the including file always wins.
+ *
+ * Merge rules: objects merge recursively; arrays and primitives replace.
+ *
+ * @example
+ * ```json5
+ * // myclaw.json
+ * {
+ *   $include: ["./provider.json5", "./secrets/channels.json5"],
+ *   agent: { maxIterations: 40 },
+ * }
+ * ```
+ *
+ * Runs before env-var substitution, so included files may use `${VAR}`.
+ * Cycles and nesting deeper than `MAX_INCLUDE_DEPTH` throw `ConfigIncludeError`.
+ *
+ * A `$schema` key at the root of any file (editor hint) is dropped here,
+ * so the strict schemas never see it.
+ */
+
+import JSON5 from "json5";
+import fs from "node:fs";
+import path from "node:path";
+
+import { ConfigIncludeError, ConfigParseError } from "./errors.js";
+
+export const INCLUDE_KEY = "$include";
+/** JSON Schema reference for editors; ignored at the root of every config file. */
+export const SCHEMA_KEY = "$schema";
+export const MAX_INCLUDE_DEPTH = 10;
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/**
+ * Maps a config path (`provider.authProfiles[0].apiKey`) to the include
+ * chain of the file that set it (root first). Only the paths where a value
+ * was introduced are recorded — use `lookupConfigSource()` to resolve
+ * nested paths.
+ */
+export type ConfigSourceMap = Map<string, string[]>;
+
+export interface ResolveIncludesResult {
+  /** Config object with all `$include` directives merged away. */
+  value: unknown;
+  /** Where each value came from. */
+  sources: ConfigSourceMap;
+  /** Every file read, root first (useful for watching). */
+  files: string[];
+}
+
+interface ResolveContext {
+  /** Include chain of the file currently being walked (root first). */
+  chain: string[];
+  sources: ConfigSourceMap;
+  files: string[];
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function childPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Find the include chain for a config path by walking up to the nearest
+ * recorded ancestor. Returns `undefined` if nothing was recorded.
+ * Works for any map keyed by config path.
+ */
+export function lookupConfigSource<T = string[]>(
+  sources: Map<string, T>,
+  configPath: string,
+): T | undefined {
+  let current = configPath;
+  while (current) {
+    const hit = sources.get(current);
+    if (hit) return hit;
+    const cut = Math.max(current.lastIndexOf("."), current.lastIndexOf("["));
+    current = cut > 0 ? current.slice(0, cut) : "";
+  }
+  return sources.get("");
+}
+
+/** Drop recorded sources under `prefix` (its value was replaced wholesale). */
+function clearSources(sources: ConfigSourceMap, prefix: string): void {
+  for (const key of sources.keys()) {
+    if (key === prefix || key.startsWith(`${prefix}.`) || key.startsWith(`${prefix}[`)) {
+      sources.delete(key);
+    }
+  }
+}
+
+function omitSchemaKey(value: Record<string, unknown>): Record<string, unknown> {
+  if (!(SCHEMA_KEY in value)) return value;
+  const { [SCHEMA_KEY]: _schema, ...rest } = value;
+  return rest;
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, val] of Object.entries(override)) {
+    result[key] = key in result ? deepMerge(result[key], val) : val;
+  }
+  return result;
+}
+
+// ── Include loading ─────────────────────────────────────────────────
+
+function parseIncludeSpec(spec: unknown, ctx: ResolveContext): string[] {
+  const currentFile = ctx.chain[ctx.chain.length - 1];
+  const list = typeof spec === "string" ? [spec] : spec;
+  if (
+    !Array.isArray(list) ||
+    list.some((p) => typeof p !== "string" || p.trim() === "")
+  ) {
+    throw new ConfigIncludeError(
+      currentFile,
+      `${INCLUDE_KEY} must be a non-empty string or an array of non-empty strings`,
+      ctx.chain,
+    );
+  }
+  return list as string[];
+}
+
+function loadIncludedFile(
+  includePath: string,
+  configPath: string,
+  ctx: ResolveContext,
+): Record<string, unknown> {
+  const currentFile = ctx.chain[ctx.chain.length - 1];
+  const target = path.resolve(path.dirname(currentFile), includePath);
+  const chain = [...ctx.chain, target];
+
+  if (ctx.chain.includes(target)) {
+    throw new ConfigIncludeError(currentFile, `include cycle detected at "${includePath}"`, chain);
+  }
+  if (chain.length - 1 > MAX_INCLUDE_DEPTH) {
+    throw new ConfigIncludeError(
+      currentFile,
+      `includes nested deeper than ${MAX_INCLUDE_DEPTH} levels`,
+      chain,
+    );
+  }
+  if (!fs.existsSync(target)) {
+    throw new ConfigIncludeError(currentFile, `included file not found: ${target}`, chain);
+  }
+
+  const raw = fs.readFileSync(target, "utf-8");
+  let parsed: unknown;
+  try {
+    parsed = JSON5.parse(raw);
+  } catch (err) {
+    throw new ConfigParseError(target, err instanceof Error ? err.message : String(err), chain);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new ConfigIncludeError(
+      currentFile,
+      `included file must contain an object: ${target}`,
+      chain,
+    );
+  }
+
+  if (!ctx.files.includes(target)) ctx.files.push(target);
+  return resolveNode(omitSchemaKey(parsed), configPath, { ...ctx, chain }) as Record<string, unknown>;
+}
+
+// ── Deep walk ───────────────────────────────────────────────────────
+
+function resolveNode(value: unknown, configPath: string, ctx: ResolveContext): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveNode(item, `${configPath}[${index}]`, ctx));
+  }
+
+  if (!isPlainObject(value)) return value;
+
+  // 1. Included files, merged in order
+  let base: Record<string, unknown> = {};
+  if (INCLUDE_KEY in value) {
+    for (const includePath of parseIncludeSpec(value[INCLUDE_KEY], ctx)) {
+      const included = loadIncludedFile(includePath, configPath, ctx);
+      base = deepMerge(base, included) as Record<string, unknown>;
+    }
+  }
+
+  // 2. Own keys on top
+  const own: Record<string, unknown> = {};
+  for (const [key, val] of Object.entries(value)) {
+    if (key === INCLUDE_KEY) continue;
+    const p = childPath(configPath, key);
+    if (key in base && !(isPlainObject(base[key]) && isPlainObject(val))) {
+      clearSources(ctx.sources, p);
+    }
+    ctx.sources.set(p, ctx.chain);
+    own[key] = resolveNode(val, p, ctx);
+  }
+
+  return deepMerge(base, own);
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Resolve all `$include` directives in a parsed config.
+ *
+ * @param parsed   - Root config object (after JSON5 parse)
+ * @param filePath - Absolute path of the root config file
+ * @throws {ConfigIncludeError} On cycles, excessive depth, bad specs or missing files
+ * @throws {ConfigParseError} If an included file is not valid JSON5
+ */
+export function resolveConfigIncludes(parsed: unknown, filePath: string): ResolveIncludesResult {
+  const sources: ConfigSourceMap = new Map([["", [filePath]]]);
+  const ctx: ResolveContext = { chain: [filePath], sources, files: [filePath] };
+  const value = resolveNode(isPlainObject(parsed) ? omitSchemaKey(parsed) : parsed, "", ctx);
+  return { value, sources, files: ctx.files };
+}
@@ -13,33 +13,117 @@
 
 export {
   loadConfig,
+  loadConfigFromText,
   clearConfigCache,
   scaffoldConfigIfMissing,
   ConfigFileNotFoundError,
   ConfigParseError,
+  ConfigIncludeError,
   ConfigEnvSubstitutionError,
+  ConfigEnvOverrideError,
+  ConfigVersionError,
+  ConfigMigrationError,
   ConfigValidationError,
   MissingEnvVarError,
+  SecretResolutionError,
+  type ConfigIssue,
   type LoadConfigOptions,
   type ConfigResult,
 } from "./loader.js";
 
+export {
+  resolveConfigIncludes,
+  lookupConfigSource,
+  INCLUDE_KEY,
+  SCHEMA_KEY,
+  MAX_INCLUDE_DEPTH,
+  type ConfigSourceMap,
+  type ResolveIncludesResult,
+} from "./includes.js";
+
+export {
+  watchConfig,
+  diffConfigSections,
+  CONFIG_SECTIONS,
+  type ConfigSection,
+  type ConfigWatchEvent,
+  type ConfigWatchCallback,
+  type WatchConfigOptions,
+  type ConfigWatcher,
+} from "./watcher.js";
+
 export {
   MyClawConfigSchema,
   type MyClawConfig,
   type AuthProfile,
   type ProviderConfig,
+  type ProviderRule,
+  type ProviderFallback,
   type TelegramChannelConfig,
   type ChannelsConfig,
   type GatewayConfig,
   type AgentConfig,
+  type ToolPolicyConfig,
+  type ToolRule,
+  type ToolApprovalConfig,
+  type ToolApprovalPattern,
+  type PatchFuzzConfig,
+  type CassetteConfig,
   type LoggingConfig,
 } from "./schema.js";
 
+export { formatConfigPath, parseConfigPath, getConfigValue } from "./config-path.js";
+
+export {
+  collectEnvOverrides,
+  applyEnvOverrides,
+  ENV_OVERRIDE_PREFIX,
+  ENV_OVERRIDE_SEPARATOR,
+  type ConfigEnvOverride,
+} from "./env-overrides.js";
+
+export {
+  buildConfigOrigins,
+  formatConfigOrigin,
+  type ConfigValueOrigin,
+  type ConfigOriginMap,
+  type BuildOriginsInput,
+} from "./origins.js";
+
+export {
+  migrateConfig,
+  readConfigVersion,
+  currentConfigVersion,
+  registerConfigMigration,
+  listConfigMigrations,
+  resetConfigMigrations,
+  writeMigratedConfig,
+  BASE_CONFIG_VERSION,
+  VERSION_KEY,
+  type ConfigDocument,
+  type ConfigMigration,
+  type ConfigMigrationReport,
+  type MigrateConfigResult,
+} from "./migrations.js";
+
+export {
+  buildConfigJsonSchema,
+  writeConfigJsonSchema,
+  CONFIG_SCHEMA_FILENAME,
+} from "./json-schema.js";
+
+export {
+  setJson5Value,
+  unsetJson5Value,
+  locateJson5Path,
+  type Json5Location,
+} from "./json5-edit.js";
+
 export {
   resolveStateDir,
   resolveConfigPath,
   resolveWorkspaceDir,
+  resolveUserPath,
   resolveSessionsDir,
   resolveLogsDir,
   resolveGatewayPort,
@@ -52,16 +136,55 @@ export {
 export {
   resolveConfigEnvVars,
   containsEnvVarReference,
+  containsSecretReference,
+  type ResolvedReference,
+  type SubstitutionOptions,
 } from "./env-substitution.js";
 
+export {
+  registerSecretResolver,
+  unregisterSecretResolver,
+  getSecretResolver,
+  listSecretResolverSchemes,
+  resetSecretResolvers,
+  fileSecretResolver,
+  cmdSecretResolver,
+  SECRET_SCHEME_PATTERN,
+  CMD_RESOLVER_TIMEOUT_MS,
+  type SecretResolver,
+  type SecretResolverContext,
+} from "./secret-resolvers.js";
+
+export {
+  isSensitiveConfigPath,
+  getSchemaAtPath,
+  unwrapSchema,
+  SENSITIVE_TAG,
+} from "./sensitive.js";
+
+export {
+  redactConfig,
+  collectSecrets,
+  redactSecrets,
+  listSensitivePaths,
+  findSensitiveValues,
+  REDACTED_PLACEHOLDER,
+  MIN_SCRUB_SECRET_LENGTH,
+} from "./redact.js";
+
 export {
   applyAllDefaults,
   applyAgentDefaults,
   applyGatewayDefaults,
   applyLoggingDefaults,
   DEFAULT_MODEL,
+  DEFAULT_PROVIDER_NAME,
   DEFAULT_MAX_ITERATIONS,
   DEFAULT_MAX_RETRIES,
   DEFAULT_MAX_TOOL_RESULT_CHARS,
+  DEFAULT_MAX_PARALLEL_TOOLS,
+  DEFAULT_TOOL_TIMEOUT_MS,
+  DEFAULT_COMPACTION_MODE,
+  DEFAULT_PATCH_FUZZ,
   DEFAULT_LOG_LEVEL,
 } from "./defaults.js";
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  buildConfigJsonSchema,
+  writeConfigJsonSchema,
+  CONFIG_SCHEMA_FILENAME,
+} from "./json-schema.js";
+
+type Node = {
+  properties: Record<string, Node & Record<string, unknown>>;
+  items?: Node;
+  else?: { required: string[] };
+  required?: string[];
+  [key: string]: unknown;
+};
+
+const schema = buildConfigJsonSchema() as unknown as Node;
+
+// ── buildConfigJsonSchema ───────────────────────────────────────────
+
+describe("buildConfigJsonSchema", () => {
+  it("is a draft-07 document for the root config", () => {
+    expect(schema.$schema).toBe("http://json-schema.org/draft-07/schema#");
+    expect(schema.title).toBe("MyClaw configuration");
+    expect(Object.keys(schema.properties)).toEqual(
+      expect.arrayContaining(["provider", "channels", "gateway", "agent", "logging"]),
+    );
+    expect(schema.additionalProperties).toBe(false);
+  });
+
+  it("carries field descriptions from the Zod schema", () => {
+    const gateway = schema.properties.gateway;
+    expect(gateway.properties.port.description).toMatch(/listen port/);
+    expect(schema.properties.provider.description).toBeTruthy();
+  });
+
+  it("marks sensitive fields", () => {
+    const profile = schema.properties.provider.properties.authProfiles.items!;
+    expect(profile.properties.apiKey.sensitive).toBe(true);
+    expect(profile.properties.id.sensitive).toBeUndefined();
+    expect(schema.properties.gateway.properties.token.sensitive).toBe(true);
+    expect(
+      schema.properties.channels.properties.telegram.properties.botToken.sensitive,
+    ).toBe(true);
+  });
+
+  it("allows $schema at the root and $include in every object", () => {
+    expect(schema.properties.$schema).toMatchObject({ type: "string" });
+    expect(schema.properties.$include).toBeDefined();
+    expect(schema.properties.provider.properties.$include).toBeDefined();
+    expect(schema.properties.logging.properties.$include).toBeDefined();
+  });
+
+  it("only requires keys when the object has no $include", () => {
+    const provider = schema.properties.provider;
+    expect(provider.required).toBeUndefined();
+    expect(provider.if).toEqual({ required: ["$include"] });
+    expect(provider.else).toEqual({ required: ["name", "model", "authProfiles"] });
+  });
+});
+
+// ── writeConfigJsonSchema ───────────────────────────────────────────
+
+describe("writeConfigJsonSchema", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-schema-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("writes myclaw.schema.json into the directory", () => {
+    const filePath = writeConfigJsonSchema(tmpDir);
+    expect(filePath).toBe(path.join(tmpDir, CONFIG_SCHEMA_FILENAME));
+    expect(JSON.parse(fs.readFileSync(filePath, "utf-8"))).toEqual(buildConfigJsonSchema());
+  });
+});
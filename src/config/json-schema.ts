@@ -0,0 +1,84 @@
+/**
+ * JSON Schema export for myclaw.json — editor autocomplete and inline
+ * validation.
+ *
+ * Generated from `MyClawConfigSchema`, so it never drifts from the Zod
+ * schema: field descriptions come from `.meta({ description })` and
+ * sensitive fields carry `"sensitive": true`. Every object also accepts the
+ * `$include` directive (required keys are only enforced without it), and
+ * the root accepts `$schema`.
+ *
+ * @example
+ * ```json5
+ * // ~/.myclaw/myclaw.json
+ * {
+ *   $schema: "./myclaw.schema.json",
+ *   provider: { ... },
+ * }
+ * ```
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+import { INCLUDE_KEY, SCHEMA_KEY } from "./includes.js";
+import { MyClawConfigSchema } from "./schema.js";
+
+/** File name written next to myclaw.json and referenced by `$schema`. */
+export const CONFIG_SCHEMA_FILENAME = "myclaw.schema.json";
+
+type JsonSchema = Record<string, unknown>;
+
+const INCLUDE_PROPERTY: JsonSchema = {
+  description: "Path(s) of JSON5 files to merge into this object, relative to this file.",
+  anyOf: [
+    { type: "string", minLength: 1 },
+    { type: "array", items: { type: "string", minLength: 1 } },
+  ],
+};
+
+/**
+ * Build the JSON Schema (draft-07) document for myclaw.json.
+ */
+export function buildConfigJsonSchema(): JsonSchema {
+  const schema = z.toJSONSchema(MyClawConfigSchema, {
+    target: "draft-7",
+    // Describe what users write, not what the loader returns
+    io: "input",
+    override: (ctx) => {
+      const json = ctx.jsonSchema as JsonSchema;
+      const properties = json.properties as Record<string, JsonSchema> | undefined;
+      if (json.type !== "object" || !properties) return;
+
+      properties[INCLUDE_KEY] = INCLUDE_PROPERTY;
+      // Required keys may come from an included file — only enforce them without `$include`
+      if (Array.isArray(json.required)) {
+        json.if = { required: [INCLUDE_KEY] };
+        json.else = { required: json.required };
+        delete json.required;
+      }
+    },
+  }) as JsonSchema;
+
+  const { $schema, properties, ...rest } = schema;
+  return {
+    $schema,
+    title: "MyClaw configuration",
+    ...rest,
+    properties: {
+      [SCHEMA_KEY]: { type: "string", description: "JSON Schema reference for editors." },
+      ...(properties as Record<string, JsonSchema>),
+    },
+  };
+}
+
+/**
+ * Write `myclaw.schema.json` into `dir` (normally the config directory).
+ * Returns the written file path.
+ */
+export function writeConfigJsonSchema(dir: string): string {
+  const filePath = path.join(dir, CONFIG_SCHEMA_FILENAME);
+  fs.writeFileSync(filePath, JSON.stringify(buildConfigJsonSchema(), null, 2) + "\n", "utf-8");
+  return filePath;
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import JSON5 from "json5";
+
+import { setJson5Value, unsetJson5Value, locateJson5Path } from "./json5-edit.js";
+
+const source = `// MyClaw configuration
+{
+  provider: {
+    name: "anthropic", // the vendor
+    model: "claude-sonnet-4-20250514",
+    authProfiles: [
+      { id: "primary", apiKey: "\${ANTHROPIC_API_KEY}" },
+    ],
+  },
+
+  // gateway: { port: 18789 },
+}
+`;
+
+// ── locateJson5Path ─────────────────────────────────────────────────
+
+describe("locateJson5Path", () => {
+  it("returns 1-based line/column of the key", () => {
+    expect(locateJson5Path(source, ["provider", "model"])).toEqual({ line: 5, column: 5, matched: 2 });
+  });
+
+  it("locates array items", () => {
+    expect(locateJson5Path(source, ["provider", "authProfiles", 0, "apiKey"])).toEqual({
+      line: 7,
+      column: 24,
+      matched: 4,
+    });
+  });
+
+  it("falls back to the deepest existing ancestor", () => {
+    expect(locateJson5Path(source, ["provider", "baseUrl"])).toEqual({ line: 3, column: 3, matched: 1 });
+  });
+
+  it("ignores keys inside comments", () => {
+    expect(locateJson5Path(source, ["gateway"]).matched).toBe(0);
+  });
+});
+
+// ── setJson5Value ───────────────────────────────────────────────────
+
+describe("setJson5Value", () => {
+  it("replaces an existing value and keeps comments", () => {
+    const out = setJson5Value(source, ["provider", "model"], "claude-opus");
+    expect(out).toBe(source.replace("claude-sonnet-4-20250514", "claude-opus"));
+  });
+
+  it("replaces values inside arrays", () => {
+    const out = setJson5Value(source, ["provider", "authProfiles", 0, "apiKey"], "${OTHER}");
+    expect(JSON5.parse(out).provider.authProfiles[0].apiKey).toBe("${OTHER}");
+    expect(out).toContain("// the vendor");
+  });
+
+  it("creates missing parent objects", () => {
+    const out = setJson5Value(source, ["gateway", "port"], 9000);
+    expect(JSON5.parse(out).gateway).toEqual({ port: 9000 });
+    expect(out).toContain("  gateway: {\n    port: 9000,\n  },\n");
+    expect(out).toContain("// gateway: { port: 18789 },");
+  });
+
+  it("inserts after a same-line comment, not before it", () => {
+    const text = `{\n  a: 1, // one\n}`;
+    expect(setJson5Value(text, ["b"], 2)).toBe(`{\n  a: 1, // one\n  b: 2,\n}`);
+  });
+
+  it("follows the file's comma style", () => {
+    const text = `{\n  a: 1\n}`;
+    expect(setJson5Value(text, ["b"], 2)).toBe(`{\n  a: 1,\n  b: 2\n}`);
+  });
+
+  it("keeps plain JSON files quoted", () => {
+    const text = `{\n  "a": 1\n}`;
+    expect(setJson5Value(text, ["b", "c"], "x")).toBe(`{\n  "a": 1,\n  "b": {\n    "c": "x"\n  }\n}`);
+  });
+
+  it("handles inline and empty objects", () => {
+    expect(setJson5Value(`{ a: 1 }`, ["b"], 2)).toBe(`{ a: 1, b: 2 }`);
+    expect(setJson5Value(`{}`, ["a"], 1)).toBe(`{ a: 1 }`);
+  });
+
+  it("appends to arrays at index === length", () => {
+    const out = setJson5Value(source, ["provider", "authProfiles", 1], { id: "b", apiKey: "k" });
+    expect(JSON5.parse(out).provider.authProfiles).toHaveLength(2);
+  });
+
+  it("rejects out-of-range indices and paths through scalars", () => {
+    expect(() => setJson5Value(source, ["provider", "authProfiles", 5], {})).toThrow(/out of range/);
+    expect(() => setJson5Value(source, ["provider", "name", "x"], 1)).toThrow(/not an object/);
+  });
+});
+
+// ── unsetJson5Value ─────────────────────────────────────────────────
+
+describe("unsetJson5Value", () => {
+  it("removes the whole line including its comment", () => {
+    const out = unsetJson5Value(source, ["provider", "name"]);
+    expect(out).not.toContain("anthropic");
+    expect(out).not.toContain("// the vendor");
+    expect(out).toContain("// MyClaw configuration");
+    expect(JSON5.parse(out!).provider.model).toBe("claude-sonnet-4-20250514");
+  });
+
+  it("removes inline members", () => {
+    expect(unsetJson5Value(`{ a: 1, b: 2 }`, ["a"])).toBe(`{ b: 2 }`);
+    expect(unsetJson5Value(`{ a: 1, b: 2 }`, ["b"])).toBe(`{ a: 1 }`);
+  });
+
+  it("keeps the previous entry's comment when a block comment follows the last entry", () => {
+    expect(unsetJson5Value(`{ a: 1, // one\n b: { x: 1 } /* blk */ }`, ["b"])).toBe(
+      `{ a: 1 // one\n /* blk */ }`,
+    );
+    expect(unsetJson5Value(`{ a: 1, /* one */ b: 2 /* two */ }`, ["b"])).toBe(
+      `{ a: 1 /* one */ /* two */ }`,
+    );
+  });
+
+  it("drops the dangling comma in JSON-style files", () => {
+    expect(unsetJson5Value(`{\n  "a": 1,\n  "b": 2\n}`, ["b"])).toBe(`{\n  "a": 1\n}`);
+  });
+
+  it("returns undefined when the path is absent", () => {
+    expect(unsetJson5Value(source, ["gateway", "port"])).toBeUndefined();
+  });
+});
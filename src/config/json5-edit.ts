@@ -0,0 +1,446 @@
+/**
+ * Comment-preserving edits to JSON5 config text.
+ *
+ * `JSON5.parse()` throws away comments and layout, so round-tripping the
+ * parsed object would wipe the user's annotations. Instead, a small
+ * position-tracking parser maps every key and value to its offsets in the
+ * source, and edits splice only the affected span — everything else
+ * (comments, quoting, trailing commas, blank lines) is left untouched.
+ *
+ * Input must already be valid JSON5 (run `JSON5.parse()` first).
+ *
+ * @example
+ * ```ts
+ * setJson5Value(text, ["gateway", "port"], 9000);
+ * unsetJson5Value(text, ["channels", "telegram"]);
+ * locateJson5Path(text, ["provider", "model"]); // { line: 4, column: 5, matched: 2 }
+ * ```
+ */
+
+import JSON5 from "json5";
+
+import { formatConfigPath } from "./config-path.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+type PathSegment = string | number;
+
+interface Json5Scalar {
+  kind: "scalar";
+  start: number;
+  end: number;
+}
+
+/** A key/value pair or an array item, with its separator. */
+interface Json5Entry {
+  /** Offset of the key (members) or of the value (array items). */
+  start: number;
+  /** `undefined` for array items. */
+  key?: string;
+  /** Whether the key was written in quotes. */
+  quotedKey?: boolean;
+  value: Json5Node;
+  /** Offset just past the trailing comma, if there is one. */
+  commaEnd?: number;
+}
+
+interface Json5Container {
+  kind: "object" | "array";
+  start: number;
+  end: number;
+  entries: Json5Entry[];
+}
+
+type Json5Node = Json5Scalar | Json5Container;
+
+export interface Json5Location {
+  /** 1-based. */
+  line: number;
+  /** 1-based. */
+  column: number;
+  /** How many leading path segments exist in the text. */
+  matched: number;
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// ── Parser ──────────────────────────────────────────────────────────
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function parseDocument(text: string): Json5Node {
+  let pos = 0;
+
+  const fail = (what: string): never => {
+    throw new Error(`Unexpected ${what} at offset ${pos}`);
+  };
+
+  const skipTrivia = (): void => {
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (/\s/.test(ch)) {
+        pos++;
+      } else if (text.startsWith("//", pos)) {
+        const nl = text.indexOf("\n", pos);
+        pos = nl === -1 ? text.length : nl;
+      } else if (text.startsWith("/*", pos)) {
+        const close = text.indexOf("*/", pos + 2);
+        if (close === -1) fail("unterminated comment");
+        pos = close + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const scanString = (): void => {
+    const quote = text[pos++];
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === "\\") pos += 2;
+      else if (ch === quote) {
+        pos++;
+        return;
+      } else pos++;
+    }
+    fail("end of string");
+  };
+
+  const parseKey = (): { key: string; quoted: boolean } => {
+    const start = pos;
+    const ch = text[pos];
+    if (ch === '"' || ch === "'") {
+      scanString();
+      return { key: JSON5.parse(text.slice(start, pos)) as string, quoted: true };
+    }
+    while (pos < text.length && !/[\s:/]/.test(text[pos])) pos++;
+    const raw = text.slice(start, pos);
+    if (!raw) fail("token");
+    // Unquoted keys may contain \uXXXX escapes
+    const key = raw.includes("\\") ? Object.keys(JSON5.parse(`{${raw}:0}`) as object)[0] : raw;
+    return { key, quoted: false };
+  };
+
+  const parseContainer = (kind: "object" | "array"): Json5Container => {
+    const start = pos++;
+    const close = kind === "object" ? "}" : "]";
+    const entries: Json5Entry[] = [];
+
+    for (;;) {
+      skipTrivia();
+      if (pos >= text.length) fail("end of input");
+      if (text[pos] === close) break;
+
+      const entryStart = pos;
+      let key: { key: string; quoted: boolean } | undefined;
+      if (kind === "object") {
+        key = parseKey();
+        skipTrivia();
+        if (text[pos] !== ":") fail(`"${text[pos] ?? "end of input"}"`);
+        pos++;
+      }
+      const value = parseValue();
+      const entry: Json5Entry = { start: entryStart, key: key?.key, quotedKey: key?.quoted, value };
+
+      skipTrivia();
+      if (text[pos] === ",") {
+        pos++;
+        entry.commaEnd = pos;
+      }
+      entries.push(entry);
+    }
+
+    pos++;
+    return { kind, start, end: pos, entries };
+  };
+
+  const parseValue = (): Json5Node => {
+    skipTrivia();
+    const ch = text[pos];
+    if (ch === "{") return parseContainer("object");
+    if (ch === "[") return parseContainer("array");
+
+    const start = pos;
+    if (ch === '"' || ch === "'") scanString();
+    else while (pos < text.length && !/[\s,\]}/]/.test(text[pos])) pos++;
+    if (pos === start) fail("token");
+    return { kind: "scalar", start, end: pos };
+  };
+
+  const root = parseValue();
+  skipTrivia();
+  if (pos < text.length) fail("trailing content");
+  return root;
+}
+
+// ── Lookup ──────────────────────────────────────────────────────────
+
+function findEntry(node: Json5Node, seg: PathSegment): Json5Entry | undefined {
+  if (node.kind === "object" && typeof seg === "string") {
+    // Duplicate keys: the last one wins, as in JSON5.parse()
+    return node.entries.findLast((e) => e.key === seg);
+  }
+  if (node.kind === "array" && typeof seg === "number") {
+    return node.entries[seg];
+  }
+  return undefined;
+}
+
+function offsetToLocation(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - (before.lastIndexOf("\n") + 1) + 1 };
+}
+
+/**
+ * Find where a config path is written in JSON5 text. If the full path is
+ * not present, returns the location of the deepest ancestor that is
+ * (`matched` tells how many segments were found).
+ */
+export function locateJson5Path(text: string, segments: readonly PathSegment[]): Json5Location {
+  let node = parseDocument(text);
+  let offset = node.start;
+  let matched = 0;
+
+  for (const seg of segments) {
+    const entry = findEntry(node, seg);
+    if (!entry) break;
+    offset = entry.start;
+    node = entry.value;
+    matched++;
+  }
+
+  return { ...offsetToLocation(text, offset), matched };
+}
+
+// ── Formatting helpers ──────────────────────────────────────────────
+
+function lineStart(text: string, offset: number): number {
+  return text.lastIndexOf("\n", offset - 1) + 1;
+}
+
+function lineIndent(text: string, offset: number): string {
+  const start = lineStart(text, offset);
+  return text.slice(start).match(/^[ \t]*/)![0];
+}
+
+/**
+ * From `offset`, skip spaces and a same-line comment. Returns the offset of
+ * the line break, or `undefined` if other content follows on the line.
+ */
+function endOfLine(text: string, offset: number): number | undefined {
+  let pos = offset;
+  while (text[pos] === " " || text[pos] === "\t") pos++;
+  if (text.startsWith("//", pos)) {
+    const nl = text.indexOf("\n", pos);
+    pos = nl === -1 ? text.length : nl;
+  }
+  if (pos === text.length) return pos;
+  if (text[pos] === "\n") return pos;
+  if (text.startsWith("\r\n", pos)) return pos;
+  return undefined;
+}
+
+/** Every key in the document is quoted → the file is plain JSON; keep it that way. */
+function usesQuotedKeys(root: Json5Node): boolean {
+  let keys = 0;
+  const allQuoted = (node: Json5Node): boolean =>
+    node.kind === "scalar" ||
+    node.entries.every((e) => {
+      if (e.key !== undefined) keys++;
+      return (e.key === undefined || e.quotedKey === true) && allQuoted(e.value);
+    });
+  return allQuoted(root) && keys > 0;
+}
+
+function serializeValue(value: unknown, indent: string, quoteKeys: boolean): string {
+  const out = quoteKeys
+    ? JSON.stringify(value, null, 2)
+    : JSON5.stringify(value, { space: 2, quote: '"' });
+  if (out === undefined) throw new Error("Value is not serializable");
+  return out.split("\n").join(`\n${indent}`);
+}
+
+function serializeKey(key: string, quoteKeys: boolean): string {
+  return quoteKeys || !IDENTIFIER.test(key) ? JSON.stringify(key) : key;
+}
+
+/** Apply edits back to front; at equal offsets, later edits end up after earlier ones. */
+function applyEdits(text: string, edits: TextEdit[]): string {
+  let out = text;
+  for (const edit of [...edits].reverse().sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+  return out;
+}
+
+/** Wrap `value` in objects/arrays for the path segments that don't exist yet. */
+function buildNested(rest: readonly PathSegment[], value: unknown, at: string): unknown {
+  return rest.reduceRight<unknown>((inner, seg) => {
+    if (typeof seg === "number") {
+      if (seg !== 0) throw new Error(`Cannot create "${at}": index ${seg} out of range`);
+      return [inner];
+    }
+    return { [seg]: inner };
+  }, value);
+}
+
+// ── Edits ───────────────────────────────────────────────────────────
+
+function insertEntry(
+  text: string,
+  container: Json5Container,
+  key: string | undefined,
+  value: unknown,
+  quoteKeys: boolean,
+): string {
+  const { entries } = container;
+  const last = entries[entries.length - 1];
+  const multiline = last
+    ? text.slice(container.start, last.start).includes("\n")
+    : text.slice(container.start, container.end).includes("\n");
+  const indent = last && multiline ? lineIndent(text, last.start) : `${lineIndent(text, container.start)}  `;
+  const entryText =
+    (key === undefined ? "" : `${serializeKey(key, quoteKeys)}: `) +
+    serializeValue(value, indent, quoteKeys);
+
+  // Empty container
+  if (!last) {
+    if (multiline) {
+      const comma = quoteKeys ? "" : ",";
+      return applyEdits(text, [
+        { start: container.start + 1, end: container.start + 1, text: `\n${indent}${entryText}${comma}` },
+      ]);
+    }
+    return applyEdits(text, [
+      { start: container.start + 1, end: container.end - 1, text: ` ${entryText} ` },
+    ]);
+  }
+
+  const trailingComma = last.commaEnd !== undefined;
+  const afterLast = last.commaEnd ?? last.value.end;
+  const edits: TextEdit[] = [];
+
+  if (multiline) {
+    // Insert after any comment on the last entry's line, matching its comma style
+    const eol = endOfLine(text, afterLast) ?? afterLast;
+    if (!trailingComma) edits.push({ start: last.value.end, end: last.value.end, text: "," });
+    edits.push({ start: eol, end: eol, text: `\n${indent}${entryText}${trailingComma ? "," : ""}` });
+  } else if (trailingComma) {
+    edits.push({ start: afterLast, end: afterLast, text: ` ${entryText},` });
+  } else {
+    edits.push({ start: afterLast, end: afterLast, text: `, ${entryText}` });
+  }
+
+  return applyEdits(text, edits);
+}
+
+function removeEntry(text: string, container: Json5Container, index: number): string {
+  const entry = container.entries[index];
+  const prev = container.entries[index - 1];
+  const isLast = index === container.entries.length - 1;
+  const entryEnd = entry.commaEnd ?? entry.value.end;
+  const edits: TextEdit[] = [];
+
+  const start = lineStart(text, entry.start);
+  const ownLine = text.slice(start, entry.start).trim() === "";
+  const eol = endOfLine(text, entryEnd);
+
+  if (ownLine && eol !== undefined) {
+    // Drop the whole line, including a trailing comment
+    const after = text.startsWith("\r\n", eol) ? eol + 2 : eol + 1;
+    edits.push({ start, end: Math.min(after, text.length), text: "" });
+    // JSON-style (no trailing commas): the new last entry must lose its comma
+    if (isLast && entry.commaEnd === undefined && prev?.commaEnd !== undefined) {
+      edits.push({ start: prev.commaEnd - 1, end: prev.commaEnd, text: "" });
+    }
+  } else if (entry.commaEnd !== undefined) {
+    let end = entry.commaEnd;
+    while (text[end] === " " || text[end] === "\t") end++;
+    edits.push({ start: entry.start, end, text: "" });
+  } else if (prev?.commaEnd !== undefined) {
+    // Drop the previous entry's comma and this entry (with the blanks before it on its
+    // line) — not what lies between, which may be the previous entry's comment
+    let entryStart = entry.start;
+    while (entryStart > prev.commaEnd && " \t".includes(text[entryStart - 1])) entryStart--;
+    edits.push({ start: prev.commaEnd - 1, end: prev.commaEnd, text: "" });
+    edits.push({ start: entryStart, end: entryEnd, text: "" });
+  } else {
+    edits.push({ start: entry.start, end: entryEnd, text: "" });
+  }
+
+  return applyEdits(text, edits);
+}
+
+/**
+ * Set the value at a config path, creating missing parent objects/arrays.
+ * Existing values are replaced in place; new keys are appended to the
+ * innermost existing object, following its indentation and comma style.
+ *
+ * @throws If the path runs through a scalar, or an array index is past the end.
+ */
+export function setJson5Value(text: string, segments: readonly PathSegment[], value: unknown): string {
+  if (segments.length === 0) throw new Error("Cannot replace the config root");
+  const root = parseDocument(text);
+  const quoteKeys = usesQuotedKeys(root);
+  let node = root;
+
+  for (let i = 0; i < segments.length; i++) {
+    const seg = segments[i];
+    const at = formatConfigPath(segments.slice(0, i + 1));
+
+    if (node.kind === "scalar") {
+      throw new Error(`Cannot set "${at}": parent is not an object or array`);
+    }
+    if (node.kind === "object" && typeof seg !== "string") {
+      throw new Error(`Cannot set "${at}": parent is an object, not an array`);
+    }
+    if (node.kind === "array" && typeof seg !== "number") {
+      throw new Error(`Cannot set "${at}": parent is an array, not an object`);
+    }
+
+    const entry = findEntry(node, seg);
+    if (!entry) {
+      if (node.kind === "array" && seg !== node.entries.length) {
+        throw new Error(`Cannot set "${at}": index ${seg} out of range`);
+      }
+      const nested = buildNested(segments.slice(i + 1), value, formatConfigPath(segments));
+      return insertEntry(text, node, node.kind === "object" ? (seg as string) : undefined, nested, quoteKeys);
+    }
+
+    if (i === segments.length - 1) {
+      const indent = lineIndent(text, entry.start);
+      return applyEdits(text, [
+        { start: entry.value.start, end: entry.value.end, text: serializeValue(value, indent, quoteKeys) },
+      ]);
+    }
+    node = entry.value;
+  }
+
+  return text;
+}
+
+/**
+ * Remove the value at a config path (with its comma and same-line comment).
+ * Returns `undefined` if the path is not present in the text.
+ */
+export function unsetJson5Value(text: string, segments: readonly PathSegment[]): string | undefined {
+  if (segments.length === 0) throw new Error("Cannot remove the config root");
+  let node = parseDocument(text);
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    const entry = findEntry(node, segments[i]);
+    if (!entry) return undefined;
+    node = entry.value;
+  }
+
+  if (node.kind === "scalar") return undefined;
+  const last = segments[segments.length - 1];
+  const entry = findEntry(node, last);
+  if (!entry) return undefined;
+  return removeEntry(text, node, node.entries.indexOf(entry));
+}
@@ -9,7 +9,9 @@ import {
   ConfigFileNotFoundError,
   ConfigParseError,
   ConfigValidationError,
+  ConfigIncludeError,
   MissingEnvVarError,
+  SecretResolutionError,
 } from "./loader.js";
 import { DEFAULT_GATEWAY_PORT } from "./paths.js";
 import { DEFAULT_MAX_ITERATIONS, DEFAULT_LOG_LEVEL } from "./defaults.js";
@@ -131,6 +133,33 @@ describe("loadConfig", () => {
     expect(() => loadConfig({ configPath })).toThrow(ConfigValidationError);
   });
 
+  it("ignores $schema at the root of the config and of included files", () => {
+    writeTmpConfig(`{ $schema: "./other.json", name: "anthropic" }`, "provider.json5");
+    const configPath = writeTmpConfig(`{
+      $schema: "./myclaw.schema.json",
+      provider: {
+        $include: "./provider.json5",
+        model: "claude-sonnet-4-20250514",
+        authProfiles: [{ id: "p", apiKey: "k" }],
+      },
+    }`);
+    const { config } = loadConfig({ configPath });
+    expect(config).not.toHaveProperty("$schema");
+    expect(config.provider).not.toHaveProperty("$schema");
+  });
+
+  it("still rejects $schema below the root", () => {
+    const configPath = writeTmpConfig(`{
+      provider: {
+        $schema: "x",
+        name: "anthropic",
+        model: "claude-sonnet-4-20250514",
+        authProfiles: [{ id: "p", apiKey: "k" }],
+      },
+    }`);
+    expect(() => loadConfig({ configPath })).toThrow(ConfigValidationError);
+  });
+
   it("caches config for short TTL", () => {
     const configPath = writeTmpConfig(`{
       provider: {
@@ -215,6 +244,91 @@ describe("loadConfig", () => {
   });
 });
 
+describe("loadConfig $include", () => {
+  it("merges included files before env substitution", () => {
+    writeTmpConfig(
+      `{ authProfiles: [{ id: "primary", apiKey: "\${INCLUDED_KEY}" }] }`,
+      "auth.json5",
+    );
+    const configPath = writeTmpConfig(`{
+      provider: {
+        $include: "./auth.json5",
+        name: "anthropic",
+        model: "claude-sonnet-4-20250514",
+      },
+    }`);
+
+    const env = { INCLUDED_KEY: "sk-included" } as NodeJS.ProcessEnv;
+    const { config, files } = loadConfig({ configPath, env });
+    expect(config.provider.authProfiles[0].apiKey).toBe("sk-included");
+    expect(files).toEqual([configPath, path.join(tmpDir, "auth.json5")]);
+  });
+
+  it("points validation issues at the included file", () => {
+    const included = writeTmpConfig(`{ gateway: { port: -5 } }`, "gateway.json5");
+    const configPath = writeTmpConfig(`{
+      $include: "gateway.json5",
+      provider: {
+        name: "anthropic",
+        model: "claude-sonnet-4-20250514",
+        authProfiles: [{ id: "p", apiKey: "k" }],
+      },
+    }`);
+
+    try {
+      loadConfig({ configPath });
+      expect.fail("should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigValidationError);
+      const e = err as ConfigValidationError;
+      expect(e.filePath).toBe(configPath);
+      expect(e.issues[0].filePath).toBe(included);
+      expect(e.issues[0].includeChain).toEqual([configPath, included]);
+      expect(e.message).toContain(`(in ${included})`);
+    }
+  });
+
+  it("throws ConfigIncludeError for include cycles", () => {
+    const configPath = writeTmpConfig(`{ $include: "myclaw.json" }`);
+    expect(() => loadConfig({ configPath })).toThrow(ConfigIncludeError);
+  });
+});
+
+describe("loadConfig secret references", () => {
+  it("resolves ${file:...} relative to the config file", () => {
+    fs.mkdirSync(path.join(tmpDir, "secrets"));
+    fs.writeFileSync(path.join(tmpDir, "secrets", "anthropic"), "sk-from-file\n", "utf-8");
+    const configPath = writeTmpConfig(`{
+      provider: {
+        name: "anthropic",
+        model: "claude-sonnet-4-20250514",
+        authProfiles: [{ id: "p", apiKey: "\${file:secrets/anthropic}" }],
+      },
+    }`);
+
+    const { config } = loadConfig({ configPath });
+    expect(config.provider.authProfiles[0].apiKey).toBe("sk-from-file");
+  });
+
+  it("throws SecretResolutionError with the config path", () => {
+    const configPath = writeTmpConfig(`{
+      provider: {
+        name: "anthropic",
+        model: "claude-sonnet-4-20250514",
+        authProfiles: [{ id: "p", apiKey: "\${file:./missing}" }],
+      },
+    }`);
+
+    try {
+      loadConfig({ configPath });
+      expect.fail("should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(SecretResolutionError);
+      expect((err as SecretResolutionError).configPath).toBe("provider.authProfiles[0].apiKey");
+    }
+  });
+});
+
 describe("scaffoldConfigIfMissing", () => {
   it("creates a default config file", () => {
     const env = { MYCLAW_STATE_DIR: tmpDir } as NodeJS.ProcessEnv;
@@ -227,6 +341,17 @@ describe("scaffoldConfigIfMissing", () => {
     expect(content).toContain("ANTHROPIC_API_KEY");
   });
 
+  it("references a JSON Schema written next to the config", () => {
+    const env = { MYCLAW_STATE_DIR: tmpDir } as NodeJS.ProcessEnv;
+    const configPath = scaffoldConfigIfMissing(env);
+
+    expect(fs.readFileSync(configPath, "utf-8")).toContain(`$schema: "./myclaw.schema.json"`);
+    expect(fs.existsSync(path.join(tmpDir, "myclaw.schema.json"))).toBe(true);
+
+    const { config } = loadConfig({ configPath, env: { ANTHROPIC_API_KEY: "sk-test" } });
+    expect(config.provider.authProfiles[0].apiKey).toBe("sk-test");
+  });
+
   it("does not overwrite existing config", () => {
     const existingPath = writeTmpConfig("{ existing: true }");
     const env = {
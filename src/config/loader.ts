@@ -1,7 +1,9 @@
 /**
  * Config loader — the main entry point for the config layer.
  *
- * Pipeline: read file → JSON5 parse → env-var substitution → Zod validation → apply defaults → cache.
+ * Pipeline: read file → JSON5 parse → `$include` merge → version migrations
+ * → env-var / secret substitution → `MYCLAW__...` overrides → Zod validation
+ * → apply defaults → cache.
  *
  * Uses a short-lived cache (200ms default) so repeated calls in the same
  * request cycle don't re-read the file.
@@ -12,21 +14,66 @@ import fs from "node:fs";
 import path from "node:path";
 
 import { applyAllDefaults } from "./defaults.js";
-import { resolveConfigEnvVars, MissingEnvVarError } from "./env-substitution.js";
+import {
+  resolveConfigEnvVars,
+  MissingEnvVarError,
+  SecretResolutionError,
+} from "./env-substitution.js";
+import {
+  ConfigEnvSubstitutionError,
+  ConfigFileNotFoundError,
+  ConfigParseError,
+  ConfigValidationError,
+} from "./errors.js";
+import { formatConfigPath } from "./config-path.js";
+import { lookupConfigSource, resolveConfigIncludes } from "./includes.js";
+import { applyEnvOverrides, collectEnvOverrides } from "./env-overrides.js";
+import { CONFIG_SCHEMA_FILENAME, writeConfigJsonSchema } from "./json-schema.js";
+import {
+  currentConfigVersion,
+  migrateConfig,
+  writeMigratedConfig,
+  type ConfigDocument,
+  type ConfigMigrationReport,
+  type MigrateConfigResult,
+} from "./migrations.js";
+import { buildConfigOrigins, type ConfigOriginMap } from "./origins.js";
+import { redactSecrets } from "./redact.js";
+import { isSensitiveConfigPath } from "./sensitive.js";
 import { resolveConfigPath, resolveStateDir, ensureDir } from "./paths.js";
 import { MyClawConfigSchema, type MyClawConfig } from "./schema.js";
 
-export { MissingEnvVarError } from "./env-substitution.js";
+export { MissingEnvVarError, SecretResolutionError } from "./env-substitution.js";
+export {
+  ConfigFileNotFoundError,
+  ConfigParseError,
+  ConfigIncludeError,
+  ConfigEnvSubstitutionError,
+  ConfigEnvOverrideError,
+  ConfigVersionError,
+  ConfigMigrationError,
+  ConfigValidationError,
+  type ConfigIssue,
+} from "./errors.js";
 
 // ── Types ───────────────────────────────────────────────────────────
 
 export type LoadConfigOptions = {
   /** Override config file path. */
   configPath?: string;
-  /** Override env vars for `${VAR}` substitution. */
+  /**
+   * Override env vars for `${VAR}` substitution and `MYCLAW__...` overrides
+   * (also passed to secret resolvers).
+   */
   env?: NodeJS.ProcessEnv;
   /** Skip cache and force re-read. */
   noCache?: boolean;
+  /**
+   * Write a migrated config back to the file, keeping the original as
+   * `<file>.v<N>.bak`. Implies `noCache`. Default: `false` — an older file is
+   * migrated in memory and reported as `migration.pending`.
+   */
+  migrate?: boolean;
 };
 
 export type ConfigResult = {
@@ -34,8 +81,21 @@ export type ConfigResult = {
   config: MyClawConfig;
   /** Resolved file path that was loaded. */
   path: string;
+  /** Every file that contributed to the config (root first, then `$include`s). */
+  files: string[];
+  /**
+   * Present when the file was older than the current version and got migrated
+   * (in memory unless `migrate` was set — see `migration.pending`).
+   */
+  migration?: ConfigMigrationReport;
+  /** Where each leaf value came from (file, include, env override, default). */
+  origins: ConfigOriginMap;
 };
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
 // ── Cache ───────────────────────────────────────────────────────────
 
 const CACHE_TTL_MS = 200;
@@ -66,6 +126,7 @@ export function loadConfig(options: LoadConfigOptions = {}): ConfigResult {
   // Check cache
   if (
     !options.noCache &&
+    !options.migrate &&
     cachedResult &&
     cachedPath === configPath &&
     Date.now() - cachedAt < CACHE_TTL_MS
@@ -81,51 +142,154 @@ export function loadConfig(options: LoadConfigOptions = {}): ConfigResult {
 
   const raw = fs.readFileSync(resolvedPath, "utf-8");
 
+  // 2–8. Parse, include, migrate, substitute, override, validate, apply defaults
+  const { result: configResult, document } = runPipeline(raw, resolvedPath, env);
+
+  // 9. Persist migrations on request (single-file configs only — with
+  //    `$include` the upgraded values can't be mapped back to their files)
+  if (configResult.migration) {
+    if (options.migrate && document && configResult.files.length === 1) {
+      configResult.migration.backupPath = writeMigratedConfig(
+        resolvedPath,
+        raw,
+        document.before,
+        document.after,
+        configResult.migration.fromVersion,
+      );
+    } else {
+      configResult.migration.pending = true;
+    }
+  }
+
+  // 10. Cache
+  cachedResult = configResult;
+  cachedAt = Date.now();
+  cachedPath = configPath;
+
+  return configResult;
+}
+
+/**
+ * Run the pipeline (JSON5 → `$include` → migrations → substitution →
+ * overrides → Zod → defaults) on config text that is not (yet) on disk — e.g. an edit about
+ * to be saved. `filePath` anchors relative `$include` / `${file:...}` paths.
+ * Never cached, and migrations are applied in memory only.
+ *
+ * @throws Same errors as `loadConfig()`, except `ConfigFileNotFoundError`.
+ */
+export function loadConfigFromText(
+  raw: string,
+  filePath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): ConfigResult {
+  return runPipeline(raw, filePath, env).result;
+}
+
+function runPipeline(
+  raw: string,
+  filePath: string,
+  env: NodeJS.ProcessEnv,
+): {
+  result: ConfigResult;
+  /** Pre-substitution document before/after migration (when migrations ran). */
+  document?: { before: ConfigDocument; after: ConfigDocument };
+} {
   // 2. Parse JSON5
   let parsed: unknown;
   try {
     parsed = JSON5.parse(raw);
   } catch (err) {
     throw new ConfigParseError(
-      resolvedPath,
+      filePath,
       err instanceof Error ? err.message : String(err),
     );
   }
 
-  // 3. Env-var substitution
+  // 3. Resolve $include directives
+  const included = resolveConfigIncludes(parsed, filePath);
+
+  // 4. Upgrade older documents to the current version
+  let migrated = included.value;
+  let migration: MigrateConfigResult | undefined;
+  if (isPlainObject(included.value)) {
+    migration = migrateConfig(included.value, filePath);
+    migrated = migration.value;
+  }
+
+  // 5. Env-var / secret substitution
+  const resolvedSecrets: string[] = [];
   let substituted: unknown;
   try {
-    substituted = resolveConfigEnvVars(parsed, env);
+    substituted = resolveConfigEnvVars(migrated, env, {
+      // Relative `${file:...}` paths resolve against the file that declared them
+      baseDir: (p) => {
+        const chain = lookupConfigSource(included.sources, p);
+        return path.dirname(chain?.[chain.length - 1] ?? filePath);
+      },
+      onResolved: (r) => {
+        if (isSensitiveConfigPath(r.configPath)) resolvedSecrets.push(r.value);
+      },
+    });
   } catch (err) {
-    if (err instanceof MissingEnvVarError) throw err;
+    if (err instanceof MissingEnvVarError || err instanceof SecretResolutionError) throw err;
     throw new ConfigEnvSubstitutionError(
-      resolvedPath,
+      filePath,
       err instanceof Error ? err.message : String(err),
     );
   }
 
-  // 4. Zod validation
-  const result = MyClawConfigSchema.safeParse(substituted);
+  // 6. `MYCLAW__SECTION__KEY` env overrides
+  const overrides = collectEnvOverrides(env, substituted);
+  for (const o of overrides) {
+    if (isSensitiveConfigPath(o.segments) && typeof o.value === "string") {
+      resolvedSecrets.push(o.value);
+    }
+  }
+  const overridden = applyEnvOverrides(substituted, overrides);
+
+  // 7. Zod validation
+  const result = MyClawConfigSchema.safeParse(overridden);
   if (!result.success) {
-    throw new ConfigValidationError(resolvedPath, result.error.issues);
+    const overrideVars = new Map(overrides.map((o) => [o.path, o.envVar]));
+    const issues = result.error.issues.map((issue) => {
+      const issuePath = formatConfigPath(issue.path);
+      const envVar = lookupConfigSource(overrideVars, issuePath);
+      const chain = lookupConfigSource(included.sources, issuePath);
+      return {
+        path: issue.path,
+        // Resolved sensitive values must never surface in error messages
+        message:
+          redactSecrets(issue.message, resolvedSecrets) + (envVar ? ` (set by ${envVar})` : ""),
+        filePath: chain?.[chain.length - 1] ?? filePath,
+        includeChain: chain ?? [filePath],
+      };
+    });
+    throw new ConfigValidationError(filePath, issues);
   }
 
-  // 5. Apply defaults
+  // 8. Apply defaults
   const config = applyAllDefaults(result.data);
 
-  // 6. Cache
-  const configResult: ConfigResult = { config, path: resolvedPath };
-  cachedResult = configResult;
-  cachedAt = Date.now();
-  cachedPath = configPath;
-
-  return configResult;
+  const origins = buildConfigOrigins({
+    config,
+    validated: result.data,
+    sources: included.sources,
+    overrides: new Map(overrides.map((o) => [o.path, o.envVar])),
+  });
+  const configResult: ConfigResult = { config, path: filePath, files: included.files, origins };
+  if (!migration || migration.report.applied.length === 0) return { result: configResult };
+  configResult.migration = migration.report;
+  return {
+    result: configResult,
+    document: { before: included.value as ConfigDocument, after: migration.value },
+  };
 }
 
 // ── Scaffold ────────────────────────────────────────────────────────
 
 /**
- * Create a default config file if none exists.
+ * Create a default config file if none exists, plus `myclaw.schema.json`
+ * next to it (referenced via `$schema` for editor autocomplete).
  * Returns the path to the (possibly newly created) config file.
  */
 export function scaffoldConfigIfMissing(
@@ -137,9 +301,14 @@ export function scaffoldConfigIfMissing(
   if (fs.existsSync(configPath)) return configPath;
 
   ensureDir(stateDir);
+  ensureDir(path.dirname(configPath));
+  writeConfigJsonSchema(path.dirname(configPath));
 
   const template = `// MyClaw configuration — https://github.com/dmitry-melnishin/my-openclaw
 {
+  $schema: "./${CONFIG_SCHEMA_FILENAME}",
+  version: ${currentConfigVersion()},
+
   provider: {
     name: "anthropic",
     model: "claude-sonnet-4-20250514",
@@ -168,45 +337,3 @@ export function scaffoldConfigIfMissing(
   fs.writeFileSync(configPath, template, "utf-8");
   return configPath;
 }
-
-// ── Error classes ───────────────────────────────────────────────────
-
-export class ConfigFileNotFoundError extends Error {
-  constructor(public readonly filePath: string) {
-    super(`Config file not found: ${filePath}`);
-    this.name = "ConfigFileNotFoundError";
-  }
-}
-
-export class ConfigParseError extends Error {
-  constructor(
-    public readonly filePath: string,
-    public readonly parseError: string,
-  ) {
-    super(`Failed to parse config file ${filePath}: ${parseError}`);
-    this.name = "ConfigParseError";
-  }
-}
-
-export class ConfigEnvSubstitutionError extends Error {
-  constructor(
-    public readonly filePath: string,
-    public readonly detail: string,
-  ) {
-    super(`Env substitution failed for ${filePath}: ${detail}`);
-    this.name = "ConfigEnvSubstitutionError";
-  }
-}
-
-export class ConfigValidationError extends Error {
-  constructor(
-    public readonly filePath: string,
-    public readonly issues: Array<{ path: PropertyKey[]; message: string }>,
-  ) {
-    const summary = issues
-      .map((i) => `  - ${i.path.join(".")}: ${i.message}`)
-      .join("\n");
-    super(`Config validation failed for ${filePath}:\n${summary}`);
-    this.name = "ConfigValidationError";
-  }
-}
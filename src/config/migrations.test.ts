@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import JSON5 from "json5";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  migrateConfig,
+  readConfigVersion,
+  currentConfigVersion,
+  registerConfigMigration,
+  listConfigMigrations,
+  resetConfigMigrations,
+  BASE_CONFIG_VERSION,
+  type ConfigDocument,
+} from "./migrations.js";
+import { ConfigMigrationError, ConfigVersionError } from "./errors.js";
+import { loadConfig, clearConfigCache } from "./loader.js";
+
+// ── Test helpers ────────────────────────────────────────────────────
+
+let tmpDir: string;
+
+/** v1 → v2: `agent.maxLoops` was renamed to `agent.maxIterations`. */
+function registerRenameMigration(): void {
+  registerConfigMigration({
+    from: 1,
+    description: "rename agent.maxLoops → agent.maxIterations",
+    migrate: (doc) => {
+      const agent = doc.agent as Record<string, unknown> | undefined;
+      if (agent && "maxLoops" in agent) {
+        agent.maxIterations = agent.maxLoops;
+        delete agent.maxLoops;
+      }
+      return doc;
+    },
+  });
+}
+
+const v1Config = `// my config
+{
+  provider: {
+    name: "anthropic", // vendor
+    model: "claude-sonnet-4-20250514",
+    authProfiles: [{ id: "p", apiKey: "\${KEY}" }],
+  },
+  agent: {
+    maxLoops: 7, // old name
+  },
+}
+`;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-migrate-test-"));
+  clearConfigCache();
+});
+
+afterEach(() => {
+  resetConfigMigrations();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── readConfigVersion ───────────────────────────────────────────────
+
+describe("readConfigVersion", () => {
+  it("treats documents without a version as the base version", () => {
+    expect(readConfigVersion({}, "c.json")).toBe(BASE_CONFIG_VERSION);
+  });
+
+  it("rejects future versions with a clear error", () => {
+    try {
+      readConfigVersion({ version: currentConfigVersion() + 1 }, "c.json");
+      expect.fail("should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigVersionError);
+      expect((err as Error).message).toMatch(/supports up to version 1 — upgrade MyClaw/);
+    }
+  });
+
+  it("rejects non-integer versions", () => {
+    expect(() => readConfigVersion({ version: "2" }, "c.json")).toThrow(/invalid "version"/);
+    expect(() => readConfigVersion({ version: 0 }, "c.json")).toThrow(ConfigVersionError);
+  });
+});
+
+// ── Registry ────────────────────────────────────────────────────────
+
+describe("migration registry", () => {
+  it("derives the current version from registered steps", () => {
+    expect(currentConfigVersion()).toBe(BASE_CONFIG_VERSION);
+    registerRenameMigration();
+    expect(currentConfigVersion()).toBe(2);
+    expect(listConfigMigrations().map((m) => m.from)).toEqual([1]);
+  });
+
+  it("rejects invalid step versions", () => {
+    expect(() => registerConfigMigration({ from: 0, description: "x", migrate: (d) => d })).toThrow();
+  });
+});
+
+// ── migrateConfig ───────────────────────────────────────────────────
+
+describe("migrateConfig", () => {
+  it("is a no-op for current documents", () => {
+    const doc = { provider: {} };
+    const { value, report } = migrateConfig(doc, "c.json");
+    expect(value).toBe(doc);
+    expect(report.applied).toEqual([]);
+  });
+
+  it("runs steps in order and stamps the new version", () => {
+    registerRenameMigration();
+    registerConfigMigration({
+      from: 2,
+      description: "add logging section",
+      migrate: (doc) => ({ ...doc, logging: { level: "info" } }),
+    });
+
+    const doc: ConfigDocument = { agent: { maxLoops: 3 } };
+    const { value, report } = migrateConfig(doc, "c.json");
+
+    expect(value).toEqual({ agent: { maxIterations: 3 }, logging: { level: "info" }, version: 3 });
+    expect(report).toEqual({
+      fromVersion: 1,
+      toVersion: 3,
+      applied: ["rename agent.maxLoops → agent.maxIterations", "add logging section"],
+    });
+    expect(doc).toEqual({ agent: { maxLoops: 3 } });
+  });
+
+  it("starts from the document's own version", () => {
+    registerRenameMigration();
+    const { report } = migrateConfig({ version: 2 }, "c.json");
+    expect(report.applied).toEqual([]);
+  });
+
+  it("wraps step failures in ConfigMigrationError", () => {
+    registerConfigMigration({
+      from: 1,
+      description: "boom",
+      migrate: () => {
+        throw new Error("bad shape");
+      },
+    });
+    expect(() => migrateConfig({}, "c.json")).toThrow(ConfigMigrationError);
+    expect(() => migrateConfig({}, "c.json")).toThrow(/v1 → v2 failed.*bad shape/);
+  });
+
+  it("fails when a step in the chain is missing", () => {
+    registerConfigMigration({ from: 2, description: "x", migrate: (d) => d });
+    expect(() => migrateConfig({}, "c.json")).toThrow(/no migration registered/);
+  });
+});
+
+// ── loadConfig integration ──────────────────────────────────────────
+
+describe("loadConfig migrations", () => {
+  it("migrates in memory by default and reports the migration as pending", () => {
+    registerRenameMigration();
+    const configPath = path.join(tmpDir, "myclaw.json");
+    fs.writeFileSync(configPath, v1Config, "utf-8");
+
+    const { config, migration } = loadConfig({ configPath, env: { KEY: "k" } });
+
+    expect(config.agent?.maxIterations).toBe(7);
+    expect(migration).toEqual({
+      fromVersion: 1,
+      toVersion: 2,
+      applied: ["rename agent.maxLoops → agent.maxIterations"],
+      pending: true,
+    });
+    expect(fs.readFileSync(configPath, "utf-8")).toBe(v1Config);
+    expect(fs.readdirSync(tmpDir)).toEqual(["myclaw.json"]);
+  });
+
+  it("with migrate, backs up the original and rewrites the file in place", () => {
+    registerRenameMigration();
+    const configPath = path.join(tmpDir, "myclaw.json");
+    fs.writeFileSync(configPath, v1Config, "utf-8");
+    // A cached in-memory result must not stand in for the write-back
+    loadConfig({ configPath, env: { KEY: "k" } });
+
+    const { config, migration } = loadConfig({ configPath, env: { KEY: "k" }, migrate: true });
+
+    expect(config.agent?.maxIterations).toBe(7);
+    expect(migration).toEqual({
+      fromVersion: 1,
+      toVersion: 2,
+      applied: ["rename agent.maxLoops → agent.maxIterations"],
+      backupPath: `${configPath}.v1.bak`,
+    });
+    expect(fs.readFileSync(`${configPath}.v1.bak`, "utf-8")).toBe(v1Config);
+
+    const rewritten = fs.readFileSync(configPath, "utf-8");
+    expect(rewritten).toContain("// my config");
+    expect(rewritten).toContain("// vendor");
+    expect(rewritten).toContain("${KEY}");
+    expect(JSON5.parse(rewritten)).toMatchObject({ version: 2, agent: { maxIterations: 7 } });
+
+    // Second load: already current
+    const again = loadConfig({ configPath, env: { KEY: "k" }, noCache: true });
+    expect(again.migration).toBeUndefined();
+  });
+
+  it("migrates $include configs in memory without touching files", () => {
+    registerRenameMigration();
+    const agentPath = path.join(tmpDir, "agent.json5");
+    fs.writeFileSync(agentPath, `{ maxLoops: 4 }`, "utf-8");
+    const configPath = path.join(tmpDir, "myclaw.json");
+    const root = `{
+      provider: { name: "a", model: "m", authProfiles: [{ id: "p", apiKey: "k" }] },
+      agent: { $include: "./agent.json5" },
+    }`;
+    fs.writeFileSync(configPath, root, "utf-8");
+
+    const { config, migration } = loadConfig({ configPath, migrate: true });
+
+    expect(config.agent?.maxIterations).toBe(4);
+    expect(migration?.backupPath).toBeUndefined();
+    expect(migration?.pending).toBe(true);
+    expect(fs.readFileSync(configPath, "utf-8")).toBe(root);
+    expect(fs.readFileSync(agentPath, "utf-8")).toBe(`{ maxLoops: 4 }`);
+  });
+
+  it("fails with ConfigVersionError for files from a newer build", () => {
+    const configPath = path.join(tmpDir, "myclaw.json");
+    fs.writeFileSync(
+      configPath,
+      `{ version: 99, provider: { name: "a", model: "m", authProfiles: [{ id: "p", apiKey: "k" }] } }`,
+      "utf-8",
+    );
+    expect(() => loadConfig({ configPath })).toThrow(ConfigVersionError);
+  });
+});
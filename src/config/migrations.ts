@@ -0,0 +1,198 @@
+/**
+ * Versioned config documents and step-by-step migrations.
+ *
+ * The root `version` field records which schema a file was written for.
+ * Files without it predate versioning and count as `BASE_CONFIG_VERSION`.
+ * Each registered migration upgrades a document from `from` to `from + 1`;
+ * the current version is one past the newest registered step.
+ *
+ * Migrations run on the raw document — after `$include` merging, before
+ * env-var / secret substitution — so they never see resolved secrets.
+ *
+ * @example
+ * ```ts
+ * registerConfigMigration({
+ *   from: 1,
+ *   description: "rename agent.maxLoops → agent.maxIterations",
+ *   migrate: ({ agent, ...doc }) => ({ ...doc, agent: renameKey(agent, "maxLoops", "maxIterations") }),
+ * });
+ * ```
+ */
+
+import fs from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+
+import { ConfigMigrationError, ConfigVersionError } from "./errors.js";
+import { setJson5Value, unsetJson5Value } from "./json5-edit.js";
+
+/** Version of documents that have no `version` field. */
+export const BASE_CONFIG_VERSION = 1;
+export const VERSION_KEY = "version";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type ConfigDocument = Record<string, unknown>;
+
+export interface ConfigMigration {
+  /** Version this step upgrades from (to `from + 1`). */
+  from: number;
+  /** Shown in migration reports, e.g. "rename agent.maxLoops → agent.maxIterations". */
+  description: string;
+  /** Return the upgraded document. Receives a private copy — mutating it is fine. */
+  migrate: (doc: ConfigDocument) => ConfigDocument;
+}
+
+export interface ConfigMigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the steps that ran, oldest first. */
+  applied: string[];
+  /** Copy of the original root file, if the upgrade was written back. */
+  backupPath?: string;
+  /**
+   * Set when the upgrade was applied in memory only — the file on disk still
+   * has the old version (`myclaw config migrate` writes it back).
+   */
+  pending?: boolean;
+}
+
+export interface MigrateConfigResult {
+  value: ConfigDocument;
+  report: ConfigMigrationReport;
+}
+
+// ── Registry ────────────────────────────────────────────────────────
+
+/** Built-in steps, oldest first. Empty until the schema first changes shape. */
+const BUILTIN_MIGRATIONS: readonly ConfigMigration[] = [];
+
+const registry = new Map<number, ConfigMigration>(BUILTIN_MIGRATIONS.map((m) => [m.from, m]));
+
+/**
+ * Register (or replace) the migration step from `migration.from`.
+ * @throws If `from` is not an integer ≥ `BASE_CONFIG_VERSION`.
+ */
+export function registerConfigMigration(migration: ConfigMigration): void {
+  if (!Number.isInteger(migration.from) || migration.from < BASE_CONFIG_VERSION) {
+    throw new Error(`Invalid config migration version: ${migration.from}`);
+  }
+  registry.set(migration.from, migration);
+}
+
+/** Registered steps, oldest first. */
+export function listConfigMigrations(): ConfigMigration[] {
+  return [...registry.values()].sort((a, b) => a.from - b.from);
+}
+
+/** Restore the built-in migrations only (useful for tests). */
+export function resetConfigMigrations(): void {
+  registry.clear();
+  for (const m of BUILTIN_MIGRATIONS) registry.set(m.from, m);
+}
+
+/** The version new documents are written with. */
+export function currentConfigVersion(): number {
+  return Math.max(BASE_CONFIG_VERSION, ...[...registry.keys()].map((from) => from + 1));
+}
+
+// ── Migration ───────────────────────────────────────────────────────
+
+/**
+ * Read the document's `version`, defaulting to `BASE_CONFIG_VERSION`.
+ * @throws {ConfigVersionError} If it is not a positive integer or is newer than supported.
+ */
+export function readConfigVersion(doc: ConfigDocument, filePath: string): number {
+  const version = doc[VERSION_KEY] ?? BASE_CONFIG_VERSION;
+  const supported = currentConfigVersion();
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < BASE_CONFIG_VERSION ||
+    version > supported
+  ) {
+    throw new ConfigVersionError(filePath, version, supported);
+  }
+  return version;
+}
+
+/**
+ * Upgrade a document to the current version, one step at a time.
+ * Returns the document unchanged (and an empty `applied`) if it is current.
+ *
+ * @throws {ConfigVersionError} For invalid or future versions
+ * @throws {ConfigMigrationError} If a step is missing or throws
+ */
+export function migrateConfig(doc: ConfigDocument, filePath: string): MigrateConfigResult {
+  const fromVersion = readConfigVersion(doc, filePath);
+  const toVersion = currentConfigVersion();
+  const applied: string[] = [];
+  let value = doc;
+
+  for (let version = fromVersion; version < toVersion; version++) {
+    const step = registry.get(version);
+    if (!step) {
+      throw new ConfigMigrationError(filePath, version, "no migration registered");
+    }
+    try {
+      value = step.migrate(structuredClone(value));
+    } catch (err) {
+      throw new ConfigMigrationError(filePath, version, err instanceof Error ? err.message : String(err));
+    }
+    applied.push(step.description);
+  }
+
+  if (applied.length > 0) value = { ...value, [VERSION_KEY]: toVersion };
+  return { value, report: { fromVersion, toVersion, applied } };
+}
+
+// ── Persisting ──────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Turn a before/after document diff into comment-preserving edits on `text`. */
+function applyDocumentDiff(
+  text: string,
+  before: ConfigDocument,
+  after: ConfigDocument,
+  segments: string[] = [],
+): string {
+  let out = text;
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) out = unsetJson5Value(out, [...segments, key]) ?? out;
+  }
+  for (const [key, value] of Object.entries(after)) {
+    const old = before[key];
+    if (isDeepStrictEqual(old, value)) continue;
+    out =
+      isPlainObject(old) && isPlainObject(value)
+        ? applyDocumentDiff(out, old, value, [...segments, key])
+        : setJson5Value(out, [...segments, key], value);
+  }
+  return out;
+}
+
+function backupPathFor(filePath: string, version: number): string {
+  const base = `${filePath}.v${version}.bak`;
+  return fs.existsSync(base) ? `${filePath}.v${version}.${Date.now()}.bak` : base;
+}
+
+/**
+ * Back up the original root file and rewrite it with the migrated document.
+ * Only the changed keys are touched, so comments and formatting survive.
+ *
+ * @returns Path of the backup.
+ */
+export function writeMigratedConfig(
+  filePath: string,
+  raw: string,
+  before: ConfigDocument,
+  after: ConfigDocument,
+  fromVersion: number,
+): string {
+  const backupPath = backupPathFor(filePath, fromVersion);
+  fs.writeFileSync(backupPath, raw, "utf-8");
+  fs.writeFileSync(filePath, applyDocumentDiff(raw, before, after), "utf-8");
+  return backupPath;
+}
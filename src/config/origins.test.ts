@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+
+import { buildConfigOrigins, formatConfigOrigin } from "./origins.js";
+
+describe("buildConfigOrigins", () => {
+  const root = "/cfg/myclaw.json";
+  const inc = "/cfg/provider.json5";
+
+  const origins = buildConfigOrigins({
+    config: {
+      provider: { name: "a", authProfiles: [{ id: "p", apiKey: "k" }] },
+      agent: { maxIterations: 40, maxRetries: 3 },
+      channels: { telegram: { allowedChatIds: ["1", "2"] } },
+    },
+    validated: {
+      provider: { name: "a", authProfiles: [{ id: "p", apiKey: "k" }] },
+      agent: { maxIterations: 40 },
+      channels: { telegram: { allowedChatIds: ["1", "2"] } },
+    },
+    sources: new Map([
+      ["", [root]],
+      ["provider", [root, inc]],
+    ]),
+    overrides: new Map([["agent.maxIterations", "MYCLAW__AGENT__MAXITERATIONS"]]),
+  });
+
+  it("attributes each leaf to its layer", () => {
+    expect(origins.get("provider.authProfiles[0].apiKey")).toEqual({
+      kind: "include",
+      file: inc,
+      includeChain: [root, inc],
+    });
+    expect(origins.get("agent.maxIterations")).toEqual({
+      kind: "env",
+      envVar: "MYCLAW__AGENT__MAXITERATIONS",
+    });
+    expect(origins.get("agent.maxRetries")).toEqual({ kind: "default" });
+    expect(origins.get("channels.telegram.allowedChatIds")).toEqual({ kind: "file", file: root });
+  });
+
+  it("treats arrays of primitives as one leaf", () => {
+    expect(origins.has("channels.telegram.allowedChatIds[0]")).toBe(false);
+  });
+});
+
+describe("formatConfigOrigin", () => {
+  it("formats every kind", () => {
+    expect(formatConfigOrigin({ kind: "default" })).toBe("default");
+    expect(formatConfigOrigin({ kind: "file", file: "/a" })).toBe("file /a");
+    expect(formatConfigOrigin({ kind: "include", file: "/b", includeChain: ["/a", "/b"] })).toBe(
+      "include /b",
+    );
+    expect(formatConfigOrigin({ kind: "env", envVar: "MYCLAW__X" })).toBe("env MYCLAW__X");
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Where each effective config value came from.
+ *
+ * Layers, lowest to highest: schema defaults → root file → `$include`d
+ * files → `MYCLAW__...` env overrides. The loader records one origin per
+ * leaf value (primitives and array items' fields) so `print-effective
+ * --origins` can explain every line.
+ */
+
+import { formatConfigPath } from "./config-path.js";
+import { lookupConfigSource, type ConfigSourceMap } from "./includes.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type ConfigValueOrigin =
+  | { kind: "default" }
+  | { kind: "file"; file: string }
+  | { kind: "include"; file: string; includeChain: string[] }
+  | { kind: "env"; envVar: string };
+
+/** Leaf config path (`provider.authProfiles[0].apiKey`) → origin. */
+export type ConfigOriginMap = Map<string, ConfigValueOrigin>;
+
+export interface BuildOriginsInput {
+  /** Final config, after defaults. */
+  config: unknown;
+  /** Validated config before defaults were applied. */
+  validated: unknown;
+  /** `$include` source map. */
+  sources: ConfigSourceMap;
+  /** Config path → env var that overrode it. */
+  overrides: Map<string, string>;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasPath(value: unknown, segments: ReadonlyArray<string | number>): boolean {
+  let current = value;
+  for (const seg of segments) {
+    if (typeof current !== "object" || current === null || !Object.hasOwn(current, seg)) {
+      return false;
+    }
+    current = (current as Record<string | number, unknown>)[seg];
+  }
+  return current !== undefined;
+}
+
+function visitLeaves(
+  value: unknown,
+  segments: Array<string | number>,
+  visit: (segments: Array<string | number>) => void,
+): void {
+  if (Array.isArray(value) && value.some((v) => typeof v === "object" && v !== null)) {
+    value.forEach((item, i) => visitLeaves(item, [...segments, i], visit));
+  } else if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) visitLeaves(child, [...segments, key], visit);
+  } else if (value !== undefined) {
+    visit(segments);
+  }
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Attribute every leaf of the final config to the layer that set it.
+ * Arrays of primitives count as one leaf.
+ */
+export function buildConfigOrigins(input: BuildOriginsInput): ConfigOriginMap {
+  const origins: ConfigOriginMap = new Map();
+
+  visitLeaves(input.config, [], (segments) => {
+    const configPath = formatConfigPath(segments);
+
+    const envVar = lookupConfigSource(input.overrides, configPath);
+    if (envVar) {
+      origins.set(configPath, { kind: "env", envVar });
+      return;
+    }
+    if (!hasPath(input.validated, segments)) {
+      origins.set(configPath, { kind: "default" });
+      return;
+    }
+    const chain = lookupConfigSource(input.sources, configPath) ?? [];
+    const file = chain[chain.length - 1] ?? "";
+    origins.set(
+      configPath,
+      chain.length > 1 ? { kind: "include", file, includeChain: chain } : { kind: "file", file },
+    );
+  });
+
+  return origins;
+}
+
+/** Short human-readable label, e.g. `env MYCLAW__AGENT__MAXITERATIONS`. */
+export function formatConfigOrigin(origin: ConfigValueOrigin | undefined): string {
+  switch (origin?.kind) {
+    case "default":
+      return "default";
+    case "file":
+      return `file ${origin.file}`;
+    case "include":
+      return `include ${origin.file}`;
+    case "env":
+      return `env ${origin.envVar}`;
+    default:
+      return "unknown";
+  }
+}
@@ -34,7 +34,8 @@ function expandTilde(filepath: string, home: string): string {
   return filepath;
 }
 
-function resolveUserPath(input: string, env: NodeJS.ProcessEnv = process.env): string {
+/** Expand `~` and resolve to an absolute path. */
+export function resolveUserPath(input: string, env: NodeJS.ProcessEnv = process.env): string {
   const trimmed = input.trim();
   if (!trimmed) return trimmed;
   const expanded = expandTilde(trimmed, resolveHomeDir(env));
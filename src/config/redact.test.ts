@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+
+import {
+  redactConfig,
+  collectSecrets,
+  redactSecrets,
+  listSensitivePaths,
+  findSensitiveValues,
+  REDACTED_PLACEHOLDER,
+} from "./redact.js";
+import type { MyClawConfig } from "./schema.js";
+
+const fullConfig: MyClawConfig = {
+  provider: {
+    name: "anthropic",
+    model: "claude-sonnet-4-20250514",
+    authProfiles: [
+      { id: "primary", apiKey: "sk-primary-123" },
+      { id: "fallback", apiKey: "sk-fallback-456" },
+    ],
+  },
+  channels: { telegram: { botToken: "tg-token-789", allowedChatIds: [1, "2"] } },
+  gateway: { port: 9000, token: "gw-secret" },
+  logging: { level: "info", redactSensitive: true },
+};
+
+// ── listSensitivePaths ──────────────────────────────────────────────
+
+describe("listSensitivePaths", () => {
+  it("finds every tagged field in MyClawConfigSchema", () => {
+    expect(listSensitivePaths()).toEqual([
+      "provider.authProfiles[].apiKey",
+      "providers.*.authProfiles[].apiKey",
+      "channels.telegram.botToken",
+      "gateway.token",
+    ]);
+  });
+
+  it("supports records in custom schemas", () => {
+    const schema = z.object({ m: z.record(z.string(), z.object({ k: z.string().describe("sensitive") })) });
+    expect(listSensitivePaths(schema)).toEqual(["m.*.k"]);
+  });
+});
+
+// ── findSensitiveValues ─────────────────────────────────────────────
+
+describe("findSensitiveValues", () => {
+  it("returns concrete paths including array indices", () => {
+    expect(findSensitiveValues(fullConfig).map((f) => f.path)).toEqual([
+      "provider.authProfiles[0].apiKey",
+      "provider.authProfiles[1].apiKey",
+      "channels.telegram.botToken",
+      "gateway.token",
+    ]);
+  });
+
+  it("skips absent optional sections", () => {
+    const minimal: MyClawConfig = { provider: fullConfig.provider };
+    expect(findSensitiveValues(minimal)).toHaveLength(2);
+  });
+});
+
+// ── redactConfig ────────────────────────────────────────────────────
+
+describe("redactConfig", () => {
+  it("masks every sensitive value", () => {
+    const redacted = redactConfig(fullConfig);
+    expect(redacted.provider.authProfiles.map((p) => p.apiKey)).toEqual([
+      REDACTED_PLACEHOLDER,
+      REDACTED_PLACEHOLDER,
+    ]);
+    expect(redacted.channels?.telegram?.botToken).toBe(REDACTED_PLACEHOLDER);
+    expect(redacted.gateway?.token).toBe(REDACTED_PLACEHOLDER);
+  });
+
+  it("keeps non-sensitive values", () => {
+    const redacted = redactConfig(fullConfig);
+    expect(redacted.provider.authProfiles[0].id).toBe("primary");
+    expect(redacted.gateway?.port).toBe(9000);
+    expect(redacted.channels?.telegram?.allowedChatIds).toEqual([1, "2"]);
+  });
+
+  it("does not mutate the input", () => {
+    const input = structuredClone(fullConfig);
+    redactConfig(input);
+    expect(input).toEqual(fullConfig);
+  });
+});
+
+// ── collectSecrets ──────────────────────────────────────────────────
+
+describe("collectSecrets", () => {
+  it("returns raw secret values", () => {
+    expect(collectSecrets(fullConfig)).toEqual([
+      "sk-primary-123",
+      "sk-fallback-456",
+      "tg-token-789",
+      "gw-secret",
+    ]);
+  });
+
+  it("deduplicates repeated secrets", () => {
+    const cfg: MyClawConfig = {
+      provider: {
+        ...fullConfig.provider,
+        authProfiles: [
+          { id: "a", apiKey: "same-key" },
+          { id: "b", apiKey: "same-key" },
+        ],
+      },
+    };
+    expect(collectSecrets(cfg)).toEqual(["same-key"]);
+  });
+});
+
+// ── redactSecrets ───────────────────────────────────────────────────
+
+describe("redactSecrets", () => {
+  it("replaces every occurrence", () => {
+    expect(redactSecrets("key=sk-primary-123 again sk-primary-123", ["sk-primary-123"])).toBe(
+      `key=${REDACTED_PLACEHOLDER} again ${REDACTED_PLACEHOLDER}`,
+    );
+  });
+
+  it("masks longer secrets first", () => {
+    expect(redactSecrets("token: abcd-efgh", ["abcd", "abcd-efgh"])).toBe(
+      `token: ${REDACTED_PLACEHOLDER}`,
+    );
+  });
+
+  it("ignores very short secrets", () => {
+    expect(redactSecrets("a k b", ["k"])).toBe("a k b");
+  });
+
+  it("returns text unchanged when no secrets match", () => {
+    expect(redactSecrets("nothing here", ["sk-primary-123"])).toBe("nothing here");
+  });
+});
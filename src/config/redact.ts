@@ -0,0 +1,175 @@
+/**
+ * Sensitive-value redaction driven by the Zod schema tags.
+ *
+ * Every field tagged sensitive in `schema.ts` is found by walking
+ * `MyClawConfigSchema` alongside the config value — no field names are
+ * hard-coded, so new secrets are covered as soon as they are tagged.
+ *
+ * @example
+ * ```ts
+ * redactConfig(config).provider.authProfiles[0].apiKey; // "[redacted]"
+ *
+ * const secrets = collectSecrets(config);
+ * logLine = redactSecrets(logLine, secrets);
+ * ```
+ */
+
+import { z } from "zod";
+
+import { formatConfigPath } from "./config-path.js";
+import { MyClawConfigSchema, type MyClawConfig } from "./schema.js";
+import { unwrapSchema } from "./sensitive.js";
+
+/** Replacement for sensitive values. */
+export const REDACTED_PLACEHOLDER = "[redacted]";
+
+/**
+ * Secrets shorter than this are not scrubbed from free text — replacing
+ * one- or two-character values would mangle unrelated output.
+ */
+export const MIN_SCRUB_SECRET_LENGTH = 4;
+
+// ── Schema walk ─────────────────────────────────────────────────────
+
+type SensitiveVisitor = (segments: Array<string | number>, value: unknown) => void;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Walk `value` alongside `schema`, calling `visit` for every sensitive leaf present. */
+function walkSensitive(
+  schema: z.ZodType,
+  value: unknown,
+  segments: Array<string | number>,
+  visit: SensitiveVisitor,
+): void {
+  if (value === undefined) return;
+  const { schema: inner, sensitive } = unwrapSchema(schema);
+
+  if (sensitive) {
+    visit(segments, value);
+    return;
+  }
+
+  if (inner instanceof z.ZodObject && isPlainObject(value)) {
+    const shape = inner.shape as Record<string, z.ZodType>;
+    for (const [key, child] of Object.entries(shape)) {
+      walkSensitive(child, value[key], [...segments, key], visit);
+    }
+  } else if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    value.forEach((item, index) =>
+      walkSensitive(inner.element as z.ZodType, item, [...segments, index], visit),
+    );
+  } else if (inner instanceof z.ZodRecord && isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      walkSensitive(inner.valueType as z.ZodType, item, [...segments, key], visit);
+    }
+  } else if (inner instanceof z.ZodUnion) {
+    for (const option of inner.options as z.ZodType[]) {
+      walkSensitive(option, value, segments, visit);
+    }
+  }
+}
+
+/** Collect schema paths (with `[]` for array items, `*` for record keys) that are sensitive. */
+function collectSchemaPaths(schema: z.ZodType, prefix: string, out: string[]): void {
+  const { schema: inner, sensitive } = unwrapSchema(schema);
+  if (sensitive) {
+    out.push(prefix);
+    return;
+  }
+  if (inner instanceof z.ZodObject) {
+    for (const [key, child] of Object.entries(inner.shape as Record<string, z.ZodType>)) {
+      collectSchemaPaths(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (inner instanceof z.ZodArray) {
+    collectSchemaPaths(inner.element as z.ZodType, `${prefix}[]`, out);
+  } else if (inner instanceof z.ZodRecord) {
+    collectSchemaPaths(inner.valueType as z.ZodType, prefix ? `${prefix}.*` : "*", out);
+  } else if (inner instanceof z.ZodUnion) {
+    for (const option of inner.options as z.ZodType[]) {
+      collectSchemaPaths(option, prefix, out);
+    }
+  }
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * List every sensitive path declared by the schema, e.g.
+ * `["provider.authProfiles[].apiKey", "channels.telegram.botToken", "gateway.token"]`.
+ */
+export function listSensitivePaths(schema: z.ZodType = MyClawConfigSchema): string[] {
+  const out: string[] = [];
+  collectSchemaPaths(schema, "", out);
+  return [...new Set(out)];
+}
+
+/**
+ * Find the concrete sensitive paths present in a config value, e.g.
+ * `provider.authProfiles[1].apiKey`.
+ */
+export function findSensitiveValues(
+  config: unknown,
+  schema: z.ZodType = MyClawConfigSchema,
+): Array<{ path: string; value: unknown }> {
+  const found: Array<{ path: string; value: unknown }> = [];
+  walkSensitive(schema, config, [], (segments, value) => {
+    found.push({ path: formatConfigPath(segments), value });
+  });
+  return found;
+}
+
+/**
+ * Return a deep copy of the config with every sensitive value replaced by
+ * `REDACTED_PLACEHOLDER`. The input is never mutated.
+ */
+export function redactConfig<T = MyClawConfig>(
+  config: T,
+  schema: z.ZodType = MyClawConfigSchema,
+): T {
+  const copy = structuredClone(config);
+  walkSensitive(schema, copy, [], (segments) => {
+    let parent: unknown = copy;
+    for (const seg of segments.slice(0, -1)) {
+      parent = (parent as Record<string | number, unknown>)[seg];
+    }
+    (parent as Record<string | number, unknown>)[segments[segments.length - 1]] =
+      REDACTED_PLACEHOLDER;
+  });
+  return copy;
+}
+
+/**
+ * Return the raw secret values from a config (deduplicated, non-empty
+ * strings only) so other modules can scrub them from logs, transcripts and
+ * tool output.
+ */
+export function collectSecrets(
+  config: unknown,
+  schema: z.ZodType = MyClawConfigSchema,
+): string[] {
+  const secrets = new Set<string>();
+  for (const { value } of findSensitiveValues(config, schema)) {
+    if (typeof value === "string" && value !== "") secrets.add(value);
+  }
+  return [...secrets];
+}
+
+/**
+ * Replace every occurrence of the given secrets in `text` with
+ * `REDACTED_PLACEHOLDER`. Longer secrets are replaced first so a secret
+ * that contains another is masked as a whole. Secrets shorter than
+ * `MIN_SCRUB_SECRET_LENGTH` are ignored.
+ */
+export function redactSecrets(text: string, secrets: readonly string[]): string {
+  let out = text;
+  const ordered = secrets
+    .filter((s) => s.length >= MIN_SCRUB_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+  for (const secret of ordered) {
+    if (out.includes(secret)) out = out.split(secret).join(REDACTED_PLACEHOLDER);
+  }
+  return out;
+}
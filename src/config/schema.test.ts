@@ -111,6 +111,44 @@ describe("MyClawConfigSchema", () => {
     expect(result.success).toBe(false);
   });
 
+  it("accepts tool approval settings and rejects incomplete patterns", () => {
+    const approval = { tools: ["bash"], allow: [{ tool: "bash", pattern: "git status*" }] };
+    expect(MyClawConfigSchema.safeParse({ ...validConfig, agent: { approval } }).success).toBe(true);
+
+    const result = MyClawConfigSchema.safeParse({
+      ...validConfig,
+      agent: { approval: { allow: [{ pattern: "git *" }] } },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts tool policies and rejects unknown rule fields", () => {
+    const tools = {
+      deny: ["bash"],
+      rules: [{ channel: "telegram", peerKind: "group", peerId: "42", allow: ["read", "g*"] }],
+    };
+    expect(MyClawConfigSchema.safeParse({ ...validConfig, agent: { tools } }).success).toBe(true);
+
+    const result = MyClawConfigSchema.safeParse({
+      ...validConfig,
+      agent: { tools: { rules: [{ chat: "telegram", deny: ["bash"] }] } },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts patch fuzz settings and rejects negative offsets", () => {
+    const patchFuzz = { maxOffset: 50, ignoreWhitespace: false, ignoreMissingNewline: true };
+    expect(MyClawConfigSchema.safeParse({ ...validConfig, agent: { patchFuzz } }).success).toBe(true);
+    expect(MyClawConfigSchema.safeParse({ ...validConfig, agent: { patchFuzz: { maxOffset: -1 } } }).success).toBe(
+      false,
+    );
+  });
+
+  it("accepts extra workspace roots and rejects empty ones", () => {
+    expect(MyClawConfigSchema.safeParse({ ...validConfig, agent: { extraRoots: ["~/notes"] } }).success).toBe(true);
+    expect(MyClawConfigSchema.safeParse({ ...validConfig, agent: { extraRoots: [""] } }).success).toBe(false);
+  });
+
   it("accepts optional baseUrl on provider", () => {
     const result = MyClawConfigSchema.safeParse({
       provider: {
@@ -120,4 +158,43 @@ describe("MyClawConfigSchema", () => {
     });
     expect(result.success).toBe(true);
   });
+
+  it("accepts named providers and provider rules", () => {
+    const result = MyClawConfigSchema.safeParse({
+      ...validConfig,
+      providers: { local: { ...validConfig.provider, name: "ollama", model: "llama3" } },
+      providerRules: [
+        { channel: "telegram", peerKind: "group", provider: "local" },
+        { agentId: "main", provider: "default" },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects provider rules that name an unknown provider", () => {
+    const result = MyClawConfigSchema.safeParse({
+      ...validConfig,
+      providerRules: [{ channel: "telegram", provider: "missing" }],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(["providerRules", 0, "provider"]);
+  });
+
+  it("reserves the 'default' provider name", () => {
+    const result = MyClawConfigSchema.safeParse({
+      ...validConfig,
+      providers: { default: validConfig.provider },
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(["providers", "default"]);
+  });
+
+  it("rejects fallbacks that name an unknown provider", () => {
+    const result = MyClawConfigSchema.safeParse({
+      ...validConfig,
+      provider: { ...validConfig.provider, fallbacks: [{ provider: "local" }] },
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(["provider", "fallbacks", 0, "provider"]);
+  });
 });
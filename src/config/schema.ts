@@ -2,20 +2,38 @@
  * Zod schema for the MyClaw config file (~/.myclaw/myclaw.json).
  *
  * Uses `.strict()` on objects to reject unknown keys early.
- * Sensitive fields (API keys, tokens) are tagged via `.describe("sensitive")`
- * so downstream code can redact them in logs/UI.
+ * Field docs live in `.meta({ description })` so they also end up in the
+ * exported JSON Schema (editor hovers). Sensitive fields (API keys, tokens)
+ * are tagged with `.meta({ sensitive: true })` — or the older
+ * `.describe("sensitive")` — so downstream code can redact them in logs/UI.
  */
 
 import { z } from "zod";
 
+import { DEFAULT_PROVIDER_NAME } from "./defaults.js";
+
+declare module "zod" {
+  interface GlobalMeta {
+    /** Holds a secret — redacted in logs, CLI output, and error messages. */
+    sensitive?: boolean;
+  }
+}
+
 // ── Auth profile ────────────────────────────────────────────────────
 
 export const AuthProfileSchema = z
   .object({
-    /** Unique profile identifier, e.g. "primary", "fallback". */
-    id: z.string().min(1),
-    /** API key (may contain `${VAR}` before env substitution). */
-    apiKey: z.string().min(1).describe("sensitive"),
+    id: z
+      .string()
+      .min(1)
+      .meta({ description: "Unique profile identifier, e.g. 'primary', 'fallback'." }),
+    apiKey: z
+      .string()
+      .min(1)
+      .meta({
+        description: "API key (may contain ${VAR} before env substitution).",
+        sensitive: true,
+      }),
   })
   .strict();
 
@@ -23,28 +41,99 @@ export type AuthProfile = z.infer<typeof AuthProfileSchema>;
 
 // ── Provider ────────────────────────────────────────────────────────
 
+export const ProviderFallbackSchema = z
+  .object({
+    provider: z
+      .string()
+      .min(1)
+      .meta({ description: "Name of a 'providers' entry, or 'default' for the root 'provider'." }),
+    model: z
+      .string()
+      .min(1)
+      .meta({ description: "Model to use instead of that provider's own 'model'." })
+      .optional(),
+  })
+  .strict();
+
+export type ProviderFallback = z.infer<typeof ProviderFallbackSchema>;
+
 export const ProviderSchema = z
   .object({
-    /** Provider identifier: "anthropic" | "openai" | "google" | "ollama" etc. */
-    name: z.string().min(1),
-    /** Model identifier, e.g. "claude-sonnet-4-20250514". */
-    model: z.string().min(1),
-    /** Auth profiles for failover rotation. At least one required. */
-    authProfiles: z.array(AuthProfileSchema).min(1),
-    /** Optional base URL override (for proxies / self-hosted). */
-    baseUrl: z.string().url().optional(),
+    name: z
+      .string()
+      .min(1)
+      .meta({
+        description:
+          "Provider identifier: 'anthropic' | 'openai' | 'google' | 'ollama' etc., or 'mock' for a scripted scenario.",
+      }),
+    model: z
+      .string()
+      .min(1)
+      .meta({
+        description:
+          "Model identifier, e.g. 'claude-sonnet-4-20250514'. For 'mock', the path of a JSON5 scenario file.",
+      }),
+    authProfiles: z
+      .array(AuthProfileSchema)
+      .min(1)
+      .meta({ description: "Auth profiles for failover rotation. At least one required." }),
+    baseUrl: z
+      .string()
+      .url()
+      .meta({ description: "Optional base URL override (for proxies / self-hosted)." })
+      .optional(),
+    fallbacks: z
+      .array(ProviderFallbackSchema)
+      .meta({
+        description:
+          "Providers/models to try, in order, once every auth profile of this provider is " +
+          "failing or cooling down.",
+      })
+      .optional(),
   })
   .strict();
 
 export type ProviderConfig = z.infer<typeof ProviderSchema>;
 
+// ── Provider selection rules ────────────────────────────────────────
+
+export const ProviderRuleSchema = z
+  .object({
+    provider: z
+      .string()
+      .min(1)
+      .meta({ description: "Name of a 'providers' entry, or 'default' for the root 'provider'." }),
+    agentId: z
+      .string()
+      .min(1)
+      .meta({ description: "Match sessions of this agent, e.g. 'main'." })
+      .optional(),
+    channel: z
+      .string()
+      .min(1)
+      .meta({ description: "Match sessions on this channel, e.g. 'telegram'." })
+      .optional(),
+    peerKind: z
+      .enum(["direct", "group", "channel"])
+      .meta({ description: "Match direct chats, groups, or public channels." })
+      .optional(),
+  })
+  .strict();
+
+export type ProviderRule = z.infer<typeof ProviderRuleSchema>;
+
 // ── Telegram channel ────────────────────────────────────────────────
 
 export const TelegramChannelSchema = z
   .object({
-    botToken: z.string().min(1).describe("sensitive"),
-    /** Optional: only respond in these chat IDs (allowlist). */
-    allowedChatIds: z.array(z.union([z.string(), z.number()])).optional(),
+    botToken: z
+      .string()
+      .min(1)
+      .meta({ description: "Telegram bot token from @BotFather.", sensitive: true }),
+    allowedChatIds: z
+      .array(z.union([z.string(), z.number()]))
+      .meta({ description: "Optional: only respond in these chat IDs (allowlist)." })
+      .optional(),
   })
   .strict();
 
@@ -54,7 +143,7 @@ export type TelegramChannelConfig = z.infer<typeof TelegramChannelSchema>;
 
 export const ChannelsSchema = z
   .object({
-    telegram: TelegramChannelSchema.optional(),
+    telegram: TelegramChannelSchema.meta({ description: "Telegram bot channel." }).optional(),
   })
   .strict();
 
@@ -64,10 +153,17 @@ export type ChannelsConfig = z.infer<typeof ChannelsSchema>;
 
 export const GatewaySchema = z
   .object({
-    /** HTTP/WS listen port. Default: 18789. */
-    port: z.number().int().positive().optional(),
-    /** Shared-secret token for gateway auth. */
-    token: z.string().min(1).describe("sensitive").optional(),
+    port: z
+      .number()
+      .int()
+      .positive()
+      .meta({ description: "HTTP/WS listen port. Default: 18789." })
+      .optional(),
+    token: z
+      .string()
+      .min(1)
+      .meta({ description: "Shared-secret token for gateway auth.", sensitive: true })
+      .optional(),
   })
   .strict();
 
@@ -75,16 +171,217 @@ export type GatewayConfig = z.infer<typeof GatewaySchema>;
 
 // ── Agent ───────────────────────────────────────────────────────────
 
+export const ToolApprovalPatternSchema = z
+  .object({
+    tool: z.string().min(1).meta({ description: "Tool name, e.g. 'bash'." }),
+    pattern: z
+      .string()
+      .min(1)
+      .meta({
+        description:
+          "Glob ('*' = any characters) matched against the whole command (bash) or path (file tools).",
+      }),
+  })
+  .strict();
+
+export type ToolApprovalPattern = z.infer<typeof ToolApprovalPatternSchema>;
+
+export const ToolApprovalSchema = z
+  .object({
+    tools: z
+      .array(z.string().min(1))
+      .meta({
+        description:
+          "Tools that need approval before they run, e.g. ['bash', 'write', 'edit', 'apply_patch']. Default: none.",
+      })
+      .optional(),
+    allow: z
+      .array(ToolApprovalPatternSchema)
+      .meta({ description: "Calls that are pre-approved without asking." })
+      .optional(),
+  })
+  .strict();
+
+export type ToolApprovalConfig = z.infer<typeof ToolApprovalSchema>;
+
+const ToolNameListSchema = z.array(z.string().min(1));
+
+export const ToolRuleSchema = z
+  .object({
+    agentId: z
+      .string()
+      .min(1)
+      .meta({ description: "Match sessions of this agent, e.g. 'main'." })
+      .optional(),
+    channel: z
+      .string()
+      .min(1)
+      .meta({ description: "Match sessions on this channel, e.g. 'telegram'." })
+      .optional(),
+    peerKind: z
+      .enum(["direct", "group", "channel"])
+      .meta({ description: "Match direct chats, groups, or public channels." })
+      .optional(),
+    peerId: z
+      .string()
+      .min(1)
+      .meta({ description: "Match one specific peer (user, group, or channel id)." })
+      .optional(),
+    allow: ToolNameListSchema.meta({
+      description: "Replaces the allow list for matching sessions. Globs ('*' = any characters).",
+    }).optional(),
+    deny: ToolNameListSchema.meta({
+      description: "Replaces the deny list for matching sessions. Globs ('*' = any characters).",
+    }).optional(),
+  })
+  .strict();
+
+export type ToolRule = z.infer<typeof ToolRuleSchema>;
+
+export const ToolPolicySchema = z
+  .object({
+    allow: ToolNameListSchema.meta({
+      description: "Tools the agent may use. Globs ('*' = any characters). Default: ['*'].",
+    }).optional(),
+    deny: ToolNameListSchema.meta({
+      description: "Tools the agent may not use, even if allowed. Globs. Default: [].",
+    }).optional(),
+    rules: z
+      .array(ToolRuleSchema)
+      .meta({
+        description:
+          "Per-session overrides by agentId / channel / peerKind / peerId. Every matching rule applies, in order.",
+      })
+      .optional(),
+  })
+  .strict();
+
+export type ToolPolicyConfig = z.infer<typeof ToolPolicySchema>;
+
+export const PatchFuzzSchema = z
+  .object({
+    maxOffset: z
+      .number()
+      .int()
+      .nonnegative()
+      .meta({
+        description:
+          "How many lines away from its header's line number a unified-diff hunk may be found. 0 = exact position. Default: 200.",
+      })
+      .optional(),
+    ignoreWhitespace: z
+      .boolean()
+      .meta({ description: "Match hunk lines that differ only in whitespace. Default: true." })
+      .optional(),
+    ignoreMissingNewline: z
+      .boolean()
+      .meta({
+        description: "Apply hunks whose final-newline marker disagrees with the file. Default: true.",
+      })
+      .optional(),
+  })
+  .strict();
+
+export type PatchFuzzConfig = z.infer<typeof PatchFuzzSchema>;
+
+export const CassetteSchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .meta({
+        description: "Cassette file (JSONL). '~' is expanded; relative paths are relative to the working directory.",
+      }),
+    mode: z
+      .enum(["record", "replay"])
+      .meta({
+        description:
+          "'record': call the provider and write every request/response to the cassette (secrets redacted). " +
+          "'replay': answer from the cassette without network access; a request that differs from the recording fails the run.",
+      }),
+  })
+  .strict();
+
+export type CassetteConfig = z.infer<typeof CassetteSchema>;
+
 export const AgentSchema = z
   .object({
-    /** Agent workspace directory. Default: ~/.myclaw/workspace */
-    workspaceDir: z.string().optional(),
-    /** Max tool-call iterations per run. Default: 25. */
-    maxIterations: z.number().int().positive().optional(),
-    /** Max retries per LLM call (for failover). Default: 3. */
-    maxRetries: z.number().int().nonnegative().optional(),
-    /** Max characters in a single tool result. Default: 50000. */
-    maxToolResultChars: z.number().int().positive().optional(),
+    workspaceDir: z
+      .string()
+      .meta({ description: "Agent workspace directory. Default: ~/.myclaw/workspace" })
+      .optional(),
+    extraRoots: z
+      .array(z.string().min(1))
+      .meta({
+        description:
+          "Directories besides workspaceDir that file tools may read and write. '~' is expanded. Default: none.",
+      })
+      .optional(),
+    maxIterations: z
+      .number()
+      .int()
+      .positive()
+      .meta({ description: "Max tool-call iterations per run. Default: 25." })
+      .optional(),
+    maxRetries: z
+      .number()
+      .int()
+      .nonnegative()
+      .meta({ description: "Max retries per LLM call (for failover). Default: 3." })
+      .optional(),
+    maxToolResultChars: z
+      .number()
+      .int()
+      .positive()
+      .meta({
+        description:
+          "Max characters in a single tool result; longer output is saved to the workspace's .tool-output/ " +
+          "and the model is told where to read it. Default: 50000.",
+      })
+      .optional(),
+    maxParallelTools: z
+      .number()
+      .int()
+      .positive()
+      .meta({
+        description:
+          "Max read-only tool calls (read, grep, find, ls) run concurrently. 1 disables parallelism. Default: 4.",
+      })
+      .optional(),
+    toolTimeoutMs: z
+      .number()
+      .int()
+      .nonnegative()
+      .meta({
+        description: "Time limit for one tool call, in ms; the call is aborted when it runs out. 0 = none. Default: 300000.",
+      })
+      .optional(),
+    toolTimeouts: z
+      .record(z.string().min(1), z.number().int().nonnegative())
+      .meta({
+        description: "Per-tool time limits in ms overriding toolTimeoutMs, e.g. { bash: 60000 }. 0 = none.",
+      })
+      .optional(),
+    compactionMode: z
+      .enum(["structured", "simple"])
+      .meta({
+        description:
+          "Compaction summary format: 'structured' (goals, decisions, files, TODOs, tool outputs) " +
+          "or 'simple' (free-form paragraphs). Default: 'structured'.",
+      })
+      .optional(),
+    patchFuzz: PatchFuzzSchema.meta({
+      description: "How loosely apply_patch matches hunks against files.",
+    }).optional(),
+    tools: ToolPolicySchema.meta({
+      description: "Which tools the agent gets, per channel / peer kind / peer.",
+    }).optional(),
+    approval: ToolApprovalSchema.meta({
+      description: "Require approval (through the run's approver) before selected tools run.",
+    }).optional(),
+    cassette: CassetteSchema.meta({
+      description: "Record LLM traffic to a cassette file, or replay a run from one.",
+    }).optional(),
   })
   .strict();
 
@@ -94,10 +391,14 @@ export type AgentConfig = z.infer<typeof AgentSchema>;
 
 export const LoggingSchema = z
   .object({
-    /** Log level. Default: "info". */
-    level: z.enum(["debug", "info", "warn", "error"]).optional(),
-    /** Redact sensitive values in logs. Default: true. */
-    redactSensitive: z.boolean().optional(),
+    level: z
+      .enum(["debug", "info", "warn", "error"])
+      .meta({ description: "Log level. Default: 'info'." })
+      .optional(),
+    redactSensitive: z
+      .boolean()
+      .meta({ description: "Redact sensitive values in logs. Default: true." })
+      .optional(),
   })
   .strict();
 
@@ -107,12 +408,57 @@ export type LoggingConfig = z.infer<typeof LoggingSchema>;
 
 export const MyClawConfigSchema = z
   .object({
-    provider: ProviderSchema,
-    channels: ChannelsSchema.optional(),
-    gateway: GatewaySchema.optional(),
-    agent: AgentSchema.optional(),
-    logging: LoggingSchema.optional(),
+    version: z
+      .number()
+      .int()
+      .positive()
+      .meta({ description: "Config schema version. Older files are migrated automatically." })
+      .optional(),
+    provider: ProviderSchema.meta({
+      description: "Default LLM provider, model, and API keys (named 'default' in provider rules).",
+    }),
+    providers: z
+      .record(z.string().min(1), ProviderSchema)
+      .meta({ description: "Additional named providers, selected per session by 'providerRules'." })
+      .optional(),
+    providerRules: z
+      .array(ProviderRuleSchema)
+      .meta({
+        description:
+          "Pick a provider by the session's agentId / channel / peerKind. First match wins; " +
+          "no match uses 'provider'.",
+      })
+      .optional(),
+    channels: ChannelsSchema.meta({ description: "Messaging channels." }).optional(),
+    gateway: GatewaySchema.meta({ description: "HTTP/WS gateway server." }).optional(),
+    agent: AgentSchema.meta({ description: "Agent loop limits and workspace." }).optional(),
+    logging: LoggingSchema.meta({ description: "Log level and redaction." }).optional(),
   })
-  .strict();
+  .strict()
+  .superRefine((cfg, ctx) => {
+    if (cfg.providers && Object.hasOwn(cfg.providers, DEFAULT_PROVIDER_NAME)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["providers", DEFAULT_PROVIDER_NAME],
+        message: `"${DEFAULT_PROVIDER_NAME}" is reserved for the root 'provider'`,
+      });
+    }
+    const checkProviderName = (name: string, path: PropertyKey[]): void => {
+      if (name !== DEFAULT_PROVIDER_NAME && !cfg.providers?.[name]) {
+        ctx.addIssue({ code: "custom", path, message: `Unknown provider "${name}"` });
+      }
+    };
+    cfg.providerRules?.forEach((rule, i) => {
+      checkProviderName(rule.provider, ["providerRules", i, "provider"]);
+    });
+    cfg.provider.fallbacks?.forEach((fallback, i) => {
+      checkProviderName(fallback.provider, ["provider", "fallbacks", i, "provider"]);
+    });
+    for (const [name, provider] of Object.entries(cfg.providers ?? {})) {
+      provider.fallbacks?.forEach((fallback, i) => {
+        checkProviderName(fallback.provider, ["providers", name, "fallbacks", i, "provider"]);
+      });
+    }
+  });
 
 export type MyClawConfig = z.infer<typeof MyClawConfigSchema>;
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  registerSecretResolver,
+  unregisterSecretResolver,
+  getSecretResolver,
+  listSecretResolverSchemes,
+  resetSecretResolvers,
+  fileSecretResolver,
+  cmdSecretResolver,
+  type SecretResolverContext,
+} from "./secret-resolvers.js";
+import {
+  resolveConfigEnvVars,
+  containsSecretReference,
+  containsEnvVarReference,
+  SecretResolutionError,
+  type ResolvedReference,
+} from "./env-substitution.js";
+
+// ── Test helpers ────────────────────────────────────────────────────
+
+let tmpDir: string;
+
+function ctx(overrides?: Partial<SecretResolverContext>): SecretResolverContext {
+  return { configPath: "x", env: process.env, baseDir: tmpDir, ...overrides };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-secrets-test-"));
+});
+
+afterEach(() => {
+  resetSecretResolvers();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── Built-in resolvers ──────────────────────────────────────────────
+
+describe("fileSecretResolver", () => {
+  it("reads the file and strips trailing newlines", () => {
+    fs.writeFileSync(path.join(tmpDir, "key"), "sk-from-file\n\n", "utf-8");
+    expect(fileSecretResolver(path.join(tmpDir, "key"), ctx())).toBe("sk-from-file");
+  });
+
+  it("resolves relative paths against baseDir", () => {
+    fs.mkdirSync(path.join(tmpDir, "secrets"));
+    fs.writeFileSync(path.join(tmpDir, "secrets", "key"), "sk-rel", "utf-8");
+    expect(fileSecretResolver("secrets/key", ctx())).toBe("sk-rel");
+  });
+
+  it("throws for a missing file", () => {
+    expect(() => fileSecretResolver("nope", ctx())).toThrow(/not found/);
+  });
+});
+
+describe("cmdSecretResolver", () => {
+  it("returns the command's stdout without trailing newline", () => {
+    expect(cmdSecretResolver("echo sk-from-cmd", ctx())).toBe("sk-from-cmd");
+  });
+
+  it("passes the loader env to the command", () => {
+    const env = { ...process.env, MYCLAW_TEST_SECRET: "from-env" };
+    expect(cmdSecretResolver('echo "$MYCLAW_TEST_SECRET"', ctx({ env }))).toBe("from-env");
+  });
+
+  it("throws without leaking command output on failure", () => {
+    try {
+      cmdSecretResolver("echo sk-leaked-secret; exit 3", ctx());
+      expect.fail("should have thrown");
+    } catch (err) {
+      expect((err as Error).message).toBe("command exited with status 3");
+    }
+  });
+});
+
+// ── Registry ────────────────────────────────────────────────────────
+
+describe("secret resolver registry", () => {
+  it("has file and cmd built in", () => {
+    expect(listSecretResolverSchemes()).toEqual(["file", "cmd"]);
+    expect(getSecretResolver("file")).toBe(fileSecretResolver);
+  });
+
+  it("registers and unregisters custom schemes", () => {
+    registerSecretResolver("vault", (ref) => `vault:${ref}`);
+    expect(getSecretResolver("vault")?.("kv/a", ctx())).toBe("vault:kv/a");
+    expect(unregisterSecretResolver("vault")).toBe(true);
+    expect(getSecretResolver("vault")).toBeUndefined();
+  });
+
+  it("rejects invalid scheme names", () => {
+    expect(() => registerSecretResolver("Vault", () => "x")).toThrow();
+    expect(() => registerSecretResolver("", () => "x")).toThrow();
+  });
+
+  it("resetSecretResolvers restores the built-ins", () => {
+    unregisterSecretResolver("cmd");
+    registerSecretResolver("custom", () => "x");
+    resetSecretResolvers();
+    expect(listSecretResolverSchemes()).toEqual(["file", "cmd"]);
+  });
+});
+
+// ── Substitution integration ────────────────────────────────────────
+
+describe("resolveConfigEnvVars with secret references", () => {
+  const env = { API_KEY: "sk-env" } as NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    registerSecretResolver("test", (ref) => `resolved(${ref})`);
+  });
+
+  it("substitutes ${scheme:ref} via the registry", () => {
+    const result = resolveConfigEnvVars({ key: "${test:a b/c}" }, env) as Record<string, string>;
+    expect(result.key).toBe("resolved(a b/c)");
+  });
+
+  it("mixes env and secret references in one string", () => {
+    const result = resolveConfigEnvVars({ key: "${API_KEY}:${test:x}" }, env) as Record<string, string>;
+    expect(result.key).toBe("sk-env:resolved(x)");
+  });
+
+  it("escapes $${scheme:ref} to a literal", () => {
+    const result = resolveConfigEnvVars({ key: "$${test:x}" }, env) as Record<string, string>;
+    expect(result.key).toBe("${test:x}");
+  });
+
+  it("passes unregistered schemes through unchanged", () => {
+    const result = resolveConfigEnvVars({ key: "${nope:x}" }, env) as Record<string, string>;
+    expect(result.key).toBe("${nope:x}");
+  });
+
+  it("resolves file references against the given baseDir", () => {
+    fs.writeFileSync(path.join(tmpDir, "token"), "tg-token\n", "utf-8");
+    const result = resolveConfigEnvVars({ botToken: "${file:./token}" }, env, {
+      baseDir: tmpDir,
+    }) as Record<string, string>;
+    expect(result.botToken).toBe("tg-token");
+  });
+
+  it("wraps resolver failures in SecretResolutionError with the config path", () => {
+    registerSecretResolver("broken", () => {
+      throw new Error("backend unavailable");
+    });
+    try {
+      resolveConfigEnvVars({ provider: { authProfiles: [{ apiKey: "${broken:k}" }] } }, env);
+      expect.fail("should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(SecretResolutionError);
+      const e = err as SecretResolutionError;
+      expect(e.scheme).toBe("broken");
+      expect(e.reference).toBe("k");
+      expect(e.configPath).toBe("provider.authProfiles[0].apiKey");
+      expect(e.message).toContain("backend unavailable");
+    }
+  });
+
+  it("throws SecretResolutionError for empty resolved values", () => {
+    registerSecretResolver("empty", () => "");
+    expect(() => resolveConfigEnvVars({ key: "${empty:x}" }, env)).toThrow(SecretResolutionError);
+  });
+
+  it("reports every resolved reference through onResolved", () => {
+    const seen: ResolvedReference[] = [];
+    resolveConfigEnvVars({ a: "${API_KEY}", b: ["${test:y}"] }, env, {
+      onResolved: (r) => seen.push(r),
+    });
+    expect(seen).toEqual([
+      { configPath: "a", scheme: "env", reference: "API_KEY", value: "sk-env" },
+      { configPath: "b[0]", scheme: "test", reference: "y", value: "resolved(y)" },
+    ]);
+  });
+});
+
+describe("containsSecretReference", () => {
+  it("detects registered secret references only", () => {
+    expect(containsSecretReference("${file:/run/secrets/x}")).toBe(true);
+    expect(containsSecretReference("${cmd:pass show x}")).toBe(true);
+    expect(containsSecretReference("${unknown:x}")).toBe(false);
+    expect(containsSecretReference("${API_KEY}")).toBe(false);
+  });
+
+  it("ignores escaped references", () => {
+    expect(containsSecretReference("$${file:/x}")).toBe(false);
+  });
+
+  it("does not count secret references as env var references", () => {
+    expect(containsEnvVarReference("${file:/x}")).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Pluggable secret resolvers for `${scheme:reference}` config values.
+ *
+ * Built-in schemes:
+ * - `${file:/run/secrets/anthropic}` — file contents (relative paths resolve
+ *   against the config file's directory), trailing newlines stripped
+ * - `${cmd:pass show anthropic}` — stdout of a shell command, trailing
+ *   newlines stripped; 10s timeout
+ *
+ * Resolvers are synchronous (the loader is synchronous) and throw a plain
+ * `Error` with a short detail on failure — the substitution engine wraps it
+ * in `SecretResolutionError` with the config path.
+ *
+ * @example
+ * ```ts
+ * registerSecretResolver("vault", (ref) => vaultReadSync(ref));
+ * // myclaw.json: apiKey: "${vault:kv/anthropic#key}"
+ * ```
+ */
+
+import { execSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface SecretResolverContext {
+  /** Config path of the value being resolved, e.g. `provider.authProfiles[0].apiKey`. */
+  configPath: string;
+  /** Env passed to the loader. */
+  env: NodeJS.ProcessEnv;
+  /** Directory relative references resolve against (the config file's directory). */
+  baseDir: string;
+}
+
+/**
+ * Resolve a reference (the part after `scheme:`) to its secret value.
+ * Must not include the resolved value in thrown error messages.
+ */
+export type SecretResolver = (reference: string, context: SecretResolverContext) => string;
+
+/** Valid scheme names: lowercase, so they never collide with `${ENV_VAR}`. */
+export const SECRET_SCHEME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+export const CMD_RESOLVER_TIMEOUT_MS = 10_000;
+
+// ── Built-in resolvers ──────────────────────────────────────────────
+
+function stripTrailingNewlines(value: string): string {
+  return value.replace(/[\r\n]+$/, "");
+}
+
+export const fileSecretResolver: SecretResolver = (reference, context) => {
+  const filePath = path.resolve(context.baseDir, reference.trim());
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`secret file not found: ${filePath}`);
+  }
+  return stripTrailingNewlines(fs.readFileSync(filePath, "utf-8"));
+};
+
+export const cmdSecretResolver: SecretResolver = (reference, context) => {
+  try {
+    const stdout = execSync(reference, {
+      cwd: context.baseDir,
+      env: context.env,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: CMD_RESOLVER_TIMEOUT_MS,
+    });
+    return stripTrailingNewlines(stdout);
+  } catch (err) {
+    // Never forward stdout/stderr — they may contain the secret
+    const e = err as { status?: number | null; signal?: string | null };
+    if (e.signal) throw new Error(`command terminated by ${e.signal}`);
+    throw new Error(`command exited with status ${e.status ?? "unknown"}`);
+  }
+};
+
+// ── Registry ────────────────────────────────────────────────────────
+
+const BUILTIN_RESOLVERS: ReadonlyArray<[string, SecretResolver]> = [
+  ["file", fileSecretResolver],
+  ["cmd", cmdSecretResolver],
+];
+
+const registry = new Map<string, SecretResolver>(BUILTIN_RESOLVERS);
+
+/**
+ * Register (or replace) the resolver for a scheme.
+ * @throws If the scheme name is not lowercase `[a-z][a-z0-9_-]*`.
+ */
+export function registerSecretResolver(scheme: string, resolver: SecretResolver): void {
+  if (!SECRET_SCHEME_PATTERN.test(scheme)) {
+    throw new Error(`Invalid secret resolver scheme: "${scheme}"`);
+  }
+  registry.set(scheme, resolver);
+}
+
+/** Remove a resolver. Returns `true` if it was registered. */
+export function unregisterSecretResolver(scheme: string): boolean {
+  return registry.delete(scheme);
+}
+
+export function getSecretResolver(scheme: string): SecretResolver | undefined {
+  return registry.get(scheme);
+}
+
+export function listSecretResolverSchemes(): string[] {
+  return [...registry.keys()];
+}
+
+/** Restore the built-in resolvers only (useful for tests). */
+export function resetSecretResolvers(): void {
+  registry.clear();
+  for (const [scheme, resolver] of BUILTIN_RESOLVERS) registry.set(scheme, resolver);
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+
+import { isSensitiveConfigPath, getSchemaAtPath, unwrapSchema } from "./sensitive.js";
+
+describe("isSensitiveConfigPath", () => {
+  it.each([
+    "provider.authProfiles[0].apiKey",
+    "provider.authProfiles[3].apiKey",
+    "channels.telegram.botToken",
+    "gateway.token",
+  ])("returns true for %s", (p) => {
+    expect(isSensitiveConfigPath(p)).toBe(true);
+  });
+
+  it.each(["provider.model", "provider.authProfiles[0].id", "gateway.port", "provider", ""])(
+    "returns false for %s",
+    (p) => {
+      expect(isSensitiveConfigPath(p)).toBe(false);
+    },
+  );
+
+  it("accepts path segments", () => {
+    expect(isSensitiveConfigPath(["provider", "authProfiles", 0, "apiKey"])).toBe(true);
+  });
+
+  it("returns false for paths not in the schema", () => {
+    expect(isSensitiveConfigPath("provider.nope.deeper")).toBe(false);
+  });
+});
+
+describe("getSchemaAtPath", () => {
+  it("walks objects, optionals and arrays", () => {
+    expect(getSchemaAtPath("channels.telegram.allowedChatIds[0]")).toBeDefined();
+    expect(getSchemaAtPath("agent.unknown")).toBeUndefined();
+  });
+
+  it("walks records", () => {
+    const schema = z.object({ m: z.record(z.string(), z.object({ k: z.string().describe("sensitive") })) });
+    const node = getSchemaAtPath("m.anything.k", schema);
+    expect(node && unwrapSchema(node).sensitive).toBe(true);
+  });
+});
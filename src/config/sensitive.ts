@@ -0,0 +1,82 @@
+/**
+ * Schema-driven sensitivity lookup.
+ *
+ * Fields tagged with `.meta({ sensitive: true })` (or `.describe("sensitive")`)
+ * in `schema.ts` hold secrets (API keys, tokens). These helpers walk `MyClawConfigSchema` so callers
+ * can ask "is this config path sensitive?" without hard-coding field names.
+ */
+
+import { z } from "zod";
+
+import { parseConfigPath } from "./config-path.js";
+import { MyClawConfigSchema } from "./schema.js";
+
+/** The `.describe()` tag that marks a field as sensitive. */
+export const SENSITIVE_TAG = "sensitive";
+
+function isTagged(schema: z.ZodType): boolean {
+  return schema.description === SENSITIVE_TAG || schema.meta()?.sensitive === true;
+}
+
+// ── Schema walking ──────────────────────────────────────────────────
+
+/**
+ * Strip optional/nullable/default wrappers, noting whether any layer
+ * (wrapper or inner) carries the sensitive tag.
+ */
+export function unwrapSchema(schema: z.ZodType): { schema: z.ZodType; sensitive: boolean } {
+  let current = schema;
+  let sensitive = isTagged(current);
+  while (
+    current instanceof z.ZodOptional ||
+    current instanceof z.ZodNullable ||
+    current instanceof z.ZodDefault
+  ) {
+    current = current.unwrap() as z.ZodType;
+    if (isTagged(current)) sensitive = true;
+  }
+  return { schema: current, sensitive };
+}
+
+/**
+ * Resolve the schema node for a config path (segments or dotted string).
+ * Returns `undefined` if the path does not exist in the schema.
+ */
+export function getSchemaAtPath(
+  configPath: string | readonly PropertyKey[],
+  root: z.ZodType = MyClawConfigSchema,
+): z.ZodType | undefined {
+  const segments = typeof configPath === "string" ? parseConfigPath(configPath) : configPath;
+  let current: z.ZodType | undefined = root;
+
+  for (const seg of segments) {
+    if (!current) return undefined;
+    const { schema } = unwrapSchema(current);
+
+    if (schema instanceof z.ZodObject) {
+      current = (schema.shape as Record<string, z.ZodType>)[String(seg)];
+    } else if (schema instanceof z.ZodArray) {
+      current = schema.element as z.ZodType;
+    } else if (schema instanceof z.ZodRecord) {
+      current = schema.valueType as z.ZodType;
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Whether a config path points at a field tagged sensitive.
+ *
+ * @example
+ * ```ts
+ * isSensitiveConfigPath("provider.authProfiles[0].apiKey"); // true
+ * isSensitiveConfigPath("provider.model");                  // false
+ * ```
+ */
+export function isSensitiveConfigPath(configPath: string | readonly PropertyKey[]): boolean {
+  const schema = getSchemaAtPath(configPath);
+  return schema ? unwrapSchema(schema).sensitive : false;
+}
@@ -0,0 +1,306 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  watchConfig,
+  diffConfigSections,
+  type ConfigWatcher,
+  type ConfigWatchEvent,
+} from "./watcher.js";
+import {
+  clearConfigCache,
+  ConfigFileNotFoundError,
+  ConfigParseError,
+  ConfigValidationError,
+} from "./loader.js";
+import type { MyClawConfig } from "./schema.js";
+
+// ── Test helpers ────────────────────────────────────────────────────
+
+let tmpDir: string;
+let configPath: string;
+let watcher: ConfigWatcher | undefined;
+
+function writeConfig(extra = ""): void {
+  fs.writeFileSync(
+    configPath,
+    `{
+      provider: {
+        name: "anthropic",
+        model: "claude-sonnet-4-20250514",
+        authProfiles: [{ id: "p", apiKey: "k" }],
+      },
+      ${extra}
+    }`,
+    "utf-8",
+  );
+}
+
+function waitForEvent(events: ConfigWatchEvent[], count: number, timeoutMs = 2_000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const poll = setInterval(() => {
+      if (events.length >= count) {
+        clearInterval(poll);
+        resolve();
+      } else if (Date.now() - started > timeoutMs) {
+        clearInterval(poll);
+        reject(new Error(`Timed out waiting for ${count} watch event(s)`));
+      }
+    }, 10);
+  });
+}
+
+const baseConfig: MyClawConfig = {
+  provider: {
+    name: "anthropic",
+    model: "claude-sonnet-4-20250514",
+    authProfiles: [{ id: "p", apiKey: "k" }],
+  },
+};
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-watch-test-"));
+  configPath = path.join(tmpDir, "myclaw.json");
+  clearConfigCache();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  watcher?.close();
+  watcher = undefined;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── diffConfigSections ──────────────────────────────────────────────
+
+describe("diffConfigSections", () => {
+  it("returns an empty list for structurally equal configs", () => {
+    expect(diffConfigSections(baseConfig, structuredClone(baseConfig))).toEqual([]);
+  });
+
+  it("detects changed, added and removed sections", () => {
+    const prev: MyClawConfig = { ...baseConfig, gateway: { port: 1 } };
+    const next: MyClawConfig = {
+      provider: { ...baseConfig.provider, model: "gpt-4o" },
+      logging: { level: "debug" },
+    };
+    expect(diffConfigSections(prev, next)).toEqual(["provider", "gateway", "logging"]);
+  });
+
+  it("ignores key order inside a section", () => {
+    const prev: MyClawConfig = { ...baseConfig, agent: { maxIterations: 5, maxRetries: 1 } };
+    const next: MyClawConfig = { ...baseConfig, agent: { maxRetries: 1, maxIterations: 5 } };
+    expect(diffConfigSections(prev, next)).toEqual([]);
+  });
+});
+
+// ── watchConfig ─────────────────────────────────────────────────────
+
+describe("watchConfig", () => {
+  it("loads the initial config synchronously", () => {
+    writeConfig();
+    watcher = watchConfig({ configPath, onEvent: () => {} });
+    expect(watcher.current.config.provider.name).toBe("anthropic");
+    expect(watcher.current.path).toBe(configPath);
+  });
+
+  it("throws for a broken initial config", () => {
+    expect(() => watchConfig({ configPath, onEvent: () => {} })).toThrow(
+      ConfigFileNotFoundError,
+    );
+  });
+
+  it("emits a change event with changed sections on file edit", async () => {
+    writeConfig();
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, debounceMs: 20, onEvent: (e) => events.push(e) });
+
+    writeConfig(`logging: { level: "debug" },`);
+    await waitForEvent(events, 1);
+
+    const event = events[0];
+    expect(event.type).toBe("change");
+    if (event.type === "change") {
+      expect(event.changedSections).toEqual(["logging"]);
+      expect(event.previous.logging?.level).toBe("info");
+      expect(event.config.logging?.level).toBe("debug");
+    }
+    expect(watcher.current.config.logging?.level).toBe("debug");
+  });
+
+  it("keeps the last good config on an invalid edit and reports the error", () => {
+    writeConfig();
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, debounceMs: 10_000, onEvent: (e) => events.push(e) });
+
+    writeConfig(`gateway: { port: -1 },`);
+    const event = watcher.reload();
+
+    expect(event?.type).toBe("error");
+    if (event?.type === "error") {
+      expect(event.error).toBeInstanceOf(ConfigValidationError);
+    }
+    expect(events).toHaveLength(1);
+    expect(watcher.current.config.gateway?.port).not.toBe(-1);
+  });
+
+  it("reports parse errors without replacing the config", () => {
+    writeConfig();
+    watcher = watchConfig({ configPath, debounceMs: 10_000, onEvent: () => {} });
+    const before = watcher.current;
+
+    fs.writeFileSync(configPath, "{ not json5 !!", "utf-8");
+    const event = watcher.reload();
+
+    expect(event?.type).toBe("error");
+    if (event?.type === "error") {
+      expect(event.error).toBeInstanceOf(ConfigParseError);
+    }
+    expect(watcher.current).toBe(before);
+  });
+
+  it("recovers after a bad edit is fixed", () => {
+    writeConfig();
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, debounceMs: 10_000, onEvent: (e) => events.push(e) });
+
+    writeConfig(`gateway: { port: "nope" },`);
+    watcher.reload();
+    writeConfig(`gateway: { port: 9000 },`);
+    watcher.reload();
+
+    expect(events.map((e) => e.type)).toEqual(["error", "change"]);
+    expect(watcher.current.config.gateway?.port).toBe(9000);
+  });
+
+  it("does not emit when the effective config is unchanged", () => {
+    writeConfig();
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, debounceMs: 10_000, onEvent: (e) => events.push(e) });
+
+    // Same content, different formatting
+    fs.writeFileSync(
+      configPath,
+      `{ provider: { name: "anthropic", model: "claude-sonnet-4-20250514", authProfiles: [{ id: "p", apiKey: "k" }] } }`,
+      "utf-8",
+    );
+
+    expect(watcher.reload()).toBeNull();
+    expect(events).toHaveLength(0);
+  });
+
+  it("reloads when an included file changes", async () => {
+    const included = path.join(tmpDir, "agent.json5");
+    fs.writeFileSync(included, `{ agent: { maxIterations: 5 } }`, "utf-8");
+    writeConfig(`$include: "./agent.json5",`);
+
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, debounceMs: 20, onEvent: (e) => events.push(e) });
+    expect(watcher.current.config.agent?.maxIterations).toBe(5);
+
+    fs.writeFileSync(included, `{ agent: { maxIterations: 7 } }`, "utf-8");
+    await waitForEvent(events, 1);
+
+    expect(events[0].type).toBe("change");
+    expect(watcher.current.config.agent?.maxIterations).toBe(7);
+  });
+
+  it("reports an error when the watched directory is removed", async () => {
+    const confDir = path.join(tmpDir, "conf");
+    fs.mkdirSync(confDir);
+    configPath = path.join(confDir, "myclaw.json");
+    writeConfig();
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, debounceMs: 20, onEvent: (e) => events.push(e) });
+
+    fs.rmSync(confDir, { recursive: true, force: true });
+    await waitForEvent(events, 1);
+
+    expect(events[0].type).toBe("error");
+    expect(watcher.current.config.provider.name).toBe("anthropic");
+  });
+
+  it("reports fs.watch errors as events instead of crashing", () => {
+    writeConfig();
+    const watch = fs.watch;
+    const handles: fs.FSWatcher[] = [];
+    vi.spyOn(fs, "watch").mockImplementation(((...args: Parameters<typeof fs.watch>) => {
+      const handle = watch(...args);
+      handles.push(handle);
+      return handle;
+    }) as typeof fs.watch);
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, onEvent: (e) => events.push(e) });
+
+    // Without an "error" listener, emit() would throw
+    handles[0].emit("error", new Error("EPERM: watched directory went away"));
+
+    expect(events).toMatchObject([
+      { type: "error", error: { message: "EPERM: watched directory went away" }, path: configPath },
+    ]);
+  });
+
+  it("reports a directory that can't be watched and keeps watching the rest", async () => {
+    writeConfig();
+    const incDir = path.join(tmpDir, "inc");
+    const watch = fs.watch;
+    vi.spyOn(fs, "watch").mockImplementation(((...args: Parameters<typeof fs.watch>) => {
+      if (args[0] === incDir) throw new Error(`ENOENT: no such file or directory, watch '${incDir}'`);
+      return watch(...args);
+    }) as typeof fs.watch);
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, debounceMs: 20, onEvent: (e) => events.push(e) });
+
+    fs.mkdirSync(incDir);
+    fs.writeFileSync(path.join(incDir, "agent.json5"), `{ maxIterations: 7 }`, "utf-8");
+    writeConfig(`agent: { $include: "./inc/agent.json5" },`);
+    await waitForEvent(events, 2);
+
+    expect(events.slice(0, 2)).toMatchObject([
+      { type: "error", error: { message: expect.stringContaining("ENOENT") }, path: configPath },
+      { type: "change", changedSections: ["agent"] },
+    ]);
+    expect(watcher.current.config.agent?.maxIterations).toBe(7);
+
+    // The config's own directory is still watched; each reload retries the other
+    writeConfig(`agent: { $include: "./inc/agent.json5" }, logging: { level: "warn" },`);
+    await waitForEvent(events, 4);
+    expect(events.slice(2).map((e) => e.type)).toEqual(["error", "change"]);
+    expect(watcher.current.config.logging?.level).toBe("warn");
+  });
+
+  it("survives a listener that throws during a debounced reload", async () => {
+    writeConfig();
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({
+      configPath,
+      debounceMs: 20,
+      onEvent: (e) => {
+        events.push(e);
+        throw new Error("listener bug");
+      },
+    });
+
+    writeConfig(`logging: { level: "warn" },`);
+    await waitForEvent(events, 1);
+    writeConfig(`logging: { level: "error" },`);
+    await waitForEvent(events, 2);
+
+    expect(watcher.current.config.logging?.level).toBe("error");
+  });
+
+  it("stops emitting after close()", () => {
+    writeConfig();
+    const events: ConfigWatchEvent[] = [];
+    watcher = watchConfig({ configPath, onEvent: (e) => events.push(e) });
+    watcher.close();
+    watcher.close(); // idempotent
+
+    writeConfig(`logging: { level: "warn" },`);
+    expect(watcher.reload()).toBeNull();
+    expect(events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Config hot-reload — watch myclaw.json and re-run the loader pipeline on change.
+ *
+ * Watches the **directories** of the config file and every `$include`d file
+ * (not the files themselves) so editors that save via write-to-temp + rename
+ * are still picked up. Changes are debounced, re-loaded with
+ * `loadConfig({ noCache: true })`, and diffed per top-level section.
+ *
+ * An invalid edit never replaces the current config: the watcher keeps the
+ * last good result and reports the error (e.g. `ConfigValidationError`)
+ * through the callback instead of throwing.
+ *
+ * @example
+ * ```ts
+ * const watcher = watchConfig({
+ *   onEvent: (e) => {
+ *     if (e.type === "change") console.log("changed:", e.changedSections);
+ *     if (e.type === "error") console.error(e.error.message);
+ *   },
+ * });
+ * // later
+ * watcher.close();
+ * ```
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+
+import { getLogger } from "../logging/logger.js";
+
+import { loadConfig, type ConfigResult, type LoadConfigOptions } from "./loader.js";
+import { MyClawConfigSchema, type MyClawConfig } from "./schema.js";
+
+const log = getLogger("config");
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** A top-level section of the config (`provider`, `channels`, ...). */
+export type ConfigSection = keyof MyClawConfig;
+
+/** All top-level sections, in schema order. */
+export const CONFIG_SECTIONS = Object.keys(MyClawConfigSchema.shape) as ConfigSection[];
+
+export type ConfigWatchEvent =
+  | {
+      type: "change";
+      /** The newly loaded config (now current). */
+      config: MyClawConfig;
+      /** The config that was current before this change. */
+      previous: MyClawConfig;
+      /** Top-level sections whose content differs. Never empty. */
+      changedSections: ConfigSection[];
+      path: string;
+    }
+  | {
+      type: "error";
+      /** Loader or watch error — the previous config stays current. */
+      error: Error;
+      path: string;
+    };
+
+export type ConfigWatchCallback = (event: ConfigWatchEvent) => void;
+
+export type WatchConfigOptions = Omit<LoadConfigOptions, "noCache"> & {
+  /** Receives change / error events. */
+  onEvent: ConfigWatchCallback;
+  /** Quiet period before reloading after a file event. Default: 100ms. */
+  debounceMs?: number;
+};
+
+export interface ConfigWatcher {
+  /** The last successfully loaded config. */
+  readonly current: ConfigResult;
+  /**
+   * Re-run the pipeline immediately (bypassing the debounce).
+   * Returns the emitted event, or `null` if nothing changed.
+   */
+  reload(): ConfigWatchEvent | null;
+  /** Stop watching. Idempotent. */
+  close(): void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+// ── Diff ────────────────────────────────────────────────────────────
+
+/**
+ * List the top-level sections that differ between two configs.
+ * Comparison is structural (key order does not matter).
+ */
+export function diffConfigSections(
+  previous: MyClawConfig,
+  next: MyClawConfig,
+): ConfigSection[] {
+  return CONFIG_SECTIONS.filter(
+    (section) => !isDeepStrictEqual(previous[section], next[section]),
+  );
+}
+
+// ── Watcher ─────────────────────────────────────────────────────────
+
+/**
+ * Load the config and start watching it for changes.
+ *
+ * The initial load is synchronous and throws like `loadConfig()` — a
+ * process should not start with a broken config. After that, errors are
+ * reported through `onEvent` and never thrown — including a directory
+ * that can't be watched or goes away, which is skipped until the next
+ * `reload()` while the other directories stay watched.
+ * A listener that throws during a debounced reload is logged, not rethrown.
+ */
+export function watchConfig(options: WatchConfigOptions): ConfigWatcher {
+  const { onEvent, debounceMs = DEFAULT_DEBOUNCE_MS, ...loadOptions } = options;
+
+  let current = loadConfig({ ...loadOptions, noCache: true });
+  const filePath = current.path;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  // One fs.watch per directory; `watchedFiles` filters the events
+  const dirWatchers = new Map<string, fs.FSWatcher>();
+  let watchedFiles = new Set<string>();
+
+  function schedule(): void {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        reload();
+      } catch (err) {
+        // Nobody can catch it here — an uncaught exception would end the process
+        log.error("config watch listener failed", { file: filePath, err });
+      }
+    }, debounceMs);
+  }
+
+  /** Report a watch failure; the listener is guarded like the timer path. */
+  function reportWatchError(dir: string, err: Error, message: string): void {
+    log.warn(message, { dir, err });
+    try {
+      onEvent({ type: "error", error: err, path: filePath });
+    } catch (listenerErr) {
+      log.error("config watch listener failed", { file: filePath, err: listenerErr });
+    }
+  }
+
+  function syncWatchers(files: string[]): void {
+    watchedFiles = new Set(files);
+    const dirs = new Set(files.map((f) => path.dirname(f)));
+
+    for (const [dir, w] of dirWatchers) {
+      if (!dirs.has(dir)) {
+        w.close();
+        dirWatchers.delete(dir);
+      }
+    }
+    for (const dir of dirs) {
+      if (dirWatchers.has(dir)) continue;
+      let w: fs.FSWatcher;
+      try {
+        w = fs.watch(dir, (_eventType, changed) => {
+          // `changed` may be null on some platforms — reload to be safe
+          if (changed && !watchedFiles.has(path.join(dir, changed.toString()))) return;
+          schedule();
+        });
+      } catch (err) {
+        // Missing or unreadable directory — keep watching the others
+        const error = err instanceof Error ? err : new Error(String(err));
+        reportWatchError(dir, error, "cannot watch config directory");
+        continue;
+      }
+      // Deleted, renamed, or unmounted directory — unhandled, this event would crash the process
+      w.on("error", (err) => {
+        w.close();
+        if (dirWatchers.get(dir) === w) dirWatchers.delete(dir);
+        reportWatchError(dir, err, "stopped watching config directory");
+      });
+      dirWatchers.set(dir, w);
+    }
+  }
+
+  function reload(): ConfigWatchEvent | null {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (closed) return null;
+
+    let next: ConfigResult;
+    try {
+      next = loadConfig({ ...loadOptions, configPath: filePath, noCache: true });
+    } catch (err) {
+      const event: ConfigWatchEvent = {
+        type: "error",
+        error: err instanceof Error ? err : new Error(String(err)),
+        path: filePath,
+      };
+      log.warn("config reload failed; keeping the previous config", {
+        file: filePath,
+        err: event.error,
+      });
+      onEvent(event);
+      return event;
+    }
+
+    syncWatchers(next.files);
+
+    const changedSections = diffConfigSections(current.config, next.config);
+    if (changedSections.length === 0) return null;
+
+    const previous = current.config;
+    current = next;
+
+    const event: ConfigWatchEvent = {
+      type: "change",
+      config: next.config,
+      previous,
+      changedSections,
+      path: filePath,
+    };
+    log.info("config reloaded", { file: filePath, changedSections });
+    onEvent(event);
+    return event;
+  }
+
+  syncWatchers(current.files);
+
+  return {
+    get current() {
+      return current;
+    },
+    reload,
+    close() {
+      if (closed) return;
+      closed = true;
+      if (timer) clearTimeout(timer);
+      timer = undefined;
+      for (const w of dirWatchers.values()) w.close();
+      dirWatchers.clear();
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Logging layer — public API.
+ *
+ * @example
+ * ```ts
+ * import { getLogger, setupLogging } from "./logging/index.js";
+ *
+ * setupLogging(config);                        // entry point, once
+ *
+ * const log = getLogger("sessions");           // any module
+ * log.warn("skipped malformed transcript line", { file, line: 12 });
+ * ```
+ */
+
+export {
+  getLogger,
+  configureLogging,
+  loggingOptionsFromConfig,
+  resetLogging,
+  LOG_LEVELS,
+  type Logger,
+  type LogLevel,
+  type LogFields,
+  type LogRecord,
+  type LogSink,
+  type LoggingOptions,
+} from "./logger.js";
+
+export {
+  createFileSink,
+  createConsoleSink,
+  formatLogRecord,
+  LOG_FILENAME,
+  DEFAULT_LOG_MAX_BYTES,
+  DEFAULT_LOG_MAX_FILES,
+  type FileSinkOptions,
+  type ConsoleSinkOptions,
+} from "./sinks.js";
+
+export { setupLogging, type SetupLoggingOptions } from "./setup.js";
@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach } from "vitest";
+
+import type { MyClawConfig } from "../config/index.js";
+
+import {
+  configureLogging,
+  getLogger,
+  loggingOptionsFromConfig,
+  resetLogging,
+  type LogRecord,
+  type LogSink,
+} from "./logger.js";
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function memorySink(level?: LogSink["level"]): LogSink & { records: LogRecord[] } {
+  const records: LogRecord[] = [];
+  return { level, records, write: (r) => records.push(r) };
+}
+
+afterEach(() => {
+  resetLogging();
+});
+
+// ── Levels ───────────────────────────────────────────────────────────
+
+describe("levels", () => {
+  it("drops records below the configured level", () => {
+    const sink = memorySink();
+    configureLogging({ level: "warn", sinks: [sink] });
+    const log = getLogger("agent");
+
+    log.debug("d");
+    log.info("i");
+    log.warn("w");
+    log.error("e");
+
+    expect(sink.records.map((r) => r.msg)).toEqual(["w", "e"]);
+    expect(log.isLevelEnabled("info")).toBe(false);
+    expect(log.isLevelEnabled("error")).toBe(true);
+  });
+
+  it("lets each sink raise its own minimum", () => {
+    const all = memorySink();
+    const errorsOnly = memorySink("error");
+    configureLogging({ level: "debug", sinks: [all, errorsOnly] });
+
+    getLogger("agent").debug("d");
+    getLogger("agent").error("e");
+
+    expect(all.records).toHaveLength(2);
+    expect(errorsOnly.records.map((r) => r.msg)).toEqual(["e"]);
+  });
+
+  it("writes nothing until logging is configured", () => {
+    const log = getLogger("sessions");
+    expect(log.isLevelEnabled("error")).toBe(false);
+    expect(() => log.error("nobody listens")).not.toThrow();
+  });
+});
+
+// ── Records ──────────────────────────────────────────────────────────
+
+describe("records", () => {
+  it("writes flat records with subsystem, bindings, and fields", () => {
+    const sink = memorySink();
+    configureLogging({ sinks: [sink] });
+
+    // Loggers created before configureLogging() pick it up too
+    const runLog = getLogger("agent").child({ sessionKey: "k1" }).child({ runId: 7 });
+    runLog.info("run started", { model: "m", skipped: undefined, msg: "not a field" });
+
+    expect(sink.records).toHaveLength(1);
+    const [record] = sink.records;
+    expect(record).toEqual({
+      time: expect.stringMatching(/^\d{4}-\d\d-\d\dT/),
+      level: "info",
+      subsystem: "agent",
+      msg: "run started",
+      sessionKey: "k1",
+      runId: 7,
+      model: "m",
+    });
+  });
+
+  it("serializes errors with message, status, and stack", () => {
+    const sink = memorySink();
+    configureLogging({ sinks: [sink] });
+    const err = Object.assign(new Error("429 Rate limit exceeded"), { status: 429 });
+
+    getLogger("agent").warn("LLM call failed", { err });
+
+    expect(sink.records[0].err).toMatchObject({
+      name: "Error",
+      message: "429 Rate limit exceeded",
+      status: 429,
+      stack: expect.stringContaining("429 Rate limit exceeded"),
+    });
+  });
+
+  it("keeps the message when fields can't be serialized", () => {
+    const sink = memorySink();
+    configureLogging({ sinks: [sink] });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    getLogger("agent").info("still logged", { circular });
+
+    expect(sink.records[0]).toMatchObject({ msg: "still logged" });
+    expect(sink.records[0].circular).toBeUndefined();
+  });
+
+  it("never lets a failing sink break the caller", () => {
+    const sink = memorySink();
+    configureLogging({
+      sinks: [
+        {
+          write: () => {
+            throw new Error("disk full");
+          },
+        },
+        sink,
+      ],
+    });
+
+    expect(() => getLogger("agent").info("hi")).not.toThrow();
+    expect(sink.records).toHaveLength(1);
+  });
+});
+
+// ── Redaction ────────────────────────────────────────────────────────
+
+describe("redaction", () => {
+  const config = {
+    provider: {
+      name: "anthropic",
+      model: "m",
+      authProfiles: [{ id: "primary", apiKey: 'sk-ant-"quoted"-key' }],
+    },
+    gateway: { token: "gw-token-1234" },
+  } as MyClawConfig;
+
+  it("scrubs config secrets from messages, fields, and errors", () => {
+    const sink = memorySink();
+    configureLogging({ ...loggingOptionsFromConfig(config), sinks: [sink] });
+
+    getLogger("channel").warn("auth failed for gw-token-1234", {
+      header: 'Bearer sk-ant-"quoted"-key',
+      nested: { tokens: ["gw-token-1234"] },
+      err: new Error('invalid x-api-key sk-ant-"quoted"-key'),
+    });
+
+    const [record] = sink.records;
+    expect(JSON.stringify(record)).not.toMatch(/gw-token-1234|quoted/);
+    expect(record.msg).toBe("auth failed for [redacted]");
+    expect(record.header).toBe("Bearer [redacted]");
+    expect(record.nested).toEqual({ tokens: ["[redacted]"] });
+    expect(record.err).toMatchObject({ message: "invalid x-api-key [redacted]" });
+  });
+
+  it("keeps secrets when logging.redactSensitive is false", () => {
+    const options = loggingOptionsFromConfig({
+      ...config,
+      logging: { level: "debug", redactSensitive: false },
+    });
+    expect(options).toEqual({ level: "debug", secrets: [] });
+    expect(loggingOptionsFromConfig(config)).toEqual({
+      level: "info",
+      secrets: expect.arrayContaining(["gw-token-1234", 'sk-ant-"quoted"-key']),
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Structured logger — levels, per-subsystem child loggers, secret redaction.
+ *
+ * Modules take a logger once at import (`getLogger("sessions")`) and log
+ * through it; where the records go is decided later, by the process entry
+ * point, with `configureLogging()` / `setupLogging()`. Until then nothing
+ * is written, so library code and tests stay silent.
+ *
+ * Every record is a flat JSON object:
+ *   {"time":"2026-02-15T12:00:00.000Z","level":"warn","subsystem":"agent","msg":"...","sessionKey":"..."}
+ *
+ * With `logging.redactSensitive` (the default) every secret value from the
+ * config is replaced with `[redacted]` anywhere in the record — message,
+ * fields, and error messages/stacks — before any sink sees it.
+ *
+ * @example
+ * ```ts
+ * const log = getLogger("agent");
+ * const runLog = log.child({ sessionKey });
+ * runLog.info("run started", { provider: "default", model: "claude-sonnet-4-20250514" });
+ * runLog.warn("retrying", { reason: "rate_limit", err });
+ * ```
+ */
+
+import { DEFAULT_LOG_LEVEL } from "../config/defaults.js";
+import { collectSecrets, redactSecrets } from "../config/redact.js";
+import type { MyClawConfig } from "../config/schema.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Levels from most to least verbose. */
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+
+/** Structured fields attached to a record. `Error` values are serialized with their stack. */
+export type LogFields = Record<string, unknown>;
+
+/** One log record, as written to the JSONL files. */
+export interface LogRecord {
+  /** ISO timestamp. */
+  time: string;
+  level: LogLevel;
+  /** Subsystem that logged it — `config`, `sessions`, `agent`, `channel`, ... */
+  subsystem: string;
+  msg: string;
+  [field: string]: unknown;
+}
+
+/** A destination for log records (JSONL file, console, test buffer). */
+export interface LogSink {
+  /** Minimum level this sink writes (default: everything the logger passes on). */
+  readonly level?: LogLevel;
+  write(record: LogRecord): void;
+}
+
+export interface Logger {
+  readonly subsystem: string;
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Whether a record at `level` would reach any sink — to skip building expensive fields. */
+  isLevelEnabled(level: LogLevel): boolean;
+  /** A logger for the same subsystem that adds `bindings` to every record. */
+  child(bindings: LogFields): Logger;
+}
+
+export interface LoggingOptions {
+  /** Minimum level logged. Default: `DEFAULT_LOG_LEVEL`. */
+  level?: LogLevel;
+  /** Values replaced with `[redacted]` in every record. */
+  secrets?: readonly string[];
+  sinks?: readonly LogSink[];
+}
+
+// ── State ───────────────────────────────────────────────────────────
+
+interface LoggingState {
+  level: LogLevel;
+  /** Secrets as they appear inside a JSON string (quotes and backslashes escaped). */
+  escapedSecrets: string[];
+  sinks: readonly LogSink[];
+}
+
+const state: LoggingState = {
+  level: DEFAULT_LOG_LEVEL,
+  escapedSecrets: [],
+  sinks: [],
+};
+
+/** Reserved record keys — fields and bindings can't overwrite them. */
+const RESERVED_KEYS = new Set(["time", "level", "subsystem", "msg"]);
+
+function levelRank(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+/**
+ * Route all loggers to `sinks`. Replaces the previous configuration, so it
+ * can be called again when the config is reloaded.
+ */
+export function configureLogging(options: LoggingOptions): void {
+  state.level = options.level ?? DEFAULT_LOG_LEVEL;
+  state.escapedSecrets = (options.secrets ?? []).map((s) => JSON.stringify(s).slice(1, -1));
+  state.sinks = options.sinks ?? [];
+}
+
+/**
+ * The `LoggingOptions` a config asks for: `logging.level`, and the config's
+ * secrets unless `logging.redactSensitive` is `false`.
+ */
+export function loggingOptionsFromConfig(
+  config: MyClawConfig,
+): Required<Pick<LoggingOptions, "level" | "secrets">> {
+  return {
+    level: config.logging?.level ?? DEFAULT_LOG_LEVEL,
+    secrets: config.logging?.redactSensitive === false ? [] : collectSecrets(config),
+  };
+}
+
+/** Drop all sinks and secrets and restore the default level (for tests). */
+export function resetLogging(): void {
+  configureLogging({});
+}
+
+// ── Records ─────────────────────────────────────────────────────────
+
+/** JSON replacer: errors keep their message, stack, and status/code; bigints become strings. */
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    const { status, code } = value as Error & { status?: unknown; code?: unknown };
+    return {
+      name: value.name,
+      message: value.message,
+      ...(status !== undefined ? { status } : {}),
+      ...(code !== undefined ? { code } : {}),
+      stack: value.stack,
+    };
+  }
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+function buildRecord(
+  level: LogLevel,
+  subsystem: string,
+  msg: string,
+  bindings: LogFields,
+  fields: LogFields | undefined,
+): LogRecord {
+  const record: LogRecord = { time: new Date().toISOString(), level, subsystem, msg };
+  for (const [key, value] of Object.entries({ ...bindings, ...fields })) {
+    if (!RESERVED_KEYS.has(key) && value !== undefined) record[key] = value;
+  }
+
+  // One JSON round trip serializes errors and lets redaction see every string at once
+  let json: string;
+  try {
+    json = JSON.stringify(record, toJsonValue);
+  } catch {
+    // Circular or otherwise unserializable fields — keep the message
+    json = JSON.stringify({ time: record.time, level, subsystem, msg });
+  }
+  if (state.escapedSecrets.length > 0) json = redactSecrets(json, state.escapedSecrets);
+  return JSON.parse(json) as LogRecord;
+}
+
+function write(
+  level: LogLevel,
+  subsystem: string,
+  msg: string,
+  bindings: LogFields,
+  fields?: LogFields,
+): void {
+  if (!isEnabled(level)) return;
+  const record = buildRecord(level, subsystem, msg, bindings, fields);
+  for (const sink of state.sinks) {
+    if (sink.level && levelRank(level) < levelRank(sink.level)) continue;
+    try {
+      sink.write(record);
+    } catch {
+      // Logging must never break the code that logs
+    }
+  }
+}
+
+function isEnabled(level: LogLevel): boolean {
+  return (
+    levelRank(level) >= levelRank(state.level) &&
+    state.sinks.some((s) => !s.level || levelRank(level) >= levelRank(s.level))
+  );
+}
+
+// ── Loggers ─────────────────────────────────────────────────────────
+
+function createLogger(subsystem: string, bindings: LogFields): Logger {
+  return {
+    subsystem,
+    debug: (msg, fields) => write("debug", subsystem, msg, bindings, fields),
+    info: (msg, fields) => write("info", subsystem, msg, bindings, fields),
+    warn: (msg, fields) => write("warn", subsystem, msg, bindings, fields),
+    error: (msg, fields) => write("error", subsystem, msg, bindings, fields),
+    isLevelEnabled: isEnabled,
+    child: (more) => createLogger(subsystem, { ...bindings, ...more }),
+  };
+}
+
+/**
+ * The logger for a subsystem. Cheap to call; loggers read the current
+ * configuration on every record, so module-level loggers created before
+ * `configureLogging()` pick it up.
+ */
+export function getLogger(subsystem: string, bindings: LogFields = {}): Logger {
+  return createLogger(subsystem, bindings);
+}
@@ -0,0 +1,42 @@
+/**
+ * Process-level logging setup from the config.
+ *
+ * Entry points call `setupLogging(config)` once after loading the config
+ * (and again on a `logging` change from the config watcher). Library code
+ * never does — it only calls `getLogger()`.
+ */
+
+import type { MyClawConfig } from "../config/schema.js";
+
+import { configureLogging, loggingOptionsFromConfig, type LogLevel, type LogSink } from "./logger.js";
+import { createConsoleSink, createFileSink, type ConsoleSinkOptions } from "./sinks.js";
+
+export interface SetupLoggingOptions {
+  /** Minimum level shown on the console, or `false` for none. Default: `"warn"`. */
+  console?: LogLevel | false;
+  /** Console stream. Default: `process.stderr`. */
+  consoleStream?: ConsoleSinkOptions["stream"];
+  /** Directory for the JSONL files, or `false` for none. Default: `resolveLogsDir()`. */
+  logsDir?: string | false;
+}
+
+/**
+ * Log at `logging.level` to rotating JSONL files in the logs dir and,
+ * from `options.console` up, to the console — redacting the config's
+ * secrets unless `logging.redactSensitive` is `false`.
+ *
+ * @example
+ * ```ts
+ * const { config } = loadConfig();
+ * setupLogging(config, { console: process.env.MYCLAW_DEBUG === "1" ? "debug" : "warn" });
+ * ```
+ */
+export function setupLogging(config: MyClawConfig, options: SetupLoggingOptions = {}): void {
+  const sinks: LogSink[] = [];
+  if (options.logsDir !== false) sinks.push(createFileSink({ dir: options.logsDir }));
+  const consoleLevel = options.console ?? "warn";
+  if (consoleLevel !== false) {
+    sinks.push(createConsoleSink({ level: consoleLevel, stream: options.consoleStream }));
+  }
+  configureLogging({ ...loggingOptionsFromConfig(config), sinks });
+}
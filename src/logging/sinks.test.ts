@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+
+import type { MyClawConfig } from "../config/index.js";
+
+import { getLogger, resetLogging, type LogRecord } from "./logger.js";
+import { createConsoleSink, createFileSink, formatLogRecord, LOG_FILENAME } from "./sinks.js";
+import { setupLogging } from "./setup.js";
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "myclaw-logging-test-"));
+});
+
+afterEach(() => {
+  resetLogging();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function record(msg: string, extra: Partial<LogRecord> = {}): LogRecord {
+  return { time: "2026-02-15T12:34:56.789Z", level: "info", subsystem: "agent", msg, ...extra };
+}
+
+function readLines(file: string): LogRecord[] {
+  return fs
+    .readFileSync(file, "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as LogRecord);
+}
+
+// ── File sink ────────────────────────────────────────────────────────
+
+describe("createFileSink", () => {
+  it("appends JSON lines, creating the logs dir", () => {
+    const dir = path.join(tmpDir, "logs");
+    const sink = createFileSink({ dir });
+    sink.write(record("one"));
+    sink.write(record("two", { sessionKey: "k" }));
+
+    expect(sink.path).toBe(path.join(dir, LOG_FILENAME));
+    expect(readLines(sink.path)).toEqual([record("one"), record("two", { sessionKey: "k" })]);
+  });
+
+  it("rotates by size and keeps maxFiles old files", () => {
+    const lineBytes = JSON.stringify(record("x")).length + 1;
+    const sink = createFileSink({ dir: tmpDir, maxBytes: lineBytes * 2, maxFiles: 2 });
+
+    for (const msg of ["a", "b", "c", "d", "e", "f", "g"]) sink.write(record(msg));
+
+    const msgs = (name: string) => readLines(path.join(tmpDir, name)).map((r) => r.msg);
+    expect(fs.readdirSync(tmpDir).sort()).toEqual(["myclaw.1.log", "myclaw.2.log", "myclaw.log"]);
+    expect(msgs("myclaw.log")).toEqual(["g"]);
+    expect(msgs("myclaw.1.log")).toEqual(["e", "f"]);
+    expect(msgs("myclaw.2.log")).toEqual(["c", "d"]);
+  });
+
+  it("counts an existing file toward the size limit", () => {
+    fs.writeFileSync(path.join(tmpDir, LOG_FILENAME), "x".repeat(100) + "\n");
+    const sink = createFileSink({ dir: tmpDir, maxBytes: 120 });
+    sink.write(record("new"));
+
+    expect(readLines(path.join(tmpDir, LOG_FILENAME)).map((r) => r.msg)).toEqual(["new"]);
+    expect(fs.existsSync(path.join(tmpDir, "myclaw.1.log"))).toBe(true);
+  });
+});
+
+// ── Console sink ─────────────────────────────────────────────────────
+
+describe("formatLogRecord", () => {
+  it("prints time, level, subsystem, message, and fields", () => {
+    expect(
+      formatLogRecord(
+        record("retrying LLM call", {
+          level: "warn",
+          reason: "rate_limit",
+          attempt: 1,
+          note: "two words",
+        }),
+      ),
+    ).toBe('12:34:56.789 WARN  [agent] retrying LLM call reason=rate_limit attempt=1 note="two words"');
+  });
+
+  it("shows error messages, and the stack at level error", () => {
+    const err = { name: "Error", message: "boom", stack: "Error: boom\n    at run (run.ts:1:1)" };
+    expect(formatLogRecord(record("failed", { level: "warn", err }))).toBe(
+      "12:34:56.789 WARN  [agent] failed err=boom",
+    );
+    expect(formatLogRecord(record("failed", { level: "error", err }))).toBe(
+      "12:34:56.789 ERROR [agent] failed err=boom\n    at run (run.ts:1:1)",
+    );
+  });
+});
+
+describe("createConsoleSink", () => {
+  it("writes formatted lines, colored on request", () => {
+    const stream = new PassThrough();
+    createConsoleSink({ stream, color: true }).write(record("hello"));
+    const out = String(stream.read());
+    expect(out).toContain("\x1b[36mINFO");
+    expect(out.endsWith("hello\n")).toBe(true);
+  });
+});
+
+// ── Setup ────────────────────────────────────────────────────────────
+
+describe("setupLogging", () => {
+  it("logs at logging.level to the file and warnings up to the console, redacted", () => {
+    const stream = new PassThrough();
+    const config = {
+      provider: { name: "anthropic", model: "m", authProfiles: [{ id: "p", apiKey: "sk-secret-1" }] },
+      logging: { level: "debug" },
+    } as MyClawConfig;
+    setupLogging(config, { logsDir: tmpDir, consoleStream: stream });
+
+    const log = getLogger("agent");
+    log.debug("calling LLM");
+    log.warn("key sk-secret-1 rejected");
+
+    expect(readLines(path.join(tmpDir, LOG_FILENAME)).map((r) => r.msg)).toEqual([
+      "calling LLM",
+      "key [redacted] rejected",
+    ]);
+    const consoleOut = String(stream.read());
+    expect(consoleOut).toContain("key [redacted] rejected");
+    expect(consoleOut).not.toContain("calling LLM");
+  });
+});
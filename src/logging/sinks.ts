@@ -0,0 +1,155 @@
+/**
+ * Log sinks — rotating JSONL files and a human-readable console.
+ *
+ * File layout (under `<stateDir>/logs` by default):
+ *   myclaw.log      ← current file, one JSON record per line
+ *   myclaw.1.log    ← previous file
+ *   myclaw.2.log    ← ...up to `maxFiles` rotated files
+ *
+ * A file is rotated before the record that would push it past `maxBytes`.
+ * Writes are synchronous appends, like the transcripts, so nothing is
+ * lost when the process exits.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+import { ensureDir, resolveLogsDir } from "../config/paths.js";
+
+import type { LogLevel, LogRecord, LogSink } from "./logger.js";
+
+/** Name of the current log file. */
+export const LOG_FILENAME = "myclaw.log";
+
+/** Rotate the log file once it would exceed this size. */
+export const DEFAULT_LOG_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Rotated files kept besides the current one. */
+export const DEFAULT_LOG_MAX_FILES = 5;
+
+// ── File sink ───────────────────────────────────────────────────────
+
+export interface FileSinkOptions {
+  /** Directory for the log files. Default: `resolveLogsDir()`. */
+  dir?: string;
+  /** Default: `DEFAULT_LOG_MAX_BYTES`. */
+  maxBytes?: number;
+  /** Default: `DEFAULT_LOG_MAX_FILES`. */
+  maxFiles?: number;
+  level?: LogLevel;
+}
+
+/** Path of rotated file `n` (0 = the current file). */
+function rotatedPath(dir: string, n: number): string {
+  if (n === 0) return path.join(dir, LOG_FILENAME);
+  const ext = path.extname(LOG_FILENAME);
+  return path.join(dir, `${path.basename(LOG_FILENAME, ext)}.${n}${ext}`);
+}
+
+/** Shift `myclaw.log` → `myclaw.1.log` → ... and drop the oldest. */
+function rotate(dir: string, maxFiles: number): void {
+  fs.rmSync(rotatedPath(dir, maxFiles), { force: true });
+  for (let n = maxFiles - 1; n >= 0; n--) {
+    const from = rotatedPath(dir, n);
+    if (fs.existsSync(from)) fs.renameSync(from, rotatedPath(dir, n + 1));
+  }
+}
+
+/** Append records as JSON lines to `<dir>/myclaw.log`, rotating by size. */
+export function createFileSink(options: FileSinkOptions = {}): LogSink & { readonly path: string } {
+  const dir = options.dir ?? resolveLogsDir();
+  const maxBytes = options.maxBytes ?? DEFAULT_LOG_MAX_BYTES;
+  const maxFiles = options.maxFiles ?? DEFAULT_LOG_MAX_FILES;
+  const filePath = rotatedPath(dir, 0);
+
+  let size: number | undefined;
+
+  return {
+    path: filePath,
+    level: options.level,
+    write(record: LogRecord): void {
+      const line = JSON.stringify(record) + "\n";
+      const bytes = Buffer.byteLength(line);
+      if (size === undefined) {
+        ensureDir(dir);
+        size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+      }
+      if (size > 0 && size + bytes > maxBytes) {
+        rotate(dir, maxFiles);
+        size = 0;
+      }
+      fs.appendFileSync(filePath, line, "utf-8");
+      size += bytes;
+    },
+  };
+}
+
+// ── Console sink ────────────────────────────────────────────────────
+
+export interface ConsoleSinkOptions {
+  /** Default: `process.stderr` (stdout stays free for replies and command output). */
+  stream?: NodeJS.WritableStream & { isTTY?: boolean };
+  /** ANSI colors. Default: when the stream is a TTY and `NO_COLOR` is unset. */
+  color?: boolean;
+  level?: LogLevel;
+}
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "\x1b[90m",
+  info: "\x1b[36m",
+  warn: "\x1b[33m",
+  error: "\x1b[31m",
+};
+const DIM = "\x1b[2m";
+const RESET = "\x1b[0m";
+
+/** `key=value` for a field — strings bare unless they contain spaces, the rest as JSON. */
+function formatField(key: string, value: unknown): string {
+  if (typeof value === "string" && value !== "" && !/[\s"=]/.test(value)) return `${key}=${value}`;
+  return `${key}=${JSON.stringify(value)}`;
+}
+
+/**
+ * Format a record for humans:
+ *   12:00:00.000 WARN  [agent] retrying LLM call reason=rate_limit attempt=1
+ *
+ * Error fields show their message; at level `error` the first stack is
+ * printed on the following lines.
+ */
+export function formatLogRecord(record: LogRecord, color = false): string {
+  const { time, level, subsystem, msg, ...fields } = record;
+  const clock = time.slice(11, 23);
+  const label = level.toUpperCase().padEnd(5);
+
+  let stack: string | undefined;
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(fields)) {
+    const err = value as { message?: unknown; stack?: unknown } | null;
+    if (typeof err === "object" && err !== null && typeof err.message === "string") {
+      parts.push(formatField(key, err.message));
+      if (typeof err.stack === "string" && level === "error") stack ??= err.stack;
+    } else {
+      parts.push(formatField(key, value));
+    }
+  }
+
+  const head = color
+    ? `${DIM}${clock}${RESET} ${LEVEL_COLORS[level]}${label}${RESET} ${DIM}[${subsystem}]${RESET} ${msg}`
+    : `${clock} ${label} [${subsystem}] ${msg}`;
+  const line = parts.length > 0 ? `${head} ${parts.join(" ")}` : head;
+  if (!stack) return line;
+  const indented = stack.split("\n").slice(1).join("\n");
+  return indented ? `${line}\n${color ? `${DIM}${indented}${RESET}` : indented}` : line;
+}
+
+/** Write records as formatted lines (see `formatLogRecord()`). */
+export function createConsoleSink(options: ConsoleSinkOptions = {}): LogSink {
+  const stream = options.stream ?? process.stderr;
+  const color = options.color ?? (Boolean(stream.isTTY) && !process.env.NO_COLOR);
+  return {
+    level: options.level,
+    write(record: LogRecord): void {
+      stream.write(formatLogRecord(record, color) + "\n");
+    },
+  };
+}
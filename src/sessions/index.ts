@@ -25,6 +25,7 @@
 export {
   buildSessionKey,
   parseSessionKey,
+  normalizeSessionKeySegment,
   sessionKeyToSlug,
   type SessionKeyParams,
   type ParsedSessionKey,
@@ -34,11 +35,17 @@ export {
 export {
   appendMessage,
   appendMessages,
+  appendCompaction,
   loadTranscript,
+  loadTranscriptRecords,
+  isTranscriptCompaction,
+  findLatestCompaction,
   countMessages,
   deleteTranscript,
   resolveTranscriptPath,
   type TranscriptMessage,
+  type TranscriptCompaction,
+  type TranscriptRecord,
   type MessageRole,
 } from "./transcript.js";
 
@@ -42,8 +42,11 @@ const MAX_SEGMENT_LEN = 128;
  * - collapse whitespace → underscore
  * - strip characters that aren't safe for filenames / key lookups
  * - clamp length to 128
+ *
+ * Also used to compare configured match values (`channel`, `peerId`, ...)
+ * against parsed keys.
  */
-function normalizeSegment(raw: string, fallback: string): string {
+export function normalizeSessionKeySegment(raw: string, fallback = "unknown"): string {
   const trimmed = raw.trim();
   if (!trimmed) return fallback;
 
@@ -75,11 +78,11 @@ function normalizeSegment(raw: string, fallback: string): string {
  * ```
  */
 export function buildSessionKey(params: SessionKeyParams): string {
-  const agentId = normalizeSegment(params.agentId ?? "main", "main");
-  const channel = normalizeSegment(params.channel, "unknown");
-  const accountId = normalizeSegment(params.accountId ?? "default", "default");
+  const agentId = normalizeSessionKeySegment(params.agentId ?? "main", "main");
+  const channel = normalizeSessionKeySegment(params.channel, "unknown");
+  const accountId = normalizeSessionKeySegment(params.accountId ?? "default", "default");
   const peerKind = params.peerKind; // already constrained by type
-  const peerId = normalizeSegment(params.peerId, "unknown");
+  const peerId = normalizeSessionKeySegment(params.peerId, "unknown");
 
   return `agent:${agentId}:channel:${channel}:account:${accountId}:peer:${peerKind}:${peerId}`;
 }
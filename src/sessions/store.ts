@@ -20,6 +20,9 @@ import path from "node:path";
 import crypto from "node:crypto";
 
 import { resolveSessionsDir, ensureDir } from "../config/paths.js";
+import { getLogger } from "../logging/logger.js";
+
+const log = getLogger("sessions");
 
 // ── Types ───────────────────────────────────────────────────────────
 
@@ -36,10 +39,14 @@ export interface SessionEntry {
   lastTo?: string;
   /** Chat type of the last interaction. */
   chatType?: "direct" | "group" | "channel";
+  /** Provider (config name, `"default"` for the root `provider`) that answered the last agent run. */
+  provider?: string;
   /** Model used in the last agent run. */
   model?: string;
   /** Cumulative token usage. */
   totalTokens?: number;
+  /** Tools approved for the rest of the session ("allow for session"). */
+  approvedTools?: string[];
   /** Arbitrary extra metadata (extensible). */
   extra?: Record<string, unknown>;
 }
@@ -101,10 +108,11 @@ export function loadSessionStore(options?: {
 
   try {
     parsed = JSON.parse(raw) as SessionStore;
-  } catch {
+  } catch (err) {
     // Corrupt file — start fresh but keep backup
     const backupPath = storePath + `.bak.${Date.now()}`;
     fs.copyFileSync(storePath, backupPath);
+    log.warn("session store is corrupt; starting fresh", { file: storePath, backupPath, err });
     parsed = {};
   }
 
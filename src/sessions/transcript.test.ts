@@ -3,10 +3,15 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
+import { configureLogging, resetLogging, type LogRecord } from "../logging/index.js";
+
 import {
   appendMessage,
   appendMessages,
+  appendCompaction,
   loadTranscript,
+  loadTranscriptRecords,
+  findLatestCompaction,
   countMessages,
   deleteTranscript,
   resolveTranscriptPath,
@@ -204,6 +209,36 @@ describe("loadTranscript", () => {
     expect(messages[0].content).toBe("OK");
   });
 
+  it("logs a warning for each skipped line", () => {
+    const logged: LogRecord[] = [];
+    configureLogging({ sinks: [{ write: (r) => logged.push(r) }] });
+    const filePath = resolveTranscriptPath(TEST_KEY, tmpDir);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      ["NOT VALID JSON", '{"role":"user"}', '{"role":"user","content":"OK","ts":1}'].join("\n"),
+      "utf-8",
+    );
+
+    try {
+      loadTranscript(TEST_KEY, { sessionsDir: tmpDir });
+    } finally {
+      resetLogging();
+    }
+
+    expect(logged).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        subsystem: "sessions",
+        msg: "skipped malformed transcript line",
+        sessionKey: TEST_KEY,
+        file: filePath,
+        line: 1,
+      }),
+      expect.objectContaining({ msg: "skipped transcript line without role/content", line: 2 }),
+    ]);
+  });
+
   it("preserves message order", () => {
     const ts = [1000, 2000, 3000];
     for (const t of ts) {
@@ -219,6 +254,76 @@ describe("loadTranscript", () => {
   });
 });
 
+// ── Compaction checkpoints ──────────────────────────────────────────
+
+describe("compaction checkpoints", () => {
+  function seed(): void {
+    appendMessages(
+      TEST_KEY,
+      [
+        { role: "user", content: "A", ts: 1 },
+        { role: "assistant", content: "B", ts: 2 },
+        { role: "user", content: "C", ts: 3 },
+      ],
+      { sessionsDir: tmpDir },
+    );
+    appendCompaction(
+      TEST_KEY,
+      { summary: "A and B", fromIndex: 0, toIndex: 2, ts: 4 },
+      { sessionsDir: tmpDir },
+    );
+  }
+
+  it("appends a compaction record after the messages", () => {
+    seed();
+    const lines = fs
+      .readFileSync(resolveTranscriptPath(TEST_KEY, tmpDir), "utf-8")
+      .trim()
+      .split("\n");
+    expect(JSON.parse(lines[lines.length - 1])).toEqual({
+      type: "compaction",
+      summary: "A and B",
+      fromIndex: 0,
+      toIndex: 2,
+      ts: 4,
+    });
+  });
+
+  it("loads messages and checkpoints in file order", () => {
+    seed();
+    const records = loadTranscriptRecords(TEST_KEY, { sessionsDir: tmpDir });
+    expect(records).toHaveLength(4);
+    expect(findLatestCompaction(records)).toMatchObject({ summary: "A and B", toIndex: 2 });
+  });
+
+  it("keeps the replaced messages in loadTranscript() and countMessages()", () => {
+    seed();
+    expect(loadTranscript(TEST_KEY, { sessionsDir: tmpDir }).map((m) => m.content)).toEqual([
+      "A",
+      "B",
+      "C",
+    ]);
+    expect(countMessages(TEST_KEY, { sessionsDir: tmpDir })).toBe(3);
+  });
+
+  it("returns the most recent checkpoint", () => {
+    seed();
+    appendCompaction(TEST_KEY, { summary: "A to C", fromIndex: 0, toIndex: 3 }, { sessionsDir: tmpDir });
+    const records = loadTranscriptRecords(TEST_KEY, { sessionsDir: tmpDir });
+    expect(findLatestCompaction(records)?.summary).toBe("A to C");
+    expect(findLatestCompaction([])).toBeUndefined();
+  });
+
+  it("skips checkpoints with a malformed range", () => {
+    seed();
+    fs.appendFileSync(
+      resolveTranscriptPath(TEST_KEY, tmpDir),
+      JSON.stringify({ type: "compaction", summary: "x", fromIndex: "0" }) + "\n",
+    );
+    expect(loadTranscriptRecords(TEST_KEY, { sessionsDir: tmpDir })).toHaveLength(4);
+  });
+});
+
 // ── countMessages ───────────────────────────────────────────────────
 
 describe("countMessages", () => {
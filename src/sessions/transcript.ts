@@ -13,14 +13,24 @@
  * Subsequent lines are messages:
  *   {"role":"user","content":"Hello","ts":1708000000000}
  *   {"role":"assistant","content":"Hi!","ts":1708000001000}
+ *
+ * and **compaction checkpoints** — a summary that stands in for messages
+ * `[fromIndex, toIndex)` (indices into the message lines, as returned by
+ * `loadTranscript()`) when the history is replayed to the model:
+ *   {"type":"compaction","summary":"...","fromIndex":0,"toIndex":42,"ts":1708000002000}
+ *
+ * The replaced messages stay in the file for export and audit.
  */
 
 import fs from "node:fs";
 import path from "node:path";
 
 import { resolveSessionsDir, ensureDir } from "../config/paths.js";
+import { getLogger } from "../logging/logger.js";
 import { sessionKeyToSlug } from "./session-key.js";
 
+const log = getLogger("sessions");
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export type MessageRole = "user" | "assistant" | "system" | "tool";
@@ -38,6 +48,21 @@ export interface TranscriptMessage {
   meta?: Record<string, unknown>;
 }
 
+/** A compaction summary replacing messages `[fromIndex, toIndex)`. */
+export interface TranscriptCompaction {
+  type: "compaction";
+  summary: string;
+  /** Index of the first replaced message. */
+  fromIndex: number;
+  /** Index of the first message after the replaced range. */
+  toIndex: number;
+  /** Epoch-millisecond timestamp. */
+  ts: number;
+}
+
+/** A transcript line: a message or a compaction checkpoint. */
+export type TranscriptRecord = TranscriptMessage | TranscriptCompaction;
+
 interface SessionHeader {
   type: "session";
   sessionKey: string;
@@ -128,51 +153,134 @@ export function appendMessages(
   fs.appendFileSync(filePath, lines.join("\n") + "\n", "utf-8");
 }
 
+/**
+ * Append a compaction checkpoint. Its indices refer to the messages
+ * already in the transcript, so append the messages it covers first.
+ */
+export function appendCompaction(
+  sessionKey: string,
+  compaction: Omit<TranscriptCompaction, "type" | "ts"> & { ts?: number },
+  options?: { sessionsDir?: string },
+): void {
+  const filePath = resolveTranscriptPath(sessionKey, options?.sessionsDir);
+  ensureTranscriptFile(filePath, sessionKey);
+
+  const entry: TranscriptCompaction = {
+    type: "compaction",
+    summary: compaction.summary,
+    fromIndex: compaction.fromIndex,
+    toIndex: compaction.toIndex,
+    ts: compaction.ts ?? Date.now(),
+  };
+
+  fs.appendFileSync(filePath, JSON.stringify(entry) + "\n", "utf-8");
+}
+
 // ── Read ────────────────────────────────────────────────────────────
 
+/** Whether a transcript record is a compaction checkpoint. */
+export function isTranscriptCompaction(record: TranscriptRecord): record is TranscriptCompaction {
+  return "type" in record && record.type === "compaction";
+}
+
 /**
- * Load the full transcript for a session.
+ * Load every message and compaction checkpoint of a session, in file order.
  *
  * Returns an empty array if the transcript file doesn't exist.
  * Blank lines and the session header line are silently skipped.
  * Malformed lines are skipped with a warning (no throw).
  */
-export function loadTranscript(
+export function loadTranscriptRecords(
   sessionKey: string,
   options?: { sessionsDir?: string },
-): TranscriptMessage[] {
+): TranscriptRecord[] {
   const filePath = resolveTranscriptPath(sessionKey, options?.sessionsDir);
 
   if (!fs.existsSync(filePath)) return [];
 
   const raw = fs.readFileSync(filePath, "utf-8");
   const lines = raw.split("\n");
-  const messages: TranscriptMessage[] = [];
+  const records: TranscriptRecord[] = [];
 
-  for (const line of lines) {
+  for (const [i, line] of lines.entries()) {
     const trimmed = line.trim();
     if (!trimmed) continue;
 
+    let parsed;
     try {
-      const parsed = JSON.parse(trimmed);
-      // Skip session header lines
-      if (parsed.type === "session") continue;
-      // Validate minimal shape
-      if (typeof parsed.role === "string" && typeof parsed.content === "string") {
-        messages.push({
-          role: parsed.role,
-          content: parsed.content,
+      parsed = JSON.parse(trimmed);
+    } catch (err) {
+      log.warn("skipped malformed transcript line", { sessionKey, file: filePath, line: i + 1, err });
+      continue;
+    }
+
+    // Skip session header lines
+    if (parsed?.type === "session") continue;
+    if (parsed?.type === "compaction") {
+      if (
+        typeof parsed.summary === "string" &&
+        Number.isInteger(parsed.fromIndex) &&
+        Number.isInteger(parsed.toIndex)
+      ) {
+        records.push({
+          type: "compaction",
+          summary: parsed.summary,
+          fromIndex: parsed.fromIndex,
+          toIndex: parsed.toIndex,
           ts: typeof parsed.ts === "number" ? parsed.ts : 0,
-          ...(parsed.toolCallId ? { toolCallId: parsed.toolCallId } : {}),
-          ...(parsed.meta ? { meta: parsed.meta } : {}),
         });
+      } else {
+        log.warn("skipped invalid compaction checkpoint", { sessionKey, file: filePath, line: i + 1 });
       }
-    } catch {
-      // Skip malformed lines — log in production, silence in MVP
+      continue;
+    }
+    // Validate minimal shape
+    if (typeof parsed?.role === "string" && typeof parsed.content === "string") {
+      records.push({
+        role: parsed.role,
+        content: parsed.content,
+        ts: typeof parsed.ts === "number" ? parsed.ts : 0,
+        ...(parsed.toolCallId ? { toolCallId: parsed.toolCallId } : {}),
+        ...(parsed.meta ? { meta: parsed.meta } : {}),
+      });
+    } else {
+      log.warn("skipped transcript line without role/content", {
+        sessionKey,
+        file: filePath,
+        line: i + 1,
+      });
     }
   }
 
-  return messages;
+  return records;
+}
+
+/**
+ * Load the full transcript for a session — every message, including those
+ * a compaction checkpoint replaced (the checkpoints themselves are skipped).
+ *
+ * Returns an empty array if the transcript file doesn't exist.
+ */
+export function loadTranscript(
+  sessionKey: string,
+  options?: { sessionsDir?: string },
+): TranscriptMessage[] {
+  return loadTranscriptRecords(sessionKey, options).filter(
+    (r): r is TranscriptMessage => !isTranscriptCompaction(r),
+  );
+}
+
+/**
+ * The most recent compaction checkpoint among `records`, if any.
+ */
+export function findLatestCompaction(
+  records: readonly TranscriptRecord[],
+): TranscriptCompaction | undefined {
+  for (let i = records.length - 1; i >= 0; i--) {
+    const record = records[i];
+    if (isTranscriptCompaction(record)) return record;
+  }
+  return undefined;
 }
 
 /**